@@ -4,38 +4,114 @@
  * Manages initialization and coordination of the interactive image cloud
  */
 
-import type { ImageCloudOptions, ImageCloudConfig, ImageLayout, ContainerBounds, ImageLoader, EntryAnimationConfig, LoaderEntry, SharedLoaderConfig, StaticLoaderInnerConfig, GoogleDriveLoaderInnerConfig, ImageCloudCallbacks, ImageStateContext, BeforeLoadContext, BeforeLoadResult, ImageLoadedContext, ImageErrorContext, LoadProgressContext, GalleryReadyContext, EntryStartContext, EntryProgressContext, EntryCompleteContext, LayoutCompleteContext } from './config/types';
-import { mergeConfig, DEFAULT_CONFIG } from './config/defaults';
+import type { ImageCloudOptions, ImageCloudConfig, ImageLayout, LayoutAlgorithm, PlacementLayoutFactory, ManualLayoutItem, SetLayoutOptions, ClearOptions, ElementPlacement, ExitAnimationConfig, ExitStartContext, ExitCompleteContext, ImageStylingConfig, ContainerBounds, FocusBounds, ImageLoader, EntryAnimationConfig, LoaderEntry, SharedLoaderConfig, StaticLoaderInnerConfig, GoogleDriveLoaderInnerConfig, ImageCloudCallbacks, ImageDescriptor, ImageSource, ImageStateContext, BeforeLoadContext, BeforeLoadResult, ImageLoadedContext, ImageErrorContext, LoadProgressContext, GalleryReadyContext, EntryStartContext, EntryProgressContext, EntryCompleteContext, LayoutCompleteContext } from './config/types';
+import { ZoomState } from './config/types';
+import { mergeConfig, DEFAULT_CONFIG, DEFAULT_EXIT_ANIMATION } from './config/defaults';
 import { AnimationEngine } from './engines/AnimationEngine';
 import { EntryAnimationEngine } from './engines/EntryAnimationEngine';
+import { ExitAnimationEngine, ExitStartFrame } from './engines/ExitAnimationEngine';
 import { IdleAnimationEngine } from './engines/IdleAnimationEngine';
 import { LayoutEngine } from './engines/LayoutEngine';
 import { ZoomEngine } from './engines/ZoomEngine';
 import { SwipeEngine, SNAP_BACK_DURATION_MS } from './engines/SwipeEngine';
+import { RearrangeEngine } from './engines/RearrangeEngine';
+import { CanvasEngine } from './engines/CanvasEngine';
+import { SceneEngine } from './engines/SceneEngine';
+import { DetailZoomEngine } from './engines/DetailZoomEngine';
+import { LightboxEngine } from './engines/LightboxEngine';
 import { animatePath } from './engines/PathAnimator';
 import { GoogleDriveLoader } from './loaders/GoogleDriveLoader';
 import { StaticImageLoader } from './loaders/StaticImageLoader';
 import { CompositeLoader } from './loaders/CompositeLoader';
 import { ImageFilter } from './loaders/ImageFilter';
-import { buildStyleProperties, applyStylesToElementWithState, applyClassNameToElement, removeClassNameFromElement, StyleProperties } from './utils/styleUtils';
+import { buildStyleProperties, applyStylesToElementWithState, removeStylesFromElement, applyClassNameToElement, removeClassNameFromElement, StyleProperties } from './utils/styleUtils';
 import { injectFunctionalStyles } from './styles/functionalStyles';
+import { descriptorsFromUrls, toImageDescriptor, getThumbnailUrl, getFullUrl, getKnownAspectRatio } from './utils/imageDescriptor';
+
+// Largest 'auto' canvas surface, as a multiple of the container side
+const MAX_AUTO_CANVAS_SIZE = 10;
+
+// Aspect ratio drawn on the minimap for images that have not loaded (as adaptive sizing assumes)
+const MINIMAP_ASPECT_RATIO = 1.4;
+
+// Largest difference between a declared and the loaded aspect ratio that still counts as a match
+const ASPECT_RATIO_TOLERANCE = 0.02;
+
+/**
+ * Load bookkeeping for one gallery render (replaced on every full reload)
+ */
+interface LoadSession {
+  loaded: Set<HTMLImageElement>;
+  failed: Set<HTMLImageElement>;
+  firstSrcSetTime: number;
+  srcSetTimes: Map<HTMLImageElement, number>;
+  queueStarted: boolean;
+  galleryReadyFired: boolean;
+  awaitingLayout: HTMLImageElement[];  // Loaded, held back until an aspect-ratio layout has placed them
+}
+
+/**
+ * Size of a loaded image element
+ */
+interface ImageElementSize {
+  aspectRatio: number;     // Natural width / height
+  renderedWidth?: number;  // Width at the current image height, once sized for its slot
+}
+
+/**
+ * A displayed image captured for its exit animation before gallery state is reset
+ */
+interface ExitingImage {
+  element: HTMLImageElement;
+  index: number;
+  image: ImageDescriptor;
+  placement: ElementPlacement;
+  from: ExitStartFrame;
+}
+
+/**
+ * Merge option changes into the current options one level deep: each section
+ * (`layout`, `animation`, `on`, ...) is merged key by key, arrays and values replace.
+ * The container cannot change.
+ */
+function mergeOptions(current: ImageCloudOptions, changes: Omit<ImageCloudOptions, 'container'>): ImageCloudOptions {
+  const isSection = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof HTMLElement);
+
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(changes)) {
+    if (key === 'container') continue;
+    const previous = merged[key];
+    merged[key] = isSection(previous) && isSection(value) ? { ...previous, ...value } : value;
+  }
+  return merged as ImageCloudOptions;
+}
 
 export class ImageCloud {
   private containerId: string | null;
   private containerRef: HTMLElement | null;
 
   // Internal state
+  private options: ImageCloudOptions;
   private fullConfig: ImageCloudConfig;
   private imagesLoaded: boolean;
-  private imageElements: HTMLImageElement[];
+  private imageElements: HTMLImageElement[];  // Displayed images, in display order
+  private elementsByIndex: HTMLImageElement[];  // Every image element (loading or displayed), by index
   private imageLayouts: ImageLayout[];
+  private imageDescriptors: ImageDescriptor[];
   private currentImageHeight: number;
   private currentFocusIndex: number | null;
   private hoveredImage: { element: HTMLImageElement; layout: ImageLayout } | null;
+  private draggedImage: { element: HTMLImageElement; previousLayout: ImageLayout; transition: string } | null;
   private resizeTimeout: number | null;
+  private resizeObserver: ResizeObserver | null;
+  private layoutBounds: ContainerBounds | null;  // Container size the current layouts were computed for
+  private containerMinHeight: string | null;     // Inline min-height to restore after a layout grew the container
   private displayQueue: HTMLImageElement[];
   private queueInterval: number | null;
-  private loadGeneration: number;
+  private loadSession: LoadSession | null;
+  private entryCancels: Map<HTMLImageElement, () => void>;
+  private relayoutGeneration: number;
 
   // Precomputed styling
   private defaultStyles: StyleProperties;
@@ -49,6 +125,11 @@ export class ImageCloud {
   private layoutEngine: LayoutEngine;
   private zoomEngine: ZoomEngine;
   private swipeEngine: SwipeEngine | null;
+  private rearrangeEngine: RearrangeEngine | null;
+  private canvasEngine: CanvasEngine | null;
+  private sceneEngine: SceneEngine | null;
+  private detailZoomEngine: DetailZoomEngine | null;
+  private lightbox: LightboxEngine | null;
   private imageLoader: ImageLoader;
   private imageFilter: ImageFilter;
 
@@ -69,7 +150,33 @@ export class ImageCloud {
   private prevButtonElAutoCreated: boolean;
   private nextButtonElAutoCreated: boolean;
 
+  // Bound event handlers for proper cleanup
+  private boundPrevButtonClick: (e: MouseEvent) => void;
+  private boundNextButtonClick: (e: MouseEvent) => void;
+  private boundResize: () => void;
+  private boundKeyDown: (e: KeyboardEvent) => void;
+
+  // Lightbox copies of focused images, keyed by the cloud image they show
+  private lightboxImages: Map<HTMLImageElement, HTMLImageElement> = new Map();
+
+  // Measured size per loaded image element
+  private elementSizes: WeakMap<HTMLElement, ImageElementSize> = new WeakMap();
+
+  // Last setLayout()/updateOptions()/setOptions() call; the next one waits for it and builds on its result
+  private pendingOptionChange: Promise<void> = Promise.resolve();
+
+  /**
+   * Add a named placement layout that any gallery can select with `layout.algorithm`
+   * or setLayout(). Register before creating the galleries that use it.
+   * @param name - Algorithm name, must not be a built-in algorithm
+   * @param factory - Creates the layout from the gallery's layout and image config
+   */
+  static registerLayout(name: string, factory: PlacementLayoutFactory): void {
+    LayoutEngine.registerLayout(name, factory);
+  }
+
   constructor(options: ImageCloudOptions = {}) {
+    this.options = options;
     this.fullConfig = mergeConfig(options);
 
     // Container can be a string ID or an HTMLElement reference
@@ -87,14 +194,21 @@ export class ImageCloud {
     // Internal state
     this.imagesLoaded = false;
     this.imageElements = [];
+    this.elementsByIndex = [];
     this.imageLayouts = [];
+    this.imageDescriptors = [];
     this.currentImageHeight = 225;
     this.currentFocusIndex = null;
     this.hoveredImage = null;
     this.resizeTimeout = null;
+    this.resizeObserver = null;
+    this.layoutBounds = null;
+    this.containerMinHeight = null;
     this.displayQueue = [];
     this.queueInterval = null;
-    this.loadGeneration = 0;
+    this.loadSession = null;
+    this.entryCancels = new Map();
+    this.relayoutGeneration = 0;
     this.loadingElAutoCreated = false;
     this.errorElAutoCreated = false;
     this.counterEl = null;
@@ -103,6 +217,16 @@ export class ImageCloud {
     this.nextButtonEl = null;
     this.prevButtonElAutoCreated = false;
     this.nextButtonElAutoCreated = false;
+    this.boundPrevButtonClick = (e) => {
+      e.stopPropagation();
+      this.navigateToPreviousImage();
+    };
+    this.boundNextButtonClick = (e) => {
+      e.stopPropagation();
+      this.navigateToNextImage();
+    };
+    this.boundResize = () => this.handleResize();
+    this.boundKeyDown = (e) => this.handleKeyDown(e);
 
     // Initialize engines with new config structure
     this.animationEngine = new AnimationEngine(this.fullConfig.animation);
@@ -110,75 +234,98 @@ export class ImageCloud {
       layout: this.fullConfig.layout,
       image: this.fullConfig.image
     });
-    this.zoomEngine = new ZoomEngine(this.fullConfig.interaction.focus, this.animationEngine, this.fullConfig.styling);
+    this.zoomEngine = this.createZoomEngine();
 
     // Precompute styling properties
     this.defaultStyles = buildStyleProperties(this.fullConfig.styling?.default);
     this.defaultClassName = this.fullConfig.styling?.default?.className;
     this.hoverClassName = this.fullConfig.styling?.hover?.className;
 
-    // Initialize entry animation engine with layout-aware defaults
-    const entryConfig = this.fullConfig.animation.entry || DEFAULT_CONFIG.animation.entry!;
-    this.entryAnimationEngine = new EntryAnimationEngine(
-      entryConfig as EntryAnimationConfig,
-      this.fullConfig.layout.algorithm
-    );
+    this.entryAnimationEngine = this.createEntryAnimationEngine();
+    this.idleAnimationEngine = this.createIdleAnimationEngine();
 
-    // Initialize idle animation engine if configured
-    const idleConfig = this.fullConfig.animation.idle;
-    if (idleConfig && idleConfig.type !== 'none') {
-      this.idleAnimationEngine = new IdleAnimationEngine(
-        idleConfig,
-        (entryConfig as EntryAnimationConfig).timing?.duration ?? 600
-      );
-    } else {
-      this.idleAnimationEngine = null;
-    }
+    // SwipeEngine, RearrangeEngine, CanvasEngine, SceneEngine, DetailZoomEngine and the lightbox will be initialized after container is available
+    this.swipeEngine = null;
+    this.rearrangeEngine = null;
+    this.canvasEngine = null;
+    this.sceneEngine = null;
+    this.detailZoomEngine = null;
+    this.lightbox = null;
+    this.draggedImage = null;
+
+    // Initialize image filter with configured extensions
+    this.imageFilter = this.createImageFilter();
+
+    // Initialize image loader based on type
+    this.imageLoader = this.createLoader();
+
+    // DOM Elements (will be fetched on init)
+    this.containerEl = null;
+    this.loadingEl = null;
+    this.errorEl = null;
+  }
+
+  /**
+   * Create the zoom engine and wire its unfocus callback
+   */
+  private createZoomEngine(): ZoomEngine {
+    const focusConfig = this.fullConfig.interaction.focus;
+    // The lightbox fits the image to its whole stage
+    const zoomEngine = new ZoomEngine(
+      focusConfig.mode === 'lightbox' ? { ...focusConfig, scalePercent: 1 } : focusConfig,
+      this.animationEngine,
+      this.fullConfig.styling
+    );
 
     // Wire unfocus complete callback to resume idle animations and re-apply hover styles
-    this.zoomEngine.setOnUnfocusCompleteCallback((el) => {
-      this.idleAnimationEngine?.resumeForImage(el as HTMLImageElement);
+    zoomEngine.setOnUnfocusCompleteCallback((el) => {
+      // A lightbox copy has flown back: show the cloud image again in its place
+      const img = this.removeLightboxImage(el as HTMLImageElement);
+      this.sceneEngine?.resumeForImage(img);
+      this.idleAnimationEngine?.resumeForImage(img);
       // If the cursor is still over this image, mouseenter won't re-fire — re-apply hover styles.
       // Defer to next frame so the browser updates :hover after the animation finishes.
-      const img = el as HTMLImageElement;
-      const unfocusIdx = this.imageElements.indexOf(img);
-      if (this.callbacks.onImageUnfocus && unfocusIdx !== -1) {
-        const urls = this.imageLoader.imageURLs();
-        const ctx: ImageStateContext = {
-          element: img,
-          index: unfocusIdx,
-          url: urls[unfocusIdx] ?? '',
-          layout: this.imageLayouts[unfocusIdx]
-        };
-        this.callbacks.onImageUnfocus(ctx);
+      const unfocusState = this.imageElements.includes(img) ? this.getImageState(img) : null;
+      if (this.callbacks.onImageUnfocus && unfocusState) {
+        this.callbacks.onImageUnfocus(unfocusState);
       }
       requestAnimationFrame(() => {
         if (img.matches(':hover') && this.fullConfig.styling?.hover) {
-          const idx = this.imageElements.indexOf(img);
-          if (idx !== -1) {
+          const state = this.imageElements.includes(img) ? this.getImageState(img) : null;
+          if (state) {
             const imageHeight = img.offsetHeight;
-            const cachedWidth = (img as any).cachedRenderedWidth;
+            const cachedWidth = this.elementSizes.get(img)?.renderedWidth;
             applyStylesToElementWithState(img, this.fullConfig.styling.hover, imageHeight, cachedWidth);
             applyClassNameToElement(img, this.hoverClassName);
-            this.hoveredImage = { element: img, layout: this.imageLayouts[idx] };
+            this.hoveredImage = { element: img, layout: state.layout };
           }
         }
       });
     });
 
-    // SwipeEngine will be initialized after container is available
-    this.swipeEngine = null;
-
-    // Initialize image filter with configured extensions
-    this.imageFilter = this.createImageFilter();
+    return zoomEngine;
+  }
 
-    // Initialize image loader based on type
-    this.imageLoader = this.createLoader();
+  /**
+   * Create the entry animation engine with layout-aware defaults
+   */
+  private createEntryAnimationEngine(): EntryAnimationEngine {
+    const entryConfig = this.fullConfig.animation.entry || DEFAULT_CONFIG.animation.entry!;
+    return new EntryAnimationEngine(
+      entryConfig as EntryAnimationConfig,
+      this.fullConfig.layout.algorithm,
+      this.fullConfig.animation.seed
+    );
+  }
 
-    // DOM Elements (will be fetched on init)
-    this.containerEl = null;
-    this.loadingEl = null;
-    this.errorEl = null;
+  /**
+   * Create the idle animation engine if configured
+   */
+  private createIdleAnimationEngine(): IdleAnimationEngine | null {
+    const idleConfig = this.fullConfig.animation.idle;
+    if (!idleConfig || idleConfig.type === 'none') return null;
+    const entryConfig = (this.fullConfig.animation.entry || DEFAULT_CONFIG.animation.entry!) as EntryAnimationConfig;
+    return new IdleAnimationEngine(idleConfig, entryConfig.timing?.duration ?? 600, this.fullConfig.animation.seed);
   }
 
   /**
@@ -265,23 +412,12 @@ export class ImageCloud {
       this.containerEl.setAttribute('role', 'region');
       this.containerEl.setAttribute('aria-label', 'Image gallery');
 
-      // Initialize swipe engine for touch navigation (guarded by config flag)
-      if (this.fullConfig.interaction.navigation?.swipe !== false) {
-        this.swipeEngine = new SwipeEngine(this.containerEl, {
-          onNext: () => this.navigateToNextImage(),
-          onPrev: () => this.navigateToPreviousImage(),
-          onDragOffset: (offset) => this.zoomEngine.setDragOffset(offset),
-          onDragEnd: (navigated) => {
-            if (!navigated) {
-              // Snap back to center with animation
-              this.zoomEngine.clearDragOffset(true, SNAP_BACK_DURATION_MS);
-            } else {
-              // Clear offset immediately (navigation handles transition)
-              this.zoomEngine.clearDragOffset(false);
-            }
-          }
-        });
-      }
+      this.setupLightbox();
+      this.setupSwipeEngine();
+      this.setupRearrangeEngine();
+      this.setupCanvasEngine();
+      this.setupSceneEngine();
+      this.setupDetailZoomEngine();
 
       // Create or bind UI elements
       this.setupUI();
@@ -301,6 +437,283 @@ export class ImageCloud {
     }
   }
 
+  /**
+   * Initialize swipe engine for touch navigation (guarded by config flag)
+   */
+  private setupSwipeEngine(): void {
+    if (!this.containerEl || this.fullConfig.interaction.navigation?.swipe === false) return;
+    this.swipeEngine = new SwipeEngine(this.getFocusRoot()!, {
+      onNext: () => this.navigateToNextImage(),
+      onPrev: () => this.navigateToPreviousImage(),
+      // A zoomed-in image pans instead
+      canSwipe: () => this.zoomEngine.getDetailZoom() <= 1,
+      onDragOffset: (offset) => this.zoomEngine.setDragOffset(offset),
+      onDragEnd: (navigated) => {
+        if (!navigated) {
+          // Snap back to center with animation
+          this.zoomEngine.clearDragOffset(true, SNAP_BACK_DURATION_MS);
+        } else {
+          // Clear offset immediately (navigation handles transition)
+          this.zoomEngine.clearDragOffset(false);
+        }
+      }
+    });
+  }
+
+  /**
+   * Initialize drag-to-rearrange (guarded by config flag)
+   */
+  private setupRearrangeEngine(): void {
+    if (!this.containerEl || !this.fullConfig.interaction.rearrange) return;
+    this.rearrangeEngine = new RearrangeEngine(this.containerEl, {
+      canDrag: (element) => this.canDragImage(element as HTMLImageElement),
+      onDragStart: (element) => this.startImageDrag(element as HTMLImageElement),
+      onDragMove: (element, x, y) => this.moveDraggedImage(element as HTMLImageElement, x, y),
+      onDragEnd: (element, x, y) => this.dropImage(element as HTMLImageElement, x, y),
+      onDragCancel: (element) => this.cancelImageDrag(element as HTMLImageElement),
+      getPointerScale: () => this.canvasEngine?.getZoom() ?? 1
+    });
+    this.rearrangeEngine.enable();
+  }
+
+  /**
+   * Initialize the pannable, zoomable surface (guarded by config flag)
+   * Images already on screen move onto the new stage.
+   */
+  private setupCanvasEngine(): void {
+    if (!this.containerEl || !this.fullConfig.interaction.canvas?.enabled) return;
+    this.canvasEngine = new CanvasEngine(this.containerEl, this.fullConfig.interaction.canvas, {
+      canPan: (target) => this.canPanFrom(target)
+    });
+    this.canvasEngine.enable();
+    this.moveImagesTo(this.canvasEngine.getStage()!);
+  }
+
+  /**
+   * Show a 3D layout (sphere, cylinder, helix) in perspective and turn it
+   * (guarded by the layout). The images join the scene as they enter or re-layout.
+   */
+  private setupSceneEngine(): void {
+    const stage = this.getImageParent();
+    if (!stage || !this.layoutEngine.is3D()) return;
+    this.sceneEngine = new SceneEngine(this.containerEl!, stage, this.fullConfig.layout.scene, {
+      getPlacement: (element) => {
+        const layout = this.imageLayouts[parseInt(element.dataset.imageId || '0', 10)];
+        if (!layout) return null;
+        const height = this.currentImageHeight;
+        return { layout, width: this.elementSizes.get(element)?.renderedWidth ?? height, height };
+      },
+      getCenterX: () => this.getStageBounds().width / 2,
+      getOpacity: () => parseFloat(this.defaultStyles.opacity ?? '1'),
+      isIdle: () => this.currentFocusIndex === null && this.zoomEngine.getState() === ZoomState.IDLE && !this.hoveredImage,
+      // Dragging pans the canvas instead
+      canSpin: (target) => !this.canvasEngine && this.canPanFrom(target)
+    });
+    this.sceneEngine.enable();
+  }
+
+  private teardownSceneEngine(): void {
+    this.sceneEngine?.destroy();
+    this.sceneEngine = null;
+  }
+
+  /**
+   * Transform for an image at its layout slot: its turned pose in a 3D scene,
+   * otherwise its rotation and scale
+   */
+  private buildLayoutTransform(layout: ImageLayout, width: number, height: number): string {
+    return this.sceneEngine?.buildTransform(layout, width, height) ??
+      this.entryAnimationEngine.buildFinalTransform(layout.rotation, layout.scale, width, height);
+  }
+
+  /**
+   * Initialize zooming inside the focused image (guarded by config flag)
+   */
+  private setupDetailZoomEngine(): void {
+    if (!this.containerEl || !this.fullConfig.interaction.focus.detailZoom) return;
+    this.detailZoomEngine = new DetailZoomEngine(this.getFocusRoot()!, {
+      getTarget: () => this.zoomEngine.getState() === ZoomState.FOCUSED ? this.zoomEngine.getCurrentFocus() : null,
+      getZoom: () => this.zoomEngine.getDetailZoom(),
+      getMaxZoom: () => this.zoomEngine.getMaxDetailZoom(),
+      onZoom: (zoom, clientX, clientY, animate) => this.zoomEngine.setDetailZoom(zoom, clientX, clientY, animate),
+      onPan: (dx, dy) => this.zoomEngine.panDetailBy(dx, dy),
+      onClick: (element) => {
+        // Clicks on the lightbox image do nothing, like without detail zoom
+        if (!this.lightbox && this.zoomEngine.isFocused(element)) this.unfocus();
+      }
+    });
+    this.detailZoomEngine.enable();
+  }
+
+  /**
+   * Create the lightbox overlay for focus.mode: 'lightbox'
+   */
+  private setupLightbox(): void {
+    const focusConfig = this.fullConfig.interaction.focus;
+    if (!this.containerEl || focusConfig.mode !== 'lightbox') return;
+    this.lightbox = new LightboxEngine(focusConfig.lightbox ?? {}, focusConfig.animationDuration, {
+      onClose: () => this.unfocus(),
+      onPrev: () => this.navigateToPreviousImage(),
+      onNext: () => this.navigateToNextImage(),
+      onSelect: (index) => {
+        if (index !== this.currentFocusIndex) this.focusImageAt(index);
+      }
+    });
+    this.lightbox.getElement().addEventListener('keydown', this.boundKeyDown);
+  }
+
+  private teardownLightbox(): void {
+    if (!this.lightbox) return;
+    this.dismissLightboxImages();
+    this.lightbox.getElement().removeEventListener('keydown', this.boundKeyDown);
+    this.lightbox.destroy();
+    this.lightbox = null;
+  }
+
+  /**
+   * Element that receives input on the focused image: the lightbox overlay in lightbox mode,
+   * otherwise the container
+   */
+  private getFocusRoot(): HTMLElement | null {
+    return this.lightbox?.getElement() ?? this.containerEl;
+  }
+
+  /**
+   * Element ZoomEngine animates for a cloud image: its lightbox copy in lightbox mode
+   */
+  private getFocusElement(img: HTMLImageElement): HTMLImageElement {
+    return this.lightboxImages.get(img) ?? img;
+  }
+
+  /**
+   * Place a copy of a cloud image on the lightbox stage, over the original, and hide the original
+   * @param rect - Where the original is on screen
+   * @returns The copy and the layout ZoomEngine flies it in from
+   */
+  private createLightboxImage(img: HTMLImageElement, layout: ImageLayout, rect: DOMRect): { element: HTMLImageElement; layout: ImageLayout } {
+    // The copy is sized as the image appears on screen, so it carries no scale of its own
+    const screenScale = layout.scale * (this.canvasEngine?.getZoom() ?? 1);
+    const width = img.offsetWidth * screenScale;
+    const height = img.offsetHeight * screenScale;
+    const copyLayout: ImageLayout = {
+      ...layout,
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
+      // The copy starts flat over the image, wherever a 3D scene had turned it
+      z: undefined,
+      rotationX: undefined,
+      rotationY: undefined,
+      scale: 1,
+      baseSize: height
+    };
+
+    let copy = this.lightboxImages.get(img);
+    if (!copy) {
+      copy = document.createElement('img');
+      copy.referrerPolicy = 'no-referrer';
+      copy.className = 'fbn-ic-image fbn-ic-lightbox-image';
+      copy.alt = img.alt;
+      copy.draggable = false;
+      copy.dataset.imageId = img.dataset.imageId;
+      copy.style.transition = 'none';
+      copy.style.left = `${copyLayout.x}px`;
+      copy.style.top = `${copyLayout.y}px`;
+      copy.style.width = `${width}px`;
+      copy.style.height = `${height}px`;
+      copy.style.transform = `translate(-50%, -50%) rotate(${layout.rotation}deg)`;
+      copy.src = img.currentSrc || img.src;
+      if (img.dataset.fullSrc) copy.dataset.fullSrc = img.dataset.fullSrc;
+      this.lightbox!.getStage().appendChild(copy);
+      this.lightboxImages.set(img, copy);
+      img.style.visibility = 'hidden';
+    }
+    return { element: copy, layout: copyLayout };
+  }
+
+  /**
+   * Remove the lightbox copy `el` once it has flown back, and show its cloud image again
+   * @returns The cloud image (or `el` itself when it is not a lightbox copy)
+   */
+  private removeLightboxImage(el: HTMLImageElement): HTMLImageElement {
+    for (const [img, copy] of this.lightboxImages) {
+      if (copy !== el) continue;
+      copy.remove();
+      img.style.visibility = '';
+      this.lightboxImages.delete(img);
+      if (this.lightboxImages.size === 0) this.lightbox?.detach();
+      return img;
+    }
+    return el;
+  }
+
+  /**
+   * Remove lightbox copies ZoomEngine no longer animates, e.g. after an animation
+   * was superseded before it could complete, and the overlay once it is closed and empty
+   */
+  private pruneLightboxImages(): void {
+    for (const copy of [...this.lightboxImages.values()]) {
+      if (!this.zoomEngine.isInvolved(copy)) this.removeLightboxImage(copy);
+    }
+    if (this.lightboxImages.size === 0) this.lightbox?.detach();
+  }
+
+  /**
+   * Drop every lightbox copy at once and close the overlay (clear, destroy, mode change)
+   */
+  private dismissLightboxImages(): void {
+    for (const [img, copy] of this.lightboxImages) {
+      copy.remove();
+      img.style.visibility = '';
+    }
+    this.lightboxImages.clear();
+    if (this.lightbox) {
+      this.lightbox.close();
+      this.lightbox.detach();
+    }
+  }
+
+  /**
+   * Remove the canvas stage, moving its images back into the container
+   */
+  private teardownCanvasEngine(): void {
+    if (!this.canvasEngine || !this.containerEl) return;
+    this.moveImagesTo(this.containerEl);
+    this.canvasEngine.destroy();
+    this.canvasEngine = null;
+  }
+
+  private moveImagesTo(parent: HTMLElement): void {
+    const current = parent === this.containerEl ? this.canvasEngine?.getStage() : this.containerEl;
+    if (!current) return;
+    current.querySelectorAll(':scope > .fbn-ic-image, :scope > .fbn-ic-debug-center').forEach(el => parent.appendChild(el));
+  }
+
+  /**
+   * Whether a press or wheel on `target` may pan and zoom the canvas, or spin a 3D scene.
+   * Not while an image is focused, and not from an image rearrange can pick up.
+   */
+  private canPanFrom(target: HTMLElement): boolean {
+    if (this.currentFocusIndex !== null || this.zoomEngine.getState() !== ZoomState.IDLE) return false;
+    if (target.closest('.fbn-ic-nav-btn')) return false;
+    const image = target.closest<HTMLImageElement>('.fbn-ic-image');
+    return !(image && this.rearrangeEngine && this.canDragImage(image));
+  }
+
+  /**
+   * Element the images are placed in: the canvas stage in canvas mode, otherwise the container
+   */
+  private getImageParent(): HTMLElement | null {
+    return this.canvasEngine?.getStage() ?? this.containerEl;
+  }
+
+  /**
+   * Size of the frame image positions are relative to: the canvas surface in
+   * canvas mode, otherwise the container
+   */
+  private getStageBounds(): ContainerBounds {
+    return this.canvasEngine?.getSurfaceSize() ?? this.getContainerBounds();
+  }
+
   private setupUI(): void {
     const uiConfig = this.fullConfig.ui;
 
@@ -358,14 +771,8 @@ export class ImageCloud {
         this.nextButtonEl = this.createDefaultNextButtonElement();
         this.nextButtonElAutoCreated = true;
       }
-      this.prevButtonEl?.addEventListener('click', (e) => {
-        e.stopPropagation();
-        this.navigateToPreviousImage();
-      });
-      this.nextButtonEl?.addEventListener('click', (e) => {
-        e.stopPropagation();
-        this.navigateToNextImage();
-      });
+      this.prevButtonEl?.addEventListener('click', this.boundPrevButtonClick);
+      this.nextButtonEl?.addEventListener('click', this.boundNextButtonClick);
     }
 
     // Create aria-live region for screen reader announcements
@@ -376,6 +783,29 @@ export class ImageCloud {
     this.containerEl!.appendChild(this.ariaLiveEl);
   }
 
+  /**
+   * Remove auto-created UI elements and detach from user-provided ones
+   * (the inverse of setupUI)
+   */
+  private teardownUI(): void {
+    this.prevButtonEl?.removeEventListener('click', this.boundPrevButtonClick);
+    this.nextButtonEl?.removeEventListener('click', this.boundNextButtonClick);
+
+    if (this.loadingElAutoCreated) this.loadingEl?.remove();
+    if (this.errorElAutoCreated) this.errorEl?.remove();
+    if (this.counterElAutoCreated) this.counterEl?.remove();
+    if (this.prevButtonElAutoCreated) this.prevButtonEl?.remove();
+    if (this.nextButtonElAutoCreated) this.nextButtonEl?.remove();
+    this.ariaLiveEl?.remove();
+
+    this.loadingEl = null;
+    this.errorEl = null;
+    this.counterEl = null;
+    this.prevButtonEl = null;
+    this.nextButtonEl = null;
+    this.ariaLiveEl = null;
+  }
+
   private resolveElement(ref: string | HTMLElement): HTMLElement | null {
     if (ref instanceof HTMLElement) return ref;
     return document.getElementById(ref);
@@ -438,144 +868,332 @@ export class ImageCloud {
   }
 
   private setupEventListeners(): void {
-    // Keyboard navigation — scoped to container, guarded by config flag
-    if (this.fullConfig.interaction.navigation?.keyboard !== false) {
-      this.containerEl!.addEventListener('keydown', (e: KeyboardEvent) => {
-        if (e.key === 'Escape') {
-          this.zoomEngine.unfocusImage();
-          this.currentFocusIndex = null;
-          this.swipeEngine?.disable();
-          this.hideCounter();
-          this.hideNavButtons();
-          this.hideFocusIndicator();
-        } else if (e.key === 'ArrowRight') {
-          this.navigateToNextImage();
-        } else if (e.key === 'ArrowLeft') {
-          this.navigateToPreviousImage();
-        } else if ((e.key === 'Enter' || e.key === ' ') && this.hoveredImage) {
-          this.handleImageClick(this.hoveredImage.element, this.hoveredImage.layout);
-          e.preventDefault();
-        }
-      });
-    }
+    // Keyboard navigation — scoped to container (and the lightbox overlay)
+    this.containerEl!.addEventListener('keydown', this.boundKeyDown);
 
     document.addEventListener('click', (e: MouseEvent) => {
       // Ignore clicks that follow touch events (prevents unfocus during swipe)
       if (this.swipeEngine?.hadRecentTouch()) {
         return;
       }
+      // The lightbox handles clicks on its own backdrop and controls
+      if ((e.target as HTMLElement).closest('.fbn-ic-lightbox')) {
+        return;
+      }
       if (!(e.target as HTMLElement).closest('.fbn-ic-image') &&
           !(e.target as HTMLElement).closest('.fbn-ic-nav-btn')) {
-        this.zoomEngine.unfocusImage();
-        this.currentFocusIndex = null;
-        this.swipeEngine?.disable();
-        this.hideCounter();
-        this.hideNavButtons();
-        this.hideFocusIndicator();
+        this.unfocus();
       }
     });
 
-    // Resize handler
-    window.addEventListener('resize', () => this.handleResize());
+    // Resize handlers: the window for viewport breakpoints, the container for everything else
+    window.addEventListener('resize', this.boundResize);
+    if (typeof ResizeObserver !== 'undefined' && this.containerEl) {
+      this.resizeObserver = new ResizeObserver(this.boundResize);
+      this.resizeObserver.observe(this.containerEl);
+    }
   }
 
   /**
-   * Navigate to the next image (Right arrow)
+   * Keyboard navigation, guarded by config flag (checked per event so updateOptions() can toggle it)
    */
-  private navigateToNextImage(): void {
-    if (this.currentFocusIndex === null || this.imageElements.length === 0) return;
-
-    const nextId = (this.currentFocusIndex + 1) % this.imageLayouts.length;
-    const nextElement = this.imageElements.find(
-      el => el.dataset.imageId === String(nextId)
-    );
-    if (!nextElement) return;
-
-    const layout = this.imageLayouts[nextId];
-    if (!layout) return;
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (this.fullConfig.interaction.navigation?.keyboard === false) return;
+    if (e.key === 'Escape') {
+      this.unfocus();
+    } else if (e.key === 'ArrowRight') {
+      this.navigateToNextImage();
+    } else if (e.key === 'ArrowLeft') {
+      this.navigateToPreviousImage();
+    } else if ((e.key === 'Enter' || e.key === ' ') && this.hoveredImage) {
+      this.handleImageClick(this.hoveredImage.element, this.hoveredImage.layout);
+      e.preventDefault();
+    }
+  }
 
-    this.currentFocusIndex = nextId;
-    this.handleImageClick(nextElement, layout);
-    this.updateCounter(nextId);
-    this.showNavButtons();
-    this.showFocusIndicator();
+  /**
+   * Navigate to the next image (Right arrow)
+   */
+  private navigateToNextImage(): Promise<void> {
+    return this.navigateBy(1);
   }
 
   /**
    * Navigate to the previous image (Left arrow)
    */
-  private navigateToPreviousImage(): void {
+  private navigateToPreviousImage(): Promise<void> {
+    return this.navigateBy(-1);
+  }
+
+  /**
+   * Move focus by `step` positions from the focused image, wrapping around and
+   * skipping images that have not been displayed (still loading or failed)
+   */
+  private async navigateBy(step: 1 | -1): Promise<void> {
     if (this.currentFocusIndex === null || this.imageElements.length === 0) return;
 
-    const prevId = (this.currentFocusIndex - 1 + this.imageLayouts.length) % this.imageLayouts.length;
-    const prevElement = this.imageElements.find(
-      el => el.dataset.imageId === String(prevId)
-    );
-    if (!prevElement) return;
+    const total = this.imageLayouts.length;
+    let targetId = this.currentFocusIndex;
+    for (let i = 0; i < total; i++) {
+      targetId = (targetId + step + total) % total;
+      if (this.findImageElement(targetId)) break;
+    }
+    if (targetId === this.currentFocusIndex) return;
 
-    const layout = this.imageLayouts[prevId];
-    if (!layout) return;
+    await this.focusImageAt(targetId);
+  }
 
-    this.currentFocusIndex = prevId;
-    this.handleImageClick(prevElement, layout);
-    this.updateCounter(prevId);
+  /**
+   * Focus the displayed image with the given index, keeping counter, nav buttons
+   * and focus indicator in sync. Resolves when the focus animation settles.
+   */
+  private async focusImageAt(index: number): Promise<void> {
+    const element = this.findImageElement(index);
+    const layout = this.imageLayouts[index];
+    if (!element || !layout) return;
+
+    this.currentFocusIndex = index;
+    const focused = this.handleImageClick(element, layout);
+    this.updateCounter(index);
     this.showNavButtons();
     this.showFocusIndicator();
+    await focused;
   }
 
   /**
-   * Navigate to a specific image by index
+   * Find the displayed image element for a layout index
    */
-  private handleResize(): void {
-    if (!this.imagesLoaded) return;
-
-    if (this.resizeTimeout !== null) {
-      clearTimeout(this.resizeTimeout);
-    }
-
-    this.resizeTimeout = window.setTimeout(() => {
-      const newHeight = this.getImageHeight();
-
-      if (newHeight !== this.currentImageHeight) {
-        this.logDebug(`Window resized to new breakpoint (height: ${newHeight}px). Reloading images...`);
-        // Reload images with new breakpoint
-        this.loadImages();
-      } else {
-        this.logDebug('Window resized (no breakpoint change)');
-      }
-    }, 500);
+  private findImageElement(index: number): HTMLImageElement | undefined {
+    return this.imageElements.find(el => el.dataset.imageId === String(index));
   }
 
-  private getImageHeight(): number {
-    const width = window.innerWidth;
-    const responsive = this.fullConfig.layout.responsive;
+  // ===== Public navigation API =====
 
-    // Get sizing config for adaptive mode defaults
-    const sizing = this.fullConfig.image.sizing;
-    const maxSize = sizing?.maxSize ?? 400;
+  /**
+   * Focus (zoom) the image at the given index
+   * Resolves when the focus animation settles. Focusing the already-focused image is a no-op,
+   * as is focusing an image that has not been displayed yet.
+   * @param index - Zero-based image index (0 to getImageCount() - 1)
+   */
+  async focusImage(index: number): Promise<void> {
+    this.assertImageIndex(index);
+    const element = this.findImageElement(index);
+    if (element && this.zoomEngine.isFocused(this.getFocusElement(element))) return;
+    await this.focusImageAt(index);
+  }
 
-    // Use responsive breakpoints to determine max height
-    // These serve as upper bounds for the adaptive sizing
-    if (!responsive) {
-      // Fallback defaults if responsive not configured
-      if (width <= 767) return Math.min(100, maxSize);
-      if (width <= 1199) return Math.min(180, maxSize);
-      return Math.min(225, maxSize);
+  /**
+   * Focus the next image, wrapping around at the end
+   * Focuses the first image when nothing is focused.
+   */
+  async next(): Promise<void> {
+    if (this.currentFocusIndex === null) {
+      const first = this.imageElements.length > 0 ? this.findFirstDisplayedIndex(1) : null;
+      if (first !== null) await this.focusImageAt(first);
+      return;
     }
+    await this.navigateBy(1);
+  }
 
-    if (width <= responsive.mobile.maxWidth) {
-      return Math.min(100, maxSize);  // Mobile
-    }
-    if (width <= responsive.tablet.maxWidth) {
-      return Math.min(180, maxSize);  // Tablet
+  /**
+   * Focus the previous image, wrapping around at the start
+   * Focuses the last image when nothing is focused.
+   */
+  async prev(): Promise<void> {
+    if (this.currentFocusIndex === null) {
+      const last = this.imageElements.length > 0 ? this.findFirstDisplayedIndex(-1) : null;
+      if (last !== null) await this.focusImageAt(last);
+      return;
     }
-    return Math.min(225, maxSize);  // Screen (desktop)
+    await this.navigateBy(-1);
   }
 
   /**
-   * Get container bounds for layout calculations
+   * Unfocus the focused image, returning it to its layout position
+   * Resolves when the unfocus animation settles (no-op when nothing is focused).
    */
-  private getContainerBounds(): { width: number; height: number } {
+  async unfocus(): Promise<void> {
+    if (this.lightbox?.isOpen()) {
+      // Leave fullscreen first, so the image flies back to where it is on the page
+      await this.lightbox.close();
+      this.containerEl?.focus({ preventScroll: true });
+      this.handleResize();
+    }
+    const unfocused = this.zoomEngine.unfocusImage();
+    this.currentFocusIndex = null;
+    this.swipeEngine?.disable();
+    this.hideCounter();
+    this.hideNavButtons();
+    if (this.ariaLiveEl) this.ariaLiveEl.textContent = '';
+    this.hideFocusIndicator();
+    await unfocused;
+    this.pruneLightboxImages();
+  }
+
+  /**
+   * Get the index of the focused image, or null when nothing is focused
+   */
+  getFocusedIndex(): number | null {
+    return this.currentFocusIndex;
+  }
+
+  /**
+   * Get the number of images in the gallery
+   */
+  getImageCount(): number {
+    return this.imageLayouts.length;
+  }
+
+  private assertImageIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.imageLayouts.length) {
+      throw new Error(`Image index ${index} is out of range. Expected an integer from 0 to ${this.imageLayouts.length - 1}.`);
+    }
+  }
+
+  // ===== Public canvas API =====
+
+  /**
+   * Zoom and pan so the whole canvas surface is visible (`interaction.canvas`)
+   * Unfocuses the focused image first. No-op outside canvas mode.
+   * @param options - `animate` eases to the new view (default: true)
+   */
+  async fitAll(options: { animate?: boolean } = {}): Promise<void> {
+    if (!this.canvasEngine) return;
+    if (this.currentFocusIndex !== null || this.zoomEngine.getState() !== ZoomState.IDLE) {
+      await this.unfocus();
+    }
+    await this.canvasEngine?.fitAll(options.animate ?? true);
+  }
+
+  /**
+   * Zoom the canvas around the container center, within `minZoom` and `maxZoom`
+   * Unfocuses the focused image first. No-op outside canvas mode.
+   * @param zoom - Zoom factor; 1 shows the surface at its layout size
+   * @param options - `animate` eases to the new view (default: true)
+   */
+  async setZoom(zoom: number, options: { animate?: boolean } = {}): Promise<void> {
+    if (!this.canvasEngine) return;
+    if (this.currentFocusIndex !== null || this.zoomEngine.getState() !== ZoomState.IDLE) {
+      await this.unfocus();
+    }
+    await this.canvasEngine?.zoomTo(zoom, options.animate ?? true);
+  }
+
+  /**
+   * Get the canvas zoom (1 outside canvas mode)
+   */
+  getZoom(): number {
+    return this.canvasEngine?.getZoom() ?? 1;
+  }
+
+  /**
+   * Find the first displayed image index scanning from the start (1) or the end (-1)
+   */
+  private findFirstDisplayedIndex(direction: 1 | -1): number | null {
+    const total = this.imageLayouts.length;
+    for (let i = 0; i < total; i++) {
+      const index = direction === 1 ? i : total - 1 - i;
+      if (this.findImageElement(index)) return index;
+    }
+    return null;
+  }
+
+  /**
+   * Debounced window/container resize: re-lay out in place when the container size
+   * or the responsive image height changed
+   */
+  private handleResize(): void {
+    if (!this.imagesLoaded) return;
+
+    if (this.resizeTimeout !== null) {
+      clearTimeout(this.resizeTimeout);
+    }
+
+    this.resizeTimeout = window.setTimeout(() => {
+      this.resizeTimeout = null;
+      // Entering fullscreen resizes the page; the lightbox re-checks the size once it closes
+      if (this.lightbox?.isOpen()) return;
+      const containerBounds = this.getLayoutBounds();
+      const previousBounds = this.layoutBounds;
+
+      if (previousBounds &&
+          previousBounds.width === containerBounds.width &&
+          previousBounds.height === containerBounds.height &&
+          this.calculateImageHeight(containerBounds) === this.currentImageHeight) {
+        this.logDebug('Resized (no container or breakpoint change)');
+        return;
+      }
+
+      this.logDebug(`Container resized to ${containerBounds.width}x${containerBounds.height}px. Re-laying out images...`);
+      this.relayout(containerBounds).catch(error => console.error('Error re-laying out images:', error));
+    }, 500);
+  }
+
+  /**
+   * Lay the current images out again for the current container and animate them there
+   * Fires onLayoutComplete once they have arrived, unless a newer re-layout took over.
+   * @param containerBounds - Container size to lay out for
+   * @param morph - Animation settings for the move
+   * @param anchors - Images a live layout keeps in place
+   */
+  private async relayout(containerBounds: ContainerBounds, morph: SetLayoutOptions = {}, anchors: number[] = []): Promise<void> {
+    // Focus geometry depends on the container; return the focused image first
+    if (this.currentFocusIndex !== null || this.zoomEngine.getState() !== ZoomState.IDLE) {
+      await this.unfocus();
+    }
+
+    this.computeLayouts(containerBounds, this.elementsByIndex, anchors);
+    const layouts = this.imageLayouts;
+    this.drawDebugCenters();
+
+    await this.animateToCurrentLayout(morph.duration, morph.easing, morph.stagger ?? 0);
+
+    // A newer layout change took over; it reports its own completion
+    if (this.imageLayouts !== layouts) return;
+    this.fireLayoutComplete(containerBounds);
+  }
+
+  /**
+   * Width that responsive breakpoints resolve against: the viewport by default,
+   * or the container when layout.responsive.basis is 'container'
+   */
+  private getBreakpointWidth(): number {
+    if (this.fullConfig.layout.responsive?.basis === 'container' && this.containerEl) {
+      return this.containerEl.offsetWidth;
+    }
+    return window.innerWidth;
+  }
+
+  private getImageHeight(): number {
+    const width = this.getBreakpointWidth();
+    const responsive = this.fullConfig.layout.responsive;
+
+    // Get sizing config for adaptive mode defaults
+    const sizing = this.fullConfig.image.sizing;
+    const maxSize = sizing?.maxSize ?? 400;
+
+    // Use responsive breakpoints to determine max height
+    // These serve as upper bounds for the adaptive sizing
+    if (!responsive) {
+      // Fallback defaults if responsive not configured
+      if (width <= 767) return Math.min(100, maxSize);
+      if (width <= 1199) return Math.min(180, maxSize);
+      return Math.min(225, maxSize);
+    }
+
+    if (width <= responsive.mobile.maxWidth) {
+      return Math.min(100, maxSize);  // Mobile
+    }
+    if (width <= responsive.tablet.maxWidth) {
+      return Math.min(180, maxSize);  // Tablet
+    }
+    return Math.min(225, maxSize);  // Screen (desktop)
+  }
+
+  /**
+   * Get container bounds for layout calculations
+   */
+  private getContainerBounds(): { width: number; height: number } {
     if (!this.containerEl) {
       return { width: window.innerWidth, height: window.innerHeight * 0.7 };
     }
@@ -585,6 +1203,95 @@ export class ImageCloud {
     };
   }
 
+  /**
+   * Container bounds to lay out for: the size without the extra height a
+   * growing layout (justified, masonry) gave the container, or the canvas
+   * surface in canvas mode
+   * @param imageCount - Number of images the 'auto' canvas size is sized for
+   */
+  private getLayoutBounds(imageCount: number = this.imageDescriptors.length): ContainerBounds {
+    let bounds: ContainerBounds;
+    if (!this.containerEl || this.containerMinHeight === null) {
+      bounds = this.getContainerBounds();
+    } else {
+      const grown = this.containerEl.style.minHeight;
+      this.containerEl.style.minHeight = this.containerMinHeight;
+      bounds = this.getContainerBounds();
+      this.containerEl.style.minHeight = grown;
+    }
+    return this.canvasEngine ? this.getCanvasSurfaceBounds(bounds, imageCount) : bounds;
+  }
+
+  /**
+   * Canvas surface for a container: `canvas.size` times the container, or for
+   * 'auto' just large enough that adaptive sizing keeps the responsive image height
+   */
+  private getCanvasSurfaceBounds(containerBounds: ContainerBounds, imageCount: number): ContainerBounds {
+    const size = this.fullConfig.interaction.canvas?.size ?? 'auto';
+    let factor = typeof size === 'number' ? size : 1;
+    if (size === 'auto' && imageCount > 0) {
+      // Adaptive height grows linearly with the surface side
+      const target = this.getImageHeight();
+      const fitted = this.layoutEngine.calculateAdaptiveSize(containerBounds, imageCount, target, this.getBreakpointWidth(), this.getAspectRatios()).height;
+      factor = fitted > 0 ? Math.min(target / fitted, MAX_AUTO_CANVAS_SIZE) : 1;
+    }
+    factor = Math.max(1, factor);
+    return {
+      width: Math.round(containerBounds.width * factor),
+      height: Math.round(containerBounds.height * factor)
+    };
+  }
+
+  /**
+   * Raise the container's min-height to the bottom of a growing layout, or
+   * restore it when the layout fits
+   */
+  private updateContainerGrowth(): void {
+    if (!this.containerEl || !this.layoutBounds) return;
+
+    let bottom = 0;
+    if (this.layoutEngine.growsContainer()) {
+      for (const layout of this.imageLayouts) {
+        bottom = Math.max(bottom, layout.y + (this.currentImageHeight * layout.scale) / 2);
+      }
+      bottom += this.fullConfig.layout.spacing.padding;
+    }
+
+    // In canvas mode the surface grows instead of the container
+    if (this.canvasEngine) {
+      this.canvasEngine.setSurfaceSize(this.layoutBounds.width, Math.max(this.layoutBounds.height, Math.ceil(bottom)));
+      this.updateMinimap();
+      return;
+    }
+
+    if (bottom > this.layoutBounds.height) {
+      if (this.containerMinHeight === null) {
+        this.containerMinHeight = this.containerEl.style.minHeight;
+      }
+      this.containerEl.style.minHeight = `${Math.ceil(bottom)}px`;
+    } else {
+      this.restoreContainerHeight();
+    }
+  }
+
+  /**
+   * Draw the current layout on the canvas minimap
+   */
+  private updateMinimap(): void {
+    if (!this.canvasEngine) return;
+    this.canvasEngine.setMinimapItems(this.imageLayouts.map((layout, index) => {
+      const height = this.currentImageHeight * layout.scale;
+      const aspectRatio = this.getAspectRatios()[index] ?? MINIMAP_ASPECT_RATIO;
+      return { x: layout.x, y: layout.y, width: height * aspectRatio, height };
+    }));
+  }
+
+  private restoreContainerHeight(): void {
+    if (!this.containerEl || this.containerMinHeight === null) return;
+    this.containerEl.style.minHeight = this.containerMinHeight;
+    this.containerMinHeight = null;
+  }
+
   /**
    * Load images using the unified loader interface
    */
@@ -597,601 +1304,1483 @@ export class ImageCloud {
       // Prepare the loader (show spinner during this)
       await this.imageLoader.prepare(this.imageFilter);
 
-      // Get image count and URLs from loader
-      const imageCount = this.imageLoader.imagesLength();
-      let imageUrls = this.imageLoader.imageURLs();
+      // Get image count and descriptors from loader (custom loaders may only provide URLs)
+      const imageCount = this.imageLoader.imagesLength();
+      const images = this.imageLoader.imageDescriptors?.() ?? descriptorsFromUrls(this.imageLoader.imageURLs());
+
+      if (imageCount === 0) {
+        this.showError('No images found.');
+        this.showLoading(false);
+        return;
+      }
+
+      // Declared dimensions size the images before they download
+      this.imageDescriptors = images;
+
+      // Calculate adaptive sizing based on container and image count
+      const containerBounds = this.getLayoutBounds(imageCount);
+      const responsiveHeight = this.getImageHeight();
+      const viewportWidth = this.getBreakpointWidth();
+
+      this.logDebug(`Adaptive sizing input: container=${containerBounds.width}x${containerBounds.height}px, images=${imageCount}, responsiveMax=${responsiveHeight}px`);
+
+      const sizingResult = this.layoutEngine.calculateAdaptiveSize(
+        containerBounds,
+        imageCount,
+        responsiveHeight,
+        viewportWidth,
+        this.getAspectRatios([])
+      );
+
+      this.logDebug(`Adaptive sizing result: height=${sizingResult.height}px`);
+
+      await this.createImageCloud(images, sizingResult.height);
+
+      this.showLoading(false);
+      this.imagesLoaded = true;
+
+    } catch (error) {
+      console.error('Error loading images:', error);
+      if (error instanceof Error) {
+        this.showError(error.message || 'Failed to load images.');
+      }
+      this.showLoading(false);
+    }
+  }
+
+  /**
+   * Helper for debug logging
+   */
+  private logDebug(...args: unknown[]): void {
+    if (this.fullConfig.config.debug?.enabled && typeof console !== 'undefined') {
+      console.log(...args);
+    }
+  }
+
+  private async createImageCloud(images: ImageDescriptor[], imageHeight: number): Promise<void> {
+    if (!this.containerEl) return;
+
+    const containerBounds = this.getLayoutBounds(images.length);
+    this.imageDescriptors = images;
+    this.currentImageHeight = imageHeight;
+
+    // Generate layout
+    const aspectRatios = this.getAspectRatios([]);
+    this.imageLayouts = this.layoutEngine.generateLayout(images.length, containerBounds, { fixedHeight: imageHeight, images, aspectRatios });
+    this.layoutBounds = { ...containerBounds };
+    this.updateContainerGrowth();
+    // Aspect-ratio layouts report once the loaded images have been laid out, unless every size was declared
+    if (!this.layoutEngine.usesAspectRatios() || aspectRatios.every(ratio => ratio !== undefined)) {
+      this.fireLayoutComplete(containerBounds);
+    }
+
+    const session = this.beginLoadSession();
+    this.drawDebugCenters();
+
+    // Create elements
+    this.elementsByIndex = images.map((image, index) => this.createImageElement(image, index, session));
+  }
+
+  /**
+   * Start a new load session: resets the display queue and starts processing
+   * it once the container scrolls into view
+   */
+  private beginLoadSession(): LoadSession {
+    const session: LoadSession = {
+      loaded: new Set(),
+      failed: new Set(),
+      firstSrcSetTime: 0,
+      srcSetTimes: new Map(),
+      queueStarted: false,
+      galleryReadyFired: false,
+      awaitingLayout: []
+    };
+    this.loadSession = session;
+    this.displayQueue = [];
+
+    // Visibility Check
+    if ('IntersectionObserver' in window && this.containerEl) {
+      const observer = new IntersectionObserver((entries) => {
+        entries.forEach(entry => {
+          if (session !== this.loadSession) {
+            observer.disconnect();
+          } else if (entry.isIntersecting) {
+            this.startQueueProcessing();
+            observer.disconnect();
+          }
+        });
+      }, { threshold: 0.1, rootMargin: '50px' });
+      observer.observe(this.containerEl);
+    } else {
+      this.startQueueProcessing();
+    }
+
+    return session;
+  }
+
+  private fireLayoutComplete(containerBounds: ContainerBounds): void {
+    if (!this.callbacks.onLayoutComplete) return;
+    const ctx: LayoutCompleteContext = {
+      layouts:         [...this.imageLayouts],  // shallow copy — caller should not mutate
+      images:          [...this.imageDescriptors],
+      containerBounds: { ...containerBounds },
+      algorithm:       this.fullConfig.layout.algorithm,
+      imageCount:      this.imageLayouts.length,
+    };
+    this.callbacks.onLayoutComplete(ctx);
+  }
+
+  /**
+   * Debug: Draw center markers if debug.centers is enabled
+   */
+  private drawDebugCenters(): void {
+    const parent = this.getImageParent();
+    if (!this.fullConfig.config.debug?.centers || !this.containerEl || !parent) return;
+
+    // Remove any existing debug markers
+    this.containerEl.querySelectorAll('.fbn-ic-debug-center').forEach(el => el.remove());
+
+    this.imageLayouts.forEach((layout, index) => {
+      const marker = document.createElement('div');
+      marker.className = 'fbn-ic-debug-center';
+      marker.style.position = 'absolute';
+      marker.style.width = '12px';
+      marker.style.height = '12px';
+      marker.style.borderRadius = '50%';
+      marker.style.backgroundColor = 'red';
+      marker.style.border = '2px solid yellow';
+      marker.style.zIndex = '9999';
+      marker.style.pointerEvents = 'none';
+      // Center position: layout.x and layout.y now store the center position directly
+      const centerX = layout.x;
+      const centerY = layout.y;
+      marker.style.left = `${centerX - 6}px`;  // Offset by half marker size
+      marker.style.top = `${centerY - 6}px`;
+      marker.title = `Image ${index}: center (${Math.round(centerX)}, ${Math.round(centerY)})`;
+      parent.appendChild(marker);
+    });
+  }
+
+  /**
+   * Build the hook context for an image element from its current index
+   * (indices shift when images are added or removed, so never capture them in closures)
+   */
+  private getImageState(img: HTMLImageElement): ImageStateContext | null {
+    const index = parseInt(img.dataset.imageId ?? '', 10);
+    const layout = this.imageLayouts[index];
+    const image = this.imageDescriptors[index];
+    if (!layout || !image) return null;
+    return { element: img, index, url: image.url, image, layout };
+  }
+
+  /**
+   * Create an image element, wire its listeners and start loading it
+   */
+  private createImageElement(image: ImageDescriptor, index: number, session: LoadSession): HTMLImageElement {
+    // The cloud shows the small variant; ZoomEngine swaps in data-full-src on focus
+    const url = getThumbnailUrl(image);
+    const fullUrl = getFullUrl(image);
+    const img = document.createElement('img');
+    // NOTE: img.src is set AFTER onload handler to ensure handler catches cached images
+    img.referrerPolicy = 'no-referrer';
+    img.classList.add('fbn-ic-image');
+    img.alt = image.alt ?? this.getImageAlt(image.url, index);
+    if (fullUrl !== url || image.srcset) img.dataset.fullSrc = fullUrl;
+    // Native drag would fight rearrange's pointer drag
+    if (this.fullConfig.interaction.dragging === false || this.fullConfig.interaction.rearrange || this.canvasEngine || this.sceneEngine) {
+      img.draggable = false;
+    }
+    img.dataset.imageId = String(index);
+
+    const layout = this.imageLayouts[index];
+    img.style.position = 'absolute';
+    // With declared dimensions the element has its final size before the image arrives
+    const knownAspectRatio = getKnownAspectRatio(image);
+    img.style.width = knownAspectRatio ? `${this.currentImageHeight * knownAspectRatio}px` : 'auto';
+    img.style.height = `${this.currentImageHeight}px`;
+    img.style.left = `${layout.x}px`;
+    img.style.top = `${layout.y}px`;
+    // Transform will be applied in onload after we know the actual dimensions
+
+    if (layout.zIndex) img.style.zIndex = String(layout.zIndex);
+
+    // NOTE: Default styling will be applied in onload after image dimensions are known
+    // This ensures height-relative clip-path is calculated correctly with proper width
+    // Element starts with opacity 0 so it's not visible until onload completes (a declared-size placeholder shows its box instead)
+    applyClassNameToElement(img, this.defaultClassName);
+
+    // Hover event handlers
+    // Use isInvolved() to prevent hover styles on images that are focused or animating
+    img.addEventListener('mouseenter', () => {
+      const state = this.getImageState(img);
+      if (!state) return;
+      this.hoveredImage = { element: img, layout: state.layout };
+      if (!this.zoomEngine.isInvolved(img)) {
+        // Use cached rendered width for consistent clip-path centering (prevents shifting)
+        const cachedWidth = this.elementSizes.get(img)?.renderedWidth;
+        applyStylesToElementWithState(img, this.fullConfig.styling?.hover, this.currentImageHeight, cachedWidth);
+        applyClassNameToElement(img, this.hoverClassName);
+      }
+      this.callbacks.onImageHover?.(state);
+    });
+
+    img.addEventListener('mouseleave', () => {
+      const state = this.getImageState(img);
+      if (!state) return;
+      this.hoveredImage = null;
+      if (!this.zoomEngine.isInvolved(img)) {
+        // Use cached rendered width for consistent clip-path centering (prevents shifting)
+        const cachedWidth = this.elementSizes.get(img)?.renderedWidth;
+        applyStylesToElementWithState(img, this.fullConfig.styling?.default, this.currentImageHeight, cachedWidth);
+        removeClassNameFromElement(img, this.hoverClassName);
+        applyClassNameToElement(img, this.defaultClassName);
+      }
+      this.callbacks.onImageUnhover?.(state);
+    });
+
+    img.addEventListener('click', (e: MouseEvent) => {
+      e.stopPropagation();
+      const state = this.getImageState(img);
+      if (state) this.handleImageClick(img, state.layout);
+    });
+
+    img.style.opacity = '0';
+    img.style.transition = this.entryAnimationEngine.getTransitionCSS();
+
+    // With declared dimensions a placeholder box takes the slot right away; only the reveal waits for the load
+    if (knownAspectRatio) {
+      img.classList.add('fbn-ic-placeholder');
+      img.style.opacity = '';
+      img.style.pointerEvents = 'none';
+      this.getImageParent()?.appendChild(img);
+    }
+
+    // Ignore stale callbacks (previous load, or image removed since)
+    const isCurrent = () => session === this.loadSession && this.elementsByIndex.includes(img);
+
+    img.onload = () => {
+      // Swapping in the full-resolution variant on focus fires load again
+      if (!isCurrent() || session.loaded.has(img)) return;
+
+      // Record the aspect ratio for use in layout, event handlers and focused state
+      this.elementSizes.set(img, { aspectRatio: img.naturalWidth / img.naturalHeight });
+      this.prepareImageEntry(img);
+
+      session.loaded.add(img);
+      const index = parseInt(img.dataset.imageId || '0', 10);
+      if (this.callbacks.onImageLoaded) {
+        const ctx: ImageLoadedContext = {
+          element: img,
+          url,
+          image: this.imageDescriptors[index] ?? image,
+          index,
+          totalImages: this.elementsByIndex.length,
+          loadTime: performance.now() - (session.srcSetTimes.get(img) ?? performance.now()),
+        };
+        this.callbacks.onImageLoaded(ctx);
+      }
+      this.fireLoadProgress(session);
+
+      this.queueLoadedImage(img, session);
+    };
+
+    const handleImageError = () => {
+      if (!isCurrent()) return;
+      session.failed.add(img);
+      // A failed image leaves no placeholder behind
+      img.remove();
+      if (this.callbacks.onImageError) {
+        const index = parseInt(img.dataset.imageId || '0', 10);
+        const ctx: ImageErrorContext = {
+          url,
+          image: this.imageDescriptors[index] ?? image,
+          index,
+          totalImages: this.elementsByIndex.length
+        };
+        this.callbacks.onImageError(ctx);
+      }
+      this.fireLoadProgress(session);
+      this.layoutLoadedImages(session);
+      this.checkGalleryReady();
+    };
+
+    img.onerror = () => handleImageError();
+
+    // Set src AFTER onload handler to ensure it catches cached images.
+    // Wrapped in async IIFE to support onBeforeImageLoad (which may be async).
+    (async () => {
+      let effectiveUrl = url;
+
+      if (this.callbacks.onBeforeImageLoad) {
+        const beforeCtx: BeforeLoadContext = { url, image, index, totalImages: this.imageLayouts.length };
+        const result: BeforeLoadResult | void = await this.callbacks.onBeforeImageLoad(beforeCtx);
+        if (result) {
+          if (result.fetch !== undefined) {
+            // Fetch mode: retrieve image via fetch() and create a blob URL
+            const fetchUrl = result.url ?? url;
+            try {
+              const response = await fetch(fetchUrl, result.fetch);
+              const blob = await response.blob();
+              const blobUrl = URL.createObjectURL(blob);
+              effectiveUrl = blobUrl;
+              // Wrap onload to revoke blob URL after the image is decoded
+              const origOnload = img.onload;
+              img.onload = (e) => {
+                URL.revokeObjectURL(blobUrl);
+                (origOnload as ((e: Event) => void) | null)?.call(img, e);
+              };
+            } catch {
+              handleImageError();
+              return;
+            }
+          } else if (result.url) {
+            effectiveUrl = result.url;
+          }
+        }
+      }
+
+      if (session.firstSrcSetTime === 0) session.firstSrcSetTime = performance.now();
+      session.srcSetTimes.set(img, performance.now());
+      // A URL from onBeforeImageLoad replaces the srcset candidates too
+      if (image.srcset && effectiveUrl === url) {
+        if (image.sizes) img.sizes = image.sizes;
+        img.srcset = image.srcset;
+      }
+      img.src = effectiveUrl;
+    })();
+
+    return img;
+  }
+
+  /**
+   * Size a loaded image for its current layout slot and compute its entry animation
+   * (start/final transforms are stored in the element's dataset for displayImage)
+   */
+  private prepareImageEntry(img: HTMLImageElement): void {
+    const index = parseInt(img.dataset.imageId || '0', 10);
+    const layout = this.imageLayouts[index];
+    if (!layout) return;
+
+    const imageHeight = this.currentImageHeight;
+    const size = this.elementSizes.get(img);
+    if (!size) return;
+    const renderedWidth = imageHeight * size.aspectRatio;
+
+    // Set explicit size and position so transform calculations are accurate
+    img.style.width = `${renderedWidth}px`;
+    img.style.height = `${imageHeight}px`;
+    img.style.left = `${layout.x}px`;
+    img.style.top = `${layout.y}px`;
+
+    // Record the rendered width for use in event handlers and focused state
+    size.renderedWidth = renderedWidth;
+
+    // Reapply default styling with correct width for height-relative clip-path centering
+    // Now we know both height and the rendered width (from aspect ratio)
+    applyStylesToElementWithState(img, this.fullConfig.styling?.default, imageHeight, renderedWidth);
+
+    // Use EntryAnimationEngine for start position calculation
+    const finalPosition = { x: layout.x, y: layout.y };
+    const imageSize = { width: renderedWidth, height: imageHeight };
+
+    const startPosition = this.entryAnimationEngine.calculateStartPosition(
+      finalPosition,
+      imageSize,
+      this.getStageBounds(),
+      index,
+      this.imageLayouts.length
+    );
+
+    // Calculate start rotation based on entry rotation config
+    const startRotation = this.entryAnimationEngine.calculateStartRotation(layout.rotation, index);
+
+    // Calculate start scale based on entry scale config
+    const startScale = this.entryAnimationEngine.calculateStartScale(layout.scale, index);
+
+    const finalTransform = this.buildLayoutTransform(layout, renderedWidth, imageHeight);
+    const startTransform = this.entryAnimationEngine.buildStartTransform(
+      startPosition,
+      finalPosition,
+      layout.rotation,
+      layout.scale,
+      renderedWidth,
+      imageHeight,
+      startRotation,
+      startScale
+    );
+
+    if (this.fullConfig.config.debug?.enabled && index < 3) {
+      console.log(`Image ${index}:`, {
+        finalPosition,
+        imageSize,
+        left: layout.x,
+        top: layout.y,
+        finalTransform,
+        renderedWidth,
+        renderedHeight: imageHeight
+      });
+    }
+
+    if (img.isConnected) {
+      // A placeholder already in the DOM hides and jumps to its start pose instead of transitioning there
+      img.style.transition = 'none';
+      img.classList.remove('fbn-ic-placeholder');
+      img.style.opacity = '0';
+      img.style.transform = startTransform;
+      void img.offsetWidth;
+      img.style.transition = this.entryAnimationEngine.getTransitionCSS();
+    } else {
+      img.style.transform = startTransform;
+    }
+    img.dataset.finalTransform = finalTransform;
+
+    // Always store animation data so entry hooks and displayImage can access it
+    img.dataset.startX = String(startPosition.x);
+    img.dataset.startY = String(startPosition.y);
+    img.dataset.endX = String(finalPosition.x);
+    img.dataset.endY = String(finalPosition.y);
+    img.dataset.imageWidth = String(renderedWidth);
+    img.dataset.imageHeight = String(imageHeight);
+    img.dataset.rotation = String(layout.rotation);
+    img.dataset.scale = String(layout.scale);
+    img.dataset.startRotation = String(startRotation);
+    img.dataset.startScale = String(startScale);
+  }
+
+  private fireLoadProgress(session: LoadSession): void {
+    if (!this.callbacks.onLoadProgress) return;
+    const total = this.elementsByIndex.length;
+    const ctx: LoadProgressContext = {
+      loaded: session.loaded.size,
+      failed: session.failed.size,
+      total,
+      percent: total > 0 ? (session.loaded.size + session.failed.size) / total * 100 : 100,
+    };
+    this.callbacks.onLoadProgress(ctx);
+  }
+
+  /**
+   * Hand a freshly loaded image to the display queue. Layouts that place images
+   * by aspect ratio hold it back until every image has loaded and been laid out.
+   */
+  private queueLoadedImage(img: HTMLImageElement, session: LoadSession): void {
+    if (!this.layoutEngine.usesAspectRatios() || this.wasLaidOutAtLoadedSize(img)) {
+      this.enqueueForDisplay(img);
+      return;
+    }
+    session.awaitingLayout.push(img);
+    this.layoutLoadedImages(session);
+  }
+
+  /**
+   * Whether the layout already used this image's real aspect ratio, taken from the
+   * descriptor's declared dimensions (EXIF-rotated images, for one, load at a different ratio).
+   * While any image lacks declared dimensions the set is laid out again once it has loaded,
+   * so every image waits for that layout instead of showing at a slot that is about to move.
+   */
+  private wasLaidOutAtLoadedSize(img: HTMLImageElement): boolean {
+    if (!this.imageDescriptors.every(image => getKnownAspectRatio(image) !== undefined)) return false;
+    const declared = getKnownAspectRatio(this.imageDescriptors[parseInt(img.dataset.imageId ?? '', 10)]);
+    const loaded = this.elementSizes.get(img)?.aspectRatio;
+    return declared !== undefined && loaded !== undefined && Math.abs(loaded / declared - 1) <= ASPECT_RATIO_TOLERANCE;
+  }
+
+  /**
+   * Once every image has loaded or failed, lay the set out again with the real
+   * aspect ratios and queue the held-back images
+   */
+  private layoutLoadedImages(session: LoadSession): void {
+    if (session.awaitingLayout.length === 0 || !this.allImagesProcessed(session)) return;
+
+    const waiting = [...session.awaitingLayout];
+    this.relayout(this.getLayoutBounds())
+      .catch(error => console.error('Error laying out images:', error))
+      .then(() => {
+        if (session !== this.loadSession) return;
+        session.awaitingLayout = session.awaitingLayout.filter(img => !waiting.includes(img));
+        waiting
+          .filter(img => this.elementsByIndex.includes(img))
+          .sort((a, b) => Number(a.dataset.imageId) - Number(b.dataset.imageId))
+          .forEach(img => this.enqueueForDisplay(img));
+        this.checkGalleryReady();
+      });
+  }
+
+  /**
+   * Queue a loaded image for display. Once the queue has started (the gallery is
+   * visible), images loaded later are displayed as well.
+   */
+  private enqueueForDisplay(img: HTMLImageElement): void {
+    this.displayQueue.push(img);
+    if (this.loadSession?.queueStarted) {
+      this.startQueueProcessing();
+    }
+  }
+
+  private startQueueProcessing(): void {
+    const session = this.loadSession;
+    if (!session) return;
+    session.queueStarted = true;
+
+    this.logDebug('Starting queue processing, enabled:', this.fullConfig.animation.queue.enabled);
+
+    // If queue is disabled, display all images immediately
+    if (!this.fullConfig.animation.queue.enabled) {
+      while (this.displayQueue.length > 0) {
+        const img = this.displayQueue.shift();
+        if (img) {
+          this.displayImage(img);
+        }
+      }
+      return;
+    }
+
+    // Queue is enabled - stagger images with interval
+    // An interval that is already running picks up newly queued images
+    if (this.queueInterval !== null) return;
+
+    this.queueInterval = window.setInterval(() => {
+      // Check if this interval is still valid (session hasn't been replaced)
+      if (session !== this.loadSession) {
+        this.stopQueueProcessing();
+        return;
+      }
+
+      if (this.displayQueue.length > 0) {
+        const img = this.displayQueue.shift();
+        if (img) {
+          this.displayImage(img);
+        }
+      }
+
+      if (this.displayQueue.length === 0 && this.allImagesProcessed(session)) {
+        this.stopQueueProcessing();
+        this.checkGalleryReady();
+      }
+    }, this.fullConfig.animation.queue.interval);
+  }
+
+  private stopQueueProcessing(): void {
+    if (this.queueInterval !== null) {
+      clearInterval(this.queueInterval);
+      this.queueInterval = null;
+    }
+  }
+
+  /**
+   * Whether every image has either loaded or failed
+   */
+  private allImagesProcessed(session: LoadSession): boolean {
+    return this.elementsByIndex.every(img => session.loaded.has(img) || session.failed.has(img));
+  }
+
+  /**
+   * Fire onGalleryReady once every image has been displayed or has failed
+   */
+  private checkGalleryReady(): void {
+    const session = this.loadSession;
+    if (!session || session.galleryReadyFired) return;
+    if (this.displayQueue.length > 0 || session.awaitingLayout.length > 0 || !this.allImagesProcessed(session)) return;
+    if (!this.callbacks.onGalleryReady) return;
+    session.galleryReadyFired = true;
+    const ctx: GalleryReadyContext = {
+      totalImages: this.elementsByIndex.length,
+      failedImages: session.failed.size,
+      loadDuration: session.firstSrcSetTime > 0 ? performance.now() - session.firstSrcSetTime : 0,
+    };
+    this.callbacks.onGalleryReady(ctx);
+  }
+
+  /**
+   * Display a single image with its entry animation
+   */
+  private displayImage(img: HTMLImageElement): void {
+    const parent = this.getImageParent();
+    if (!parent) return;
+
+    if (img.parentElement !== parent) parent.appendChild(img);
+    img.style.pointerEvents = '';
+    this.imageElements.push(img);
+
+    requestAnimationFrame(async () => {
+      // Removed before the frame ran
+      if (!this.imageElements.includes(img)) return;
+
+      void img.offsetWidth; // Force reflow
+      // Use configured default opacity, or 1 if not specified
+      img.style.opacity = this.defaultStyles.opacity ?? '1';
+
+      const imgIndex = parseInt(img.dataset.imageId || '0');
+      const layout = this.imageLayouts[imgIndex];
+      const image = this.imageDescriptors[imgIndex];
+      const timing = this.entryAnimationEngine.getTiming();
+      const entryStartTime = performance.now();
+
+      // Parse animation data (always available since img.onload stores it unconditionally)
+      const fromX        = parseFloat(img.dataset.startX   || '0');
+      const fromY        = parseFloat(img.dataset.startY   || '0');
+      const toX          = parseFloat(img.dataset.endX     || '0');
+      const toY          = parseFloat(img.dataset.endY     || '0');
+      const toRotation   = parseFloat(img.dataset.rotation || '0');
+      const toScale      = parseFloat(img.dataset.scale    || '1');
+      const fromRotation = parseFloat(img.dataset.startRotation || img.dataset.rotation || '0');
+      const fromScale    = parseFloat(img.dataset.startScale    || img.dataset.scale    || '1');
+      const imageWidth   = parseFloat(img.dataset.imageWidth  || '0');
+      const imageHeight  = parseFloat(img.dataset.imageHeight || '0');
+
+      // Fire onEntryStart
+      if (this.callbacks.onEntryStart && layout) {
+        const ctx: EntryStartContext = {
+          element:     img,
+          index:       imgIndex,
+          image,
+          totalImages: this.imageLayouts.length,
+          layout,
+          from: { x: fromX, y: fromY, rotation: fromRotation, scale: fromScale },
+          to:   { x: toX,   y: toY,   rotation: toRotation,   scale: toScale   },
+          startTime: entryStartTime,
+          duration:  timing.duration,
+        };
+        this.callbacks.onEntryStart(ctx);
+      }
+
+      // Check if we need JS animation for path type, rotation, or scale
+      const needsJSAnimation =
+        this.entryAnimationEngine.requiresJSAnimation() ||
+        this.entryAnimationEngine.requiresJSRotation() ||
+        this.entryAnimationEngine.requiresJSScale() ||
+        img.dataset.startRotation !== img.dataset.rotation ||
+        img.dataset.startScale    !== img.dataset.scale;
+
+      if (needsJSAnimation) {
+        // Use animatePath for bounce, elastic, wave paths or rotation/scale animation
+        // Keep the cancel handle so a re-layout can take over mid-entry
+        const cancelEntry = animatePath({
+          element:       img,
+          startPosition: { x: fromX, y: fromY },
+          endPosition:   { x: toX,   y: toY   },
+          pathConfig:    this.entryAnimationEngine.getPathConfig(),
+          duration:      timing.duration,
+          imageWidth,
+          imageHeight,
+          rotation:      toRotation,
+          scale:         toScale,
+          rotationConfig: this.entryAnimationEngine.getRotationConfig(),
+          startRotation:  fromRotation,
+          scaleConfig:    this.entryAnimationEngine.getScaleConfig(),
+          startScale:     fromScale,
+          onProgress: this.callbacks.onEntryProgress && layout ? (t, elapsed, current) => {
+            const ctx: EntryProgressContext = {
+              element:     img,
+              index:       imgIndex,
+              image,
+              totalImages: this.imageLayouts.length,
+              layout,
+              from: { x: fromX, y: fromY, rotation: fromRotation, scale: fromScale },
+              to:   { x: toX,   y: toY,   rotation: toRotation,   scale: toScale   },
+              startTime:   entryStartTime,
+              duration:    timing.duration,
+              progress:    t,
+              rawProgress: t,
+              elapsed,
+              current,
+            };
+            this.callbacks.onEntryProgress!(ctx);
+          } : undefined,
+          onComplete: () => {
+            this.entryCancels.delete(img);
+            if (this.callbacks.onEntryComplete && layout) {
+              const ctx: EntryCompleteContext = {
+                element:   img,
+                index:     imgIndex,
+                image,
+                layout,
+                startTime: entryStartTime,
+                endTime:   performance.now(),
+                duration:  timing.duration,
+              };
+              this.callbacks.onEntryComplete(ctx);
+            }
+          },
+        });
+        this.entryCancels.set(img, cancelEntry);
+      } else {
+        // Use CSS transition for linear paths without rotation animation
+        // A 3D scene may have turned since the image was prepared
+        if (this.sceneEngine && layout) {
+          img.dataset.finalTransform = this.buildLayoutTransform(layout, imageWidth, imageHeight);
+        }
+        const finalTransform = img.dataset.finalTransform || '';
+        img.style.transform = finalTransform;
+
+        // Fire onEntryComplete when the transform transition ends
+        if (this.callbacks.onEntryComplete && layout) {
+          const handleTransitionEnd = (e: TransitionEvent) => {
+            if (e.propertyName !== 'transform') return;
+            img.removeEventListener('transitionend', handleTransitionEnd);
+            const ctx: EntryCompleteContext = {
+              element:   img,
+              index:     imgIndex,
+              image,
+              layout,
+              startTime: entryStartTime,
+              endTime:   performance.now(),
+              duration:  timing.duration,
+            };
+            this.callbacks.onEntryComplete!(ctx);
+          };
+          img.addEventListener('transitionend', handleTransitionEnd);
+        }
+      }
+
+      // Debug: log final state for first few images
+      if (this.fullConfig.config.debug?.enabled && imgIndex < 3) {
+        const finalTransform = img.dataset.finalTransform || '';
+        console.log(`Image ${imgIndex} final state:`, {
+          left: img.style.left,
+          top: img.style.top,
+          width: img.style.width,
+          height: img.style.height,
+          computedWidth: img.offsetWidth,
+          computedHeight: img.offsetHeight,
+          transform: finalTransform,
+          pathType: this.entryAnimationEngine.getPathType()
+        });
+      }
+
+      // Register with idle animation engine (starts after entry completes)
+      if (this.idleAnimationEngine) {
+        const entryDuration = this.entryAnimationEngine.getTiming().duration;
+        this.idleAnimationEngine.register(img, imgIndex, this.imageElements.length, entryDuration);
+      }
+      // The 3D scene draws the image once it has entered
+      this.sceneEngine?.register(img, timing.duration);
+    });
+
+    this.checkGalleryReady();
+  }
+
+  /**
+   * Stop a JS-driven entry animation where it is
+   */
+  private cancelEntry(img: HTMLImageElement): void {
+    const cancel = this.entryCancels.get(img);
+    if (cancel) {
+      cancel();
+      this.entryCancels.delete(img);
+    }
+  }
+
+  /**
+   * Move every image to its slot in the current imageLayouts
+   * Displayed images animate from wherever they are (mid-entry included); images
+   * that are not on screen yet simply enter at their new slot.
+   * @param duration - Animation duration in ms (defaults to animation.duration)
+   * @param easing - CSS easing function (defaults to animation.easing.default)
+   * @param stagger - Delay in ms added per displayed image
+   * @returns Promise that resolves when every displayed image has arrived
+   */
+  private async animateToCurrentLayout(duration?: number, easing?: string, stagger = 0): Promise<void> {
+    const generation = ++this.relayoutGeneration;
+    const imageHeight = this.currentImageHeight;
+    const animations: Promise<void>[] = [];
+    // The 3D scene holds still while the images move to their new poses
+    this.sceneEngine?.pauseAll();
+
+    this.elementsByIndex.forEach((img, index) => {
+      const layout = this.imageLayouts[index];
+      if (!layout) return;
+
+      if (!this.imageElements.includes(img)) {
+        if (this.elementSizes.has(img)) {
+          // Loaded and queued: retarget its entry animation
+          this.prepareImageEntry(img);
+        } else {
+          const knownAspectRatio = getKnownAspectRatio(this.imageDescriptors[index]);
+          img.style.left = `${layout.x}px`;
+          img.style.top = `${layout.y}px`;
+          img.style.width = knownAspectRatio ? `${imageHeight * knownAspectRatio}px` : 'auto';
+          img.style.height = `${imageHeight}px`;
+        }
+        img.style.zIndex = layout.zIndex ? String(layout.zIndex) : '';
+        return;
+      }
+
+      this.cancelEntry(img);
+      this.idleAnimationEngine?.pauseForImage(img);
+      this.sceneEngine?.register(img);
+
+      const size = this.elementSizes.get(img) ?? { aspectRatio: 1 };
+      const width = imageHeight * size.aspectRatio;
+      const sizeChanged = width !== size.renderedWidth;
+      size.renderedWidth = width;
+      this.elementSizes.set(img, size);
+
+      // The entry is over as far as the dataset is concerned: start and end are the new slot
+      const finalTransform = this.buildLayoutTransform(layout, width, imageHeight);
+      img.dataset.finalTransform = finalTransform;
+      img.dataset.startX = img.dataset.endX = String(layout.x);
+      img.dataset.startY = img.dataset.endY = String(layout.y);
+      img.dataset.imageWidth = String(width);
+      img.dataset.imageHeight = String(imageHeight);
+      img.dataset.rotation = img.dataset.startRotation = String(layout.rotation);
+      img.dataset.scale = img.dataset.startScale = String(layout.scale);
+      img.style.zIndex = layout.zIndex ? String(layout.zIndex) : '';
+
+      if (sizeChanged) {
+        // Height-relative styles (clip-path, border radius) depend on the rendered size
+        applyStylesToElementWithState(img, this.fullConfig.styling?.default, imageHeight, width);
+      }
+
+      animations.push(this.animationEngine.animateLayout(
+        img,
+        { x: layout.x, y: layout.y, width, height: imageHeight, rotation: layout.rotation, scale: layout.scale, transform: finalTransform },
+        duration,
+        easing,
+        animations.length * stagger
+      ));
+    });
+
+    await Promise.all(animations);
+
+    // A newer re-layout owns the idle animations now
+    if (generation !== this.relayoutGeneration) return;
+    for (const img of this.imageElements) {
+      this.idleAnimationEngine?.resumeForImage(img);
+    }
+    this.sceneEngine?.resumeAll();
+  }
+
+  /**
+   * Remove an image element from the gallery and stop everything driving it
+   */
+  private removeImageElement(img: HTMLImageElement): void {
+    this.detachImageElement(img);
+    img.remove();
+  }
+
+  /**
+   * Stop tracking an image element and its animations, leaving it in the DOM
+   */
+  private detachImageElement(img: HTMLImageElement): void {
+    this.cancelEntry(img);
+    this.animationEngine.cancelAllAnimations(img);
+    this.idleAnimationEngine?.stopForImage(img);
+    this.sceneEngine?.stopForImage(img);
+    img.onload = null;
+    img.onerror = null;
+    this.imageElements = this.imageElements.filter(el => el !== img);
+    this.displayQueue = this.displayQueue.filter(el => el !== img);
+    if (this.hoveredImage?.element === img) this.hoveredImage = null;
+  }
+
+  /**
+   * Normalize image sources passed to the public API, applying the extension filter
+   * like the static loader does
+   */
+  private normalizeImageSources(sources: ImageSource[]): ImageDescriptor[] {
+    if (!Array.isArray(sources)) {
+      throw new Error('Images must be an array of URLs or image descriptors.\n  Example: gallery.addImages([\'https://...\', { url: \'https://...\', alt: \'...\' }])');
+    }
+    const images: ImageDescriptor[] = [];
+    for (const source of sources) {
+      const image = toImageDescriptor(source);
+      if (!image) {
+        console.warn('Skipping image entry without a url:', source);
+        continue;
+      }
+      const filename = image.url.split('/').pop() || image.url;
+      if (!this.imageFilter.isAllowed(filename)) {
+        this.logDebug(`Skipping filtered URL: ${image.url}`);
+        continue;
+      }
+      images.push(image);
+    }
+    return images;
+  }
+
+  /**
+   * Replace the gallery's image set in place
+   * Elements in `reused` keep their DOM node (and load state) and animate to their new
+   * slot; null entries get a new element that loads and plays the entry animation.
+   * Elements not reused are removed.
+   * @param images - The new ordered image set
+   * @param reused - Existing element to keep for each image, or null
+   */
+  private async updateImageSet(images: ImageDescriptor[], reused: (HTMLImageElement | null)[]): Promise<void> {
+    if (!this.containerEl) {
+      throw new Error('Gallery is not initialized. Await init() before adding or removing images.');
+    }
 
-      if (imageCount === 0) {
-        this.showError('No images found.');
-        this.showLoading(false);
-        return;
+    // Slot indices are about to change; return the focused image to the cloud first
+    if (this.currentFocusIndex !== null || this.zoomEngine.getState() !== ZoomState.IDLE) {
+      await this.unfocus();
+    }
+
+    // Displayed images that leave play the exit animation (if configured) alongside the morph
+    const exitConfig = this.resolveExitConfig();
+    const leaving = this.elementsByIndex.filter(img => !reused.includes(img));
+    const exiting = exitConfig ? this.captureExitingImages(leaving) : [];
+    for (const img of leaving) {
+      if (exiting.some(({ element }) => element === img)) {
+        this.detachImageElement(img);
+      } else {
+        this.removeImageElement(img);
       }
+    }
+    const exited = exitConfig ? this.exitImages(exiting, exitConfig) : Promise.resolve();
 
-      // Calculate adaptive sizing based on container and image count
-      const containerBounds = this.getContainerBounds();
-      const responsiveHeight = this.getImageHeight();
-      const viewportWidth = window.innerWidth;
+    this.imageDescriptors = images;
+    reused.forEach((img, index) => {
+      if (!img) return;
+      img.dataset.imageId = String(index);
+      img.alt = images[index].alt ?? this.getImageAlt(images[index].url, index);
+    });
 
-      this.logDebug(`Adaptive sizing input: container=${containerBounds.width}x${containerBounds.height}px, images=${imageCount}, responsiveMax=${responsiveHeight}px`);
+    // Re-run adaptive sizing for the new image count, then lay everything out again
+    const containerBounds = this.getLayoutBounds();
+    this.computeLayouts(containerBounds, reused);
+    this.fireLayoutComplete(containerBounds);
+    this.drawDebugCenters();
 
-      const sizingResult = this.layoutEngine.calculateAdaptiveSize(
-        containerBounds,
-        imageCount,
-        responsiveHeight,
-        viewportWidth
-      );
+    // The gallery may have started empty (no load session yet)
+    const session = this.loadSession ?? this.beginLoadSession();
+    this.hideError();
+    this.imagesLoaded = true;
 
-      this.logDebug(`Adaptive sizing result: height=${sizingResult.height}px`);
+    this.elementsByIndex = reused.map((img, index) => img ?? this.createImageElement(images[index], index, session));
 
-      await this.createImageCloud(imageUrls, sizingResult.height);
+    const settled = this.animateToCurrentLayout();
+    // Removing the last image still loading releases images held for an aspect-ratio layout
+    this.layoutLoadedImages(session);
+    this.checkGalleryReady();
+    await Promise.all([settled, exited]);
+  }
 
-      this.showLoading(false);
-      this.imagesLoaded = true;
+  // ===== Public image set API =====
 
-    } catch (error) {
-      console.error('Error loading images:', error);
-      if (error instanceof Error) {
-        this.showError(error.message || 'Failed to load images.');
-      }
-      this.showLoading(false);
-    }
+  /**
+   * Append images to the gallery without reloading it
+   * Existing images animate to their new positions; only the new images play the
+   * entry animation (once loaded). Resolves when the existing images have settled.
+   * @param images - URLs or image descriptors to append
+   */
+  async addImages(images: ImageSource[]): Promise<void> {
+    const added = this.normalizeImageSources(images);
+    await this.updateImageSet(
+      [...this.imageDescriptors, ...added],
+      [...this.elementsByIndex, ...added.map(() => null)]
+    );
   }
 
   /**
-   * Helper for debug logging
+   * Remove the image at the given index
+   * The remaining images animate to close the gap. Resolves when they have settled.
+   * @param index - Zero-based image index (0 to getImageCount() - 1)
    */
-  private logDebug(...args: unknown[]): void {
-    if (this.fullConfig.config.debug?.enabled && typeof console !== 'undefined') {
-      console.log(...args);
-    }
+  async removeImage(index: number): Promise<void> {
+    this.assertImageIndex(index);
+    await this.updateImageSet(
+      this.imageDescriptors.filter((_, i) => i !== index),
+      this.elementsByIndex.filter((_, i) => i !== index)
+    );
   }
 
-  private async createImageCloud(imageUrls: string[], imageHeight: number): Promise<void> {
-    if (!this.containerEl) return;
+  /**
+   * Replace the gallery's images with a new list without reloading
+   * Images whose URL is already shown keep their element and animate to their new
+   * position; new URLs enter with the entry animation; the rest are removed.
+   * Resolves when the kept images have settled.
+   * @param images - The new ordered list of URLs or image descriptors
+   */
+  async replaceImages(images: ImageSource[]): Promise<void> {
+    const next = this.normalizeImageSources(images);
+
+    // Match existing elements by URL, in order (duplicates are consumed one at a time)
+    const available = new Map<string, HTMLImageElement[]>();
+    this.elementsByIndex.forEach((img, index) => {
+      const url = this.imageDescriptors[index]?.url;
+      if (url === undefined) return;
+      const list = available.get(url) ?? [];
+      list.push(img);
+      available.set(url, list);
+    });
+    const reused = next.map(image => available.get(image.url)?.shift() ?? null);
 
-    const containerBounds = this.getContainerBounds();
-    this.currentImageHeight = imageHeight;
+    await this.updateImageSet(next, reused);
+  }
 
-    // Capture current generation to detect stale callbacks
-    const currentGeneration = this.loadGeneration;
+  // ===== Public layout and options API =====
 
-    // Generate layout
-    const layouts = this.layoutEngine.generateLayout(imageUrls.length, containerBounds, { fixedHeight: imageHeight } as any);
-    this.imageLayouts = layouts;
-
-    if (this.callbacks.onLayoutComplete) {
-      const ctx: LayoutCompleteContext = {
-        layouts:         [...layouts],  // shallow copy — caller should not mutate
-        containerBounds: { ...containerBounds },
-        algorithm:       this.fullConfig.layout.algorithm,
-        imageCount:      imageUrls.length,
-      };
-      this.callbacks.onLayoutComplete(ctx);
-    }
+  /**
+   * Get the current layout: one entry per image, in image order, in container pixels.
+   * Returns copies; changing them does not move the images.
+   */
+  getLayout(): ImageLayout[] {
+    return this.imageLayouts.map((layout, index) => ({ ...(this.layoutEngine.getOriginalState(index) ?? layout) }));
+  }
 
-    this.displayQueue = [];
-    let processedCount = 0;
-    let loadedCount = 0;
-    let failedCount = 0;
-    let firstSrcSetTime = 0;
-    let galleryReadyFired = false;
-    const srcSetTimes = new Map<number, number>();
-
-    const fireGalleryReady = () => {
-      if (galleryReadyFired || currentGeneration !== this.loadGeneration) return;
-      if (!this.callbacks.onGalleryReady) return;
-      galleryReadyFired = true;
-      const ctx: GalleryReadyContext = {
-        totalImages: imageUrls.length,
-        failedImages: failedCount,
-        loadDuration: firstSrcSetTime > 0 ? performance.now() - firstSrcSetTime : 0,
+  /**
+   * Get the current layout as `layout.manual` items: positions as container
+   * fractions, matched by URL, so the arrangement can be saved and restored
+   * with `layout: { algorithm: 'manual', manual: { items } }`
+   */
+  exportLayout(): ManualLayoutItem[] {
+    const bounds = this.layoutBounds ?? this.getContainerBounds();
+    return this.getLayout().map((layout, index) => {
+      const item: ManualLayoutItem = {
+        id: index,
+        url: this.imageDescriptors[index]?.url,
+        x: bounds.width > 0 ? layout.x / bounds.width : 0,
+        y: bounds.height > 0 ? layout.y / bounds.height : 0,
+        rotation: layout.rotation,
+        scale: layout.scale
       };
-      this.callbacks.onGalleryReady(ctx);
-    };
+      if (layout.zIndex !== undefined) item.zIndex = layout.zIndex;
+      return item;
+    });
+  }
 
-    const checkGalleryReady = () => {
-      if (processedCount >= imageUrls.length && this.displayQueue.length === 0) {
-        fireGalleryReady();
-      }
-    };
+  /**
+   * Switch to another layout algorithm, morphing every image from where it is now
+   * to its new position. Fires onLayoutComplete once the images have arrived.
+   * Replaces any `layout.custom` instance.
+   * @param algorithm - Built-in or registered layout algorithm to switch to
+   * @param options - Morph duration, easing and per-image stagger
+   */
+  async setLayout(algorithm: LayoutAlgorithm, options: SetLayoutOptions = {}): Promise<void> {
+    if (!this.containerEl) {
+      throw new Error('Gallery is not initialized. Await init() before changing the layout.');
+    }
+    await this.queueOptionChange(current => mergeOptions(current, { layout: { algorithm, custom: undefined } }), options);
+  }
 
-    // Helper to display a single image with animation
-    const displayImage = (img: HTMLImageElement) => {
-      if (!this.containerEl) return;
-
-      this.containerEl.appendChild(img);
-      this.imageElements.push(img);
-
-      requestAnimationFrame(async () => {
-        void img.offsetWidth; // Force reflow
-        // Use configured default opacity, or 1 if not specified
-        img.style.opacity = this.defaultStyles.opacity ?? '1';
-
-        const imgIndex = parseInt(img.dataset.imageId || '0');
-        const layout = this.imageLayouts[imgIndex];
-        const timing = this.entryAnimationEngine.getTiming();
-        const entryStartTime = performance.now();
-
-        // Parse animation data (always available since img.onload stores it unconditionally)
-        const fromX        = parseFloat(img.dataset.startX   || '0');
-        const fromY        = parseFloat(img.dataset.startY   || '0');
-        const toX          = parseFloat(img.dataset.endX     || '0');
-        const toY          = parseFloat(img.dataset.endY     || '0');
-        const toRotation   = parseFloat(img.dataset.rotation || '0');
-        const toScale      = parseFloat(img.dataset.scale    || '1');
-        const fromRotation = parseFloat(img.dataset.startRotation || img.dataset.rotation || '0');
-        const fromScale    = parseFloat(img.dataset.startScale    || img.dataset.scale    || '1');
-        const imageWidth   = parseFloat(img.dataset.imageWidth  || '0');
-        const imageHeight  = parseFloat(img.dataset.imageHeight || '0');
-
-        // Fire onEntryStart
-        if (this.callbacks.onEntryStart && layout) {
-          const ctx: EntryStartContext = {
-            element:     img,
-            index:       imgIndex,
-            totalImages: this.imageLayouts.length,
-            layout,
-            from: { x: fromX, y: fromY, rotation: fromRotation, scale: fromScale },
-            to:   { x: toX,   y: toY,   rotation: toRotation,   scale: toScale   },
-            startTime: entryStartTime,
-            duration:  timing.duration,
-          };
-          this.callbacks.onEntryStart(ctx);
-        }
+  /**
+   * Change options on a live gallery without recreating it
+   * Each option section (`layout`, `animation`, `styling`, ...) is merged key by key into
+   * the current options, so `{ layout: { algorithm: 'grid' } }` keeps the other layout
+   * settings. Styling, animation, interaction and UI changes apply to the existing images,
+   * layout and sizing changes morph the images to their new positions, and only loader
+   * changes (`images`, `loaders`, `config.loaders`) reload the gallery.
+   * @param options - Options to change
+   * @returns Promise that resolves once the change (including any re-layout or reload) is done
+   */
+  async updateOptions(options: Omit<ImageCloudOptions, 'container'>): Promise<void> {
+    await this.queueOptionChange(current => mergeOptions(current, options));
+  }
 
-        // Check if we need JS animation for path type, rotation, or scale
-        const needsJSAnimation =
-          this.entryAnimationEngine.requiresJSAnimation() ||
-          this.entryAnimationEngine.requiresJSRotation() ||
-          this.entryAnimationEngine.requiresJSScale() ||
-          img.dataset.startRotation !== img.dataset.rotation ||
-          img.dataset.startScale    !== img.dataset.scale;
-
-        if (needsJSAnimation) {
-          // Use animatePath for bounce, elastic, wave paths or rotation/scale animation
-          animatePath({
-            element:       img,
-            startPosition: { x: fromX, y: fromY },
-            endPosition:   { x: toX,   y: toY   },
-            pathConfig:    this.entryAnimationEngine.getPathConfig(),
-            duration:      timing.duration,
-            imageWidth,
-            imageHeight,
-            rotation:      toRotation,
-            scale:         toScale,
-            rotationConfig: this.entryAnimationEngine.getRotationConfig(),
-            startRotation:  fromRotation,
-            scaleConfig:    this.entryAnimationEngine.getScaleConfig(),
-            startScale:     fromScale,
-            onProgress: this.callbacks.onEntryProgress && layout ? (t, elapsed, current) => {
-              const ctx: EntryProgressContext = {
-                element:     img,
-                index:       imgIndex,
-                totalImages: this.imageLayouts.length,
-                layout,
-                from: { x: fromX, y: fromY, rotation: fromRotation, scale: fromScale },
-                to:   { x: toX,   y: toY,   rotation: toRotation,   scale: toScale   },
-                startTime:   entryStartTime,
-                duration:    timing.duration,
-                progress:    t,
-                rawProgress: t,
-                elapsed,
-                current,
-              };
-              this.callbacks.onEntryProgress!(ctx);
-            } : undefined,
-            onComplete: layout ? () => {
-              if (this.callbacks.onEntryComplete) {
-                const ctx: EntryCompleteContext = {
-                  element:   img,
-                  index:     imgIndex,
-                  layout,
-                  startTime: entryStartTime,
-                  endTime:   performance.now(),
-                  duration:  timing.duration,
-                };
-                this.callbacks.onEntryComplete(ctx);
-              }
-            } : undefined,
-          });
-        } else {
-          // Use CSS transition for linear paths without rotation animation
-          const finalTransform = img.dataset.finalTransform || '';
-          img.style.transform = finalTransform;
-
-          // Fire onEntryComplete when the transform transition ends
-          if (this.callbacks.onEntryComplete && layout) {
-            const handleTransitionEnd = (e: TransitionEvent) => {
-              if (e.propertyName !== 'transform') return;
-              img.removeEventListener('transitionend', handleTransitionEnd);
-              const ctx: EntryCompleteContext = {
-                element:   img,
-                index:     imgIndex,
-                layout,
-                startTime: entryStartTime,
-                endTime:   performance.now(),
-                duration:  timing.duration,
-              };
-              this.callbacks.onEntryComplete!(ctx);
-            };
-            img.addEventListener('transitionend', handleTransitionEnd);
-          }
-        }
+  /**
+   * Replace the options of a live gallery without recreating it
+   * Unlike updateOptions(), nothing is merged: an option left out goes back to its
+   * default. Changes take effect the same way as with updateOptions().
+   * @param options - Complete new options
+   * @returns Promise that resolves once the change (including any re-layout or reload) is done
+   */
+  async setOptions(options: Omit<ImageCloudOptions, 'container'>): Promise<void> {
+    await this.queueOptionChange(current => ({ ...options, container: current.container }));
+  }
 
-        // Debug: log final state for first few images
-        if (this.fullConfig.config.debug?.enabled && imgIndex < 3) {
-          const finalTransform = img.dataset.finalTransform || '';
-          console.log(`Image ${imgIndex} final state:`, {
-            left: img.style.left,
-            top: img.style.top,
-            width: img.style.width,
-            height: img.style.height,
-            computedWidth: img.offsetWidth,
-            computedHeight: img.offsetHeight,
-            transform: finalTransform,
-            pathType: this.entryAnimationEngine.getPathType()
-          });
-        }
+  /**
+   * Apply an option change after any earlier change has finished, so each one
+   * builds on the options the previous one left behind
+   * @param resolve - Derives the complete new options from the current ones
+   */
+  private queueOptionChange(resolve: (current: ImageCloudOptions) => ImageCloudOptions, morph: SetLayoutOptions = {}): Promise<void> {
+    const run = this.pendingOptionChange.then(() => this.applyOptions(resolve(this.options), morph));
+    // A failed change must not block the ones queued after it
+    this.pendingOptionChange = run.catch(() => {});
+    return run;
+  }
 
-        // Register with idle animation engine (starts after entry completes)
-        if (this.idleAnimationEngine) {
-          const entryDuration = this.entryAnimationEngine.getTiming().duration;
-          this.idleAnimationEngine.register(img, imgIndex, this.imageElements.length, entryDuration);
-        }
-      });
+  /**
+   * Switch to a new set of options, touching only what changed
+   * @param nextOptions - Complete new options
+   * @param morph - Animation settings for the re-layout, if the layout changes
+   */
+  private async applyOptions(nextOptions: ImageCloudOptions, morph: SetLayoutOptions = {}): Promise<void> {
+    const previousOptions = this.options;
+    const previous = this.fullConfig;
+    const next = mergeConfig(nextOptions);
+    const changed = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+
+    const loadersChanged = changed(previous.loaders, next.loaders) || changed(previous.config.loaders, next.config.loaders);
+    // layout.custom is a live object (possibly referencing the config), so compare it by identity
+    const canvasChanged = changed(previous.interaction.canvas, next.interaction.canvas);
+    // The canvas surface is what the layout is computed for
+    const layoutChanged = previous.layout.custom !== next.layout.custom ||
+      changed({ ...previous.layout, custom: undefined }, { ...next.layout, custom: undefined }) ||
+      changed(previous.image, next.image) ||
+      canvasChanged;
+
+    // Focus geometry, styling and engines may all change; return the focused image first
+    if (this.currentFocusIndex !== null || this.zoomEngine.getState() !== ZoomState.IDLE) {
+      await this.unfocus();
+    }
 
-      processedCount++;
-      checkGalleryReady();
-    };
+    this.options = nextOptions;
+    this.fullConfig = next;
+    this.callbacks = nextOptions.on ?? {};
+
+    if (loadersChanged) {
+      try {
+        this.imageFilter = this.createImageFilter();
+        this.imageLoader = this.createLoader();
+      } catch (error) {
+        // Keep the gallery on its previous, working options
+        this.options = previousOptions;
+        this.fullConfig = previous;
+        this.callbacks = previousOptions.on ?? {};
+        throw error;
+      }
+    }
 
-    const startQueueProcessing = () => {
-      this.logDebug('Starting queue processing, enabled:', this.fullConfig.animation.queue.enabled);
+    // Nothing is focused, so the zoom engine can be rebuilt when its config changes
+    if (changed(previous.animation, next.animation)) {
+      this.animationEngine = new AnimationEngine(next.animation);
+      this.zoomEngine = this.createZoomEngine();
+    } else if (changed(previous.interaction.focus, next.interaction.focus)) {
+      this.zoomEngine = this.createZoomEngine();
+    } else {
+      this.zoomEngine.setStyling(next.styling);
+    }
+    // A new layout engine would drop the stored layouts, dragged positions and live physics state
+    if (layoutChanged) {
+      this.layoutEngine = new LayoutEngine({ layout: next.layout, image: next.image });
+    } else {
+      this.layoutEngine.updateConfig({ layout: next.layout, image: next.image });
+    }
+    this.entryAnimationEngine = this.createEntryAnimationEngine();
 
-      // If queue is disabled, display all images immediately
-      if (!this.fullConfig.animation.queue.enabled) {
-        while (this.displayQueue.length > 0) {
-          const img = this.displayQueue.shift();
-          if (img) {
-            displayImage(img);
-          }
-        }
-        return;
+    if (changed(previous.animation.idle, next.animation.idle)) {
+      this.idleAnimationEngine?.stopAll();
+      this.idleAnimationEngine = this.createIdleAnimationEngine();
+      for (const img of this.imageElements) {
+        this.idleAnimationEngine?.register(img, parseInt(img.dataset.imageId || '0', 10), this.imageElements.length, 0);
       }
+    }
 
-      // Queue is enabled - stagger images with interval
-      // Clear any existing interval before creating new one
-      if (this.queueInterval !== null) {
-        clearInterval(this.queueInterval);
-      }
-      this.queueInterval = window.setInterval(() => {
-        // Check if this interval is still valid (generation hasn't changed)
-        if (currentGeneration !== this.loadGeneration) {
-          if (this.queueInterval !== null) {
-            clearInterval(this.queueInterval);
-            this.queueInterval = null;
-          }
-          return;
-        }
+    this.applyStyling(previous.styling);
 
-        if (this.displayQueue.length > 0) {
-          const img = this.displayQueue.shift();
-          if (img) {
-            displayImage(img);
-          }
-        }
+    // Not initialized yet: init() renders with the new options
+    if (!this.containerEl) return;
 
-        if (processedCount >= imageUrls.length && this.displayQueue.length === 0) {
-          if (this.queueInterval !== null) {
-            clearInterval(this.queueInterval);
-            this.queueInterval = null;
-          }
-          fireGalleryReady();
-        }
-      }, this.fullConfig.animation.queue.interval);
-    };
+    // Swipe and detail zoom listen on the lightbox overlay when there is one
+    const lightboxChanged = previous.interaction.focus.mode !== next.interaction.focus.mode ||
+      changed(previous.interaction.focus.lightbox, next.interaction.focus.lightbox) ||
+      (this.lightbox !== null && previous.interaction.focus.animationDuration !== next.interaction.focus.animationDuration);
+    if (lightboxChanged) {
+      this.teardownLightbox();
+      this.setupLightbox();
+    }
+    if (lightboxChanged || changed(previous.interaction.navigation, next.interaction.navigation)) {
+      this.swipeEngine?.destroy();
+      this.swipeEngine = null;
+      this.setupSwipeEngine();
+    }
+    if (previous.interaction.rearrange !== next.interaction.rearrange) {
+      this.rearrangeEngine?.destroy();
+      this.rearrangeEngine = null;
+      this.setupRearrangeEngine();
+    }
+    if (canvasChanged) {
+      this.teardownCanvasEngine();
+      this.setupCanvasEngine();
+    }
+    if (layoutChanged) {
+      // The images join the new scene, if any, in the re-layout below
+      this.teardownSceneEngine();
+      this.setupSceneEngine();
+    }
+    if (lightboxChanged || previous.interaction.focus.detailZoom !== next.interaction.focus.detailZoom) {
+      this.detailZoomEngine?.destroy();
+      this.detailZoomEngine = null;
+      this.setupDetailZoomEngine();
+    }
+    for (const img of this.elementsByIndex) {
+      img.draggable = next.interaction.dragging !== false && !next.interaction.rearrange && !this.canvasEngine && !this.sceneEngine;
+      // Images still waiting to enter use the new entry timing
+      if (!this.imageElements.includes(img)) {
+        img.style.transition = this.entryAnimationEngine.getTransitionCSS();
+      }
+    }
 
-    // Visibility Check
-    if ('IntersectionObserver' in window && this.containerEl) {
-      const observer = new IntersectionObserver((entries) => {
-        entries.forEach(entry => {
-          if (entry.isIntersecting) {
-            startQueueProcessing();
-            observer.disconnect();
-          }
-        });
-      }, { threshold: 0.1, rootMargin: '50px' });
-      observer.observe(this.containerEl);
-    } else {
-      startQueueProcessing();
-    }
-
-    // Debug: Draw center markers if debug.centers is enabled
-    if (this.fullConfig.config.debug?.centers && this.containerEl) {
-      // Remove any existing debug markers
-      this.containerEl.querySelectorAll('.fbn-ic-debug-center').forEach(el => el.remove());
-
-      layouts.forEach((layout, index) => {
-        const marker = document.createElement('div');
-        marker.className = 'fbn-ic-debug-center';
-        marker.style.position = 'absolute';
-        marker.style.width = '12px';
-        marker.style.height = '12px';
-        marker.style.borderRadius = '50%';
-        marker.style.backgroundColor = 'red';
-        marker.style.border = '2px solid yellow';
-        marker.style.zIndex = '9999';
-        marker.style.pointerEvents = 'none';
-        // Center position: layout.x and layout.y now store the center position directly
-        const centerX = layout.x;
-        const centerY = layout.y;
-        marker.style.left = `${centerX - 6}px`;  // Offset by half marker size
-        marker.style.top = `${centerY - 6}px`;
-        marker.title = `Image ${index}: center (${Math.round(centerX)}, ${Math.round(centerY)})`;
-        this.containerEl!.appendChild(marker);
-      });
+    if (changed(previous.ui, next.ui)) {
+      this.teardownUI();
+      this.setupUI();
     }
 
-    // Create elements
-    imageUrls.forEach((url, index) => {
-      const img = document.createElement('img');
-      // NOTE: img.src is set AFTER onload handler to ensure handler catches cached images
-      img.referrerPolicy = 'no-referrer';
-      img.classList.add('fbn-ic-image');
-      img.alt = this.getImageAlt(url, index);
-      if (this.fullConfig.interaction.dragging === false) {
-        img.draggable = false;
-      }
-      img.dataset.imageId = String(index);
+    if (loadersChanged) {
+      await this.loadImages();
+      return;
+    }
 
-      const layout = layouts[index];
-      img.style.position = 'absolute';
-      img.style.width = 'auto';
-      img.style.height = `${imageHeight}px`;
-      img.style.left = `${layout.x}px`;
-      img.style.top = `${layout.y}px`;
-      // Transform will be applied in onload after we know the actual dimensions
+    if (layoutChanged) {
+      await this.relayout(this.getLayoutBounds(), morph);
+    }
+  }
 
-      if (layout.zIndex) img.style.zIndex = String(layout.zIndex);
+  /**
+   * Re-run adaptive sizing and the layout algorithm for the current image set
+   * @param containerBounds - Container size to lay out for
+   * @param elements - Element per image, for the aspect ratios of those that have loaded
+   * @param anchors - Images a live layout keeps in place
+   */
+  private computeLayouts(
+    containerBounds: ContainerBounds,
+    elements: (HTMLImageElement | null)[] = this.elementsByIndex,
+    anchors: number[] = []
+  ): void {
+    this.layoutBounds = { ...containerBounds };
+    const imageCount = this.imageDescriptors.length;
+    if (imageCount === 0) {
+      this.imageLayouts = [];
+      this.restoreContainerHeight();
+      return;
+    }
+    const aspectRatios = this.getAspectRatios(elements);
+    this.currentImageHeight = this.calculateImageHeight(containerBounds, aspectRatios);
+    this.imageLayouts = this.layoutEngine.generateLayout(imageCount, containerBounds, {
+      fixedHeight: this.currentImageHeight,
+      images: this.imageDescriptors,
+      aspectRatios,
+      anchors
+    });
+    this.updateContainerGrowth();
+  }
 
-      // NOTE: Default styling will be applied in onload after image dimensions are known
-      // This ensures height-relative clip-path is calculated correctly with proper width
-      // Element starts with opacity 0 so it's not visible until onload completes
-      applyClassNameToElement(img, this.defaultClassName);
+  /**
+   * Image height the current image set would get in a container of the given size
+   */
+  private calculateImageHeight(containerBounds: ContainerBounds, aspectRatios: (number | undefined)[] = this.getAspectRatios()): number {
+    return this.layoutEngine.calculateAdaptiveSize(
+      containerBounds,
+      this.imageDescriptors.length,
+      this.getImageHeight(),
+      this.getBreakpointWidth(),
+      aspectRatios
+    ).height;
+  }
 
-      // Hover event handlers
-      // Use isInvolved() to prevent hover styles on images that are focused or animating
-      img.addEventListener('mouseenter', () => {
-        this.hoveredImage = { element: img, layout };
-        if (!this.zoomEngine.isInvolved(img)) {
-          // Use cached rendered width for consistent clip-path centering (prevents shifting)
-          const cachedWidth = (img as any).cachedRenderedWidth;
-          applyStylesToElementWithState(img, this.fullConfig.styling?.hover, imageHeight, cachedWidth);
-          applyClassNameToElement(img, this.hoverClassName);
-        }
-        if (this.callbacks.onImageHover) {
-          const ctx: ImageStateContext = { element: img, index, url, layout };
-          this.callbacks.onImageHover(ctx);
-        }
-      });
+  /**
+   * Aspect ratio per image: measured once the image has loaded, otherwise from the
+   * descriptor's declared width and height, otherwise undefined
+   * @param elements - Element per image
+   */
+  private getAspectRatios(elements: (HTMLImageElement | null)[] = this.elementsByIndex): (number | undefined)[] {
+    return this.imageDescriptors.map((image, index) => {
+      const element = elements[index];
+      return (element && this.elementSizes.get(element)?.aspectRatio) ?? getKnownAspectRatio(image);
+    });
+  }
 
-      img.addEventListener('mouseleave', () => {
-        this.hoveredImage = null;
-        if (!this.zoomEngine.isInvolved(img)) {
-          // Use cached rendered width for consistent clip-path centering (prevents shifting)
-          const cachedWidth = (img as any).cachedRenderedWidth;
-          applyStylesToElementWithState(img, this.fullConfig.styling?.default, imageHeight, cachedWidth);
-          removeClassNameFromElement(img, this.hoverClassName);
-          applyClassNameToElement(img, this.defaultClassName);
-        }
-        if (this.callbacks.onImageUnhover) {
-          const ctx: ImageStateContext = { element: img, index, url, layout };
-          this.callbacks.onImageUnhover(ctx);
-        }
-      });
+  /**
+   * Restyle the images in place after fullConfig.styling changed
+   * @param previous - The styling config the images currently carry
+   */
+  private applyStyling(previous: ImageStylingConfig | undefined): void {
+    const styling = this.fullConfig.styling;
+    const previousClassName = this.defaultClassName;
 
-      img.addEventListener('click', (e: MouseEvent) => {
-        e.stopPropagation();
-        this.handleImageClick(img, layout);
-      });
+    this.defaultStyles = buildStyleProperties(styling?.default);
+    this.defaultClassName = styling?.default?.className;
+    this.hoverClassName = styling?.hover?.className;
+    if (JSON.stringify(previous) === JSON.stringify(styling)) return;
 
-      img.style.opacity = '0';
-      img.style.transition = this.entryAnimationEngine.getTransitionCSS();
+    for (const img of this.elementsByIndex) {
+      removeClassNameFromElement(img, previousClassName);
+      applyClassNameToElement(img, this.defaultClassName);
 
-      img.onload = () => {
-        // Ignore if generation has changed (stale callback from previous load)
-        if (currentGeneration !== this.loadGeneration) {
-          return;
-        }
+      // Images that have not loaded yet are styled once their size is known
+      const cachedWidth = this.elementSizes.get(img)?.renderedWidth;
+      if (cachedWidth === undefined) continue;
 
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        const renderedWidth = imageHeight * aspectRatio;
+      // Styles are only written when configured, so clear the previous ones first
+      const opacity = img.style.opacity;
+      removeStylesFromElement(img, buildStyleProperties(previous?.default, this.currentImageHeight, cachedWidth));
+      applyStylesToElementWithState(img, styling?.default, this.currentImageHeight, cachedWidth);
+      // Images waiting in the display queue stay hidden until their entry
+      if (!this.imageElements.includes(img)) img.style.opacity = opacity;
+    }
+  }
 
-        // Set explicit width so transform calculations are accurate
-        img.style.width = `${renderedWidth}px`;
+  // ===== Drag to rearrange =====
 
-        // Store rendered width and aspect ratio on element for use in event handlers and focused state
-        (img as any).cachedRenderedWidth = renderedWidth;
-        (img as any).aspectRatio = aspectRatio;
+  /**
+   * Only settled images can be dragged, and only while nothing is focused
+   */
+  private canDragImage(img: HTMLImageElement): boolean {
+    // Dragging spins a 3D scene instead
+    return !this.sceneEngine &&
+      this.currentFocusIndex === null &&
+      this.zoomEngine.getState() === ZoomState.IDLE &&
+      this.imageElements.includes(img) &&
+      !img.classList.contains('fbn-ic-exiting');
+  }
 
-        // Reapply default styling with correct width for height-relative clip-path centering
-        // Now we know both height and the rendered width (from aspect ratio)
-        applyStylesToElementWithState(img, this.fullConfig.styling?.default, imageHeight, renderedWidth);
+  /**
+   * Lift an image out of the cloud: stop its animations and raise it above the others
+   * @returns The image center where the drag starts
+   */
+  private startImageDrag(img: HTMLImageElement): { x: number; y: number } {
+    const state = this.getImageState(img)!;
+
+    // Start from where the image is on screen, even mid-morph
+    const computed = getComputedStyle(img);
+    const x = parseFloat(computed.left);
+    const y = parseFloat(computed.top);
+
+    this.draggedImage = { element: img, previousLayout: { ...state.layout }, transition: img.style.transition };
+    this.idleAnimationEngine?.stopForImage(img);
+    this.animationEngine.cancelAllAnimations(img);
+
+    img.style.transition = 'none';
+    img.style.left = `${x}px`;
+    img.style.top = `${y}px`;
+    img.style.zIndex = String(this.getTopZIndex(img) + 1);
+    img.classList.add('fbn-ic-dragging');
+    return { x, y };
+  }
 
-        // Use EntryAnimationEngine for start position calculation
-        const finalPosition = { x: layout.x, y: layout.y };
-        const imageSize = { width: renderedWidth, height: imageHeight };
+  private moveDraggedImage(img: HTMLImageElement, x: number, y: number): void {
+    const position = this.clampToContainer(img, x, y);
+    img.style.left = `${position.x}px`;
+    img.style.top = `${position.y}px`;
+  }
 
-        const startPosition = this.entryAnimationEngine.calculateStartPosition(
-          finalPosition,
-          imageSize,
-          containerBounds,
-          index,
-          imageUrls.length
-        );
-
-        // Calculate start rotation based on entry rotation config
-        const startRotation = this.entryAnimationEngine.calculateStartRotation(layout.rotation);
-
-        // Calculate start scale based on entry scale config
-        const startScale = this.entryAnimationEngine.calculateStartScale(layout.scale);
-
-        const finalTransform = this.entryAnimationEngine.buildFinalTransform(
-          layout.rotation,
-          layout.scale,
-          renderedWidth,
-          imageHeight
-        );
-        const startTransform = this.entryAnimationEngine.buildStartTransform(
-          startPosition,
-          finalPosition,
-          layout.rotation,
-          layout.scale,
-          renderedWidth,
-          imageHeight,
-          startRotation,
-          startScale
-        );
-
-        if (this.fullConfig.config.debug?.enabled && index < 3) {
-          console.log(`Image ${index}:`, {
-            finalPosition,
-            imageSize,
-            left: layout.x,
-            top: layout.y,
-            finalTransform,
-            renderedWidth,
-            renderedHeight: imageHeight
-          });
-        }
+  /**
+   * Store the dropped position in the image's layout and report the move
+   */
+  private dropImage(img: HTMLImageElement, x: number, y: number): void {
+    const drag = this.draggedImage;
+    const state = this.getImageState(img);
+    this.draggedImage = null;
+    if (!drag || !state) return;
+
+    const position = this.clampToContainer(img, x, y);
+    const layout = state.layout;
+    layout.x = position.x;
+    layout.y = position.y;
+    layout.zIndex = this.getTopZIndex(img) + 1;
+
+    img.style.left = `${layout.x}px`;
+    img.style.top = `${layout.y}px`;
+    img.style.zIndex = String(layout.zIndex);
+    this.endImageDrag(img, drag.transition, state.index);
+    this.updateMinimap();
+
+    // Live layouts push the other images aside. Nothing is focused during a drag,
+    // so the new layouts are computed before relayout() first awaits.
+    if (this.layoutEngine.isLive()) {
+      this.relayout(this.layoutBounds ?? this.getLayoutBounds(), {}, [state.index])
+        .catch(error => console.error('Error re-laying out images:', error));
+    }
 
-        img.style.transform = startTransform;
-        img.dataset.finalTransform = finalTransform;
-
-        // Always store animation data so entry hooks and displayImage can access it
-        img.dataset.startX = String(startPosition.x);
-        img.dataset.startY = String(startPosition.y);
-        img.dataset.endX = String(finalPosition.x);
-        img.dataset.endY = String(finalPosition.y);
-        img.dataset.imageWidth = String(renderedWidth);
-        img.dataset.imageHeight = String(imageHeight);
-        img.dataset.rotation = String(layout.rotation);
-        img.dataset.scale = String(layout.scale);
-        img.dataset.startRotation = String(startRotation);
-        img.dataset.startScale = String(startScale);
-
-        loadedCount++;
-        if (this.callbacks.onImageLoaded) {
-          const ctx: ImageLoadedContext = {
-            element: img,
-            url,
-            index,
-            totalImages: imageUrls.length,
-            loadTime: performance.now() - (srcSetTimes.get(index) ?? performance.now()),
-          };
-          this.callbacks.onImageLoaded(ctx);
-        }
-        if (this.callbacks.onLoadProgress) {
-          const ctx: LoadProgressContext = {
-            loaded: loadedCount,
-            failed: failedCount,
-            total: imageUrls.length,
-            percent: (loadedCount + failedCount) / imageUrls.length * 100,
-          };
-          this.callbacks.onLoadProgress(ctx);
-        }
+    this.callbacks.onImageMoved?.({
+      ...state,
+      layout: { ...this.imageLayouts[state.index] },
+      previousLayout: drag.previousLayout,
+      layouts: this.getLayout(),
+      containerBounds: this.getStageBounds()
+    });
+  }
 
-        this.displayQueue.push(img);
-      };
+  /**
+   * Put a dragged image back where it was (pointer cancelled or rearrange turned off)
+   */
+  private cancelImageDrag(img: HTMLImageElement): void {
+    const drag = this.draggedImage;
+    this.draggedImage = null;
+    if (!drag) return;
+
+    const { x, y, zIndex } = drag.previousLayout;
+    img.style.left = `${x}px`;
+    img.style.top = `${y}px`;
+    img.style.zIndex = zIndex ? String(zIndex) : '';
+    this.endImageDrag(img, drag.transition, parseInt(img.dataset.imageId || '0', 10));
+  }
 
-      const handleImageError = () => {
-        if (currentGeneration !== this.loadGeneration) return;
-        failedCount++;
-        if (this.callbacks.onImageError) {
-          const ctx: ImageErrorContext = { url, index, totalImages: imageUrls.length };
-          this.callbacks.onImageError(ctx);
-        }
-        if (this.callbacks.onLoadProgress) {
-          const ctx: LoadProgressContext = {
-            loaded: loadedCount,
-            failed: failedCount,
-            total: imageUrls.length,
-            percent: (loadedCount + failedCount) / imageUrls.length * 100,
-          };
-          this.callbacks.onLoadProgress(ctx);
-        }
-        processedCount++;
-        checkGalleryReady();
-      };
+  private endImageDrag(img: HTMLImageElement, transition: string, index: number): void {
+    img.classList.remove('fbn-ic-dragging');
+    img.style.transition = transition;
+    this.idleAnimationEngine?.register(img, index, this.imageElements.length, 0);
+  }
 
-      img.onerror = () => handleImageError();
-
-      // Set src AFTER onload handler to ensure it catches cached images.
-      // Wrapped in async IIFE to support onBeforeImageLoad (which may be async).
-      (async () => {
-        let effectiveUrl = url;
-
-        if (this.callbacks.onBeforeImageLoad) {
-          const beforeCtx: BeforeLoadContext = { url, index, totalImages: imageUrls.length };
-          const result: BeforeLoadResult | void = await this.callbacks.onBeforeImageLoad(beforeCtx);
-          if (result) {
-            if (result.fetch !== undefined) {
-              // Fetch mode: retrieve image via fetch() and create a blob URL
-              const fetchUrl = result.url ?? url;
-              try {
-                const response = await fetch(fetchUrl, result.fetch);
-                const blob = await response.blob();
-                const blobUrl = URL.createObjectURL(blob);
-                effectiveUrl = blobUrl;
-                // Wrap onload to revoke blob URL after the image is decoded
-                const origOnload = img.onload;
-                img.onload = (e) => {
-                  URL.revokeObjectURL(blobUrl);
-                  (origOnload as ((e: Event) => void) | null)?.call(img, e);
-                };
-              } catch {
-                handleImageError();
-                return;
-              }
-            } else if (result.url) {
-              effectiveUrl = result.url;
-            }
-          }
-        }
+  /**
+   * Highest z-index in the current layout
+   * @param exclude - Image whose own z-index is ignored
+   */
+  private getTopZIndex(exclude?: HTMLImageElement): number {
+    const excludeIndex = exclude ? parseInt(exclude.dataset.imageId || '-1', 10) : -1;
+    return this.imageLayouts.reduce(
+      (top, layout, index) => (index === excludeIndex ? top : Math.max(top, layout.zIndex ?? 0)),
+      0
+    );
+  }
 
-        if (firstSrcSetTime === 0) firstSrcSetTime = performance.now();
-        srcSetTimes.set(index, performance.now());
-        img.src = effectiveUrl;
-      })();
-    });
+  /**
+   * Keep a dragged image's center where the whole (scaled) image stays inside the container
+   */
+  private clampToContainer(img: HTMLImageElement, x: number, y: number): { x: number; y: number } {
+    const bounds = this.getStageBounds();
+    const scale = this.getImageState(img)?.layout.scale ?? 1;
+    const halfWidth = (img.offsetWidth * scale) / 2;
+    const halfHeight = (img.offsetHeight * scale) / 2;
+    const clamp = (value: number, half: number, size: number) =>
+      half * 2 >= size ? size / 2 : Math.min(Math.max(value, half), size - half);
+    return { x: clamp(x, halfWidth, bounds.width), y: clamp(y, halfHeight, bounds.height) };
   }
 
   private async handleImageClick(imageElement: HTMLImageElement, originalLayout: ImageLayout): Promise<void> {
     if (!this.containerEl) return;
 
-    const isFocused = this.zoomEngine.isFocused(imageElement);
-    const bounds: ContainerBounds = {
-      width: this.containerEl.offsetWidth,
-      height: this.containerEl.offsetHeight
-    };
+    const isFocused = this.zoomEngine.isFocused(this.getFocusElement(imageElement));
 
     if (isFocused) {
-      await this.zoomEngine.unfocusImage();
-      this.currentFocusIndex = null;
-      this.swipeEngine?.disable();
-      this.hideCounter();
-      this.hideNavButtons();
-      if (this.ariaLiveEl) this.ariaLiveEl.textContent = '';
-      this.hideFocusIndicator();
+      await this.unfocus();
     } else {
       // Pause idle animation immediately before focus animation begins
       this.idleAnimationEngine?.pauseForImage(imageElement);
+      this.sceneEngine?.pauseForImage(imageElement);
 
       // Track the focused image index for keyboard navigation
       const imageId = imageElement.dataset.imageId;
       this.currentFocusIndex = imageId !== undefined ? parseInt(imageId, 10) : null;
       this.swipeEngine?.enable();
-      this.containerEl?.focus({ preventScroll: true });
-      await this.zoomEngine.focusImage(imageElement, bounds, originalLayout);
+
+      let focusElement: HTMLImageElement = imageElement;
+      let focusLayout = originalLayout;
+      let bounds: FocusBounds;
+      if (this.lightbox) {
+        // Measure where the image is before fullscreen moves the page
+        const rect = imageElement.getBoundingClientRect();
+        if (!this.lightbox.isOpen()) {
+          this.lightbox.setImages(this.imageDescriptors.map(image => ({ url: getThumbnailUrl(image), alt: image.alt ?? '' })));
+          await this.lightbox.open();
+          // Unfocused while entering fullscreen
+          if (this.currentFocusIndex === null) return;
+        }
+        const existing = this.lightboxImages.get(imageElement);
+        if (existing && this.zoomEngine.isTargetingFocus(existing)) return;
+
+        ({ element: focusElement, layout: focusLayout } = this.createLightboxImage(imageElement, originalLayout, rect));
+        const image = this.imageDescriptors[this.currentFocusIndex ?? -1];
+        this.lightbox.show(this.currentFocusIndex ?? -1, image?.caption ?? image?.alt ?? '');
+        bounds = this.lightbox.getImageBounds();
+      } else {
+        this.containerEl.focus({ preventScroll: true });
+        // In a 3D scene the image flies from where the scene has turned it
+        if (this.sceneEngine) focusLayout = this.sceneEngine.liftImage(imageElement, originalLayout);
+        // In canvas mode the image is centered in the visible part of the surface
+        bounds = this.canvasEngine?.getVisibleBounds() ?? {
+          width: this.containerEl.offsetWidth,
+          height: this.containerEl.offsetHeight
+        };
+      }
+
+      await this.zoomEngine.focusImage(focusElement, bounds, focusLayout);
+      // A newer focus or unfocus superseded this one — it owns the UI state now
+      if (!this.zoomEngine.isFocused(focusElement)) return;
+      this.pruneLightboxImages();
       if (this.currentFocusIndex !== null) {
         this.updateCounter(this.currentFocusIndex);
       }
@@ -1203,11 +2792,12 @@ export class ImageCloud {
       }
       this.showFocusIndicator();
       if (this.callbacks.onImageFocus && this.currentFocusIndex !== null) {
-        const urls = this.imageLoader.imageURLs();
+        const image = this.imageDescriptors[this.currentFocusIndex] ?? { url: '' };
         const ctx: ImageStateContext = {
           element: imageElement,
           index: this.currentFocusIndex,
-          url: urls[this.currentFocusIndex] ?? '',
+          url: image.url,
+          image,
           layout: originalLayout
         };
         this.callbacks.onImageFocus(ctx);
@@ -1217,30 +2807,136 @@ export class ImageCloud {
 
   /**
    * Clear the image cloud and reset state
+   * Displayed images play the exit animation if animation.exit is configured; use clear() to await it.
    */
   clearImageCloud(): void {
+    this.clear().catch(error => console.error('Error clearing images:', error));
+  }
+
+  /**
+   * Remove all images and reset internal state
+   * @param options - `animate` plays the exit animation (default: when animation.exit is configured)
+   * @returns Promise that resolves once the images have left
+   */
+  async clear(options: ClearOptions = {}): Promise<void> {
+    // Capture displayed images where they are on screen before focus and idle state is reset
+    const exitConfig = this.resolveExitConfig(options.animate);
+    const exiting = exitConfig ? this.captureExitingImages(this.imageElements) : [];
+
     // Clear queue processing interval to prevent stale images from being added
-    if (this.queueInterval !== null) {
-      clearInterval(this.queueInterval);
-      this.queueInterval = null;
-    }
-    // Increment generation to invalidate pending image onload handlers
-    this.loadGeneration++;
+    this.stopQueueProcessing();
+    // Drop the session to invalidate pending image onload handlers
+    this.loadSession = null;
     this.displayQueue = [];
+    this.entryCancels.forEach(cancel => cancel());
+    this.entryCancels.clear();
 
     this.hideFocusIndicator();
+    this.dismissLightboxImages();
 
     if (this.containerEl) {
-      this.containerEl.querySelectorAll('.fbn-ic-image, .fbn-ic-debug-center').forEach(el => el.remove());
+      // Images already playing an exit animation remove themselves
+      this.containerEl.querySelectorAll('.fbn-ic-image:not(.fbn-ic-exiting), .fbn-ic-debug-center').forEach(el => el.remove());
     }
     this.imageElements = [];
+    this.elementsByIndex = [];
     this.imageLayouts = [];
+    this.imageDescriptors = [];
+    this.layoutBounds = null;
+    this.restoreContainerHeight();
+    this.canvasEngine?.setMinimapItems([]);
     this.currentFocusIndex = null;
     this.hoveredImage = null;
     this.layoutEngine.reset();
     this.zoomEngine.reset();
     this.idleAnimationEngine?.stopAll();
+    this.sceneEngine?.stopAll();
     this.imagesLoaded = false;
+
+    if (exitConfig) await this.exitImages(exiting, exitConfig);
+  }
+
+  /**
+   * Exit animation to play when images leave, or null to remove them without animating
+   * @param animate - Explicit choice from clear(); undefined follows animation.exit
+   */
+  private resolveExitConfig(animate?: boolean): ExitAnimationConfig | null {
+    if (animate === false) return null;
+    return this.fullConfig.animation.exit ?? (animate ? DEFAULT_EXIT_ANIMATION : null);
+  }
+
+  /**
+   * Record where the displayed images among `elements` are on screen and mark them
+   * as exiting, so clearing the container leaves them in place
+   */
+  private captureExitingImages(elements: HTMLImageElement[]): ExitingImage[] {
+    return elements
+      .filter(img => this.imageElements.includes(img))
+      .map(img => {
+        const computed = getComputedStyle(img);
+        const index = parseInt(img.dataset.imageId || '0', 10);
+        img.classList.add('fbn-ic-exiting');
+        return {
+          element: img,
+          index,
+          image: this.imageDescriptors[index],
+          placement: {
+            x: parseFloat(computed.left),
+            y: parseFloat(computed.top),
+            width: parseFloat(computed.width),
+            height: parseFloat(computed.height),
+            rotation: parseFloat(img.dataset.rotation || '0'),
+            scale: parseFloat(img.dataset.scale || '1')
+          },
+          from: { transform: computed.transform, opacity: parseFloat(computed.opacity) }
+        };
+      })
+      .sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Play the exit animation on captured images, then remove them
+   * Fires onExitStart and onExitComplete.
+   */
+  private async exitImages(exiting: ExitingImage[], config: ExitAnimationConfig): Promise<void> {
+    if (exiting.length === 0) return;
+
+    const engine = new ExitAnimationEngine(
+      config,
+      this.fullConfig.animation.duration ?? 600,
+      this.fullConfig.layout.algorithm,
+      this.fullConfig.animation.seed
+    );
+    const callbacks = this.callbacks;
+    const containerBounds = this.getStageBounds();
+    const elements = exiting.map(({ element }) => element);
+    const images = exiting.map(({ image }) => image);
+    const startTime = performance.now();
+    const duration = engine.getTotalDuration(exiting.length);
+
+    if (callbacks.onExitStart) {
+      const ctx: ExitStartContext = { elements, images, startTime, duration };
+      callbacks.onExitStart(ctx);
+    }
+
+    await Promise.all(exiting.map(({ element, placement, from }, order) => {
+      // Take over from any entry, idle, focus or layout animation still attached
+      this.animationEngine.cancelAllAnimations(element);
+      element.style.transition = 'none';
+      element.style.pointerEvents = 'none';
+      element.style.left = `${placement.x}px`;
+      element.style.top = `${placement.y}px`;
+      element.style.width = `${placement.width}px`;
+      element.style.height = `${placement.height}px`;
+      return engine.animateOut(element, placement, from, containerBounds, order, exiting.length);
+    }));
+
+    elements.forEach(element => element.remove());
+
+    if (callbacks.onExitComplete) {
+      const ctx: ExitCompleteContext = { elements, images, startTime, endTime: performance.now(), duration };
+      callbacks.onExitComplete(ctx);
+    }
   }
 
   private showLoading(show: boolean): void {
@@ -1300,31 +2996,23 @@ export class ImageCloud {
   destroy(): void {
     this.clearImageCloud();
     // Remove auto-created UI elements
-    if (this.loadingElAutoCreated && this.loadingEl) {
-      this.loadingEl.remove();
-      this.loadingEl = null;
-    }
-    if (this.errorElAutoCreated && this.errorEl) {
-      this.errorEl.remove();
-      this.errorEl = null;
-    }
-    if (this.counterElAutoCreated && this.counterEl) {
-      this.counterEl.remove();
-      this.counterEl = null;
-    }
-    if (this.prevButtonElAutoCreated && this.prevButtonEl) {
-      this.prevButtonEl.remove();
-      this.prevButtonEl = null;
-    }
-    if (this.nextButtonElAutoCreated && this.nextButtonEl) {
-      this.nextButtonEl.remove();
-      this.nextButtonEl = null;
-    }
+    this.teardownUI();
     // Remove event listeners
     if (this.resizeTimeout !== null) {
       clearTimeout(this.resizeTimeout);
+      this.resizeTimeout = null;
     }
+    window.removeEventListener('resize', this.boundResize);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
     this.swipeEngine?.destroy();
+    this.rearrangeEngine?.destroy();
+    this.rearrangeEngine = null;
+    this.detailZoomEngine?.destroy();
+    this.detailZoomEngine = null;
+    this.teardownLightbox();
+    this.teardownCanvasEngine();
+    this.teardownSceneEngine();
     this.idleAnimationEngine?.stopAll();
     this.idleAnimationEngine = null;
   }
@@ -3,7 +3,7 @@
  * Centralized settings for animation, layout, and API configuration
  */
 
-import type { ImageCloudConfig, ImageCloudOptions, ImageStylingConfig, ImageStyleState, ShadowPreset, WaveAlgorithmConfig, HoneycombAlgorithmConfig, RadialAlgorithmConfig, BouncePathConfig, ElasticPathConfig, WavePathConfig, BouncePreset, ElasticPreset, WavePathPreset, EntryPathConfig, EntryRotationConfig, EntryScaleConfig, ImageConfig, ImageSizingConfig, ImageRotationConfig, ImageVarianceConfig, ResponsiveBreakpoints, SharedLoaderConfig, ConfigSection, LoaderEntry, DebugConfig, IdleWiggleConfig, IdlePulseConfig, IdleBlinkConfig, IdleSpinConfig, IdleAnimationConfig } from './types';
+import type { ImageCloudConfig, ImageCloudOptions, ImageStylingConfig, ImageStyleState, ShadowPreset, WaveAlgorithmConfig, HoneycombAlgorithmConfig, SphereAlgorithmConfig, CylinderAlgorithmConfig, HelixAlgorithmConfig, SceneConfig, RadialAlgorithmConfig, BouncePathConfig, ElasticPathConfig, WavePathConfig, BouncePreset, ElasticPreset, WavePathPreset, EntryPathConfig, EntryRotationConfig, EntryScaleConfig, ImageConfig, ImageSizingConfig, ImageRotationConfig, ImageVarianceConfig, ResponsiveBreakpoints, SharedLoaderConfig, ConfigSection, LoaderEntry, DebugConfig, ExitAnimationConfig, IdleWiggleConfig, IdlePulseConfig, IdleBlinkConfig, IdleSpinConfig, IdleAnimationConfig } from './types';
 
 /**
  * Shadow presets for image styling
@@ -66,6 +66,26 @@ export const DEFAULT_ENTRY_SCALE: EntryScaleConfig = Object.freeze({
   mode: 'none' as const
 });
 
+/**
+ * Default exit animation (used when animation.exit is set, or by clear({ animate: true }))
+ */
+export const DEFAULT_EXIT_ANIMATION: ExitAnimationConfig = Object.freeze({
+  target: Object.freeze({
+    position: 'nearest-edge' as const,
+    offset: 100,
+    circular: Object.freeze({
+      radius: '120%',
+      distribution: 'even' as const
+    })
+  }),
+  easing: 'cubic-bezier(0.5, 0, 0.75, 0)',  // accelerate away
+  path: DEFAULT_PATH_CONFIG,
+  rotation: DEFAULT_ENTRY_ROTATION,
+  scale: DEFAULT_ENTRY_SCALE,
+  fade: true,
+  stagger: 0
+});
+
 
 /**
  * Default image styling configuration
@@ -118,7 +138,35 @@ export const DEFAULT_WAVE_CONFIG: WaveAlgorithmConfig = Object.freeze({
 });
 
 export const DEFAULT_HONEYCOMB_CONFIG: HoneycombAlgorithmConfig = Object.freeze({
-  spacing: 0
+  spacing: 0,
+  shape: 'rings' as const
+});
+
+export const DEFAULT_SPHERE_CONFIG: SphereAlgorithmConfig = Object.freeze({
+  radius: 'auto' as const
+});
+
+export const DEFAULT_CYLINDER_CONFIG: CylinderAlgorithmConfig = Object.freeze({
+  radius: 'auto' as const,
+  rows: 'auto' as const
+});
+
+export const DEFAULT_HELIX_CONFIG: HelixAlgorithmConfig = Object.freeze({
+  radius: 'auto' as const,
+  perTurn: 12
+});
+
+/**
+ * Default perspective and motion for the 3D layouts
+ */
+export const DEFAULT_SCENE_CONFIG: Required<SceneConfig> = Object.freeze({
+  perspective: 1000,
+  backface: 'dim' as const,
+  backfaceOpacity: 0.25,
+  autoRotate: 10,
+  resumeDelay: 2000,
+  drag: true,
+  inertia: true
 });
 
 /**
@@ -252,13 +300,29 @@ export const DEFAULT_CONFIG: ImageCloudConfig = Object.freeze({
     focus: Object.freeze({
       scalePercent: 0.8,  // 80% of container height
       zIndex: 1000,
-      animationDuration: 600  // Focus/unfocus animation duration (ms). Default: 600.
+      animationDuration: 600,  // Focus/unfocus animation duration (ms). Default: 600.
+      detailZoom: false,  // Zoom into the focused image up to its native resolution
+      mode: 'inline' as const,
+      lightbox: Object.freeze({
+        fullscreen: true,
+        captions: true,
+        filmstrip: false
+      })
     }),
     navigation: Object.freeze({
       keyboard: true,
       swipe: true,
     }),
-    dragging: true
+    dragging: true,
+    rearrange: false,
+    canvas: Object.freeze({
+      enabled: false,
+      size: 'auto',
+      maxZoom: 4,
+      wheel: 'zoom',
+      inertia: true,
+      minimap: false
+    })
   }),
 
   // UI configuration
@@ -470,6 +534,7 @@ export function mergeConfig(
     if (userConfig.layout.responsive) {
       merged.layout.responsive = {
         ...DEFAULT_CONFIG.layout.responsive!,
+        ...userConfig.layout.responsive,
         mobile: userConfig.layout.responsive.mobile
           ? { ...DEFAULT_CONFIG.layout.responsive!.mobile, ...userConfig.layout.responsive.mobile }
           : DEFAULT_CONFIG.layout.responsive!.mobile,
@@ -540,6 +605,27 @@ export function mergeConfig(
       };
     }
 
+    // Deep merge exit animation config (opt-in: absent unless the user sets it)
+    if (userConfig.animation.exit) {
+      const exit = userConfig.animation.exit;
+      merged.animation.exit = {
+        ...DEFAULT_EXIT_ANIMATION,
+        ...exit,
+        target: exit.target
+          ? {
+              ...DEFAULT_EXIT_ANIMATION.target,
+              ...exit.target,
+              circular: exit.target.circular
+                ? { ...DEFAULT_EXIT_ANIMATION.target!.circular, ...exit.target.circular }
+                : DEFAULT_EXIT_ANIMATION.target!.circular
+            }
+          : DEFAULT_EXIT_ANIMATION.target,
+        path: exit.path ? { ...DEFAULT_PATH_CONFIG, ...exit.path } : DEFAULT_EXIT_ANIMATION.path,
+        rotation: exit.rotation ? { ...DEFAULT_ENTRY_ROTATION, ...exit.rotation } : DEFAULT_EXIT_ANIMATION.rotation,
+        scale: exit.scale ? { ...DEFAULT_ENTRY_SCALE, ...exit.scale } : DEFAULT_EXIT_ANIMATION.scale
+      };
+    }
+
     // Deep merge idle animation config
     if (userConfig.animation.idle) {
       merged.animation.idle = {
@@ -582,7 +668,11 @@ export function mergeConfig(
     if (userConfig.interaction.focus) {
       merged.interaction.focus = {
         ...DEFAULT_CONFIG.interaction.focus,
-        ...userConfig.interaction.focus
+        ...userConfig.interaction.focus,
+        lightbox: {
+          ...DEFAULT_CONFIG.interaction.focus.lightbox,
+          ...userConfig.interaction.focus.lightbox
+        }
       };
     }
 
@@ -594,6 +684,14 @@ export function mergeConfig(
       };
     }
 
+    // Deep merge canvas config
+    if (userConfig.interaction.canvas) {
+      merged.interaction.canvas = {
+        ...DEFAULT_CONFIG.interaction.canvas!,
+        ...userConfig.interaction.canvas
+      };
+    }
+
   }
 
   merged.ui = {
@@ -14,13 +14,64 @@ export interface ImageLayout {
   scale: number;
   baseSize: number;
   zIndex?: number;
+  // 3D layouts (sphere, cylinder, helix): pose before the scene turns. x/y are
+  // unprojected, z is the depth toward the viewer and the rotations are in degrees.
+  z?: number;
+  rotationX?: number;
+  rotationY?: number;
 }
 
+/**
+ * Rich description of a single image. Loaders accept these anywhere a URL
+ * string is accepted; plain strings are normalized to `{ url }`.
+ * `TMeta` types the free-form `meta` payload carried through to hook contexts.
+ */
+export interface ImageDescriptor<TMeta = Record<string, unknown>> {
+  url: string;
+  thumbnailUrl?: string; // smaller variant shown in the cloud (default: url)
+  fullUrl?: string;      // larger variant swapped in when the image is focused (default: widest srcset candidate, or url)
+  srcset?: string;       // responsive candidates for the cloud image, picked by the browser using sizes
+  sizes?: string;
+  alt?: string;
+  caption?: string;
+  width?: number;       // natural width in pixels, if known ahead of load
+  height?: number;      // natural height in pixels, if known ahead of load
+  tags?: string[];
+  link?: string;
+  pinned?: PinnedPosition; // fixed position; the layout places every other image around it
+  weight?: number;       // prominence: heavier images are larger and more central (default: 1)
+  meta?: TMeta;
+}
+
+/**
+ * Fixed position for one image. Like ManualLayoutItem, `x`/`y` are the image
+ * center as fractions of the container (0-1), so the pin holds on resize.
+ */
+export interface PinnedPosition {
+  x: number;
+  y: number;
+  rotation?: number;    // degrees (default: 0)
+  scale?: number;       // default: 1
+  zIndex?: number;
+}
+
+/** An image given either as a bare URL or as a full descriptor */
+export type ImageSource = string | ImageDescriptor;
+
 export interface ContainerBounds {
   width: number;
   height: number;
 }
 
+/**
+ * Area a focused image is centered and sized in. x/y offset it from the
+ * images' positioning frame (the visible part of the surface in canvas mode).
+ */
+export interface FocusBounds extends ContainerBounds {
+  x?: number;
+  y?: number;
+}
+
 export interface ResponsiveHeight {
   minWidth: number;
   height: number;
@@ -29,7 +80,10 @@ export interface ResponsiveHeight {
 export interface TransformParams {
   x?: number;
   y?: number;
+  z?: number;
   rotation?: number;
+  rotationX?: number;
+  rotationY?: number;
   scale?: number;
 }
 
@@ -40,7 +94,7 @@ export interface TransformParams {
 // === Static source types (shape-based, no 'type' discriminant) ===
 
 export interface StaticUrlsSource {
-  urls: string[];
+  urls: ImageSource[];
 }
 
 export interface StaticPathSource {
@@ -212,18 +266,23 @@ export interface AdaptiveSizingResult {
 
 /**
  * Responsive breakpoints configuration for layout
- * Defines viewport width thresholds for mobile and tablet
+ * Defines width thresholds for mobile and tablet
  */
 export interface ResponsiveBreakpoints {
   mobile: { maxWidth: number };   // Default: 767
   tablet: { maxWidth: number };   // Default: 1199
   // screen is implicitly > tablet.maxWidth
+  basis?: 'viewport' | 'container';  // Width the thresholds compare against (default: 'viewport')
 }
 
 // Legacy responsive height uses the existing ResponsiveHeight interface (minWidth, height)
 
+/**
+ * Space around the layout only. The space between images is set per algorithm
+ * (grid.gap, justified.gap, masonry.gap, physics.gap, honeycomb.spacing).
+ */
 export interface LayoutSpacingConfig {
-  padding: number;
+  padding: number;  // Space between the container edges and the images in px (default: 50)
 }
 
 // ============================================================================
@@ -272,17 +331,173 @@ export interface WaveAlgorithmConfig {
   // Note: Image rotation along wave is now controlled via image.rotation.mode = 'tangent'
 }
 
-export type LayoutAlgorithm = 'random' | 'radial' | 'grid' | 'spiral' | 'cluster' | 'wave' | 'honeycomb';
+/**
+ * justified and masonry: 'grow' keeps the target size and lets the container grow
+ * vertically to fit every image; 'fit' shrinks the images until they fit the container.
+ */
+export type LayoutOverflowMode = 'grow' | 'fit';
+
+export interface JustifiedAlgorithmConfig {
+  rowHeight?: number | 'auto';  // Target row height in px; 'auto' uses the adaptive image height (default: 'auto')
+  gap?: number;                 // Space between images in px, within and between rows (default: 10); spacing.padding is the space around the rows
+  lastRow?: 'start' | 'center' | 'end' | 'justify';  // An unfilled last row keeps the target height unless 'justify' (default: 'start')
+  overflow?: LayoutOverflowMode; // default: 'grow'
+}
+
+export interface MasonryAlgorithmConfig {
+  columns?: number | 'auto';    // 'auto' picks columns about as wide as the adaptive image height (default: 'auto')
+  gap?: number;                 // Space between columns and between images in a column in px (default: 10); spacing.padding is the space around the columns
+  overflow?: LayoutOverflowMode; // default: 'grow'
+}
+
+export interface PhysicsAlgorithmConfig {
+  iterations?: number;  // Maximum simulation steps (default: 300)
+  gap?: number;         // Space kept between image footprints in px (default: 10)
+  gravity?: number;     // 0-1, share of the distance to the center each image moves per step (default: 0.05)
+  tolerance?: number;   // Stop once no image moves more than this many px in a step (default: 0.5)
+  live?: boolean;       // Continue from the previous positions after drags, added images and resizes (default: false)
+}
+
+/**
+ * Area of the container that layouts keep images out of, in container fractions (0-1):
+ * a rectangle by its top-left corner and size, or a polygon by its vertices.
+ */
+export type ExclusionZone =
+  | { x: number; y: number; width: number; height: number }
+  | { points: Array<[number, number]> };
+
+/**
+ * collision: relaxation pass run after any algorithm. Overlapping images are
+ * nudged apart while a spring pulls each one back toward where the algorithm put it.
+ */
+export interface LayoutCollisionConfig {
+  enabled?: boolean;        // Run the pass (default: false)
+  maxOverlap?: number;      // 0-1, stop once overlapping area / total image area is at most this (default: 0.02)
+  iterations?: number;      // Maximum relaxation steps (default: 200)
+  gap?: number;             // Extra space in px kept between images that are pushed apart (default: 0)
+  anchorStrength?: number;  // 0-1, share of the distance back to the algorithm's position each image moves per step (default: 0.05)
+}
+
+/**
+ * shape: the first of `path`, `points` and `text` that is set defines the silhouette.
+ * Its coordinates are only relative; the shape is scaled to fit the container.
+ */
+export interface ShapeAlgorithmConfig {
+  path?: string;                     // SVG path data, as in <path d="...">
+  points?: Array<[number, number]>;  // Polygon vertices
+  text?: string;                     // A line of text whose letters form the shape
+  font?: string;                     // CSS font for text; the size is scaled away (default: 'bold 100px sans-serif')
+  fillRule?: 'nonzero' | 'evenodd';  // Which areas of a path or polygon count as inside (default: 'nonzero')
+  density?: number;                  // Image size relative to the shape's area; higher overlaps more (default: 1)
+  edge?: number;                     // 0-1, share of images placed along the outline (default: 0.3)
+}
+
+/** A point on a parametric path curve, in the curve's own units */
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * path: images are spaced evenly by arc length along `d`, or along `curve` when `d` is not set.
+ * 'contain' scales the path to fit the container, 'fill' stretches it to fill the container,
+ * 'none' reads its coordinates as container pixels.
+ */
+export interface PathAlgorithmConfig {
+  d?: string;                         // SVG path data, as in <path d="...">
+  curve?: (t: number) => PathPoint;   // Parametric curve for t from 0 to 1
+  fit?: 'contain' | 'fill' | 'none';  // default: 'contain'
+  lanes?: number;                     // Parallel copies of the path, side by side (default: 1)
+  laneSpacing?: number | 'auto';      // Distance between lanes in px; 'auto' is 1.2x the image height (default: 'auto')
+}
+
+export type BuiltInLayoutAlgorithm = 'random' | 'radial' | 'grid' | 'spiral' | 'cluster' | 'wave' | 'honeycomb' | 'justified' | 'masonry' | 'physics' | 'shape' | 'path' | 'sphere' | 'cylinder' | 'helix' | 'manual';
+
+/**
+ * A built-in algorithm or the name of a layout added with ImageCloud.registerLayout().
+ * `string & {}` keeps editor completion for the built-in names.
+ */
+export type LayoutAlgorithm = BuiltInLayoutAlgorithm | (string & {});
+
+/**
+ * Honeycomb tiling: concentric rings around the center, row-by-row rectangle
+ * matching the container's aspect ratio, or whichever of the two fits larger hexes
+ */
+export type HoneycombShape = 'rings' | 'rectangle' | 'fit';
 
 export interface HoneycombAlgorithmConfig {
   spacing?: number;  // extra gap in pixels beyond edge-to-edge (default: 0)
+  shape?: HoneycombShape;  // tiling shape (default: 'rings')
 }
 
+export interface SphereAlgorithmConfig {
+  radius?: number | 'auto';  // in px; 'auto' fits the sphere to the container (default: 'auto')
+}
+
+export interface CylinderAlgorithmConfig {
+  radius?: number | 'auto';  // in px; 'auto' fits the ring to the container width (default: 'auto')
+  rows?: number | 'auto';    // rings stacked on top of each other; 'auto' fills each ring around (default: 'auto')
+}
+
+export interface HelixAlgorithmConfig {
+  radius?: number | 'auto';  // in px; 'auto' fits the helix to the container width (default: 'auto')
+  perTurn?: number;          // images per full turn (default: 12)
+}
+
+/**
+ * How images facing away from the viewer are drawn
+ * - 'dim': fade toward scene.backfaceOpacity
+ * - 'hide': not drawn at all
+ * - 'show': drawn mirrored, like the back of a card
+ */
+export type SceneBackface = 'dim' | 'hide' | 'show';
+
+/** Perspective and motion of the 3D layouts (sphere, cylinder, helix) */
+export interface SceneConfig {
+  perspective?: number;      // distance of the viewer from the scene in px (default: 1000)
+  backface?: SceneBackface;  // default: 'dim'
+  backfaceOpacity?: number;  // opacity of an image turned fully away with backface 'dim' (default: 0.25)
+  autoRotate?: number;       // idle spin in degrees per second; 0 turns it off (default: 10)
+  resumeDelay?: number;      // ms after a drag before the idle spin picks up again (default: 2000)
+  drag?: boolean;            // drag to spin the scene (default: true)
+  inertia?: boolean;         // keep spinning after a flick (default: true)
+}
+
+/**
+ * One saved image position for the manual layout.
+ * `x`/`y` are the image center as fractions of the container (0-1), so the
+ * arrangement scales to any container size.
+ */
+export interface ManualLayoutItem {
+  id?: number;          // Image index the position belongs to (used when no image takes the item by URL)
+  url?: string;         // Image URL; items with a repeated URL go to the images with that URL in order
+  x: number;
+  y: number;
+  rotation?: number;    // degrees (default: 0)
+  scale?: number;       // default: 1
+  zIndex?: number;
+}
+
+export interface ManualLayoutConfig {
+  items: ManualLayoutItem[];
+  fallback?: LayoutAlgorithm;  // Places images that have no saved item (default: 'random')
+}
+
+/**
+ * Weight for one image, overriding ImageDescriptor.weight. Return undefined to
+ * keep the descriptor's weight.
+ */
+export type ImageWeightFn = (index: number, url: string) => number | undefined;
+
+/** Seed for repeatable randomness: the same seed and config always produce the same result */
+export type RandomSeed = number | string;
+
 export interface LayoutConfig {
   algorithm: LayoutAlgorithm;
+  seed?: RandomSeed;             // Makes random positions, rotations and sizes repeatable (default: unseeded)
   spacing: LayoutSpacingConfig;
   scaleDecay?: number;           // For Radial/Spiral - progressive size reduction (0-1, default: 0)
-  responsive?: ResponsiveBreakpoints;  // Viewport width breakpoints (mobile/tablet)
+  responsive?: ResponsiveBreakpoints;  // Width breakpoints (mobile/tablet)
   targetCoverage?: number;       // 0-1, for adaptive sizing (default: 0.6)
   densityFactor?: number;        // Controls center point spacing (default: 1.0)
   radial?: RadialAlgorithmConfig;
@@ -291,6 +506,20 @@ export interface LayoutConfig {
   cluster?: ClusterAlgorithmConfig;
   wave?: WaveAlgorithmConfig;
   honeycomb?: HoneycombAlgorithmConfig;
+  justified?: JustifiedAlgorithmConfig;
+  masonry?: MasonryAlgorithmConfig;
+  physics?: PhysicsAlgorithmConfig;
+  shape?: ShapeAlgorithmConfig;
+  path?: PathAlgorithmConfig;
+  sphere?: SphereAlgorithmConfig;
+  cylinder?: CylinderAlgorithmConfig;
+  helix?: HelixAlgorithmConfig;
+  scene?: SceneConfig;           // Perspective and motion for the 3D layouts
+  manual?: ManualLayoutConfig;
+  collision?: LayoutCollisionConfig;  // Overlap-reducing pass after any algorithm (default: off)
+  exclusionZones?: ExclusionZone[];   // Areas no image is placed over, e.g. a headline (default: none)
+  weightFor?: ImageWeightFn;          // Weight per image, e.g. from a sponsored list (default: descriptor weights)
+  custom?: PlacementLayout;      // Placement layout instance to use instead of `algorithm`
 }
 
 // ============================================================================
@@ -403,6 +632,22 @@ export interface EntryAnimationConfig {
   scale?: EntryScaleConfig;  // Entry scale animation
 }
 
+/**
+ * Exit animation: the entry animation options played in reverse. Images travel from
+ * where they are to `target`; rotation and scale modes describe the state they leave in
+ * (e.g. scale 'grow' shrinks them away).
+ */
+export interface ExitAnimationConfig {
+  target?: Partial<EntryStartConfig>;  // Where images leave to (same options as entry start, default: nearest edge)
+  duration?: number;  // ms (default: animation.duration)
+  easing?: string;  // CSS easing, default: 'cubic-bezier(0.5, 0, 0.75, 0)'
+  path?: EntryPathConfig;  // Animation path type (linear, bounce, elastic, wave)
+  rotation?: EntryRotationConfig;  // Exit rotation animation
+  scale?: EntryScaleConfig;  // Exit scale animation
+  fade?: boolean;  // Fade out while leaving (default: true)
+  stagger?: number;  // ms between images, in index order (default: 0)
+}
+
 export interface AnimationEasingConfig {
   default: string;
   bounce: string;
@@ -419,7 +664,9 @@ export interface AnimationConfig {
   easing: AnimationEasingConfig;
   queue: AnimationQueueConfig;
   entry?: EntryAnimationConfig;
+  exit?: ExitAnimationConfig;  // Not set by default: images are removed without animation
   idle?: IdleAnimationConfig;
+  seed?: RandomSeed;   // Makes random entry/exit starts and idle phases repeatable (default: unseeded)
 }
 
 // ============================================================================
@@ -479,6 +726,22 @@ export interface FocusInteractionConfig {
   scalePercent: number;           // Percentage of container (0-1 as fraction, 1-100 as percent)
   zIndex: number;
   animationDuration: number;   // Focus/unfocus animation duration (ms). Default: 600.
+  detailZoom?: boolean;        // Double-click, pinch or wheel to zoom into the focused image up to its native resolution (default: false)
+  mode?: FocusMode;            // Where the focused image is shown (default: 'inline')
+  lightbox?: LightboxConfig;   // Options for mode: 'lightbox'
+}
+
+/**
+ * Focus presentation
+ * - 'inline': the image zooms to the middle of the container
+ * - 'lightbox': the image flies into a full-viewport overlay with a dimmed backdrop
+ */
+export type FocusMode = 'inline' | 'lightbox';
+
+export interface LightboxConfig {
+  fullscreen?: boolean;  // Show the overlay fullscreen where the Fullscreen API is available (default: true)
+  captions?: boolean;    // Show the image's caption, or its alt text when it has none (default: true)
+  filmstrip?: boolean;   // Row of thumbnails below the image to jump between images (default: false)
 }
 
 export interface NavigationInteractionConfig {
@@ -486,10 +749,22 @@ export interface NavigationInteractionConfig {
   swipe?: boolean;
 }
 
+export interface CanvasInteractionConfig {
+  enabled: boolean;          // Lay the cloud out on a surface that can be panned and zoomed (default: false)
+  size?: number | 'auto';    // Surface size as a multiple of the container, or 'auto' to keep images at their responsive height (default: 'auto')
+  minZoom?: number;          // Smallest zoom (default: the zoom that fits the whole surface, at most 1)
+  maxZoom?: number;          // Largest zoom (default: 4)
+  wheel?: 'zoom' | 'pan';    // What the mouse wheel does; ctrl+wheel and trackpad pinches always zoom (default: 'zoom')
+  inertia?: boolean;         // Keep gliding after a flick (default: true)
+  minimap?: boolean;         // Show an overview of the surface with the visible area (default: false)
+}
+
 export interface InteractionConfig {
   focus: FocusInteractionConfig;
   navigation?: NavigationInteractionConfig;
   dragging?: boolean;
+  rearrange?: boolean;   // Drag images to a new spot in the cloud (default: false)
+  canvas?: CanvasInteractionConfig;
 }
 
 // ============================================================================
@@ -527,15 +802,23 @@ export interface ImageStateContext {
   element: HTMLElement;
   index: number;
   url: string;
+  image: ImageDescriptor;
   layout: ImageLayout;
 }
 
+export interface ImageMovedContext extends ImageStateContext {
+  previousLayout:  ImageLayout;        // layout before the drag
+  layouts:         ImageLayout[];      // full layout after the move, same as getLayout()
+  containerBounds: ContainerBounds;
+}
+
 // ============================================================================
 // Loading Hook Context Types
 // ============================================================================
 
 export interface BeforeLoadContext {
   url: string;
+  image: ImageDescriptor;
   index: number;
   totalImages: number;
 }
@@ -548,6 +831,7 @@ export interface BeforeLoadResult {
 export interface ImageLoadedContext {
   element: HTMLImageElement;
   url: string;
+  image: ImageDescriptor;
   index: number;
   totalImages: number;
   loadTime: number;  // ms from src set to onload
@@ -555,6 +839,7 @@ export interface ImageLoadedContext {
 
 export interface ImageErrorContext {
   url: string;
+  image: ImageDescriptor;
   index: number;
   totalImages: number;
 }
@@ -586,6 +871,7 @@ export interface EntryAnimPoint {
 export interface EntryStartContext {
   element:     HTMLElement;
   index:       number;
+  image:       ImageDescriptor;
   totalImages: number;
   layout:      ImageLayout;
   from:        EntryAnimPoint;
@@ -604,18 +890,39 @@ export interface EntryProgressContext extends EntryStartContext {
 export interface EntryCompleteContext {
   element:   HTMLElement;
   index:     number;
+  image:     ImageDescriptor;
   layout:    ImageLayout;
   startTime: number;
   endTime:   number;
   duration:  number;
 }
 
+// ============================================================================
+// Exit Animation Hook Context Types
+// ============================================================================
+
+export interface ExitStartContext {
+  elements:  HTMLElement[];
+  images:    ImageDescriptor[];  // descriptor per element, same order
+  startTime: number;   // performance.now()
+  duration:  number;   // ms until the last image has left (includes stagger)
+}
+
+export interface ExitCompleteContext {
+  elements:  HTMLElement[];
+  images:    ImageDescriptor[];
+  startTime: number;
+  endTime:   number;
+  duration:  number;
+}
+
 // ============================================================================
 // Layout Hook Context Types
 // ============================================================================
 
 export interface LayoutCompleteContext {
   layouts:         ImageLayout[];      // full computed layout (read-only — do not mutate)
+  images:          ImageDescriptor[];  // descriptor per layout, same order
   containerBounds: ContainerBounds;
   algorithm:       LayoutAlgorithm;
   imageCount:      number;
@@ -627,6 +934,7 @@ export interface ImageCloudCallbacks {
   onImageUnhover?:    (ctx: ImageStateContext)      => void;
   onImageFocus?:      (ctx: ImageStateContext)      => void;
   onImageUnfocus?:    (ctx: ImageStateContext)      => void;
+  onImageMoved?:      (ctx: ImageMovedContext)      => void;
 
   // Loading lifecycle hooks
   onBeforeImageLoad?: (ctx: BeforeLoadContext)      => BeforeLoadResult | void | Promise<BeforeLoadResult | void>;
@@ -642,11 +950,15 @@ export interface ImageCloudCallbacks {
   onEntryStart?:      (ctx: EntryStartContext)    => void;
   onEntryProgress?:   (ctx: EntryProgressContext) => void;
   onEntryComplete?:   (ctx: EntryCompleteContext) => void;
+
+  // Exit animation hooks
+  onExitStart?:       (ctx: ExitStartContext)     => void;
+  onExitComplete?:    (ctx: ExitCompleteContext)  => void;
 }
 
 export interface ImageCloudOptions {
   container?: string | HTMLElement;
-  images?: string[];
+  images?: ImageSource[];
   loaders?: LoaderEntry[];
   config?: ConfigSection;
   image?: Partial<ImageConfig>;
@@ -658,18 +970,69 @@ export interface ImageCloudOptions {
   on?: ImageCloudCallbacks;
 }
 
+/**
+ * Options for ImageCloud.setLayout()
+ */
+export interface SetLayoutOptions {
+  duration?: number;  // Morph duration in ms (default: animation.duration)
+  easing?: string;    // CSS easing function (default: animation.easing.default)
+  stagger?: number;   // Extra delay in ms per image, in index order (default: 0)
+}
+
+/**
+ * Options for ImageCloud.clear()
+ */
+export interface ClearOptions {
+  animate?: boolean;  // Play the exit animation (default: true if animation.exit is configured)
+}
+
 // ============================================================================
 // Interface Dependencies
 // ============================================================================
 
+export interface PlacementLayoutOptions extends Partial<LayoutConfig> {
+  fixedHeight?: number;         // Image height in px chosen by adaptive or fixed sizing
+  images?: ImageDescriptor[];   // Descriptor per image, in layout order
+  aspectRatios?: (number | undefined)[];  // Natural width / height per image; undefined until the image has loaded
+  anchors?: number[];           // Images that keep their current position (live layouts, e.g. a just-dropped image)
+  weights?: number[];           // Weight per image from ImageDescriptor.weight / layout.weightFor (1 = neutral)
+}
+
 export interface PlacementLayout {
   generate(
     imageCount: number,
     containerBounds: ContainerBounds,
-    options?: Partial<LayoutConfig>
+    options?: PlacementLayoutOptions
   ): ImageLayout[];
+  /**
+   * Positions depend on options.aspectRatios. ImageCloud holds the images back
+   * until every image has loaded, then lays them out with their real sizes.
+   */
+  readonly usesAspectRatios?: boolean;
+  /**
+   * The layout may extend below the container. ImageCloud raises the
+   * container's min-height so every image stays visible.
+   */
+  readonly growsContainer?: boolean;
+  /**
+   * The layout continues from its previous result instead of starting over.
+   * ImageCloud lays out again after a drag, with the dropped image in
+   * options.anchors, so the drop pushes the other images aside.
+   */
+  readonly live?: boolean;
+  /**
+   * The layout places images in 3D (ImageLayout.z, rotationX, rotationY).
+   * ImageCloud shows them in perspective and turns the scene (layout.scene).
+   */
+  readonly is3D?: boolean;
 }
 
+/**
+ * Creates a placement layout for ImageCloud.registerLayout().
+ * Receives the same layout and image config the built-in layouts are constructed with.
+ */
+export type PlacementLayoutFactory = (layoutConfig: LayoutConfig, imageConfig: ImageConfig) => PlacementLayout;
+
 /**
  * ImageFilter interface for filtering images by extension
  * Implemented by the ImageFilter class in loaders/ImageFilter.ts
@@ -685,6 +1048,7 @@ export interface IImageFilter {
  * 2. prepare(filter) - Async discovery of images, accepts filter
  * 3. imagesLength() - Return count of images (after prepare)
  * 4. imageURLs() - Return ordered list of URLs (after prepare)
+ * 5. imageDescriptors() - Optional ordered list of descriptors (after prepare)
  */
 export interface ImageLoader {
   /**
@@ -706,6 +1070,13 @@ export interface ImageLoader {
    */
   imageURLs(): string[];
 
+  /**
+   * Get the ordered list of image descriptors (same order as imageURLs())
+   * Optional for custom loaders — URLs are wrapped as `{ url }` when absent
+   * @throws Error if called before prepare() completes
+   */
+  imageDescriptors?(): ImageDescriptor[];
+
   /**
    * Check if the loader has been prepared
    */
@@ -717,6 +1088,11 @@ export interface GoogleDriveFile {
   name: string;
   mimeType: string;
   parents?: string[];
+  description?: string;
+  imageMediaMetadata?: {
+    width?: number;
+    height?: number;
+  };
 }
 
 export interface GoogleDriveResponse {
@@ -849,6 +1225,20 @@ export enum ZoomState {
   CROSS_ANIMATING = 'cross_animating' // Two images: one out, one in
 }
 
+/**
+ * Absolute placement of an image element: center position and rendered size in
+ * container pixels, plus rotation (degrees) and scale
+ */
+export interface ElementPlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  scale: number;
+  transform?: string;  // Final transform when it takes more than rotation and scale (3D layouts)
+}
+
 /**
  * Handle for a cancellable animation using Web Animations API
  */
@@ -5,6 +5,7 @@
  * Public API:
  * - animateTransform(element, properties, duration, easing)
  * - animateTransformCancellable(element, from, to, duration, easing) - Web Animations API
+ * - animateLayout(element, to, duration, easing, delay) - Move/resize an image to a new layout slot
  * - cancelAnimation(handle, commitStyle) - Cancel and optionally keep current position
  * - getCurrentTransform(element) - Get current transform state mid-animation
  * - hasActiveAnimation(element) - Check if element has active animation
@@ -13,7 +14,7 @@
  * - wait(ms)
  */
 
-import type { AnimationConfig, TransformParams, ImageLayout, AnimationHandle, AnimationSnapshot } from '../config/types';
+import type { AnimationConfig, TransformParams, ImageLayout, AnimationHandle, AnimationSnapshot, ElementPlacement } from '../config/types';
 
 export class AnimationEngine {
   private config: AnimationConfig;
@@ -116,6 +117,64 @@ export class AnimationEngine {
     return handle;
   }
 
+  /**
+   * Animate an image element from wherever it currently is to a new layout placement
+   * Animates left/top/width/height and the pixel-centered transform together, because the
+   * centering offset depends on the element's size. The final placement is committed as
+   * inline styles up front, so a cancelled animation simply lands at the destination.
+   * @param element - The image element to move
+   * @param to - Destination placement
+   * @param duration - Animation duration in ms (optional)
+   * @param easing - CSS easing function (optional)
+   * @param delay - Start delay in ms, e.g. for staggering (default 0)
+   * @returns Promise that resolves when the animation finishes or is superseded
+   */
+  animateLayout(
+    element: HTMLElement,
+    to: ElementPlacement,
+    duration: number | null = null,
+    easing: string | null = null,
+    delay: number = 0
+  ): Promise<void> {
+    const animDuration = duration ?? this.config.duration ?? 600;
+    const animEasing = easing ?? this.config.easing.default;
+
+    // Capture the current visual state (mid-entry or mid-layout values included)
+    const computed = getComputedStyle(element);
+    const fromFrame: Keyframe = {
+      left: computed.left,
+      top: computed.top,
+      width: computed.width,
+      height: computed.height,
+      transform: computed.transform === 'none' ? 'none' : computed.transform
+    };
+
+    // Now that the values are captured, drop whatever was driving them (entry transitions,
+    // earlier layout animations, completed zoom animations held with fill: 'forwards')
+    this.cancelAllAnimations(element);
+
+    const toFrame = {
+      left: `${to.x}px`,
+      top: `${to.y}px`,
+      width: `${to.width}px`,
+      height: `${to.height}px`,
+      transform: to.transform ?? `translate(${-to.width / 2}px, ${-to.height / 2}px) rotate(${to.rotation}deg) scale(${to.scale})`
+    };
+
+    // Clear any CSS transitions to avoid conflicts, then commit the destination
+    element.style.transition = 'none';
+    Object.assign(element.style, toFrame);
+
+    const animation = element.animate([fromFrame, toFrame], {
+      duration: animDuration,
+      easing: animEasing,
+      delay,
+      fill: 'backwards'  // Hold the start frame during the stagger delay
+    });
+
+    return animation.finished.then(() => undefined, () => undefined);
+  }
+
   /**
    * Cancel an active animation
    * @param handle - The animation handle to cancel
@@ -0,0 +1,597 @@
+/**
+ * CanvasEngine.ts
+ * Pans and zooms a stage element holding the images (interaction.canvas)
+ *
+ * Public API:
+ * - enable() - Create the stage and start listening for pointer and wheel events
+ * - disable() - Stop listening and stop any glide in progress
+ * - destroy() - Clean up listeners and remove the stage and minimap
+ * - getStage() - Element the images are placed in
+ * - setSurfaceSize(width, height) / getSurfaceSize() - Size of the surface the layout is computed for
+ * - setMinimapItems(items) - Image rectangles drawn on the minimap
+ * - getVisibleBounds() - Part of the surface inside the container
+ * - getZoom() / zoomTo(zoom) - Current zoom; zoom around the container center
+ * - fitAll(animate) - Zoom out to show the whole surface
+ */
+
+import type { CanvasInteractionConfig, ContainerBounds } from '../config/types';
+
+// Pointer travel before a press becomes a pan, so plain clicks still focus
+const PAN_THRESHOLD_PX = 5;
+
+// Zoom change per wheel pixel (mouse wheel) and per pinch pixel (trackpad, ctrl+wheel)
+const WHEEL_ZOOM_SPEED = 0.002;
+const PINCH_ZOOM_SPEED = 0.01;
+
+// Pixels per wheel line (deltaMode 1)
+const WHEEL_LINE_PX = 16;
+
+// Share of the glide velocity kept per 16ms frame, and the speed (px/ms) where it stops
+const INERTIA_FRICTION = 0.95;
+const INERTIA_MIN_SPEED = 0.02;
+
+// Duration of animated view changes such as fitAll()
+const VIEW_ANIMATION_MS = 300;
+
+// Longest side of the minimap in pixels
+const MINIMAP_SIZE = 160;
+
+interface CanvasCallbacks {
+  canPan: (target: HTMLElement) => boolean;
+  onViewChange?: () => void;
+}
+
+/** Stage transform: translate(x, y) scale(zoom), origin at the top left */
+interface CanvasView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+interface PanState {
+  pointers: Map<number, { x: number; y: number }>;
+  startX: number;
+  startY: number;
+  isPanning: boolean;
+  velocityX: number;  // px/ms, smoothed
+  velocityY: number;
+  lastTime: number;
+}
+
+export class CanvasEngine {
+  private container: HTMLElement;
+  private config: CanvasInteractionConfig;
+  private callbacks: CanvasCallbacks;
+  private enabled: boolean = false;
+
+  private stage: HTMLElement | null = null;
+  private minimap: HTMLElement | null = null;
+  private minimapViewport: HTMLElement | null = null;
+  private minimapItems: HTMLElement[] = [];
+
+  private surface: ContainerBounds = { width: 0, height: 0 };
+  private view: CanvasView = { x: 0, y: 0, zoom: 1 };
+  private hasView: boolean = false;
+  private panState: PanState | null = null;
+  private frame: number | null = null;
+
+  // The click that ends a pan must not focus the image under the pointer
+  private suppressClick: boolean = false;
+
+  // Bound event handlers for proper cleanup
+  private boundPointerDown: (e: PointerEvent) => void;
+  private boundPointerMove: (e: PointerEvent) => void;
+  private boundPointerUp: (e: PointerEvent) => void;
+  private boundWheel: (e: WheelEvent) => void;
+  private boundClick: (e: MouseEvent) => void;
+  private boundMinimapPointer: (e: PointerEvent) => void;
+
+  constructor(container: HTMLElement, config: CanvasInteractionConfig, callbacks: CanvasCallbacks) {
+    this.container = container;
+    this.config = config;
+    this.callbacks = callbacks;
+
+    // Bind handlers
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundWheel = this.handleWheel.bind(this);
+    this.boundClick = this.handleClick.bind(this);
+    this.boundMinimapPointer = this.handleMinimapPointer.bind(this);
+  }
+
+  /**
+   * Create the stage and start listening for pointer and wheel events
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    if (!this.stage) {
+      this.stage = document.createElement('div');
+      this.stage.className = 'fbn-ic-canvas';
+      this.container.appendChild(this.stage);
+    }
+    if (this.config.minimap && !this.minimap) {
+      this.createMinimap();
+    }
+
+    this.container.classList.add('fbn-ic-canvas-mode');
+    this.container.addEventListener('pointerdown', this.boundPointerDown);
+    this.container.addEventListener('pointermove', this.boundPointerMove);
+    this.container.addEventListener('pointerup', this.boundPointerUp);
+    this.container.addEventListener('pointercancel', this.boundPointerUp);
+    this.container.addEventListener('wheel', this.boundWheel, { passive: false });
+    // Capture phase runs before the image's own click handler
+    this.container.addEventListener('click', this.boundClick, true);
+  }
+
+  /**
+   * Stop listening for pointer and wheel events
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    this.container.classList.remove('fbn-ic-canvas-mode');
+    this.container.removeEventListener('pointerdown', this.boundPointerDown);
+    this.container.removeEventListener('pointermove', this.boundPointerMove);
+    this.container.removeEventListener('pointerup', this.boundPointerUp);
+    this.container.removeEventListener('pointercancel', this.boundPointerUp);
+    this.container.removeEventListener('wheel', this.boundWheel);
+    this.container.removeEventListener('click', this.boundClick, true);
+
+    this.stopAnimation();
+    this.panState = null;
+    this.suppressClick = false;
+  }
+
+  /**
+   * Clean up all event listeners and remove the stage and minimap
+   * Move the images out of the stage first to keep them.
+   */
+  destroy(): void {
+    this.disable();
+    this.stage?.remove();
+    this.stage = null;
+    this.minimap?.remove();
+    this.minimap = null;
+    this.minimapViewport = null;
+    this.minimapItems = [];
+  }
+
+  /**
+   * Element the images are placed in
+   */
+  getStage(): HTMLElement | null {
+    return this.stage;
+  }
+
+  /**
+   * Set the size of the surface the layout is computed for
+   * The first call centers the surface at zoom 1; later calls keep the zoom and
+   * the surface point at the container center.
+   */
+  setSurfaceSize(width: number, height: number): void {
+    const viewport = this.getViewportSize();
+    const centerX = this.hasView && this.surface.width > 0 ? (viewport.width / 2 - this.view.x) / this.view.zoom / this.surface.width : 0.5;
+    const centerY = this.hasView && this.surface.height > 0 ? (viewport.height / 2 - this.view.y) / this.view.zoom / this.surface.height : 0.5;
+
+    this.surface = { width, height };
+    if (this.stage) {
+      this.stage.style.width = `${width}px`;
+      this.stage.style.height = `${height}px`;
+    }
+
+    const zoom = this.clampZoom(this.hasView ? this.view.zoom : 1);
+    this.hasView = true;
+    this.setView({
+      x: viewport.width / 2 - centerX * width * zoom,
+      y: viewport.height / 2 - centerY * height * zoom,
+      zoom
+    });
+    this.layoutMinimap();
+  }
+
+  getSurfaceSize(): ContainerBounds {
+    return { ...this.surface };
+  }
+
+  /**
+   * Draw the given image rectangles (surface pixels, centered on x/y) on the minimap
+   */
+  setMinimapItems(items: Array<{ x: number; y: number; width: number; height: number }>): void {
+    if (!this.minimap) return;
+
+    while (this.minimapItems.length > items.length) {
+      this.minimapItems.pop()!.remove();
+    }
+    while (this.minimapItems.length < items.length) {
+      const item = document.createElement('div');
+      item.className = 'fbn-ic-minimap-item';
+      this.minimap.insertBefore(item, this.minimapViewport);
+      this.minimapItems.push(item);
+    }
+
+    const scale = this.getMinimapScale();
+    items.forEach((rect, index) => {
+      const style = this.minimapItems[index].style;
+      style.left = `${(rect.x - rect.width / 2) * scale}px`;
+      style.top = `${(rect.y - rect.height / 2) * scale}px`;
+      style.width = `${rect.width * scale}px`;
+      style.height = `${rect.height * scale}px`;
+    });
+  }
+
+  /**
+   * Part of the surface inside the container, in surface pixels
+   */
+  getVisibleBounds(): ContainerBounds & { x: number; y: number } {
+    const viewport = this.getViewportSize();
+    return {
+      x: -this.view.x / this.view.zoom,
+      y: -this.view.y / this.view.zoom,
+      width: viewport.width / this.view.zoom,
+      height: viewport.height / this.view.zoom
+    };
+  }
+
+  getZoom(): number {
+    return this.view.zoom;
+  }
+
+  /**
+   * Zoom around the container center, within the zoom limits
+   */
+  zoomTo(zoom: number, animate: boolean = true): Promise<void> {
+    const viewport = this.getViewportSize();
+    return this.changeView(this.zoomedView(zoom, viewport.width / 2, viewport.height / 2), animate);
+  }
+
+  /**
+   * Zoom out (or in) so the whole surface fits the container, and center it
+   */
+  fitAll(animate: boolean = true): Promise<void> {
+    const viewport = this.getViewportSize();
+    const zoom = this.clampZoom(this.getFitZoom());
+    return this.changeView({
+      x: (viewport.width - this.surface.width * zoom) / 2,
+      y: (viewport.height - this.surface.height * zoom) / 2,
+      zoom
+    }, animate);
+  }
+
+  // ===== View =====
+
+  private getViewportSize(): ContainerBounds {
+    return { width: this.container.clientWidth, height: this.container.clientHeight };
+  }
+
+  private getFitZoom(): number {
+    const viewport = this.getViewportSize();
+    if (this.surface.width <= 0 || this.surface.height <= 0) return 1;
+    return Math.min(viewport.width / this.surface.width, viewport.height / this.surface.height);
+  }
+
+  private clampZoom(zoom: number): number {
+    const minZoom = this.config.minZoom ?? Math.min(1, this.getFitZoom());
+    const maxZoom = Math.max(minZoom, this.config.maxZoom ?? 4);
+    return Math.min(maxZoom, Math.max(minZoom, zoom));
+  }
+
+  /**
+   * View zoomed to `zoom` with the surface point under (screenX, screenY) staying put
+   */
+  private zoomedView(zoom: number, screenX: number, screenY: number): CanvasView {
+    const next = this.clampZoom(zoom);
+    const ratio = next / this.view.zoom;
+    return {
+      x: screenX - (screenX - this.view.x) * ratio,
+      y: screenY - (screenY - this.view.y) * ratio,
+      zoom: next
+    };
+  }
+
+  /**
+   * Keep the surface covering the container; a surface smaller than the container is centered
+   */
+  private clampView(view: CanvasView): CanvasView {
+    const viewport = this.getViewportSize();
+    const clampAxis = (offset: number, size: number, available: number): number => {
+      const scaled = size * view.zoom;
+      if (scaled <= available) return (available - scaled) / 2;
+      return Math.min(0, Math.max(available - scaled, offset));
+    };
+    return {
+      x: clampAxis(view.x, this.surface.width, viewport.width),
+      y: clampAxis(view.y, this.surface.height, viewport.height),
+      zoom: view.zoom
+    };
+  }
+
+  private setView(view: CanvasView): void {
+    this.view = this.clampView(view);
+    if (this.stage) {
+      this.stage.style.transform = `translate(${this.view.x}px, ${this.view.y}px) scale(${this.view.zoom})`;
+    }
+    this.updateMinimapViewport();
+    this.callbacks.onViewChange?.();
+  }
+
+  /**
+   * Move to a view, optionally easing there over VIEW_ANIMATION_MS
+   */
+  private changeView(target: CanvasView, animate: boolean): Promise<void> {
+    this.stopAnimation();
+    const to = this.clampView(target);
+    if (!animate) {
+      this.setView(to);
+      return Promise.resolve();
+    }
+
+    const from = { ...this.view };
+    const startTime = performance.now();
+    return new Promise(resolve => {
+      const step = (now: number) => {
+        const t = Math.min(1, (now - startTime) / VIEW_ANIMATION_MS);
+        const eased = 1 - Math.pow(1 - t, 3);
+        // Interpolate the zoom geometrically so zooming feels even
+        this.setView({
+          x: from.x + (to.x - from.x) * eased,
+          y: from.y + (to.y - from.y) * eased,
+          zoom: from.zoom * Math.pow(to.zoom / from.zoom, eased)
+        });
+        if (t < 1) {
+          this.frame = requestAnimationFrame(step);
+        } else {
+          this.frame = null;
+          resolve();
+        }
+      };
+      this.frame = requestAnimationFrame(step);
+    });
+  }
+
+  private stopAnimation(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  /**
+   * Keep moving after a flick, slowing down until the speed drops below INERTIA_MIN_SPEED
+   */
+  private glide(velocityX: number, velocityY: number): void {
+    let lastTime = performance.now();
+    const step = (now: number) => {
+      const elapsed = now - lastTime;
+      lastTime = now;
+      const decay = Math.pow(INERTIA_FRICTION, elapsed / 16);
+      velocityX *= decay;
+      velocityY *= decay;
+
+      const before = this.view;
+      this.setView({ x: before.x + velocityX * elapsed, y: before.y + velocityY * elapsed, zoom: before.zoom });
+      // Stop early against the surface edge
+      const moved = this.view.x !== before.x || this.view.y !== before.y;
+      if (moved && Math.hypot(velocityX, velocityY) > INERTIA_MIN_SPEED) {
+        this.frame = requestAnimationFrame(step);
+      } else {
+        this.frame = null;
+      }
+    };
+    this.frame = requestAnimationFrame(step);
+  }
+
+  // ===== Pointer and wheel input =====
+
+  private toContainerPoint(e: { clientX: number; clientY: number }): { x: number; y: number } {
+    const rect = this.container.getBoundingClientRect();
+    return { x: e.clientX - rect.left - this.container.clientLeft, y: e.clientY - rect.top - this.container.clientTop };
+  }
+
+  /**
+   * Centroid and average distance from it of the active pointers
+   */
+  private getPointerSpread(pointers: Map<number, { x: number; y: number }>): { x: number; y: number; spread: number } {
+    let x = 0;
+    let y = 0;
+    for (const point of pointers.values()) {
+      x += point.x;
+      y += point.y;
+    }
+    x /= pointers.size;
+    y /= pointers.size;
+    let spread = 0;
+    for (const point of pointers.values()) {
+      spread += Math.hypot(point.x - x, point.y - y);
+    }
+    return { x, y, spread: spread / pointers.size };
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const target = e.target as HTMLElement;
+    if (this.minimap?.contains(target) || !this.callbacks.canPan(target)) return;
+
+    this.stopAnimation();
+    const point = this.toContainerPoint(e);
+    if (!this.panState) {
+      this.panState = {
+        pointers: new Map(),
+        startX: point.x,
+        startY: point.y,
+        isPanning: false,
+        velocityX: 0,
+        velocityY: 0,
+        lastTime: performance.now()
+      };
+    }
+    this.panState.pointers.set(e.pointerId, point);
+    // A second finger starts a pinch right away
+    if (this.panState.pointers.size > 1) {
+      this.startPanning(e);
+    }
+  }
+
+  private startPanning(e: PointerEvent): void {
+    const state = this.panState!;
+    if (!state.isPanning) {
+      state.isPanning = true;
+      this.container.classList.add('fbn-ic-panning');
+    }
+    this.container.setPointerCapture?.(e.pointerId);
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const state = this.panState;
+    if (!state || !state.pointers.has(e.pointerId)) return;
+
+    const point = this.toContainerPoint(e);
+    if (!state.isPanning) {
+      if (Math.hypot(point.x - state.startX, point.y - state.startY) < PAN_THRESHOLD_PX) return;
+      this.startPanning(e);
+    }
+    e.preventDefault();
+
+    // Pan by the centroid's movement and zoom by the change in spread (pinch)
+    const before = this.getPointerSpread(state.pointers);
+    state.pointers.set(e.pointerId, point);
+    const after = this.getPointerSpread(state.pointers);
+
+    const dx = after.x - before.x;
+    const dy = after.y - before.y;
+    let view: CanvasView = { x: this.view.x + dx, y: this.view.y + dy, zoom: this.view.zoom };
+    if (state.pointers.size > 1 && before.spread > 0) {
+      this.view = view;
+      view = this.zoomedView(this.view.zoom * (after.spread / before.spread), after.x, after.y);
+    }
+    this.setView(view);
+
+    const now = performance.now();
+    const elapsed = Math.max(1, now - state.lastTime);
+    state.velocityX = state.velocityX * 0.5 + (dx / elapsed) * 0.5;
+    state.velocityY = state.velocityY * 0.5 + (dy / elapsed) * 0.5;
+    state.lastTime = now;
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const state = this.panState;
+    if (!state || !state.pointers.has(e.pointerId)) return;
+    state.pointers.delete(e.pointerId);
+    this.container.releasePointerCapture?.(e.pointerId);
+    if (state.pointers.size > 0) return;
+
+    this.panState = null;
+    if (!state.isPanning) return;
+
+    this.container.classList.remove('fbn-ic-panning');
+    this.suppressClick = true;
+    // Browsers skip the click when the pointer was released off the pressed element
+    setTimeout(() => { this.suppressClick = false; }, 0);
+
+    // A pointer that stopped before letting go does not glide
+    const idle = performance.now() - state.lastTime > 100;
+    if (e.type === 'pointerup' && this.config.inertia !== false && !idle &&
+        Math.hypot(state.velocityX, state.velocityY) > INERTIA_MIN_SPEED) {
+      this.glide(state.velocityX, state.velocityY);
+    }
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    if (!this.callbacks.canPan(e.target as HTMLElement)) return;
+    e.preventDefault();
+    this.stopAnimation();
+
+    const unit = e.deltaMode === 1 ? WHEEL_LINE_PX : e.deltaMode === 2 ? this.getViewportSize().height : 1;
+    const deltaX = e.deltaX * unit;
+    const deltaY = e.deltaY * unit;
+
+    // Trackpad pinches arrive as ctrl+wheel
+    if (e.ctrlKey || this.config.wheel !== 'pan') {
+      const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      const point = this.toContainerPoint(e);
+      this.setView(this.zoomedView(this.view.zoom * Math.exp(-deltaY * speed), point.x, point.y));
+    } else {
+      this.setView({ x: this.view.x - deltaX, y: this.view.y - deltaY, zoom: this.view.zoom });
+    }
+  }
+
+  private handleClick(e: MouseEvent): void {
+    if (!this.suppressClick) return;
+    this.suppressClick = false;
+    e.stopPropagation();
+    e.preventDefault();
+  }
+
+  // ===== Minimap =====
+
+  private createMinimap(): void {
+    this.minimap = document.createElement('div');
+    this.minimap.className = 'fbn-ic-minimap';
+    this.minimap.setAttribute('aria-hidden', 'true');
+    this.minimapViewport = document.createElement('div');
+    this.minimapViewport.className = 'fbn-ic-minimap-viewport';
+    this.minimap.appendChild(this.minimapViewport);
+    this.minimap.addEventListener('pointerdown', this.boundMinimapPointer);
+    this.minimap.addEventListener('pointermove', this.boundMinimapPointer);
+    this.container.appendChild(this.minimap);
+    this.layoutMinimap();
+  }
+
+  private getMinimapScale(): number {
+    if (this.surface.width <= 0 || this.surface.height <= 0) return 0;
+    return MINIMAP_SIZE / Math.max(this.surface.width, this.surface.height);
+  }
+
+  private layoutMinimap(): void {
+    if (!this.minimap) return;
+    const scale = this.getMinimapScale();
+    this.minimap.style.width = `${this.surface.width * scale}px`;
+    this.minimap.style.height = `${this.surface.height * scale}px`;
+    this.updateMinimapViewport();
+  }
+
+  private updateMinimapViewport(): void {
+    if (!this.minimapViewport) return;
+    const scale = this.getMinimapScale();
+    const visible = this.getVisibleBounds();
+    // Only the part of the visible area that overlaps the surface
+    const left = Math.max(0, visible.x);
+    const top = Math.max(0, visible.y);
+    const right = Math.min(this.surface.width, visible.x + visible.width);
+    const bottom = Math.min(this.surface.height, visible.y + visible.height);
+    const style = this.minimapViewport.style;
+    style.left = `${left * scale}px`;
+    style.top = `${top * scale}px`;
+    style.width = `${Math.max(0, right - left) * scale}px`;
+    style.height = `${Math.max(0, bottom - top) * scale}px`;
+  }
+
+  /**
+   * Press or drag on the minimap to center the view on that spot
+   */
+  private handleMinimapPointer(e: PointerEvent): void {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    if (!this.callbacks.canPan(e.target as HTMLElement)) return;
+    e.stopPropagation();
+    e.preventDefault();
+    if (e.type === 'pointerdown') {
+      this.minimap!.setPointerCapture?.(e.pointerId);
+    }
+
+    const scale = this.getMinimapScale();
+    if (scale === 0) return;
+    const rect = this.minimap!.getBoundingClientRect();
+    const surfaceX = (e.clientX - rect.left) / scale;
+    const surfaceY = (e.clientY - rect.top) / scale;
+    const viewport = this.getViewportSize();
+    this.stopAnimation();
+    this.setView({
+      x: viewport.width / 2 - surfaceX * this.view.zoom,
+      y: viewport.height / 2 - surfaceY * this.view.zoom,
+      zoom: this.view.zoom
+    });
+  }
+}
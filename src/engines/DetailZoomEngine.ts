@@ -0,0 +1,264 @@
+/**
+ * DetailZoomEngine.ts
+ * Handles double-click, double-tap, pinch, wheel and drag input that zooms and
+ * pans inside the focused image (interaction.focus.detailZoom)
+ *
+ * Public API:
+ * - enable() - Start listening for pointer, wheel and click events
+ * - disable() - Stop listening and drop any gesture in progress
+ * - destroy() - Clean up all event listeners
+ */
+
+// Pointer travel before a press becomes a pan, so plain clicks still register
+const PAN_THRESHOLD_PX = 5;
+
+// Longest gap between the two clicks (or taps) of a double-click
+const DOUBLE_CLICK_MS = 300;
+
+// Zoom change per wheel pixel (mouse wheel) and per pinch pixel (trackpad, ctrl+wheel)
+const WHEEL_ZOOM_SPEED = 0.002;
+const PINCH_ZOOM_SPEED = 0.01;
+
+// Pixels per wheel line (deltaMode 1)
+const WHEEL_LINE_PX = 16;
+
+interface DetailZoomCallbacks {
+  getTarget: () => HTMLElement | null;  // focused image, once its focus animation has settled
+  getZoom: () => number;
+  getMaxZoom: () => number;
+  onZoom: (zoom: number, clientX: number, clientY: number, animate: boolean) => void;
+  onPan: (dx: number, dy: number) => void;
+  onClick: (element: HTMLElement) => void;  // a single click that did not become a double-click
+}
+
+interface GestureState {
+  element: HTMLElement;
+  pointers: Map<number, { x: number; y: number }>;
+  startX: number;
+  startY: number;
+  isMoving: boolean;
+}
+
+export class DetailZoomEngine {
+  private container: HTMLElement;
+  private callbacks: DetailZoomCallbacks;
+  private enabled: boolean = false;
+  private gesture: GestureState | null = null;
+
+  // First click of a possible double-click, waiting to become a single click
+  private clickTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // The click that ends a pan or pinch must not unfocus the image
+  private suppressClick: boolean = false;
+
+  // Bound event handlers for proper cleanup
+  private boundPointerDown: (e: PointerEvent) => void;
+  private boundPointerMove: (e: PointerEvent) => void;
+  private boundPointerUp: (e: PointerEvent) => void;
+  private boundWheel: (e: WheelEvent) => void;
+  private boundClick: (e: MouseEvent) => void;
+  private boundDragStart: (e: DragEvent) => void;
+
+  constructor(container: HTMLElement, callbacks: DetailZoomCallbacks) {
+    this.container = container;
+    this.callbacks = callbacks;
+
+    // Bind handlers
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundWheel = this.handleWheel.bind(this);
+    this.boundClick = this.handleClick.bind(this);
+    this.boundDragStart = this.handleDragStart.bind(this);
+  }
+
+  /**
+   * Start listening for pointer, wheel and click events
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    this.container.classList.add('fbn-ic-detail-zoom');
+    this.container.addEventListener('pointerdown', this.boundPointerDown);
+    this.container.addEventListener('pointermove', this.boundPointerMove);
+    this.container.addEventListener('pointerup', this.boundPointerUp);
+    this.container.addEventListener('pointercancel', this.boundPointerUp);
+    this.container.addEventListener('wheel', this.boundWheel, { passive: false });
+    this.container.addEventListener('dragstart', this.boundDragStart);
+    // Capture phase runs before the image's own click handler
+    this.container.addEventListener('click', this.boundClick, true);
+  }
+
+  /**
+   * Stop listening for pointer, wheel and click events
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    this.container.classList.remove('fbn-ic-detail-zoom');
+    this.container.removeEventListener('pointerdown', this.boundPointerDown);
+    this.container.removeEventListener('pointermove', this.boundPointerMove);
+    this.container.removeEventListener('pointerup', this.boundPointerUp);
+    this.container.removeEventListener('pointercancel', this.boundPointerUp);
+    this.container.removeEventListener('wheel', this.boundWheel);
+    this.container.removeEventListener('dragstart', this.boundDragStart);
+    this.container.removeEventListener('click', this.boundClick, true);
+
+    if (this.clickTimer !== null) {
+      clearTimeout(this.clickTimer);
+      this.clickTimer = null;
+    }
+    this.gesture = null;
+    this.suppressClick = false;
+  }
+
+  /**
+   * Clean up all event listeners
+   */
+  destroy(): void {
+    this.disable();
+  }
+
+  /**
+   * The focused image when `target` is on it, otherwise null
+   */
+  private getTargetFor(target: EventTarget | null): HTMLElement | null {
+    const element = this.callbacks.getTarget();
+    return element && target instanceof Node && element.contains(target) ? element : null;
+  }
+
+  /**
+   * Centroid of the active pointers
+   */
+  private getCentroid(pointers: Map<number, { x: number; y: number }>): { x: number; y: number; spread: number } {
+    let x = 0;
+    let y = 0;
+    for (const point of pointers.values()) {
+      x += point.x;
+      y += point.y;
+    }
+    x /= pointers.size;
+    y /= pointers.size;
+    let spread = 0;
+    for (const point of pointers.values()) {
+      spread += Math.hypot(point.x - x, point.y - y);
+    }
+    return { x, y, spread: spread / pointers.size };
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const element = this.gesture?.element ?? this.getTargetFor(e.target);
+    if (!element || !element.contains(e.target as Node)) return;
+
+    if (!this.gesture) {
+      this.gesture = {
+        element,
+        pointers: new Map(),
+        startX: e.clientX,
+        startY: e.clientY,
+        isMoving: false
+      };
+    }
+    this.gesture.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    // A second finger starts a pinch right away
+    if (this.gesture.pointers.size > 1) {
+      this.startMoving(e);
+    }
+  }
+
+  private startMoving(e: PointerEvent): void {
+    const state = this.gesture!;
+    state.isMoving = true;
+    state.element.setPointerCapture?.(e.pointerId);
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const state = this.gesture;
+    if (!state || !state.pointers.has(e.pointerId)) return;
+
+    if (!state.isMoving) {
+      if (Math.hypot(e.clientX - state.startX, e.clientY - state.startY) < PAN_THRESHOLD_PX) return;
+      // At focused size a one-finger drag belongs to swipe navigation
+      if (this.callbacks.getZoom() <= 1) {
+        this.gesture = null;
+        return;
+      }
+      this.startMoving(e);
+    }
+    e.preventDefault();
+
+    // Pan by the centroid's movement and zoom by the change in spread (pinch)
+    const before = this.getCentroid(state.pointers);
+    state.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const after = this.getCentroid(state.pointers);
+
+    if (state.pointers.size > 1 && before.spread > 0) {
+      this.callbacks.onZoom(this.callbacks.getZoom() * (after.spread / before.spread), after.x, after.y, false);
+    }
+    this.callbacks.onPan(after.x - before.x, after.y - before.y);
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const state = this.gesture;
+    if (!state || !state.pointers.has(e.pointerId)) return;
+    state.pointers.delete(e.pointerId);
+    state.element.releasePointerCapture?.(e.pointerId);
+    if (state.pointers.size > 0) return;
+
+    this.gesture = null;
+    if (!state.isMoving) return;
+
+    this.suppressClick = true;
+    // Browsers skip the click when the pointer was released off the pressed element
+    setTimeout(() => { this.suppressClick = false; }, 0);
+  }
+
+  private handleWheel(e: WheelEvent): void {
+    if (!this.getTargetFor(e.target)) return;
+    e.preventDefault();
+
+    const unit = e.deltaMode === 1 ? WHEEL_LINE_PX : e.deltaMode === 2 ? this.container.clientHeight : 1;
+    // Trackpad pinches arrive as ctrl+wheel
+    const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+    this.callbacks.onZoom(this.callbacks.getZoom() * Math.exp(-e.deltaY * unit * speed), e.clientX, e.clientY, false);
+  }
+
+  private handleClick(e: MouseEvent): void {
+    if (this.suppressClick) {
+      this.suppressClick = false;
+      e.stopPropagation();
+      e.preventDefault();
+      return;
+    }
+
+    const element = this.getTargetFor(e.target);
+    if (!element) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    if (this.clickTimer === null) {
+      // Wait for a second click before treating this one as a plain click
+      this.clickTimer = setTimeout(() => {
+        this.clickTimer = null;
+        this.callbacks.onClick(element);
+      }, DOUBLE_CLICK_MS);
+      return;
+    }
+
+    clearTimeout(this.clickTimer);
+    this.clickTimer = null;
+    if (this.callbacks.getZoom() > 1) {
+      this.callbacks.onZoom(1, e.clientX, e.clientY, true);
+    } else {
+      this.callbacks.onZoom(this.callbacks.getMaxZoom(), e.clientX, e.clientY, true);
+    }
+  }
+
+  private handleDragStart(e: DragEvent): void {
+    // Native image drag would take over the pointer
+    if (this.getTargetFor(e.target)) e.preventDefault();
+  }
+}
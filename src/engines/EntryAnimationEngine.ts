@@ -12,27 +12,43 @@ import type {
   EntryStartPosition,
   ContainerBounds,
   LayoutAlgorithm,
+  BuiltInLayoutAlgorithm,
   EntryPathConfig,
   EntryPathType,
   EntryRotationConfig,
   EntryRotationMode,
   EntryScaleConfig,
-  EntryScaleMode
+  EntryScaleMode,
+  RandomSeed
 } from '../config/types';
 import { DEFAULT_PATH_CONFIG, DEFAULT_ENTRY_ROTATION, DEFAULT_ENTRY_SCALE } from '../config/defaults';
 import { requiresJSAnimation } from './PathAnimator';
+import { createRandom, type RandomSource } from '../utils/random';
 
 /** Layout-aware default start positions */
-const LAYOUT_ENTRY_DEFAULTS: Record<LayoutAlgorithm, EntryStartPosition> = {
+const LAYOUT_ENTRY_DEFAULTS: Record<BuiltInLayoutAlgorithm, EntryStartPosition> = {
   radial: 'center',
   spiral: 'center',
   grid: 'top',
   cluster: 'nearest-edge',
   random: 'nearest-edge',
   wave: 'left',
-  honeycomb: 'center'
+  honeycomb: 'center',
+  justified: 'bottom',
+  masonry: 'bottom',
+  physics: 'center',
+  shape: 'center',
+  path: 'nearest-edge',
+  sphere: 'center',
+  cylinder: 'center',
+  helix: 'center',
+  manual: 'nearest-edge'
 };
 
+// Each image draws its start position, rotation and scale from its own seeded stream,
+// so results do not depend on the order images finish loading
+const RANDOM_STREAMS = { position: 0, rotation: 1, scale: 2 } as const;
+
 export interface StartPosition {
   x: number;
   y: number;
@@ -53,10 +69,17 @@ export class EntryAnimationEngine {
   private pathConfig: EntryPathConfig;
   private rotationConfig: EntryRotationConfig;
   private scaleConfig: EntryScaleConfig;
+  private seed: RandomSeed | undefined;
 
-  constructor(config: EntryAnimationConfig, layoutAlgorithm: LayoutAlgorithm) {
+  /**
+   * @param config - Entry animation config
+   * @param layoutAlgorithm - Current layout algorithm, for layout-aware start defaults
+   * @param seed - Makes random starts repeatable (animation.seed)
+   */
+  constructor(config: EntryAnimationConfig, layoutAlgorithm: LayoutAlgorithm, seed?: RandomSeed) {
     this.config = config;
     this.layoutAlgorithm = layoutAlgorithm;
+    this.seed = seed;
 
     // Resolve the start position, using layout-aware defaults if not specified
     this.resolvedStartPosition = this.resolveStartPosition();
@@ -71,6 +94,13 @@ export class EntryAnimationEngine {
     this.scaleConfig = config.scale || DEFAULT_ENTRY_SCALE;
   }
 
+  /**
+   * Random source for one image: seeded per image and purpose, or Math.random when unseeded
+   */
+  private randomFor(imageIndex: number, purpose: keyof typeof RANDOM_STREAMS): RandomSource {
+    return createRandom(this.seed, imageIndex * 3 + RANDOM_STREAMS[purpose]);
+  }
+
   /**
    * Get the effective start position, considering layout-aware defaults
    */
@@ -80,7 +110,8 @@ export class EntryAnimationEngine {
       return this.config.start.position;
     }
     // Otherwise use layout-aware default
-    return LAYOUT_ENTRY_DEFAULTS[this.layoutAlgorithm] || 'nearest-edge';
+    // Custom layouts have no entry of their own and get the nearest-edge default
+    return LAYOUT_ENTRY_DEFAULTS[this.layoutAlgorithm as BuiltInLayoutAlgorithm] || 'nearest-edge';
   }
 
   /**
@@ -116,7 +147,7 @@ export class EntryAnimationEngine {
         return this.calculateCenterPosition(containerBounds, finalPosition, imageSize);
 
       case 'random-edge':
-        return this.calculateRandomEdge(finalPosition, imageSize, containerBounds, offset);
+        return this.calculateRandomEdge(finalPosition, imageSize, containerBounds, offset, imageIndex);
 
       case 'circular':
         return this.calculateCircularPosition(
@@ -229,10 +260,12 @@ export class EntryAnimationEngine {
     finalPosition: { x: number; y: number },
     imageSize: { width: number; height: number },
     containerBounds: ContainerBounds,
-    offset: number
+    offset: number,
+    imageIndex: number
   ): StartPosition {
     const edges: ('top' | 'bottom' | 'left' | 'right')[] = ['top', 'bottom', 'left', 'right'];
-    const randomEdge = edges[Math.floor(Math.random() * edges.length)];
+    const random = this.randomFor(imageIndex, 'position');
+    const randomEdge = edges[Math.floor(random() * edges.length)];
     return this.calculateEdgePosition(randomEdge, finalPosition, imageSize, containerBounds, offset);
   }
 
@@ -269,7 +302,7 @@ export class EntryAnimationEngine {
     if (distribution === 'even') {
       angle = (imageIndex / totalImages) * 2 * Math.PI;
     } else {
-      angle = Math.random() * 2 * Math.PI;
+      angle = this.randomFor(imageIndex, 'position')() * 2 * Math.PI;
     }
 
     // Calculate position on circle, centered on container
@@ -415,10 +448,12 @@ export class EntryAnimationEngine {
   /**
    * Calculate the starting rotation for an entry animation
    * @param finalRotation - The final rotation from the layout
+   * @param imageIndex - Image index, selects the image's random stream when seeded
    * @returns The starting rotation in degrees
    */
-  calculateStartRotation(finalRotation: number): number {
+  calculateStartRotation(finalRotation: number, imageIndex = 0): number {
     const mode = this.rotationConfig.mode;
+    const random = this.randomFor(imageIndex, 'rotation');
 
     switch (mode) {
       case 'none':
@@ -430,26 +465,26 @@ export class EntryAnimationEngine {
         const startConfig = this.rotationConfig.startRotation;
         if (startConfig === undefined) {
           // Default: ±30° random offset from final
-          return finalRotation + (Math.random() - 0.5) * 60;
+          return finalRotation + (random() - 0.5) * 60;
         }
         if (typeof startConfig === 'number') {
           return startConfig;
         }
         // Range: random value between min and max
         const range = startConfig.max - startConfig.min;
-        return startConfig.min + Math.random() * range;
+        return startConfig.min + random() * range;
       }
 
       case 'spin': {
         // Spin from a rotated position to final
         const spinCount = this.rotationConfig.spinCount ?? 1;
-        const direction = this.resolveSpinDirection(finalRotation);
+        const direction = this.resolveSpinDirection(finalRotation, random);
         return finalRotation + (spinCount * 360 * direction);
       }
 
       case 'random':
         // Random starting rotation (±30° from final)
-        return finalRotation + (Math.random() - 0.5) * 60;
+        return finalRotation + (random() - 0.5) * 60;
 
       case 'wobble':
         // Wobble is handled in JS animation, start at final rotation
@@ -464,7 +499,7 @@ export class EntryAnimationEngine {
    * Resolve spin direction based on config
    * @returns 1 for clockwise, -1 for counterclockwise
    */
-  private resolveSpinDirection(finalRotation: number): number {
+  private resolveSpinDirection(finalRotation: number, random: RandomSource): number {
     const direction = this.rotationConfig.direction ?? 'auto';
 
     switch (direction) {
@@ -473,7 +508,7 @@ export class EntryAnimationEngine {
       case 'counterclockwise':
         return 1;   // Positive rotation = counterclockwise spin to final
       case 'random':
-        return Math.random() < 0.5 ? 1 : -1;
+        return random() < 0.5 ? 1 : -1;
       case 'auto':
       default:
         // Auto: choose direction that reduces total rotation distance
@@ -538,9 +573,10 @@ export class EntryAnimationEngine {
   /**
    * Calculate the starting scale for an entry animation
    * @param finalScale - The final scale from the layout
+   * @param imageIndex - Image index, selects the image's random stream when seeded
    * @returns The starting scale
    */
-  calculateStartScale(finalScale: number): number {
+  calculateStartScale(finalScale: number, imageIndex = 0): number {
     const mode = this.scaleConfig.mode;
 
     switch (mode) {
@@ -568,7 +604,7 @@ export class EntryAnimationEngine {
       case 'random': {
         // Random start scale in configured range
         const range = this.scaleConfig.range ?? { min: 0.5, max: 1.0 };
-        const randomFactor = range.min + Math.random() * (range.max - range.min);
+        const randomFactor = range.min + this.randomFor(imageIndex, 'scale')() * (range.max - range.min);
         return randomFactor * finalScale;
       }
 
@@ -0,0 +1,150 @@
+/**
+ * ExitAnimationEngine.ts
+ * Animates images out of the gallery: the entry animation options played in reverse,
+ * from where an image is now to a target edge, the center or a circle around the container
+ *
+ * Public API:
+ * - animateOut(element, placement, from, containerBounds, imageIndex, totalImages)
+ * - getDuration()
+ * - getTotalDuration(imageCount)
+ */
+
+import type {
+  ExitAnimationConfig,
+  EntryAnimationConfig,
+  EntryStartConfig,
+  ContainerBounds,
+  ElementPlacement,
+  LayoutAlgorithm,
+  RandomSeed
+} from '../config/types';
+import { DEFAULT_EXIT_ANIMATION } from '../config/defaults';
+import { EntryAnimationEngine } from './EntryAnimationEngine';
+import { calculatePathFrame } from './PathAnimator';
+
+/** Keyframes sampled along JS-driven paths (bounce, elastic, wave, wobble, pop) */
+const PATH_SAMPLES = 30;
+
+/** What the image looks like when the exit starts */
+export interface ExitStartFrame {
+  transform: string;
+  opacity: number;
+}
+
+export class ExitAnimationEngine {
+  private config: ExitAnimationConfig;
+  private duration: number;
+  private positions: EntryAnimationEngine;
+
+  /**
+   * @param config - Exit animation config
+   * @param duration - Duration in ms when config.duration is not set
+   * @param layoutAlgorithm - Current layout algorithm
+   * @param seed - Makes random targets repeatable (animation.seed)
+   */
+  constructor(config: ExitAnimationConfig, duration: number, layoutAlgorithm: LayoutAlgorithm, seed?: RandomSeed) {
+    this.config = config;
+    this.duration = config.duration ?? duration;
+
+    // The exit target is the entry start position, so reuse the entry calculations
+    const positionConfig: EntryAnimationConfig = {
+      start: { ...DEFAULT_EXIT_ANIMATION.target, ...config.target } as EntryStartConfig,
+      timing: { duration: this.duration },
+      easing: config.easing ?? DEFAULT_EXIT_ANIMATION.easing!,
+      path: config.path ?? DEFAULT_EXIT_ANIMATION.path,
+      rotation: config.rotation ?? DEFAULT_EXIT_ANIMATION.rotation,
+      scale: config.scale ?? DEFAULT_EXIT_ANIMATION.scale
+    };
+    this.positions = new EntryAnimationEngine(positionConfig, layoutAlgorithm, seed);
+  }
+
+  /**
+   * Duration of a single image's exit in ms
+   */
+  getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * Time in ms until the last of `imageCount` staggered images has left
+   */
+  getTotalDuration(imageCount: number): number {
+    const stagger = this.config.stagger ?? 0;
+    return this.duration + stagger * Math.max(0, imageCount - 1);
+  }
+
+  /**
+   * Animate an image out of the gallery
+   * The element must already sit at `placement` (inline left/top/width/height).
+   * @param element - Image element to animate
+   * @param placement - Settled center position, size, rotation and scale
+   * @param from - Transform and opacity on screen when the exit starts
+   * @param containerBounds - Container dimensions
+   * @param imageIndex - Order of this image among the exiting images
+   * @param totalImages - Number of exiting images
+   * @returns Promise that resolves when the image has left (or the animation was cancelled)
+   */
+  animateOut(
+    element: HTMLElement,
+    placement: ElementPlacement,
+    from: ExitStartFrame,
+    containerBounds: ContainerBounds,
+    imageIndex: number,
+    totalImages: number
+  ): Promise<void> {
+    const { x, y, width, height, rotation, scale } = placement;
+    const target = this.positions.calculateStartPosition(
+      { x, y },
+      { width, height },
+      containerBounds,
+      imageIndex,
+      totalImages
+    );
+    const targetRotation = this.positions.calculateStartRotation(rotation, imageIndex);
+    const targetScale = target.useScale ? 0 : this.positions.calculateStartScale(scale, imageIndex);
+
+    // Paths that the entry animation drives from JS are sampled into keyframes
+    const sampled =
+      this.positions.requiresJSAnimation() ||
+      this.positions.requiresJSRotation() ||
+      this.positions.requiresJSScale();
+    const samples = sampled ? PATH_SAMPLES : 1;
+    const fade = this.config.fade ?? true;
+
+    const keyframes: Keyframe[] = [{ transform: from.transform, opacity: from.opacity }];
+    for (let i = 1; i <= samples; i++) {
+      const t = i / samples;
+      // Exit time t is entry time 1 - t
+      const frame = calculatePathFrame(1 - t, {
+        startPosition: { x: target.x, y: target.y },
+        endPosition: { x, y },
+        pathConfig: this.positions.getPathConfig(),
+        rotation,
+        scale,
+        rotationConfig: this.positions.getRotationConfig(),
+        startRotation: targetRotation,
+        scaleConfig: this.positions.getScaleConfig(),
+        startScale: targetScale
+      });
+      keyframes.push({
+        transform:
+          `translate(${-width / 2}px, ${-height / 2}px) ` +
+          `translate(${frame.x - x}px, ${frame.y - y}px) ` +
+          `rotate(${frame.rotation}deg) scale(${frame.scale})`,
+        opacity: fade ? from.opacity * (1 - t) : from.opacity
+      });
+    }
+
+    const animation = element.animate(keyframes, {
+      duration: this.duration,
+      delay: imageIndex * (this.config.stagger ?? 0),
+      easing: sampled ? 'linear' : (this.config.easing ?? DEFAULT_EXIT_ANIMATION.easing!),
+      fill: 'forwards'
+    });
+
+    return new Promise(resolve => {
+      animation.onfinish = () => resolve();
+      animation.oncancel = () => resolve();
+    });
+  }
+}
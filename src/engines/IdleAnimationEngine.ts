@@ -12,7 +12,8 @@ import type {
   IdleWiggleConfig,
   IdlePulseConfig,
   IdleBlinkConfig,
-  IdleSpinConfig
+  IdleSpinConfig,
+  RandomSeed
 } from '../config/types';
 import {
   DEFAULT_IDLE_WIGGLE,
@@ -20,6 +21,7 @@ import {
   DEFAULT_IDLE_BLINK,
   DEFAULT_IDLE_SPIN
 } from '../config/defaults';
+import { createRandom } from '../utils/random';
 
 interface IdleEntry {
   element: HTMLElement;
@@ -37,15 +39,17 @@ export class IdleAnimationEngine {
   private config: IdleAnimationConfig;
   private entries: Map<HTMLElement, IdleEntry> = new Map();
   private entryDurationMs: number;
+  private seed: RandomSeed | undefined;
 
   // Single rAF loop shared across all 'together'-sync animations.
   // Each frame, all active together-mode animations get the same currentTime.
   private togetherRafId: number | null = null;
   private togetherSpeed: number = 0;
 
-  constructor(config: IdleAnimationConfig, entryDurationMs = 600) {
+  constructor(config: IdleAnimationConfig, entryDurationMs = 600, seed?: RandomSeed) {
     this.config = config;
     this.entryDurationMs = entryDurationMs;
+    this.seed = seed;
   }
 
   /**
@@ -171,6 +175,11 @@ export class IdleAnimationEngine {
     }
   }
 
+  /** Fraction of a cycle to start at, so images are out of step (repeatable when seeded) */
+  private _randomPhase(entry: IdleEntry): number {
+    return createRandom(this.seed, entry.index)();
+  }
+
   private _startWiggle(entry: IdleEntry): void {
     const cfg: IdleWiggleConfig = { ...DEFAULT_IDLE_WIGGLE, ...this.config.wiggle };
 
@@ -191,7 +200,7 @@ export class IdleAnimationEngine {
     } else {
       entry.animation = entry.element.animate(keyframes, {
         duration: cfg.speed,
-        delay: -(Math.random() * cfg.speed),
+        delay: -(this._randomPhase(entry) * cfg.speed),
         iterations: Infinity,
         composite: 'add'
       });
@@ -218,7 +227,7 @@ export class IdleAnimationEngine {
     } else {
       entry.animation = entry.element.animate(keyframes, {
         duration: cfg.speed,
-        delay: -(Math.random() * cfg.speed),
+        delay: -(this._randomPhase(entry) * cfg.speed),
         iterations: Infinity,
         composite: 'add'
       });
@@ -227,7 +236,7 @@ export class IdleAnimationEngine {
 
   private _startBlink(entry: IdleEntry): void {
     const cfg: IdleBlinkConfig = { ...DEFAULT_IDLE_BLINK, ...this.config.blink };
-    const delay = -(Math.random() * cfg.speed);
+    const delay = -(this._randomPhase(entry) * cfg.speed);
 
     // Use the element's current opacity as the "visible" state so blink
     // respects the configured default (and hover) opacity.
@@ -5,11 +5,13 @@
  * Public API:
  * - generateLayout(imageCount, containerBounds, options)
  * - getOriginalState(imageId)
+ * - usesAspectRatios() / growsContainer() / isLive() / is3D()
  * - reset()
  * - updateConfig(newConfig)
+ * - LayoutEngine.registerLayout(name, factory)
  */
 
-import type { LayoutConfig, ImageLayout, ContainerBounds, PlacementLayout, AdaptiveSizingResult, ImageConfig, FixedModeHeight, ResponsiveBreakpoints } from '../config/types';
+import type { LayoutConfig, ImageLayout, ContainerBounds, PlacementLayout, PlacementLayoutFactory, PlacementLayoutOptions, BuiltInLayoutAlgorithm, AdaptiveSizingResult, ImageConfig, FixedModeHeight, ResponsiveBreakpoints } from '../config/types';
 import { RandomPlacementLayout } from '../layouts/RandomPlacementLayout';
 import { RadialPlacementLayout } from '../layouts/RadialPlacementLayout';
 import { GridPlacementLayout } from '../layouts/GridPlacementLayout';
@@ -17,6 +19,42 @@ import { SpiralPlacementLayout } from '../layouts/SpiralPlacementLayout';
 import { ClusterPlacementLayout } from '../layouts/ClusterPlacementLayout';
 import { WavePlacementLayout } from '../layouts/WavePlacementLayout';
 import { HoneycombPlacementLayout } from '../layouts/HoneycombPlacementLayout';
+import { JustifiedPlacementLayout } from '../layouts/JustifiedPlacementLayout';
+import { MasonryPlacementLayout } from '../layouts/MasonryPlacementLayout';
+import { PhysicsPlacementLayout } from '../layouts/PhysicsPlacementLayout';
+import { ShapePlacementLayout } from '../layouts/ShapePlacementLayout';
+import { PathPlacementLayout } from '../layouts/PathPlacementLayout';
+import { SpherePlacementLayout } from '../layouts/SpherePlacementLayout';
+import { CylinderPlacementLayout } from '../layouts/CylinderPlacementLayout';
+import { HelixPlacementLayout } from '../layouts/HelixPlacementLayout';
+import { ManualPlacementLayout } from '../layouts/ManualPlacementLayout';
+import { resolveCollisions, avoidObstacles, exclusionZonePolygon, footprintPolygon } from '../utils/overlap';
+import { resolveWeights } from '../utils/weights';
+import { resolveHexTiling } from '../utils/hexagonGeometry';
+
+// Adaptive sizing assumes landscape images when an image's aspect ratio is not known yet
+const DEFAULT_ASPECT_RATIO = 1.4;
+
+const BUILT_IN_LAYOUTS = new Map<BuiltInLayoutAlgorithm, PlacementLayoutFactory>([
+  ['random', (config, imageConfig) => new RandomPlacementLayout(config, imageConfig)],
+  ['radial', (config, imageConfig) => new RadialPlacementLayout(config, imageConfig)],
+  ['grid', (config, imageConfig) => new GridPlacementLayout(config, imageConfig)],
+  ['spiral', (config, imageConfig) => new SpiralPlacementLayout(config, imageConfig)],
+  ['cluster', (config, imageConfig) => new ClusterPlacementLayout(config, imageConfig)],
+  ['wave', (config, imageConfig) => new WavePlacementLayout(config, imageConfig)],
+  ['honeycomb', (config, imageConfig) => new HoneycombPlacementLayout(config, imageConfig)],
+  ['justified', (config, imageConfig) => new JustifiedPlacementLayout(config, imageConfig)],
+  ['masonry', (config, imageConfig) => new MasonryPlacementLayout(config, imageConfig)],
+  ['physics', (config, imageConfig) => new PhysicsPlacementLayout(config, imageConfig)],
+  ['shape', (config, imageConfig) => new ShapePlacementLayout(config, imageConfig)],
+  ['path', (config, imageConfig) => new PathPlacementLayout(config, imageConfig)],
+  ['sphere', (config, imageConfig) => new SpherePlacementLayout(config, imageConfig)],
+  ['cylinder', (config, imageConfig) => new CylinderPlacementLayout(config, imageConfig)],
+  ['helix', (config, imageConfig) => new HelixPlacementLayout(config, imageConfig)]
+]);
+
+// Layouts added with registerLayout(), shared by every gallery on the page
+const customLayouts = new Map<string, PlacementLayoutFactory>();
 
 export interface LayoutEngineConfig {
   layout: LayoutConfig;
@@ -28,6 +66,7 @@ export class LayoutEngine {
   private imageConfig: ImageConfig;
   private layouts: Map<number, ImageLayout>;
   private placementLayout: PlacementLayout;
+  private hasPinnedImages: boolean = false;
 
   constructor(config: LayoutEngineConfig) {
     this.config = config.layout;
@@ -40,38 +79,117 @@ export class LayoutEngine {
   }
 
   /**
-   * Initialize the appropriate placement layout based on config type
+   * Add a named placement layout that galleries can select with `layout.algorithm`.
+   * Registering a name again replaces the earlier factory; galleries created
+   * before that keep the layout they already built.
+   * @param name - Algorithm name, must not be a built-in algorithm
+   * @param factory - Creates the layout from the gallery's layout and image config
+   */
+  static registerLayout(name: string, factory: PlacementLayoutFactory): void {
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Error('Layout name must be a non-empty string.');
+    }
+    if (BUILT_IN_LAYOUTS.has(name as BuiltInLayoutAlgorithm) || name === 'manual') {
+      throw new Error(`Layout "${name}" is built in and cannot be replaced. Register the custom layout under another name.`);
+    }
+    if (typeof factory !== 'function') {
+      throw new Error(`Layout "${name}" needs a factory function that returns a PlacementLayout, e.g. (layoutConfig, imageConfig) => new MyLayout(layoutConfig).`);
+    }
+    customLayouts.set(name, factory);
+  }
+
+  /**
+   * Initialize the placement layout: `layout.custom` if set, the manual layout
+   * over its fallback, or the built-in or registered layout named by `layout.algorithm`
    * @returns Initialized placement layout
    */
   private initLayout(): PlacementLayout {
-    switch (this.config.algorithm) {
-      case 'radial':
-        return new RadialPlacementLayout(this.config, this.imageConfig);
-      case 'grid':
-        return new GridPlacementLayout(this.config, this.imageConfig);
-      case 'spiral':
-        return new SpiralPlacementLayout(this.config, this.imageConfig);
-      case 'cluster':
-        return new ClusterPlacementLayout(this.config, this.imageConfig);
-      case 'wave':
-        return new WavePlacementLayout(this.config, this.imageConfig);
-      case 'honeycomb':
-        return new HoneycombPlacementLayout(this.config, this.imageConfig);
-      case 'random':
-      default:
-        return new RandomPlacementLayout(this.config, this.imageConfig);
+    if (this.config.custom) {
+      return this.config.custom;
+    }
+
+    if (this.config.algorithm === 'manual') {
+      const fallback = this.config.manual?.fallback ?? 'random';
+      return new ManualPlacementLayout(this.config, this.imageConfig, this.createLayout(fallback));
+    }
+    return this.createLayout(this.config.algorithm);
+  }
+
+  /**
+   * Create a built-in or registered layout by name
+   * @param algorithm - Algorithm name ('manual' is not valid here)
+   */
+  private createLayout(algorithm: string): PlacementLayout {
+    const factory = BUILT_IN_LAYOUTS.get(algorithm as BuiltInLayoutAlgorithm) ?? customLayouts.get(algorithm);
+    if (!factory) {
+      console.warn(
+        `[image-cloud] Unknown layout algorithm "${algorithm}", falling back to "random". ` +
+        'Register custom layouts with ImageCloud.registerLayout() before creating the gallery.'
+      );
+      return new RandomPlacementLayout(this.config, this.imageConfig);
     }
+    return factory(this.config, this.imageConfig);
   }
 
   /**
-   * Generate layout positions for images
+   * Generate layout positions for images, then (2D layouts only) place pinned images
+   * (ImageDescriptor.pinned), move images off exclusion zones and pinned images and
+   * run the collision pass when layout.collision is enabled
    * @param imageCount - Number of images to layout
    * @param containerBounds - Container dimensions {width, height}
-   * @param options - Optional overrides for configuration (e.g. fixedHeight)
+   * @param options - Optional overrides for configuration (e.g. fixedHeight, images)
    * @returns Array of layout objects with position, rotation, scale
    */
-  generateLayout(imageCount: number, containerBounds: ContainerBounds, options: Partial<LayoutConfig> = {}): ImageLayout[] {
-    const layouts = this.placementLayout.generate(imageCount, containerBounds, options);
+  generateLayout(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const weights = options.weights ?? resolveWeights(imageCount, options.images, options.weightFor ?? this.config.weightFor);
+    options = { ...options, weights };
+    let layouts = this.placementLayout.generate(imageCount, containerBounds, options);
+
+    // Pins, the collision pass and exclusion zones work in the container plane
+    if (this.is3D()) {
+      this.hasPinnedImages = false;
+      layouts.forEach(layout => this.layouts.set(layout.id, layout));
+      return layouts;
+    }
+
+    const height = options.fixedHeight ?? 200;
+    const sizes = layouts.map((_, i) => ({
+      width: height * (options.aspectRatios?.[i] ?? DEFAULT_ASPECT_RATIO),
+      height
+    }));
+
+    const pinned: number[] = [];
+    layouts = layouts.map((layout, i) => {
+      const pin = options.images?.[i]?.pinned;
+      if (!pin) return layout;
+      pinned.push(i);
+      const scale = pin.scale ?? 1;
+      const placed: ImageLayout = {
+        id: layout.id,
+        x: pin.x * containerBounds.width,
+        y: pin.y * containerBounds.height,
+        rotation: pin.rotation ?? 0,
+        scale,
+        baseSize: height * scale
+      };
+      if (pin.zIndex !== undefined) placed.zIndex = pin.zIndex;
+      return placed;
+    });
+    this.hasPinnedImages = pinned.length > 0;
+    const fixed = [...pinned, ...(options.anchors ?? [])];
+
+    const zones = (options.exclusionZones ?? this.config.exclusionZones ?? []).map(zone => exclusionZonePolygon(zone, containerBounds));
+    if (zones.length > 0 || pinned.length > 0) {
+      const obstacles = [...zones, ...pinned.map(i => footprintPolygon(layouts[i], sizes[i]))];
+      layouts = avoidObstacles(layouts, sizes, obstacles, containerBounds, fixed);
+    }
+
+    // Images moved off the obstacles may now overlap each other; the collision pass
+    // parts them from the clear spots and keeps them off the zones (pinned images are anchored bodies)
+    const collision = { ...this.config.collision, ...options.collision };
+    if (collision.enabled && layouts.length > 1) {
+      layouts = resolveCollisions(layouts, sizes, containerBounds, collision, fixed, zones);
+    }
 
     // Store layouts for state retrieval
     layouts.forEach(layout => {
@@ -90,6 +208,41 @@ export class LayoutEngine {
     return this.layouts.get(Number(imageId));
   }
 
+  /**
+   * Whether the current layout places images by their aspect ratios
+   * (images are held back until all of them have loaded). The collision pass,
+   * exclusion zones and pinned images need the real sizes too, so they count
+   * for every algorithm.
+   */
+  usesAspectRatios(): boolean {
+    if (this.is3D()) return this.placementLayout.usesAspectRatios === true;
+    return this.placementLayout.usesAspectRatios === true ||
+      this.config.collision?.enabled === true ||
+      (this.config.exclusionZones?.length ?? 0) > 0 ||
+      this.hasPinnedImages;
+  }
+
+  /**
+   * Whether the current layout may extend below the container
+   */
+  growsContainer(): boolean {
+    return this.placementLayout.growsContainer === true;
+  }
+
+  /**
+   * Whether the current layout continues from its previous result
+   */
+  isLive(): boolean {
+    return this.placementLayout.live === true;
+  }
+
+  /**
+   * Whether the current layout places images in 3D
+   */
+  is3D(): boolean {
+    return this.placementLayout.is3D === true;
+  }
+
   /**
    * Reset all stored layouts
    */
@@ -101,13 +254,18 @@ export class LayoutEngine {
    * Update config dynamically (useful for responsive changes)
    * @param newConfig - Updated configuration
    */
-  updateConfig(newConfig: Partial<LayoutEngineConfig>): void {
+  updateConfig(newConfig: { layout?: Partial<LayoutConfig>; image?: Partial<ImageConfig> }): void {
     // Update layout config
     if (newConfig.layout) {
+      // Compare before merging, otherwise the algorithm always looks unchanged
+      const algorithmChanged = (newConfig.layout.algorithm !== undefined &&
+        newConfig.layout.algorithm !== this.config.algorithm) ||
+        ('custom' in newConfig.layout && newConfig.layout.custom !== this.config.custom);
+
       Object.assign(this.config, newConfig.layout);
 
       // Reinitialize placement layout if algorithm changed
-      if (newConfig.layout.algorithm && newConfig.layout.algorithm !== this.config.algorithm) {
+      if (algorithmChanged) {
         this.placementLayout = this.initLayout();
       }
     }
@@ -188,13 +346,15 @@ export class LayoutEngine {
    * @param imageCount - Number of images to display
    * @param maxHeight - Maximum height constraint (upper bound)
    * @param viewportWidth - Current viewport width for baseHeight resolution
+   * @param aspectRatios - Known aspect ratio per image; unknown ones are assumed landscape (1.4)
    * @returns Calculated sizing result with height
    */
   calculateAdaptiveSize(
     containerBounds: ContainerBounds,
     imageCount: number,
     maxHeight: number,
-    viewportWidth: number
+    viewportWidth: number,
+    aspectRatios: (number | undefined)[] = []
   ): AdaptiveSizingResult {
     const sizing = this.imageConfig.sizing;
 
@@ -218,11 +378,18 @@ export class LayoutEngine {
     // Calculate area-based optimal size
     const containerArea = width * height;
     const targetArea = containerArea * targetCoverage;
-    const areaPerImage = targetArea / imageCount;
 
-    // Calculate height from area assuming 1.4 aspect ratio (landscape images)
-    const aspectRatio = 1.4;
-    let calculatedHeight = Math.sqrt(areaPerImage / aspectRatio);
+    // An image of height h covers h² × its aspect ratio, so solve h² × Σ ratios = target area
+    let totalAspectRatio = 0;
+    for (let i = 0; i < imageCount; i++) {
+      totalAspectRatio += aspectRatios[i] ?? DEFAULT_ASPECT_RATIO;
+    }
+    let calculatedHeight = Math.sqrt(targetArea / totalAspectRatio);
+
+    // A layout that grows the container does not have to fit it: keep the responsive height
+    if (this.growsContainer()) {
+      calculatedHeight = maxHeight;
+    }
 
     // Apply density factor
     calculatedHeight *= densityFactor;
@@ -240,7 +407,7 @@ export class LayoutEngine {
       finalHeight = Math.max(floor, calculatedHeight);
     }
 
-    // Honeycomb: cap so the outermost ring stays within the container.
+    // Honeycomb: cap so the whole tiling (rings or rectangle) stays within the container.
     // Must apply here (not in generate()) so img.style.height matches tiling pitch.
     if (this.config.algorithm === 'honeycomb') {
       finalHeight = Math.min(finalHeight, this.honeycombMaxImageHeight(imageCount, containerBounds));
@@ -250,38 +417,14 @@ export class LayoutEngine {
   }
 
   /**
-   * Returns the largest image height at which all honeycomb rings fit within the container.
-   * Spacing is 0 for this calculation (user spacing is additive on top of the image height;
-   * any non-zero spacing only makes the constraint tighter).
+   * Returns the largest image height at which the honeycomb, in its configured
+   * shape, fits within the container.
    */
   private honeycombMaxImageHeight(imageCount: number, containerBounds: ContainerBounds): number {
-    if (imageCount <= 1) return Infinity;
-
-    // Find outermost ring: cells in rings 0..k = 1 + 3k(k+1)
-    let maxRing = 0;
-    let total = 1;
-    while (total < imageCount) {
-      maxRing++;
-      total += 6 * maxRing;
-    }
-
     const padding = this.config.spacing?.padding ?? 50;
     const spacing = this.config.honeycomb?.spacing ?? 0;
-    const containerCX = containerBounds.width / 2;
-    const containerCY = containerBounds.height / 2;
-
-    // colStep = √3/2 ≈ 0.866 * hexH; hex half-width = 1/√3 ≈ 0.577 * imageSize
-    const COL_STEP_RATIO = Math.sqrt(3) / 2;
-    const HALF_WIDTH_RATIO = 1 / Math.sqrt(3);
-
-    // Vertical: containerCY - maxRing*(size+spacing) - size/2 >= padding
-    const maxV = (containerCY - padding - spacing * maxRing) / (maxRing + 0.5);
-
-    // Horizontal: containerCX - COL_STEP_RATIO*maxRing*(size+spacing) - HALF_WIDTH_RATIO*size >= padding
-    const maxH = (containerCX - padding - COL_STEP_RATIO * spacing * maxRing)
-                 / (COL_STEP_RATIO * maxRing + HALF_WIDTH_RATIO);
-
-    return Math.max(10, Math.min(maxV, maxH));
+    const shape = this.config.honeycomb?.shape ?? 'rings';
+    return resolveHexTiling(shape, imageCount, containerBounds.width, containerBounds.height, padding, spacing).maxHeight;
   }
 
   /**
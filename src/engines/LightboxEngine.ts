@@ -0,0 +1,270 @@
+/**
+ * LightboxEngine.ts
+ * Full-viewport overlay that presents the focused image (interaction.focus.mode: 'lightbox')
+ *
+ * The overlay only provides the backdrop, controls and the stage; ImageCloud places a copy of
+ * the focused image on the stage and ZoomEngine flies it in from its place in the cloud.
+ *
+ * Public API:
+ * - open() - Attach the overlay, fade it in and enter fullscreen where available
+ * - close() - Leave fullscreen and fade the overlay out (it stays attached until detach())
+ * - detach() - Remove the overlay from the page once the image has flown back
+ * - isOpen() - Whether the overlay is open
+ * - getElement() / getStage() - Overlay element and the element images are placed on
+ * - getImageBounds() - Area the image is fitted into, in overlay pixels
+ * - setImages(images) - Filmstrip thumbnails
+ * - show(index, caption) - Caption and active thumbnail for the image on show
+ * - destroy() - Remove the overlay and its listeners
+ */
+
+import type { LightboxConfig, FocusBounds } from '../config/types';
+
+// Space between the image and the overlay edges; the sides leave room for the prev/next buttons
+const EDGE_MARGIN_PX = 24;
+const SIDE_MARGIN_PX = 64;
+
+interface LightboxCallbacks {
+  onClose: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onSelect: (index: number) => void;
+}
+
+export class LightboxEngine {
+  private config: LightboxConfig;
+  private callbacks: LightboxCallbacks;
+  private opened: boolean = false;
+
+  private overlay: HTMLElement;
+  private stage: HTMLElement;
+  private footer: HTMLElement;
+  private caption: HTMLElement;
+  private filmstrip: HTMLElement | null = null;
+  private thumbnails: HTMLElement[] = [];
+
+  // Bound event handlers for proper cleanup
+  private boundClick: (e: MouseEvent) => void;
+  private boundFullscreenChange: () => void;
+
+  /**
+   * @param duration - Fade duration in ms, matching the focus animation
+   */
+  constructor(config: LightboxConfig, duration: number, callbacks: LightboxCallbacks) {
+    this.config = config;
+    this.callbacks = callbacks;
+
+    this.boundClick = this.handleClick.bind(this);
+    this.boundFullscreenChange = this.handleFullscreenChange.bind(this);
+
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'fbn-ic-lightbox';
+    this.overlay.tabIndex = -1;
+    this.overlay.setAttribute('role', 'dialog');
+    this.overlay.setAttribute('aria-modal', 'true');
+    this.overlay.setAttribute('aria-label', 'Image viewer');
+    this.overlay.style.setProperty('--fbn-ic-lightbox-duration', `${duration}ms`);
+
+    const backdrop = document.createElement('div');
+    backdrop.className = 'fbn-ic-lightbox-backdrop';
+
+    this.stage = document.createElement('div');
+    this.stage.className = 'fbn-ic-lightbox-stage';
+
+    this.footer = document.createElement('div');
+    this.footer.className = 'fbn-ic-lightbox-footer';
+    this.caption = document.createElement('div');
+    this.caption.className = 'fbn-ic-lightbox-caption fbn-ic-hidden';
+    this.footer.appendChild(this.caption);
+    if (this.config.filmstrip) {
+      this.filmstrip = document.createElement('div');
+      this.filmstrip.className = 'fbn-ic-lightbox-filmstrip';
+      this.footer.appendChild(this.filmstrip);
+    }
+
+    this.overlay.append(
+      backdrop,
+      this.stage,
+      this.footer,
+      this.createButton('fbn-ic-lightbox-close', '×', 'Close'),
+      this.createButton('fbn-ic-lightbox-prev', '‹', 'Previous image'),
+      this.createButton('fbn-ic-lightbox-next', '›', 'Next image')
+    );
+
+    this.overlay.addEventListener('click', this.boundClick);
+    document.addEventListener('fullscreenchange', this.boundFullscreenChange);
+  }
+
+  private createButton(className: string, text: string, label: string): HTMLElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `fbn-ic-lightbox-btn ${className}`;
+    button.textContent = text;
+    button.setAttribute('aria-label', label);
+    return button;
+  }
+
+  /**
+   * Attach the overlay, fade it in and enter fullscreen where available
+   * Resolves once the overlay has its final size, so getImageBounds() can be measured.
+   */
+  async open(): Promise<void> {
+    if (this.opened) return;
+    this.opened = true;
+
+    if (!this.overlay.isConnected) {
+      document.body.appendChild(this.overlay);
+    }
+    // Flush styles so the fade starts from the closed state
+    void this.overlay.offsetWidth;
+    this.overlay.classList.add('fbn-ic-lightbox-open');
+    this.overlay.focus({ preventScroll: true });
+
+    if (this.config.fullscreen !== false && document.fullscreenEnabled && !document.fullscreenElement) {
+      try {
+        await this.overlay.requestFullscreen();
+      } catch {
+        // Refused, e.g. when not opened from a user gesture: stay a full-viewport overlay
+      }
+    }
+  }
+
+  /**
+   * Leave fullscreen and fade the overlay out
+   * The overlay stays attached (ignoring the pointer) until detach(), so the image can fly back over it.
+   */
+  async close(): Promise<void> {
+    if (!this.opened) return;
+    this.opened = false;
+    this.overlay.classList.remove('fbn-ic-lightbox-open');
+
+    if (document.fullscreenElement === this.overlay) {
+      try {
+        await document.exitFullscreen();
+      } catch {
+        // Already leaving fullscreen
+      }
+    }
+  }
+
+  /**
+   * Remove the overlay from the page (no-op while open)
+   */
+  detach(): void {
+    if (this.opened) return;
+    this.overlay.remove();
+  }
+
+  isOpen(): boolean {
+    return this.opened;
+  }
+
+  /**
+   * Overlay element; swipe and detail zoom listen here while the lightbox is in use
+   */
+  getElement(): HTMLElement {
+    return this.overlay;
+  }
+
+  /**
+   * Element the focused image is placed on, covering the whole overlay
+   */
+  getStage(): HTMLElement {
+    return this.stage;
+  }
+
+  /**
+   * Area the image is fitted into: the overlay minus the margins, caption and filmstrip
+   */
+  getImageBounds(): FocusBounds {
+    const width = this.overlay.clientWidth;
+    const height = this.overlay.clientHeight - this.footer.offsetHeight;
+    return {
+      x: SIDE_MARGIN_PX,
+      y: EDGE_MARGIN_PX,
+      width: Math.max(0, width - 2 * SIDE_MARGIN_PX),
+      height: Math.max(0, height - 2 * EDGE_MARGIN_PX)
+    };
+  }
+
+  /**
+   * Fill the filmstrip with one thumbnail per image (no-op without `filmstrip`)
+   */
+  setImages(images: Array<{ url: string; alt: string }>): void {
+    if (!this.filmstrip) return;
+    this.filmstrip.replaceChildren();
+    this.thumbnails = images.map((image, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'fbn-ic-lightbox-thumb';
+      button.dataset.index = String(index);
+      button.setAttribute('aria-label', image.alt);
+      const thumbnail = document.createElement('img');
+      thumbnail.src = image.url;
+      thumbnail.alt = '';
+      thumbnail.loading = 'lazy';
+      thumbnail.referrerPolicy = 'no-referrer';
+      thumbnail.draggable = false;
+      button.appendChild(thumbnail);
+      this.filmstrip!.appendChild(button);
+      return button;
+    });
+  }
+
+  /**
+   * Show the caption and mark the thumbnail for the image on show
+   * @param caption - Caption text; empty hides the caption
+   */
+  show(index: number, caption: string): void {
+    const text = this.config.captions !== false ? caption : '';
+    this.caption.textContent = text;
+    this.caption.classList.toggle('fbn-ic-hidden', text === '');
+
+    this.thumbnails.forEach((thumbnail, i) => {
+      const active = i === index;
+      thumbnail.classList.toggle('fbn-ic-active', active);
+      if (active) {
+        thumbnail.setAttribute('aria-current', 'true');
+        thumbnail.scrollIntoView?.({ block: 'nearest', inline: 'center' });
+      } else {
+        thumbnail.removeAttribute('aria-current');
+      }
+    });
+  }
+
+  /**
+   * Remove the overlay and its listeners
+   */
+  destroy(): void {
+    this.opened = false;
+    this.overlay.removeEventListener('click', this.boundClick);
+    document.removeEventListener('fullscreenchange', this.boundFullscreenChange);
+    if (document.fullscreenElement === this.overlay) {
+      document.exitFullscreen().catch(() => {});
+    }
+    this.overlay.remove();
+  }
+
+  private handleClick(e: MouseEvent): void {
+    if (!this.opened) return;
+    const target = e.target as HTMLElement;
+
+    const thumbnail = target.closest<HTMLElement>('.fbn-ic-lightbox-thumb');
+    if (thumbnail) {
+      this.callbacks.onSelect(parseInt(thumbnail.dataset.index ?? '', 10));
+    } else if (target.closest('.fbn-ic-lightbox-prev')) {
+      this.callbacks.onPrev();
+    } else if (target.closest('.fbn-ic-lightbox-next')) {
+      this.callbacks.onNext();
+    } else if (target.closest('.fbn-ic-lightbox-close') || !target.closest('.fbn-ic-image, .fbn-ic-lightbox-footer')) {
+      // Close button, or the backdrop around the image
+      this.callbacks.onClose();
+    }
+  }
+
+  private handleFullscreenChange(): void {
+    // Leaving fullscreen (Escape) closes the lightbox
+    if (this.opened && document.fullscreenElement !== this.overlay && this.overlay.isConnected) {
+      this.callbacks.onClose();
+    }
+  }
+}
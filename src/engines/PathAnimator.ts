@@ -7,6 +7,7 @@
  *
  * Public API:
  * - animatePath(element, startPos, endPos, pathConfig, duration, onComplete)
+ * - calculatePathFrame(t, options)
  * - calculateBouncePosition(t, start, end, config)
  * - calculateElasticPosition(t, start, end, config)
  * - calculateWavePosition(t, start, end, config)
@@ -59,6 +60,13 @@ export interface PathAnimationOptions {
   startScale?: number;        // Starting scale (if different from final)
 }
 
+/** Path, rotation and scale settings needed to compute a single frame */
+export type PathFrameOptions = Pick<
+  PathAnimationOptions,
+  'startPosition' | 'endPosition' | 'pathConfig' | 'rotation' | 'scale' |
+  'rotationConfig' | 'startRotation' | 'scaleConfig' | 'startScale'
+>;
+
 /**
  * Linear interpolation helper
  */
@@ -329,13 +337,91 @@ function calculatePopScale(
   return currentScale * finalScale;
 }
 
+/**
+ * Calculate position, rotation and scale along a path at a given time fraction
+ * @param t - Linear time fraction (0 = start, 1 = end)
+ * @param options - Path, rotation and scale settings
+ */
+export function calculatePathFrame(t: number, options: PathFrameOptions): EntryCurrentState {
+  const {
+    startPosition,
+    endPosition,
+    pathConfig,
+    rotation: finalRotation,
+    scale: finalScale,
+    rotationConfig,
+    startRotation,
+    scaleConfig,
+    startScale
+  } = options;
+
+  // Calculate position based on path type
+  let position: Point;
+
+  switch (pathConfig.type) {
+    case 'bounce': {
+      const config = resolveBounceConfig(
+        pathConfig.bouncePreset,
+        pathConfig.bounce
+      );
+      position = calculateBouncePosition(t, startPosition, endPosition, config);
+      break;
+    }
+    case 'elastic': {
+      const config = resolveElasticConfig(
+        pathConfig.elasticPreset,
+        pathConfig.elastic
+      );
+      position = calculateElasticPosition(t, startPosition, endPosition, config);
+      break;
+    }
+    case 'wave': {
+      const config = resolveWavePathConfig(
+        pathConfig.wavePreset,
+        pathConfig.wave
+      );
+      position = calculateWavePosition(t, startPosition, endPosition, config);
+      break;
+    }
+    default:
+      position = {
+        x: lerp(startPosition.x, endPosition.x, t),
+        y: lerp(startPosition.y, endPosition.y, t)
+      };
+  }
+
+  // Calculate current rotation
+  let rotation: number;
+  if (rotationConfig?.mode === 'wobble') {
+    const wobbleConfig = rotationConfig.wobble || { amplitude: 15, frequency: 3, decay: true };
+    rotation = calculateWobbleRotation(t, finalRotation, wobbleConfig);
+  } else if (startRotation !== undefined && startRotation !== finalRotation) {
+    rotation = lerp(startRotation, finalRotation, t);
+  } else {
+    rotation = finalRotation;
+  }
+
+  // Calculate current scale
+  let scale: number;
+  if (scaleConfig?.mode === 'pop') {
+    const popConfig = scaleConfig.pop || { overshoot: 1.2, bounces: 1 };
+    scale = calculatePopScale(t, finalScale, popConfig);
+  } else if (startScale !== undefined && startScale !== finalScale) {
+    scale = lerp(startScale, finalScale, t);
+  } else {
+    scale = finalScale;
+  }
+
+  return { x: position.x, y: position.y, rotation, scale };
+}
+
 /**
  * Animate an element along a path using requestAnimationFrame
+ * @returns Function that stops the animation where it is (onComplete is not called)
  */
-export function animatePath(options: PathAnimationOptions): void {
+export function animatePath(options: PathAnimationOptions): () => void {
   const {
     element,
-    startPosition,
     endPosition,
     pathConfig,
     duration,
@@ -356,21 +442,20 @@ export function animatePath(options: PathAnimationOptions): void {
   // Determine if we need to animate rotation
   const animateRotation = startRotation !== undefined && startRotation !== finalRotation;
   const isWobbleMode = rotationConfig?.mode === 'wobble';
-  const wobbleConfig = rotationConfig?.wobble || { amplitude: 15, frequency: 3, decay: true };
   const needsRotationAnimation = animateRotation || isWobbleMode;
 
   // Determine if we need to animate scale
   const animateScale = startScale !== undefined && startScale !== finalScale;
   const isPopMode = scaleConfig?.mode === 'pop';
-  const popConfig = scaleConfig?.pop || { overshoot: 1.2, bounces: 1 };
   const needsScaleAnimation = animateScale || isPopMode;
 
   // For linear paths WITHOUT rotation or scale animation, use CSS transitions (handled elsewhere)
   if (pathType === 'linear' && !needsRotationAnimation && !needsScaleAnimation) {
     if (onComplete) onComplete();
-    return;
+    return () => {};
   }
 
+  let cancelled = false;
   const startTime = performance.now();
 
   // Build center offset for transform
@@ -378,82 +463,25 @@ export function animatePath(options: PathAnimationOptions): void {
   const centerOffsetY = -imageHeight / 2;
 
   function tick(currentTime: number): void {
+    if (cancelled) return;
     const elapsed = currentTime - startTime;
     const t = Math.min(elapsed / duration, 1);
 
-    // Calculate position based on path type
-    let position: Point;
-
-    switch (pathType) {
-      case 'bounce': {
-        const config = resolveBounceConfig(
-          pathConfig.bouncePreset,
-          pathConfig.bounce
-        );
-        position = calculateBouncePosition(t, startPosition, endPosition, config);
-        break;
-      }
-      case 'elastic': {
-        const config = resolveElasticConfig(
-          pathConfig.elasticPreset,
-          pathConfig.elastic
-        );
-        position = calculateElasticPosition(t, startPosition, endPosition, config);
-        break;
-      }
-      case 'wave': {
-        const config = resolveWavePathConfig(
-          pathConfig.wavePreset,
-          pathConfig.wave
-        );
-        position = calculateWavePosition(t, startPosition, endPosition, config);
-        break;
-      }
-      default:
-        position = {
-          x: lerp(startPosition.x, endPosition.x, t),
-          y: lerp(startPosition.y, endPosition.y, t)
-        };
-    }
+    const current = calculatePathFrame(t, options);
 
     // Calculate translate offset from final position
-    const translateX = position.x - endPosition.x;
-    const translateY = position.y - endPosition.y;
-
-    // Calculate current rotation
-    let currentRotation: number;
-    if (isWobbleMode) {
-      currentRotation = calculateWobbleRotation(t, finalRotation, wobbleConfig);
-    } else if (animateRotation) {
-      currentRotation = lerp(startRotation!, finalRotation, t);
-    } else {
-      currentRotation = finalRotation;
-    }
-
-    // Calculate current scale
-    let currentScale: number;
-    if (isPopMode) {
-      currentScale = calculatePopScale(t, finalScale, popConfig);
-    } else if (animateScale) {
-      currentScale = lerp(startScale!, finalScale, t);
-    } else {
-      currentScale = finalScale;
-    }
+    const translateX = current.x - endPosition.x;
+    const translateY = current.y - endPosition.y;
 
     // Apply transform
     element.style.transform =
       `translate(${centerOffsetX}px, ${centerOffsetY}px) ` +
       `translate(${translateX}px, ${translateY}px) ` +
-      `rotate(${currentRotation}deg) scale(${currentScale})`;
+      `rotate(${current.rotation}deg) scale(${current.scale})`;
 
     // Fire onProgress for in-progress frames
     if (onProgress && t < 1) {
-      onProgress(t, elapsed, {
-        x: position.x,
-        y: position.y,
-        rotation: currentRotation,
-        scale: currentScale,
-      });
+      onProgress(t, elapsed, current);
     }
 
     if (t < 1) {
@@ -468,6 +496,10 @@ export function animatePath(options: PathAnimationOptions): void {
   }
 
   requestAnimationFrame(tick);
+
+  return () => {
+    cancelled = true;
+  };
 }
 
 /**
@@ -0,0 +1,191 @@
+/**
+ * RearrangeEngine.ts
+ * Handles pointer drags that move images to a new spot in the cloud
+ *
+ * Public API:
+ * - enable() - Start listening for pointer events
+ * - disable() - Stop listening and cancel any drag in progress
+ * - destroy() - Clean up all event listeners
+ * - isDragging() - Whether an image is being dragged
+ */
+
+// Pointer travel before a press becomes a drag, so plain clicks still focus
+const DRAG_THRESHOLD_PX = 5;
+
+interface RearrangeCallbacks {
+  canDrag: (element: HTMLElement) => boolean;
+  onDragStart: (element: HTMLElement) => { x: number; y: number };  // returns the image center
+  onDragMove: (element: HTMLElement, x: number, y: number) => void;
+  onDragEnd: (element: HTMLElement, x: number, y: number) => void;
+  onDragCancel: (element: HTMLElement) => void;
+  getPointerScale?: () => number;  // screen pixels per layout pixel (canvas zoom)
+}
+
+interface PointerState {
+  element: HTMLElement;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  originX: number;  // image center when the drag started
+  originY: number;
+  x: number;        // last proposed center
+  y: number;
+  isDragging: boolean;
+}
+
+export class RearrangeEngine {
+  private container: HTMLElement;
+  private callbacks: RearrangeCallbacks;
+  private enabled: boolean = false;
+  private pointerState: PointerState | null = null;
+
+  // The click that ends a drag must not focus the dropped image
+  private suppressClick: boolean = false;
+
+  // Bound event handlers for proper cleanup
+  private boundPointerDown: (e: PointerEvent) => void;
+  private boundPointerMove: (e: PointerEvent) => void;
+  private boundPointerUp: (e: PointerEvent) => void;
+  private boundPointerCancel: (e: PointerEvent) => void;
+  private boundClick: (e: MouseEvent) => void;
+
+  constructor(container: HTMLElement, callbacks: RearrangeCallbacks) {
+    this.container = container;
+    this.callbacks = callbacks;
+
+    // Bind handlers
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundPointerCancel = this.handlePointerCancel.bind(this);
+    this.boundClick = this.handleClick.bind(this);
+  }
+
+  /**
+   * Start listening for pointer events
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    this.container.classList.add('fbn-ic-rearrange');
+    this.container.addEventListener('pointerdown', this.boundPointerDown);
+    this.container.addEventListener('pointermove', this.boundPointerMove);
+    this.container.addEventListener('pointerup', this.boundPointerUp);
+    this.container.addEventListener('pointercancel', this.boundPointerCancel);
+    // Capture phase runs before the image's own click handler
+    this.container.addEventListener('click', this.boundClick, true);
+  }
+
+  /**
+   * Stop listening for pointer events
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    this.container.classList.remove('fbn-ic-rearrange');
+    this.container.removeEventListener('pointerdown', this.boundPointerDown);
+    this.container.removeEventListener('pointermove', this.boundPointerMove);
+    this.container.removeEventListener('pointerup', this.boundPointerUp);
+    this.container.removeEventListener('pointercancel', this.boundPointerCancel);
+    this.container.removeEventListener('click', this.boundClick, true);
+
+    // Put back an image that was mid-drag
+    if (this.pointerState?.isDragging) {
+      this.callbacks.onDragCancel(this.pointerState.element);
+    }
+    this.pointerState = null;
+    this.suppressClick = false;
+  }
+
+  /**
+   * Clean up all event listeners
+   */
+  destroy(): void {
+    this.disable();
+  }
+
+  /**
+   * Whether an image is being dragged
+   */
+  isDragging(): boolean {
+    return this.pointerState?.isDragging ?? false;
+  }
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (this.pointerState || !e.isPrimary || e.button !== 0) return;
+
+    const element = (e.target as HTMLElement).closest<HTMLElement>('.fbn-ic-image');
+    if (!element || !this.container.contains(element) || !this.callbacks.canDrag(element)) return;
+
+    this.pointerState = {
+      element,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      originX: 0,
+      originY: 0,
+      x: 0,
+      y: 0,
+      isDragging: false
+    };
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const state = this.pointerState;
+    if (!state || e.pointerId !== state.pointerId) return;
+
+    const deltaX = e.clientX - state.startX;
+    const deltaY = e.clientY - state.startY;
+
+    if (!state.isDragging) {
+      if (Math.sqrt(deltaX * deltaX + deltaY * deltaY) < DRAG_THRESHOLD_PX) return;
+      // The image may have moved on since pointerdown (idle or layout animation)
+      if (!this.callbacks.canDrag(state.element)) {
+        this.pointerState = null;
+        return;
+      }
+      state.isDragging = true;
+      const origin = this.callbacks.onDragStart(state.element);
+      state.originX = origin.x;
+      state.originY = origin.y;
+      state.element.setPointerCapture?.(e.pointerId);
+    }
+
+    e.preventDefault();
+    const scale = this.callbacks.getPointerScale?.() ?? 1;
+    state.x = state.originX + deltaX / scale;
+    state.y = state.originY + deltaY / scale;
+    this.callbacks.onDragMove(state.element, state.x, state.y);
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const state = this.pointerState;
+    if (!state || e.pointerId !== state.pointerId) return;
+    this.pointerState = null;
+    if (!state.isDragging) return;
+
+    state.element.releasePointerCapture?.(e.pointerId);
+    this.suppressClick = true;
+    // Browsers skip the click when the pointer was released off the image
+    setTimeout(() => { this.suppressClick = false; }, 0);
+    this.callbacks.onDragEnd(state.element, state.x, state.y);
+  }
+
+  private handlePointerCancel(e: PointerEvent): void {
+    const state = this.pointerState;
+    if (!state || e.pointerId !== state.pointerId) return;
+    this.pointerState = null;
+    if (state.isDragging) {
+      this.callbacks.onDragCancel(state.element);
+    }
+  }
+
+  private handleClick(e: MouseEvent): void {
+    if (!this.suppressClick) return;
+    this.suppressClick = false;
+    e.stopPropagation();
+    e.preventDefault();
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * SceneEngine.ts
+ * Shows a 3D layout (sphere, cylinder, helix) in perspective and turns it around
+ * its vertical axis: a slow spin while the gallery is idle, and drag to spin.
+ * Each frame it draws the images it holds at their turned pose, stacked by depth,
+ * with those facing away dimmed or hidden (layout.scene).
+ *
+ * Public API:
+ * - enable() - Set the perspective, listen for drags and start the frame loop
+ * - disable() - Stop listening and turning, and undo dimming and hiding
+ * - destroy() - Disable and forget every image
+ * - register(element, delay) - Draw an image once its entry (delay ms) is over
+ * - pauseForImage(element) / resumeForImage(element) / stopForImage(element) / stopAll()
+ * - pauseAll() / resumeAll() - Hold the scene still, e.g. while images move to a new layout
+ * - liftImage(element, layout) - Take an image out of the scene where it is, for focus
+ * - buildTransform(layout, width, height) - Transform for a layout at the current angle
+ * - getAngle()
+ */
+
+import type { SceneConfig, ImageLayout } from '../config/types';
+import { DEFAULT_SCENE_CONFIG } from '../config/defaults';
+import { spinPose, poseFacing, buildSceneTransform, depthRanks, normalizeAngle } from '../utils/scene3d';
+
+// Pointer travel before a press becomes a spin, so plain clicks still focus
+const SPIN_THRESHOLD_PX = 5;
+
+// Scene turn per pixel dragged
+const DRAG_DEGREES_PER_PX = 0.25;
+
+// Share of the glide velocity kept per 16ms frame, and the speed (degrees/ms) where it stops
+const INERTIA_FRICTION = 0.95;
+const INERTIA_MIN_SPEED = 0.005;
+
+// Longest frame step; a tab in the background must not make the scene jump
+const MAX_FRAME_MS = 100;
+
+interface SceneCallbacks {
+  getPlacement: (element: HTMLElement) => { layout: ImageLayout; width: number; height: number } | null;
+  getCenterX: () => number;   // x of the axis the scene turns around
+  getOpacity: () => number;   // opacity of an image facing the viewer
+  isIdle: () => boolean;      // nothing focused or hovered, so the idle spin may run
+  canSpin: (target: HTMLElement) => boolean;
+}
+
+interface SceneEntry {
+  element: HTMLElement;
+  active: boolean;   // entry is over: the scene draws the image
+  paused: boolean;
+  lifted: boolean;   // moved to its turned pose for focus
+  startTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface SpinState {
+  pointerId: number;
+  startX: number;
+  lastX: number;
+  isSpinning: boolean;
+  velocity: number;  // degrees/ms, smoothed
+  lastTime: number;
+}
+
+export class SceneEngine {
+  private container: HTMLElement;
+  private stage: HTMLElement;
+  private config: Required<SceneConfig>;
+  private callbacks: SceneCallbacks;
+  private enabled: boolean = false;
+
+  private entries: Map<HTMLElement, SceneEntry> = new Map();
+  private angle: number = 0;
+  private held: boolean = false;
+  private dirty: boolean = true;
+  private frame: number | null = null;
+  private lastFrameTime: number | null = null;
+
+  // Idle spin waits until this time after a drag or glide
+  private resumeAt: number = 0;
+  private spinState: SpinState | null = null;
+  private glideVelocity: number = 0;
+
+  // The click that ends a spin must not focus the image under the pointer
+  private suppressClick: boolean = false;
+
+  // Bound event handlers for proper cleanup
+  private boundPointerDown: (e: PointerEvent) => void;
+  private boundPointerMove: (e: PointerEvent) => void;
+  private boundPointerUp: (e: PointerEvent) => void;
+  private boundClick: (e: MouseEvent) => void;
+  private boundFrame: (now: number) => void;
+
+  /**
+   * @param container - Element that receives drags
+   * @param stage - Element the images are placed in, which gets the perspective
+   */
+  constructor(container: HTMLElement, stage: HTMLElement, config: SceneConfig = {}, callbacks: SceneCallbacks) {
+    this.container = container;
+    this.stage = stage;
+    this.config = { ...DEFAULT_SCENE_CONFIG, ...config };
+    this.callbacks = callbacks;
+
+    // Bind handlers
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundClick = this.handleClick.bind(this);
+    this.boundFrame = this.tick.bind(this);
+  }
+
+  /**
+   * Set the perspective, listen for drags and start the frame loop
+   */
+  enable(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+
+    this.stage.style.perspective = `${this.config.perspective}px`;
+    if (this.config.drag) {
+      this.container.classList.add('fbn-ic-scene-mode');
+      this.container.addEventListener('pointerdown', this.boundPointerDown);
+      this.container.addEventListener('pointermove', this.boundPointerMove);
+      this.container.addEventListener('pointerup', this.boundPointerUp);
+      this.container.addEventListener('pointercancel', this.boundPointerUp);
+      // Capture phase runs before the image's own click handler
+      this.container.addEventListener('click', this.boundClick, true);
+    }
+
+    this.dirty = true;
+    this.lastFrameTime = null;
+    this.frame = requestAnimationFrame(this.boundFrame);
+  }
+
+  /**
+   * Stop listening and turning, and show every image plainly again
+   * Transforms stay as they are, for whatever moves the images next.
+   */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    this.stage.style.perspective = '';
+    this.container.classList.remove('fbn-ic-scene-mode', 'fbn-ic-spinning');
+    this.container.removeEventListener('pointerdown', this.boundPointerDown);
+    this.container.removeEventListener('pointermove', this.boundPointerMove);
+    this.container.removeEventListener('pointerup', this.boundPointerUp);
+    this.container.removeEventListener('pointercancel', this.boundPointerUp);
+    this.container.removeEventListener('click', this.boundClick, true);
+
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.spinState = null;
+    this.glideVelocity = 0;
+    this.suppressClick = false;
+
+    for (const entry of this.entries.values()) {
+      this.restoreVisibility(entry);
+      entry.element.style.backfaceVisibility = '';
+    }
+  }
+
+  /**
+   * Disable and forget every image
+   */
+  destroy(): void {
+    this.disable();
+    this.stopAll();
+  }
+
+  /**
+   * Draw an image once its entry is over. The scene holds still until every
+   * registered image has entered, so entries land where the scene still is.
+   * @param delay - Entry duration in ms
+   */
+  register(element: HTMLElement, delay: number = 0): void {
+    if (this.entries.has(element)) return;
+
+    const entry: SceneEntry = { element, active: false, paused: false, lifted: false, startTimer: null };
+    this.entries.set(element, entry);
+    // Images are hidden from behind by default (functional styles)
+    if (this.config.backface !== 'hide') element.style.backfaceVisibility = 'visible';
+
+    entry.startTimer = setTimeout(() => {
+      entry.startTimer = null;
+      this.activate(entry);
+    }, delay);
+  }
+
+  /**
+   * Stop drawing an image, e.g. while it is focused
+   */
+  pauseForImage(element: HTMLElement): void {
+    const entry = this.entries.get(element);
+    if (entry) entry.paused = true;
+  }
+
+  /**
+   * Draw an image again, back in its place on the scene
+   */
+  resumeForImage(element: HTMLElement): void {
+    const entry = this.entries.get(element);
+    if (!entry || !entry.paused) return;
+    entry.paused = false;
+
+    const wasLifted = entry.lifted;
+    if (entry.lifted) {
+      entry.lifted = false;
+      if (this.config.backface === 'hide') element.style.backfaceVisibility = '';
+      const placement = this.callbacks.getPlacement(element);
+      if (placement) {
+        element.style.left = `${placement.layout.x}px`;
+        element.style.top = `${placement.layout.y}px`;
+      }
+    }
+    if (entry.active || wasLifted) {
+      // Finished animations held with fill: 'forwards' (focus) would hide the scene's transform
+      this.dropFinishedAnimations(element);
+      element.style.transition = 'none';
+    }
+    this.dirty = true;
+    if (!this.held) this.render();
+  }
+
+  /**
+   * Forget an image, e.g. when it is removed from the gallery
+   */
+  stopForImage(element: HTMLElement): void {
+    const entry = this.entries.get(element);
+    if (!entry) return;
+    if (entry.startTimer !== null) clearTimeout(entry.startTimer);
+    this.entries.delete(element);
+  }
+
+  /**
+   * Forget every image, e.g. when the gallery is cleared
+   */
+  stopAll(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.startTimer !== null) clearTimeout(entry.startTimer);
+    }
+    this.entries.clear();
+  }
+
+  /**
+   * Hold the scene still: no turning and no drawing, e.g. while images move to a new layout
+   */
+  pauseAll(): void {
+    this.held = true;
+  }
+
+  resumeAll(): void {
+    if (!this.held) return;
+    this.held = false;
+    this.dirty = true;
+    // Animations that moved the images are over; the scene draws them from here
+    for (const entry of this.entries.values()) {
+      if (entry.active && !entry.paused) {
+        this.dropFinishedAnimations(entry.element);
+        entry.element.style.transition = 'none';
+      }
+    }
+    this.render();
+  }
+
+  /**
+   * Take an image out of the scene where it is, for focus: it stops being drawn,
+   * is no longer dimmed or hidden, and moves its left/top to its turned position
+   * @returns The image's pose as a layout, for ZoomEngine to fly it from and back to
+   */
+  liftImage(element: HTMLElement, layout: ImageLayout): ImageLayout {
+    const entry = this.entries.get(element);
+    const pose = spinPose(layout, this.callbacks.getCenterX(), this.angle);
+    if (entry) {
+      entry.paused = true;
+      entry.lifted = true;
+      this.restoreVisibility(entry);
+    }
+    // An image facing away flips around on its way to the front
+    element.style.backfaceVisibility = 'visible';
+    element.style.left = `${pose.x}px`;
+    element.style.top = `${pose.y}px`;
+    return { ...layout, ...pose };
+  }
+
+  /**
+   * Transform that places a layout's image at its pose for the current angle
+   */
+  buildTransform(layout: ImageLayout, width: number, height: number): string {
+    return buildSceneTransform(spinPose(layout, this.callbacks.getCenterX(), this.angle), layout, width, height);
+  }
+
+  /**
+   * How far the scene has turned, in degrees (-180, 180]
+   */
+  getAngle(): number {
+    return normalizeAngle(this.angle);
+  }
+
+  // ===== Frame loop =====
+
+  private activate(entry: SceneEntry): void {
+    entry.active = true;
+    // The entry transition would make the image trail behind the turning scene
+    entry.element.style.transition = 'none';
+    this.dirty = true;
+  }
+
+  /**
+   * Whether every registered image has finished entering
+   */
+  private isSettled(): boolean {
+    for (const entry of this.entries.values()) {
+      if (entry.startTimer !== null) return false;
+    }
+    return true;
+  }
+
+  private tick(now: number): void {
+    const elapsed = this.lastFrameTime === null ? 0 : Math.min(MAX_FRAME_MS, now - this.lastFrameTime);
+    this.lastFrameTime = now;
+
+    if (!this.held && !this.spinState?.isSpinning) {
+      if (this.glideVelocity !== 0) {
+        this.turn(this.glideVelocity * elapsed);
+        this.glideVelocity *= Math.pow(INERTIA_FRICTION, elapsed / 16);
+        if (Math.abs(this.glideVelocity) < INERTIA_MIN_SPEED) this.glideVelocity = 0;
+        this.resumeAt = now + this.config.resumeDelay;
+      } else if (this.config.autoRotate !== 0 && now >= this.resumeAt && this.callbacks.isIdle() && this.isSettled()) {
+        this.turn(this.config.autoRotate * elapsed / 1000);
+      }
+    }
+
+    if (this.dirty && !this.held) this.render();
+    this.frame = requestAnimationFrame(this.boundFrame);
+  }
+
+  private turn(degrees: number): void {
+    if (degrees === 0) return;
+    this.angle = normalizeAngle(this.angle + degrees);
+    this.dirty = true;
+  }
+
+  /**
+   * Draw every active image at its pose for the current angle
+   */
+  private render(): void {
+    this.dirty = false;
+    const centerX = this.callbacks.getCenterX();
+    const drawn: Array<{ entry: SceneEntry; transform: string; z: number; facing: number }> = [];
+
+    for (const entry of this.entries.values()) {
+      if (!entry.active || entry.paused) continue;
+      const placement = this.callbacks.getPlacement(entry.element);
+      if (!placement) continue;
+      const pose = spinPose(placement.layout, centerX, this.angle);
+      drawn.push({
+        entry,
+        transform: buildSceneTransform(pose, placement.layout, placement.width, placement.height),
+        z: pose.z,
+        facing: poseFacing(pose)
+      });
+    }
+
+    const ranks = depthRanks(drawn.map(item => item.z));
+    const opacity = this.callbacks.getOpacity();
+    drawn.forEach(({ entry, transform, facing }, index) => {
+      const style = entry.element.style;
+      style.transform = transform;
+      // Nearer images on top
+      style.zIndex = String(ranks[index] + 1);
+      if (this.config.backface === 'dim') {
+        // Fades from full opacity edge-on to backfaceOpacity facing straight away
+        const dim = facing >= 0 ? 1 : 1 + facing * (1 - this.config.backfaceOpacity);
+        style.opacity = String(opacity * dim);
+      } else if (this.config.backface === 'hide') {
+        style.visibility = facing < 0 ? 'hidden' : '';
+      }
+    });
+  }
+
+  /**
+   * Undo dimming and hiding
+   */
+  private restoreVisibility(entry: SceneEntry): void {
+    const style = entry.element.style;
+    if (this.config.backface === 'dim') style.opacity = String(this.callbacks.getOpacity());
+    style.visibility = '';
+  }
+
+  private dropFinishedAnimations(element: HTMLElement): void {
+    for (const animation of element.getAnimations()) {
+      if (animation.playState === 'finished') animation.cancel();
+    }
+  }
+
+  // ===== Pointer input =====
+
+  private handlePointerDown(e: PointerEvent): void {
+    if (this.spinState || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    if (this.held || !this.callbacks.canSpin(e.target as HTMLElement)) return;
+
+    // A press stops a glide
+    this.glideVelocity = 0;
+    this.spinState = {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      lastX: e.clientX,
+      isSpinning: false,
+      velocity: 0,
+      lastTime: performance.now()
+    };
+  }
+
+  private handlePointerMove(e: PointerEvent): void {
+    const state = this.spinState;
+    if (!state || state.pointerId !== e.pointerId) return;
+
+    if (!state.isSpinning) {
+      if (Math.abs(e.clientX - state.startX) < SPIN_THRESHOLD_PX) return;
+      state.isSpinning = true;
+      state.lastX = e.clientX;
+      this.container.classList.add('fbn-ic-spinning');
+      this.container.setPointerCapture?.(e.pointerId);
+    }
+    e.preventDefault();
+
+    const degrees = (e.clientX - state.lastX) * DRAG_DEGREES_PER_PX;
+    state.lastX = e.clientX;
+    this.turn(degrees);
+
+    const now = performance.now();
+    const elapsed = Math.max(1, now - state.lastTime);
+    state.velocity = state.velocity * 0.5 + (degrees / elapsed) * 0.5;
+    state.lastTime = now;
+    this.resumeAt = now + this.config.resumeDelay;
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const state = this.spinState;
+    if (!state || state.pointerId !== e.pointerId) return;
+    this.spinState = null;
+    if (!state.isSpinning) return;
+
+    this.container.releasePointerCapture?.(e.pointerId);
+    this.container.classList.remove('fbn-ic-spinning');
+    this.suppressClick = true;
+    // Browsers skip the click when the pointer was released off the pressed element
+    setTimeout(() => { this.suppressClick = false; }, 0);
+
+    const now = performance.now();
+    this.resumeAt = now + this.config.resumeDelay;
+    // A pointer that stopped before letting go does not glide
+    const idle = now - state.lastTime > 100;
+    if (e.type === 'pointerup' && this.config.inertia && !idle && Math.abs(state.velocity) > INERTIA_MIN_SPEED) {
+      this.glideVelocity = state.velocity;
+    }
+  }
+
+  private handleClick(e: MouseEvent): void {
+    if (!this.suppressClick) return;
+    this.suppressClick = false;
+    e.stopPropagation();
+    e.preventDefault();
+  }
+}
@@ -20,6 +20,7 @@ const HORIZONTAL_ANGLE_THRESHOLD_DEG = 30;
 interface SwipeCallbacks {
   onNext: () => void;
   onPrev: () => void;
+  canSwipe?: () => boolean;  // false while a gesture belongs to something else (zoomed-in image)
   onDragOffset: (offset: number) => void;
   onDragEnd: (navigated: boolean) => void;
 }
@@ -118,6 +119,7 @@ export class SwipeEngine {
 
     // Mark recent touch to prevent click-outside unfocus
     this.recentTouchTimestamp = Date.now();
+    if (this.callbacks.canSwipe?.() === false) return;
 
     const touch = e.touches[0];
     this.touchState = {
@@ -133,6 +135,12 @@ export class SwipeEngine {
   private handleTouchMove(e: TouchEvent): void {
     if (!this.touchState || e.touches.length !== 1) return;
 
+    // Give up the swipe when the image is zoomed into (pinch) mid-gesture
+    if (this.callbacks.canSwipe?.() === false) {
+      this.handleTouchCancel(e);
+      return;
+    }
+
     const touch = e.touches[0];
     const deltaX = touch.clientX - this.touchState.startX;
     const deltaY = touch.clientY - this.touchState.startY;
@@ -2,6 +2,9 @@
  * ZoomEngine.ts
  * Manages zoom/focus behavior for image cloud with cross-animation support
  *
+ * An image with a data-full-src attribute shows that (larger) variant once it has
+ * decoded while the image is focused, and keeps it afterwards.
+ *
  * Public API:
  * - focusImage(imageElement, containerBounds, originalState)
  * - unfocusImage()
@@ -10,12 +13,16 @@
  * - isFocused(imageElement)
  * - isAnimating()
  * - getState()
+ * - setStyling(styling)
+ * - getDetailZoom() / getMaxDetailZoom() - Zoom inside the focused image
+ * - setDetailZoom(zoom, clientX, clientY, animate) / panDetailBy(dx, dy) / resetDetailZoom(animate)
  * - reset()
  */
 
 import type {
   FocusInteractionConfig,
   ContainerBounds,
+  FocusBounds,
   ImageLayout,
   TransformParams,
   ImageStylingConfig,
@@ -35,6 +42,15 @@ interface FocusData {
   originalHeight: number;
   focusWidth: number;
   focusHeight: number;
+  bounds: FocusBounds;       // area the image is centered in
+  detail: DetailView | null; // set once the image is zoomed into
+}
+
+/** Zoom inside the focused image and its offset from the focus position (layout pixels) */
+interface DetailView {
+  zoom: number;
+  x: number;
+  y: number;
 }
 
 // Z-index constants for layering during animations
@@ -45,6 +61,9 @@ const Z_INDEX = {
   FOCUSED: 1000
 };
 
+// Duration of animated detail zoom changes (double-click)
+const DETAIL_ZOOM_DURATION_MS = 250;
+
 export class ZoomEngine {
   private config: FocusInteractionConfig;
   private animationEngine: AnimationEngine;
@@ -84,6 +103,14 @@ export class ZoomEngine {
     this.onUnfocusComplete = callback;
   }
 
+  /**
+   * Replace the styling config used for focused/unfocused images
+   */
+  setStyling(styling?: ImageStylingConfig): void {
+    this.styling = styling;
+    this.focusedClassName = styling?.focused?.className;
+  }
+
   /**
    * Get current state machine state
    */
@@ -131,11 +158,11 @@ export class ZoomEngine {
    * Scale is handled by animating actual dimensions for sharper rendering
    */
   private calculateFocusTransform(
-    containerBounds: ContainerBounds,
+    containerBounds: FocusBounds,
     originalState: ImageLayout
   ): TransformParams {
-    const centerX = containerBounds.width / 2;
-    const centerY = containerBounds.height / 2;
+    const centerX = (containerBounds.x ?? 0) + containerBounds.width / 2;
+    const centerY = (containerBounds.y ?? 0) + containerBounds.height / 2;
 
     const targetX = centerX - originalState.x;
     const targetY = centerY - originalState.y;
@@ -144,7 +171,33 @@ export class ZoomEngine {
       x: targetX,
       y: targetY,
       rotation: 0,
-      scale: 1  // No scale transform - dimensions are animated instead
+      scale: 1,  // No scale transform - dimensions are animated instead
+      // An image posed in 3D flattens out to face the viewer
+      ...(this.hasScenePose(originalState) ? { z: 0, rotationX: 0, rotationY: 0 } : {})
+    };
+  }
+
+  /**
+   * Whether an image was posed in 3D by a sphere, cylinder or helix layout
+   */
+  private hasScenePose(originalState: ImageLayout): boolean {
+    return originalState.z !== undefined || originalState.rotationX !== undefined || originalState.rotationY !== undefined;
+  }
+
+  /**
+   * Transform of an image at its place in the cloud, relative to its left/top
+   */
+  private getRestingTransform(originalState: ImageLayout): TransformParams {
+    return {
+      x: 0,
+      y: 0,
+      rotation: originalState.rotation,
+      scale: 1,  // No scale - using dimensions
+      ...(this.hasScenePose(originalState) ? {
+        z: originalState.z ?? 0,
+        rotationX: originalState.rotationX ?? 0,
+        rotationY: originalState.rotationY ?? 0
+      } : {})
     };
   }
 
@@ -160,6 +213,10 @@ export class ZoomEngine {
       transforms.push(`translate(${x}px, ${y}px)`);
     }
 
+    if (params.z !== undefined || params.rotationX !== undefined || params.rotationY !== undefined) {
+      transforms.push(`translateZ(${params.z ?? 0}px) rotateY(${params.rotationY ?? 0}deg) rotateX(${params.rotationX ?? 0}deg)`);
+    }
+
     if (params.rotation !== undefined) {
       transforms.push(`rotate(${params.rotation}deg)`);
     }
@@ -254,7 +311,7 @@ export class ZoomEngine {
    */
   private removeFocusedStyling(element: HTMLElement, originalZIndex: string): void {
     element.style.zIndex = originalZIndex;
-    element.classList.remove('fbn-ic-focused');
+    element.classList.remove('fbn-ic-focused', 'fbn-ic-zoomed-in');
     removeClassNameFromElement(element, this.focusedClassName);
 
     // Restore default styling properties (opacity, filters, borders, shadows, etc.)
@@ -287,6 +344,23 @@ export class ZoomEngine {
    * This ensures clip-path changes smoothly as width/height animate
    */
   private startClipPathAnimation(element: HTMLElement, handle: AnimationHandle, isToFocused: boolean): void {
+    const updateClipPath = () => {
+      this.updateClipPath(element, isToFocused);
+
+      // Continue updating if animation is still running
+      if (handle.animation.playState === 'running') {
+        requestAnimationFrame(updateClipPath);
+      }
+    };
+
+    // Start the update loop
+    requestAnimationFrame(updateClipPath);
+  }
+
+  /**
+   * Update clip-path for the element's current dimensions
+   */
+  private updateClipPath(element: HTMLElement, isToFocused: boolean): void {
     // Determine which styling config to use
     // If focused is explicitly defined but has no clipPath, don't fall back to default clipPath
     let styleConfig: any = isToFocused
@@ -299,33 +373,52 @@ export class ZoomEngine {
       styleConfig = { ...styleConfig, clipPath: undefined };
     }
 
-    const updateClipPath = () => {
-      // Use actual animated element dimensions (both width and height are being animated)
-      const currentHeight = element.offsetHeight;
-      const currentWidth = element.offsetWidth;
-
-      // Build style properties with current dimensions to get updated clip-path
-      const styles = buildStyleProperties(styleConfig, currentHeight, currentWidth);
-
-      // Apply clip-path - clear it if not defined
-      if (styles.clipPath !== undefined) {
-        element.style.clipPath = styles.clipPath;
-      } else {
-        // No clip-path defined - clear any inherited clip-path
-        element.style.clipPath = 'unset';
-      }
-      if (styles.overflow !== undefined) {
-        element.style.overflow = styles.overflow;
-      }
+    // Use actual animated element dimensions (both width and height are being animated)
+    const currentHeight = element.offsetHeight;
+    const currentWidth = element.offsetWidth;
 
-      // Continue updating if animation is still running
-      if (handle.animation.playState === 'running') {
-        requestAnimationFrame(updateClipPath);
-      }
-    };
+    // Build style properties with current dimensions to get updated clip-path
+    const styles = buildStyleProperties(styleConfig, currentHeight, currentWidth);
 
-    // Start the update loop
-    requestAnimationFrame(updateClipPath);
+    // Apply clip-path - clear it if not defined
+    if (styles.clipPath !== undefined) {
+      element.style.clipPath = styles.clipPath;
+    } else {
+      // No clip-path defined - clear any inherited clip-path
+      element.style.clipPath = 'unset';
+    }
+    if (styles.overflow !== undefined) {
+      element.style.overflow = styles.overflow;
+    }
+  }
+
+  /**
+   * Fetch and decode the element's data-full-src variant, then show it if the element is still
+   * focused (or focusing). The decoded image is in the memory cache, so setting src swaps it in
+   * within the same frame; width and height are inline styles, so layout and clip-path stay put.
+   */
+  private loadFullResolution(element: HTMLElement): void {
+    const fullSrc = element.dataset.fullSrc;
+    if (!fullSrc || !(element instanceof HTMLImageElement)) return;
+    // The cloud's srcset may already have picked the full variant
+    if (element.currentSrc === new URL(fullSrc, document.baseURI).href) {
+      delete element.dataset.fullSrc;
+      return;
+    }
+
+    const full = new Image();
+    full.referrerPolicy = element.referrerPolicy;
+    full.src = fullSrc;
+    full.decode().then(() => {
+      // Unfocused meanwhile: keep the attribute so the next focus swaps it in from cache
+      if (this.focusData?.element !== element || this.outgoing?.element === element) return;
+      element.removeAttribute('srcset');
+      element.removeAttribute('sizes');
+      element.src = fullSrc;
+      delete element.dataset.fullSrc;
+    }, () => {
+      // Keep showing the cloud variant
+    });
   }
 
   /**
@@ -336,7 +429,7 @@ export class ZoomEngine {
    */
   private startFocusAnimation(
     element: HTMLElement,
-    containerBounds: ContainerBounds,
+    containerBounds: FocusBounds,
     originalState: ImageLayout,
     fromTransform?: TransformParams,
     fromDimensions?: { width: number; height: number }
@@ -359,12 +452,7 @@ export class ZoomEngine {
     this.applyFocusedStyling(element, Z_INDEX.FOCUSING);
 
     // Start animation from provided state or original position
-    const startTransform: TransformParams = fromTransform ?? {
-      x: 0,
-      y: 0,
-      rotation: originalState.rotation,
-      scale: 1  // No scale - using dimensions
-    };
+    const startTransform: TransformParams = fromTransform ?? this.getRestingTransform(originalState);
 
     const startWidth = fromDimensions?.width ?? originalWidth;
     const startHeight = fromDimensions?.height ?? originalHeight;
@@ -401,12 +489,16 @@ export class ZoomEngine {
       originalWidth,
       originalHeight,
       focusWidth: focusDimensions.width,
-      focusHeight: focusDimensions.height
+      focusHeight: focusDimensions.height,
+      bounds: containerBounds,
+      detail: null
     };
 
     // Start continuous clip-path animation to follow dimension changes
     this.startClipPathAnimation(element, handle, true);
 
+    this.loadFullResolution(element);
+
     return {
       element,
       originalState,
@@ -439,21 +531,17 @@ export class ZoomEngine {
 
     // Remove focused classes but keep z-index high during animation
     // (z-index will be reset after animation completes)
-    element.classList.remove('fbn-ic-focused');
+    element.classList.remove('fbn-ic-focused', 'fbn-ic-zoomed-in');
     removeClassNameFromElement(element, this.focusedClassName);
 
-    // Start from current focused state (or provided state for interrupted animations)
-    const startTransform = fromTransform ?? this.focusData?.focusTransform ?? { x: 0, y: 0, rotation: 0, scale: 1 };
-    const startWidth = fromDimensions?.width ?? this.focusData?.focusWidth ?? element.offsetWidth;
-    const startHeight = fromDimensions?.height ?? this.focusData?.focusHeight ?? element.offsetHeight;
+    // Start from current focused state, zoomed in or not (or provided state for interrupted animations)
+    const focusedView = this.focusData?.element === element ? this.getFocusedView(this.focusData) : null;
+    const startTransform = fromTransform ?? focusedView?.transform ?? { x: 0, y: 0, rotation: 0, scale: 1 };
+    const startWidth = fromDimensions?.width ?? focusedView?.width ?? element.offsetWidth;
+    const startHeight = fromDimensions?.height ?? focusedView?.height ?? element.offsetHeight;
 
     // Target is original position and dimensions
-    const toState: TransformParams = {
-      x: 0,
-      y: 0,
-      rotation: originalState.rotation,
-      scale: 1  // No scale - using dimensions
-    };
+    const toState: TransformParams = this.getRestingTransform(originalState);
 
     const targetWidth = this.focusData?.originalWidth ?? element.offsetWidth;
     const targetHeight = this.focusData?.originalHeight ?? element.offsetHeight;
@@ -559,14 +647,9 @@ export class ZoomEngine {
     // Cancel any active animation (including completed animations with fill: 'forwards')
     this.animationEngine.cancelAllAnimations(element);
 
-    // Build transform string for original position (no scale - using dimensions)
-    const transforms = ['translate(-50%, -50%)'];
-    transforms.push('translate(0px, 0px)');
-    transforms.push(`rotate(${originalState.rotation}deg)`);
-    // No scale in transform - dimensions handle sizing
-
+    // Original position (no scale - dimensions handle sizing)
     element.style.transition = 'none';
-    element.style.transform = transforms.join(' ');
+    element.style.transform = this.buildDimensionZoomTransform(this.getRestingTransform(originalState));
 
     // Restore original dimensions if provided
     if (originalWidth !== undefined && originalHeight !== undefined) {
@@ -584,7 +667,7 @@ export class ZoomEngine {
    */
   async focusImage(
     imageElement: HTMLElement,
-    containerBounds: ContainerBounds,
+    containerBounds: FocusBounds,
     originalState: ImageLayout
   ): Promise<void> {
     // Same image clicked while already focused - unfocus it
@@ -955,7 +1038,7 @@ export class ZoomEngine {
    */
   async swapFocus(
     newImageElement: HTMLElement,
-    containerBounds: ContainerBounds,
+    containerBounds: FocusBounds,
     originalState: ImageLayout
   ): Promise<void> {
     return this.focusImage(newImageElement, containerBounds, originalState);
@@ -995,6 +1078,153 @@ export class ZoomEngine {
     );
   }
 
+  // ===== Detail zoom =====
+
+  /**
+   * Zoom inside the focused image (1 when not zoomed in)
+   */
+  getDetailZoom(): number {
+    return this.focusData?.detail?.zoom ?? 1;
+  }
+
+  /**
+   * Largest detail zoom for the focused image: one image pixel per screen pixel, and at least 1
+   */
+  getMaxDetailZoom(): number {
+    if (!this.currentFocus || !this.focusData || this.state !== ZoomState.FOCUSED) return 1;
+    const naturalWidth = (this.currentFocus as HTMLImageElement).naturalWidth;
+    if (!naturalWidth) return 1;
+    return Math.max(1, naturalWidth / (this.focusData.focusWidth * this.getScreenScale(this.currentFocus)));
+  }
+
+  /**
+   * Zoom inside the focused image, keeping the point under the pointer in place
+   * The image's edges never move inside the focus area once it is larger than that area.
+   * @param zoom - Detail zoom, from 1 (focused size) to getMaxDetailZoom()
+   * @param clientX - Pointer position to zoom around (default: the image center)
+   * @param clientY - Pointer position to zoom around (default: the image center)
+   * @param animate - Ease to the new zoom instead of jumping
+   */
+  setDetailZoom(zoom: number, clientX?: number, clientY?: number, animate: boolean = false): void {
+    if (!this.currentFocus || !this.focusData || this.state !== ZoomState.FOCUSED) return;
+
+    const data = this.focusData;
+    const view = this.beginDetailView(data);
+    const next = Math.max(1, Math.min(this.getMaxDetailZoom(), zoom));
+    const ratio = next / view.zoom;
+    let x = view.x * ratio;
+    let y = view.y * ratio;
+
+    if (clientX !== undefined && clientY !== undefined) {
+      // Pointer offset from the image center, in layout pixels
+      const rect = data.element.getBoundingClientRect();
+      const screenScale = this.getScreenScale(data.element);
+      const offsetX = (clientX - (rect.left + rect.width / 2)) / screenScale;
+      const offsetY = (clientY - (rect.top + rect.height / 2)) / screenScale;
+      x = view.x + offsetX * (1 - ratio);
+      y = view.y + offsetY * (1 - ratio);
+    }
+
+    this.applyDetailView(data, { zoom: next, x, y }, animate);
+  }
+
+  /**
+   * Move the zoomed-in image by a pointer movement in screen pixels
+   */
+  panDetailBy(dx: number, dy: number): void {
+    const data = this.focusData;
+    if (!data?.detail || this.state !== ZoomState.FOCUSED) return;
+    const screenScale = this.getScreenScale(data.element);
+    this.applyDetailView(data, {
+      zoom: data.detail.zoom,
+      x: data.detail.x + dx / screenScale,
+      y: data.detail.y + dy / screenScale
+    }, false);
+  }
+
+  /**
+   * Return the focused image to its focused size and position
+   */
+  resetDetailZoom(animate: boolean = false): void {
+    const data = this.focusData;
+    if (!data?.detail || this.state !== ZoomState.FOCUSED) return;
+    this.applyDetailView(data, { zoom: 1, x: 0, y: 0 }, animate);
+  }
+
+  /**
+   * Transform and size of the focused image, including any detail zoom
+   */
+  private getFocusedView(data: FocusData): { transform: TransformParams; width: number; height: number } {
+    const detail = data.detail ?? { zoom: 1, x: 0, y: 0 };
+    return {
+      transform: {
+        ...data.focusTransform,
+        x: (data.focusTransform.x ?? 0) + detail.x,
+        y: (data.focusTransform.y ?? 0) + detail.y
+      },
+      width: data.focusWidth * detail.zoom,
+      height: data.focusHeight * detail.zoom
+    };
+  }
+
+  /**
+   * Move the focused state from the finished focus animation (fill: 'forwards')
+   * to inline styles, which the detail view then updates
+   */
+  private beginDetailView(data: FocusData): DetailView {
+    if (data.detail) return data.detail;
+
+    const element = data.element;
+    element.style.transition = 'none';
+    element.style.width = `${data.focusWidth}px`;
+    element.style.height = `${data.focusHeight}px`;
+    element.style.transform = this.buildDimensionZoomTransform(data.focusTransform);
+    this.animationEngine.cancelAllAnimations(element);
+
+    data.detail = { zoom: 1, x: 0, y: 0 };
+    return data.detail;
+  }
+
+  private applyDetailView(data: FocusData, view: DetailView, animate: boolean): void {
+    // Limit the offset so the edges of an image larger than the focus area stay outside it
+    const maxX = Math.max(0, (data.focusWidth * view.zoom - data.bounds.width) / 2);
+    const maxY = Math.max(0, (data.focusHeight * view.zoom - data.bounds.height) / 2);
+    data.detail = {
+      zoom: view.zoom,
+      x: Math.max(-maxX, Math.min(maxX, view.x)),
+      y: Math.max(-maxY, Math.min(maxY, view.y))
+    };
+
+    const element = data.element;
+    const { transform, width, height } = this.getFocusedView(data);
+    element.style.transition = animate
+      ? ['transform', 'width', 'height'].map(property => `${property} ${DETAIL_ZOOM_DURATION_MS}ms ease-out`).join(', ')
+      : 'none';
+    element.style.width = `${width}px`;
+    element.style.height = `${height}px`;
+    element.style.transform = this.buildDimensionZoomTransform(transform);
+    element.classList.toggle('fbn-ic-zoomed-in', data.detail.zoom > 1);
+
+    if (animate) {
+      // Clear transition and follow the new size with the clip-path once the change completes
+      setTimeout(() => {
+        if (this.focusData !== data) return;
+        element.style.transition = 'none';
+        this.updateClipPath(element, true);
+      }, DETAIL_ZOOM_DURATION_MS);
+    } else {
+      this.updateClipPath(element, true);
+    }
+  }
+
+  /**
+   * Screen pixels per layout pixel (below 1 or above 1 inside a zoomed canvas)
+   */
+  private getScreenScale(element: HTMLElement): number {
+    const width = element.offsetWidth;
+    return width > 0 ? element.getBoundingClientRect().width / width : 1;
+  }
+
   /**
    * Apply a temporary horizontal drag offset to the focused image
    * Used during swipe gestures for visual feedback
@@ -1003,7 +1233,7 @@ export class ZoomEngine {
     if (!this.currentFocus || !this.focusData || this.state !== ZoomState.FOCUSED) return;
 
     const element = this.currentFocus;
-    const focusTransform = this.focusData.focusTransform;
+    const focusTransform = this.getFocusedView(this.focusData).transform;
 
     // Build transform with additional horizontal offset
     const transforms: string[] = ['translate(-50%, -50%)'];
@@ -1027,7 +1257,7 @@ export class ZoomEngine {
     if (!this.currentFocus || !this.focusData || this.state !== ZoomState.FOCUSED) return;
 
     const element = this.currentFocus;
-    const focusTransform = this.focusData.focusTransform;
+    const focusTransform = this.getFocusedView(this.focusData).transform;
 
     // Build the centered transform (no offset)
     const transforms: string[] = ['translate(-50%, -50%)'];
@@ -22,10 +22,14 @@ export async function imageCloud(options: ImageCloudOptions): Promise<_ImageClou
 // Type exports
 export type {
   ImageCloudOptions,
+  SetLayoutOptions,
+  ClearOptions,
   ImageCloudConfig,
   AnimationConfig,
   LayoutConfig,
   LayoutAlgorithm,
+  BuiltInLayoutAlgorithm,
+  RandomSeed,
   GridAlgorithmConfig,
   SpiralAlgorithmConfig,
   ClusterAlgorithmConfig,
@@ -43,15 +47,21 @@ export type {
   GoogleDriveFolderSource,
   GoogleDriveFilesSource,
   UIConfig,
+  ImageDescriptor,
+  ImageSource,
   ImageLayout,
   ContainerBounds,
+  FocusBounds,
   ResponsiveHeight,
   StaticSource,
   GoogleDriveSource,
   PlacementLayout,
+  PlacementLayoutFactory,
+  PlacementLayoutOptions,
   ImageLoader,
   IImageFilter,
   TransformParams,
+  ElementPlacement,
   // Entry path animation types
   EntryPathType,
   EntryPathConfig,
@@ -64,6 +74,8 @@ export type {
   EntryAnimationConfig,
   EntryRotationConfig,
   EntryScaleConfig,
+  // Exit animation types
+  ExitAnimationConfig,
   // Idle animation types
   IdleAnimationConfig,
   IdleWiggleConfig,
@@ -74,6 +86,7 @@ export type {
   IdleCustomAnimationFn,
   // State change hook types
   ImageStateContext,
+  ImageMovedContext,
   ImageCloudCallbacks,
   // Loading hook types
   BeforeLoadContext,
@@ -89,6 +102,9 @@ export type {
   EntryStartContext,
   EntryProgressContext,
   EntryCompleteContext,
+  // Exit animation hook types
+  ExitStartContext,
+  ExitCompleteContext,
   // Image config types
   ImageConfig,
   ImageSizingConfig,
@@ -97,8 +113,30 @@ export type {
   RadialAlgorithmConfig,
   WaveAlgorithmConfig,
   HoneycombAlgorithmConfig,
+  HoneycombShape,
+  SphereAlgorithmConfig,
+  CylinderAlgorithmConfig,
+  HelixAlgorithmConfig,
+  SceneConfig,
+  SceneBackface,
+  JustifiedAlgorithmConfig,
+  MasonryAlgorithmConfig,
+  LayoutOverflowMode,
+  PhysicsAlgorithmConfig,
+  ShapeAlgorithmConfig,
+  PathAlgorithmConfig,
+  PathPoint,
+  ManualLayoutConfig,
+  ManualLayoutItem,
+  LayoutCollisionConfig,
+  ExclusionZone,
+  ImageWeightFn,
+  PinnedPosition,
   // Interaction & UI types
   InteractionConfig,
+  CanvasInteractionConfig,
+  FocusMode,
+  LightboxConfig,
   // Styling types
   ImageStylingConfig,
   ImageStyleState,
@@ -124,7 +162,8 @@ export { AnimationEngine } from './engines/AnimationEngine';
 export { LayoutEngine } from './engines/LayoutEngine';
 export { ZoomEngine } from './engines/ZoomEngine';
 export { EntryAnimationEngine } from './engines/EntryAnimationEngine';
-export { animatePath, requiresJSAnimation } from './engines/PathAnimator';
+export { ExitAnimationEngine } from './engines/ExitAnimationEngine';
+export { animatePath, calculatePathFrame, requiresJSAnimation } from './engines/PathAnimator';
 
 // Export layouts for custom implementations
 export { RandomPlacementLayout } from './layouts/RandomPlacementLayout';
@@ -134,6 +173,23 @@ export { SpiralPlacementLayout } from './layouts/SpiralPlacementLayout';
 export { ClusterPlacementLayout } from './layouts/ClusterPlacementLayout';
 export { WavePlacementLayout } from './layouts/WavePlacementLayout';
 export { HoneycombPlacementLayout } from './layouts/HoneycombPlacementLayout';
+export { JustifiedPlacementLayout } from './layouts/JustifiedPlacementLayout';
+export { MasonryPlacementLayout } from './layouts/MasonryPlacementLayout';
+export { PhysicsPlacementLayout } from './layouts/PhysicsPlacementLayout';
+export { ShapePlacementLayout } from './layouts/ShapePlacementLayout';
+export { PathPlacementLayout } from './layouts/PathPlacementLayout';
+export { SpherePlacementLayout } from './layouts/SpherePlacementLayout';
+export { CylinderPlacementLayout } from './layouts/CylinderPlacementLayout';
+export { HelixPlacementLayout } from './layouts/HelixPlacementLayout';
+export { ManualPlacementLayout } from './layouts/ManualPlacementLayout';
+
+// Seedable random numbers, for custom layouts that honor layout.seed
+export { createRandom } from './utils/random';
+export type { RandomSource } from './utils/random';
+
+// Overlap between layout footprints, as used by layout.collision
+export { measureOverlap } from './utils/overlap';
+export type { FootprintSize } from './utils/overlap';
 
 // Export loaders for custom implementations
 export { GoogleDriveLoader } from './loaders/GoogleDriveLoader';
@@ -4,6 +4,8 @@
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, ClusterAlgorithmConfig, ImageConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { hasWeights, orderByWeight, weightScale } from '../utils/weights';
 
 interface ClusterCenter {
   x: number;
@@ -13,6 +15,7 @@ interface ClusterCenter {
 
 interface ClusterLayoutOptions extends Partial<LayoutConfig> {
   fixedHeight?: number;
+  weights?: number[];
 }
 
 const DEFAULT_CLUSTER_CONFIG: ClusterAlgorithmConfig = {
@@ -27,6 +30,7 @@ const DEFAULT_CLUSTER_CONFIG: ClusterAlgorithmConfig = {
 export class ClusterPlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
   private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
 
   constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
     this.config = config;
@@ -46,6 +50,7 @@ export class ClusterPlacementLayout implements PlacementLayout {
     options: ClusterLayoutOptions = {}
   ): ImageLayout[] {
     const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
     const { width, height } = containerBounds;
 
     const clusterConfig = { ...DEFAULT_CLUSTER_CONFIG, ...this.config.cluster };
@@ -81,25 +86,39 @@ export class ClusterPlacementLayout implements PlacementLayout {
       clusterConfig
     );
 
-    // Assign images to clusters (round-robin for even distribution)
-    const imagesPerCluster = new Array(clusterCount).fill(0);
-    for (let i = 0; i < imageCount; i++) {
-      imagesPerCluster[i % clusterCount]++;
+    // Assign images to clusters (round-robin counts for even distribution, consecutive images together)
+    const members: number[][] = Array.from({ length: clusterCount }, () => []);
+    const weighted = hasWeights(options.weights);
+    if (weighted) {
+      // Deal the heaviest images out first, so each cluster forms around one of them
+      orderByWeight(imageCount, options.weights).forEach((index, i) => members[i % clusterCount].push(index));
+    } else {
+      const imagesPerCluster = new Array(clusterCount).fill(0);
+      for (let i = 0; i < imageCount; i++) {
+        imagesPerCluster[i % clusterCount]++;
+      }
+      let next = 0;
+      for (let clusterIdx = 0; clusterIdx < clusterCount; clusterIdx++) {
+        for (let i = 0; i < imagesPerCluster[clusterIdx]; i++) members[clusterIdx].push(next++);
+      }
     }
 
-    let imageIndex = 0;
-
     // Place images in each cluster
     for (let clusterIdx = 0; clusterIdx < clusterCount; clusterIdx++) {
       const cluster = clusterCenters[clusterIdx];
-      const imagesInThisCluster = imagesPerCluster[clusterIdx];
 
-      for (let i = 0; i < imagesInThisCluster; i++) {
+      for (let i = 0; i < members[clusterIdx].length; i++) {
+        const imageIndex = members[clusterIdx][i];
+
         // Calculate position within cluster
         let offsetX: number;
         let offsetY: number;
 
-        if (clusterConfig.distribution === 'gaussian') {
+        if (weighted && i === 0) {
+          // The cluster's heaviest image sits at its center
+          offsetX = 0;
+          offsetY = 0;
+        } else if (clusterConfig.distribution === 'gaussian') {
           // Gaussian distribution - most images near center, fewer at edges
           offsetX = this.gaussianRandom() * cluster.spread;
           offsetY = this.gaussianRandom() * cluster.spread;
@@ -119,9 +138,9 @@ export class ClusterPlacementLayout implements PlacementLayout {
         offsetX /= overlapMultiplier;
         offsetY /= overlapMultiplier;
 
-        // Apply variance
+        // Apply variance and weight
         const varianceScale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
-        const combinedScale = sizeMultiplier * varianceScale;
+        const combinedScale = sizeMultiplier * varianceScale * weightScale(options.weights?.[imageIndex]);
 
         // Calculate image size with overlap factor and variance
         const imageSize = baseImageSize * combinedScale;
@@ -155,12 +174,11 @@ export class ClusterPlacementLayout implements PlacementLayout {
           baseSize: imageSize,
           zIndex
         });
-
-        imageIndex++;
       }
     }
 
-    return layouts;
+    // Callers index layouts by image
+    return layouts.sort((a, b) => a.id - b.id);
   }
 
   /**
@@ -268,8 +286,8 @@ export class ClusterPlacementLayout implements PlacementLayout {
    */
   private gaussianRandom(): number {
     let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
+    while (u === 0) u = this.rng();
+    while (v === 0) v = this.rng();
 
     const value = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
 
@@ -281,6 +299,6 @@ export class ClusterPlacementLayout implements PlacementLayout {
    * Utility: Generate random number between min and max
    */
   private random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return this.rng() * (max - min) + min;
   }
 }
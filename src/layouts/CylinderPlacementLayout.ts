@@ -0,0 +1,100 @@
+/**
+ * CylinderPlacementLayout.ts
+ * Stands images upright around a cylinder, like a carousel ring, with further
+ * rings stacked above and below when one ring is not enough. ImageCloud shows
+ * the cylinder in perspective and turns it (layout.scene).
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig } from '../config/types';
+import { DEFAULT_CYLINDER_CONFIG, DEFAULT_SCENE_CONFIG } from '../config/defaults';
+import { outwardPose, radiusForApparentSize, perspectiveScale, depthRanks } from '../utils/scene3d';
+import { weightScale } from '../utils/weights';
+
+// Gap between neighboring images, as a share of the image height
+const GAP_RATIO = 0.15;
+
+// Adaptive sizing assumes landscape images when an image's aspect ratio is not known yet
+const DEFAULT_ASPECT_RATIO = 1.4;
+
+// Fewer images than this do not make a ring
+const MIN_PER_RING = 3;
+
+export class CylinderPlacementLayout implements PlacementLayout {
+  readonly is3D = true;
+  private config: LayoutConfig;
+
+  // Images stand on the cylinder wall, so image rotation and size variance do not apply
+  constructor(config: LayoutConfig, _imageConfig: ImageConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Generate cylinder positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight, aspectRatios and weights)
+   * @returns Array of layout objects with 3D pose, rotation and scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    if (imageCount === 0) return layouts;
+
+    const { width, height } = containerBounds;
+    const imageSize = options.fixedHeight ?? 200;
+    const cylinderConfig = { ...DEFAULT_CYLINDER_CONFIG, ...this.config.cylinder };
+    const perspective = this.config.scene?.perspective ?? DEFAULT_SCENE_CONFIG.perspective;
+    const padding = this.config.spacing?.padding ?? 50;
+    const gap = imageSize * GAP_RATIO;
+
+    let totalAspectRatio = 0;
+    for (let i = 0; i < imageCount; i++) {
+      totalAspectRatio += options.aspectRatios?.[i] ?? DEFAULT_ASPECT_RATIO;
+    }
+    const imageWidth = imageSize * totalAspectRatio / imageCount;
+
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = typeof cylinderConfig.radius === 'number'
+      ? cylinderConfig.radius
+      : radiusForApparentSize(Math.max(imageWidth / 2, cx - padding - imageWidth / 2), perspective);
+
+    // 'auto' fills each ring all the way around before starting the next
+    const fitsAround = Math.max(MIN_PER_RING, Math.floor(2 * Math.PI * radius / (imageWidth + gap)));
+    const rows = typeof cylinderConfig.rows === 'number'
+      ? Math.max(1, Math.min(imageCount, Math.round(cylinderConfig.rows)))
+      : Math.ceil(imageCount / fitsAround);
+    const perRing = Math.ceil(imageCount / rows);
+
+    // Rings squeeze together when the front row, enlarged by perspective, would not fit
+    const magnification = perspectiveScale(radius, perspective);
+    const available = (height - 2 * padding) / magnification - imageSize;
+    const pitch = rows > 1 ? Math.max(0, Math.min(imageSize + gap, available / (rows - 1))) : 0;
+    const top = cy - (rows - 1) * pitch / 2;
+
+    for (let index = 0; index < imageCount; index++) {
+      const row = Math.floor(index / perRing);
+      const column = index % perRing;
+      // Odd rings sit half a step around, like bricks
+      const theta = (column + (row % 2) * 0.5) / perRing * 2 * Math.PI;
+      const x = radius * Math.sin(theta);
+      const z = radius * Math.cos(theta);
+      const scale = weightScale(options.weights?.[index]);
+      layouts.push({
+        id: index,
+        x: cx + x,
+        y: top + row * pitch,
+        z,
+        ...outwardPose(x, 0, z, false),
+        rotation: 0,
+        scale,
+        baseSize: imageSize * scale
+      });
+    }
+
+    // Nearer images on top until the scene takes over the stacking
+    const ranks = depthRanks(layouts.map(layout => layout.z!));
+    layouts.forEach((layout, index) => { layout.zIndex = ranks[index] + 1; });
+
+    return layouts;
+  }
+}
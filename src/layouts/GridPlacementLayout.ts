@@ -4,9 +4,18 @@
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, GridAlgorithmConfig, ImageConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
 
 interface GridLayoutOptions extends Partial<LayoutConfig> {
   fixedHeight?: number;
+  weights?: number[];
+}
+
+/** Cell an image occupies; span 2 covers a 2x2 block starting at (col, row) */
+interface GridCell {
+  col: number;
+  row: number;
+  span: number;
 }
 
 const DEFAULT_GRID_CONFIG: GridAlgorithmConfig = {
@@ -35,9 +44,13 @@ const OVERFLOW_OFFSET_PATTERN = [
   { x: 0, y: 1 },    // down
 ];
 
+// Images at least this heavy span a 2x2 block of cells
+const FEATURED_WEIGHT = 2;
+
 export class GridPlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
   private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
 
   constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
     this.config = config;
@@ -57,6 +70,7 @@ export class GridPlacementLayout implements PlacementLayout {
     options: GridLayoutOptions = {}
   ): ImageLayout[] {
     const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
     const { width, height } = containerBounds;
 
     const gridConfig = { ...DEFAULT_GRID_CONFIG, ...this.config.grid };
@@ -76,15 +90,32 @@ export class GridPlacementLayout implements PlacementLayout {
     const availableWidth = width - (2 * padding);
     const availableHeight = height - (2 * padding);
 
+    // Featured images take four cells each (not with stagger, where rows are offset)
+    const spans = Array.from({ length: imageCount }, (_, i) =>
+      gridConfig.stagger === 'none' && (options.weights?.[i] ?? 1) >= FEATURED_WEIGHT ? 2 : 1
+    );
+    const featuredCount = spans.filter(span => span === 2).length;
+
     // Calculate grid dimensions
-    const { columns, rows } = this.calculateGridDimensions(
-      imageCount,
+    let { columns, rows } = this.calculateGridDimensions(
+      imageCount + 3 * featuredCount,
       availableWidth,
       availableHeight,
       baseImageSize,
       gridConfig
     );
 
+    // Pack featured blocks and single cells; fall back to one cell each when the blocks cannot fit
+    let cells: GridCell[] | null = null;
+    if (featuredCount > 0) {
+      const packed = this.packGrid(spans, columns, rows, gridConfig);
+      if (packed) {
+        ({ cells, columns, rows } = packed);
+      } else {
+        ({ columns, rows } = this.calculateGridDimensions(imageCount, availableWidth, availableHeight, baseImageSize, gridConfig));
+      }
+    }
+
     // For stagger layouts, we need n+0.5 cells to fit in available space
     // Calculate cell size accounting for this extra half-cell
     const hasRowStagger = gridConfig.stagger === 'row';
@@ -124,7 +155,7 @@ export class GridPlacementLayout implements PlacementLayout {
     // Detect overflow mode: when both dimensions are fixed and we have more images than cells
     const cellCount = columns * rows;
     const hasFixedGrid = gridConfig.columns !== 'auto' && gridConfig.rows !== 'auto';
-    const isOverflowMode = hasFixedGrid && imageCount > cellCount;
+    const isOverflowMode = !cells && hasFixedGrid && imageCount > cellCount;
 
     // Track stack depth for each cell (used in overflow mode)
     const cellStackCount: number[] = isOverflowMode ? new Array(cellCount).fill(0) : [];
@@ -135,9 +166,12 @@ export class GridPlacementLayout implements PlacementLayout {
     for (let i = 0; i < imageCount; i++) {
       let col: number;
       let row: number;
+      let span = 1;
       let stackLayer = 0;  // 0 = base image, 1+ = overflow layers
 
-      if (isOverflowMode && i >= cellCount) {
+      if (cells) {
+        ({ col, row, span } = cells[i]);
+      } else if (isOverflowMode && i >= cellCount) {
         // Overflow image: determine target cell and stack layer
         const overflowIndex = i - cellCount;
         const targetCell = overflowIndex % cellCount;
@@ -163,9 +197,11 @@ export class GridPlacementLayout implements PlacementLayout {
         }
       }
 
-      // Base cell position (center of cell)
-      let cellCenterX = gridOffsetX + col * (cellWidth + gridConfig.gap) + cellWidth / 2;
-      let cellCenterY = gridOffsetY + row * (cellHeight + gridConfig.gap) + cellHeight / 2;
+      // Base cell position (center of cell, or of the 2x2 block)
+      const blockWidth = span * cellWidth + (span - 1) * gridConfig.gap;
+      const blockHeight = span * cellHeight + (span - 1) * gridConfig.gap;
+      let cellCenterX = gridOffsetX + col * (cellWidth + gridConfig.gap) + blockWidth / 2;
+      let cellCenterY = gridOffsetY + row * (cellHeight + gridConfig.gap) + blockHeight / 2;
 
       // Apply stagger offset
       if (gridConfig.stagger === 'row' && row % 2 === 1) {
@@ -194,8 +230,8 @@ export class GridPlacementLayout implements PlacementLayout {
       let x = cellCenterX;
       let y = cellCenterY;
 
-      // Handle incomplete row alignment (only for non-overflow mode)
-      if (!isOverflowMode && gridConfig.fillDirection === 'row') {
+      // Handle incomplete row alignment (only for non-overflow mode, and not around featured blocks)
+      if (!isOverflowMode && !cells && gridConfig.fillDirection === 'row') {
         const itemsInLastRow = imageCount % columns || columns;
         const isLastRow = row === Math.floor((imageCount - 1) / columns);
 
@@ -213,9 +249,11 @@ export class GridPlacementLayout implements PlacementLayout {
         }
       }
 
-      // Apply variance to create non-uniform look
+      // Apply variance to create non-uniform look; featured images grow to fill their block
       const varianceScale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
-      const scaledImageSize = imageSize * varianceScale;
+      const spanScale = span > 1 ? (span * imageSize + (span - 1) * gridConfig.gap) / imageSize : 1;
+      const scale = varianceScale * spanScale;
+      const scaledImageSize = imageSize * scale;
 
       // Boundary clamping for center-based positioning
       // Use 1.5 multiplier (3:2 aspect) as reasonable middle ground for mixed portrait/landscape
@@ -263,7 +301,7 @@ export class GridPlacementLayout implements PlacementLayout {
         x,
         y,
         rotation,
-        scale: varianceScale,
+        scale,
         baseSize: scaledImageSize,
         zIndex
       });
@@ -272,6 +310,70 @@ export class GridPlacementLayout implements PlacementLayout {
     return layouts;
   }
 
+  /**
+   * Place images in fill order, each in the first free spot its span fits
+   * (dense packing, so single images fill the gaps beside featured blocks).
+   * Lines are rows for fillDirection 'row' and columns for 'column'.
+   * @returns Cell per image and the final grid size, or null when the blocks do not fit
+   */
+  private packGrid(
+    spans: number[],
+    columns: number,
+    rows: number,
+    config: GridAlgorithmConfig
+  ): { cells: GridCell[]; columns: number; rows: number } | null {
+    const byRow = config.fillDirection === 'row';
+    const lineLengthFixed = (byRow ? config.columns : config.rows) !== 'auto';
+    const lineCountFixed = (byRow ? config.rows : config.columns) !== 'auto';
+    const maxLines = byRow ? rows : columns;
+    let lineLength = byRow ? columns : rows;
+
+    // A block needs two cells in both directions
+    if ((lineLengthFixed && lineLength < 2) || (lineCountFixed && maxLines < 2)) return null;
+    lineLength = Math.max(2, lineLength);
+
+    for (;;) {
+      const occupied: boolean[][] = [];
+      const isFree = (line: number, offset: number) => !occupied[line]?.[offset];
+      let lineCount = 0;
+
+      const placed = spans.map(span => {
+        for (let line = 0; ; line++) {
+          for (let offset = 0; offset + span <= lineLength; offset++) {
+            let fits = true;
+            for (let dl = 0; dl < span && fits; dl++) {
+              for (let doff = 0; doff < span && fits; doff++) {
+                fits = isFree(line + dl, offset + doff);
+              }
+            }
+            if (!fits) continue;
+
+            for (let dl = 0; dl < span; dl++) {
+              occupied[line + dl] ??= [];
+              for (let doff = 0; doff < span; doff++) occupied[line + dl][offset + doff] = true;
+            }
+            lineCount = Math.max(lineCount, line + span);
+            return { line, offset, span };
+          }
+        }
+      });
+
+      if (!lineCountFixed || lineCount <= maxLines) {
+        const cells = placed.map(({ line, offset, span }) =>
+          byRow ? { col: offset, row: line, span } : { col: line, row: offset, span }
+        );
+        const lines = lineCountFixed ? maxLines : lineCount;
+        return byRow
+          ? { cells, columns: lineLength, rows: lines }
+          : { cells, columns: lines, rows: lineLength };
+      }
+
+      // Too many lines: widen the lines if they are auto-sized, otherwise give up
+      if (lineLengthFixed) return null;
+      lineLength++;
+    }
+  }
+
   /**
    * Calculate optimal grid dimensions based on image count and container
    */
@@ -316,6 +418,6 @@ export class GridPlacementLayout implements PlacementLayout {
    * Utility: Generate random number between min and max
    */
   private random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return this.rng() * (max - min) + min;
   }
 }
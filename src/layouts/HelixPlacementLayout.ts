@@ -0,0 +1,92 @@
+/**
+ * HelixPlacementLayout.ts
+ * Winds images around a helix from the top of the container to the bottom,
+ * each standing upright and facing outward. ImageCloud shows the helix in
+ * perspective and turns it (layout.scene), so the images seem to climb.
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig } from '../config/types';
+import { DEFAULT_HELIX_CONFIG, DEFAULT_SCENE_CONFIG } from '../config/defaults';
+import { outwardPose, radiusForApparentSize, perspectiveScale, depthRanks } from '../utils/scene3d';
+import { weightScale } from '../utils/weights';
+
+// Gap between turns, as a share of the image height
+const GAP_RATIO = 0.15;
+
+// Adaptive sizing assumes landscape images when an image's aspect ratio is not known yet
+const DEFAULT_ASPECT_RATIO = 1.4;
+
+// Fewer images per turn than this do not make a helix
+const MIN_PER_TURN = 3;
+
+export class HelixPlacementLayout implements PlacementLayout {
+  readonly is3D = true;
+  private config: LayoutConfig;
+
+  // Images stand on the helix, so image rotation and size variance do not apply
+  constructor(config: LayoutConfig, _imageConfig: ImageConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Generate helix positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight, aspectRatios and weights)
+   * @returns Array of layout objects with 3D pose, rotation and scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    if (imageCount === 0) return layouts;
+
+    const { width, height } = containerBounds;
+    const imageSize = options.fixedHeight ?? 200;
+    const helixConfig = { ...DEFAULT_HELIX_CONFIG, ...this.config.helix };
+    const perspective = this.config.scene?.perspective ?? DEFAULT_SCENE_CONFIG.perspective;
+    const padding = this.config.spacing?.padding ?? 50;
+    const perTurn = Math.max(MIN_PER_TURN, Math.round(helixConfig.perTurn ?? DEFAULT_HELIX_CONFIG.perTurn!));
+
+    let totalAspectRatio = 0;
+    for (let i = 0; i < imageCount; i++) {
+      totalAspectRatio += options.aspectRatios?.[i] ?? DEFAULT_ASPECT_RATIO;
+    }
+    const imageWidth = imageSize * totalAspectRatio / imageCount;
+
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = typeof helixConfig.radius === 'number'
+      ? helixConfig.radius
+      : radiusForApparentSize(Math.max(imageWidth / 2, cx - padding - imageWidth / 2), perspective);
+
+    // One turn rises by an image and a gap; the helix flattens when that does not fit,
+    // keeping the front, enlarged by perspective, inside the padding
+    const magnification = perspectiveScale(radius, perspective);
+    const available = (height - 2 * padding) / magnification - imageSize;
+    const steps = imageCount - 1;
+    const step = steps > 0 ? Math.max(0, Math.min((imageSize * (1 + GAP_RATIO)) / perTurn, available / steps)) : 0;
+    const top = cy - steps * step / 2;
+
+    for (let index = 0; index < imageCount; index++) {
+      const theta = index / perTurn * 2 * Math.PI;
+      const x = radius * Math.sin(theta);
+      const z = radius * Math.cos(theta);
+      const scale = weightScale(options.weights?.[index]);
+      layouts.push({
+        id: index,
+        x: cx + x,
+        y: top + index * step,
+        z,
+        ...outwardPose(x, 0, z, false),
+        rotation: 0,
+        scale,
+        baseSize: imageSize * scale
+      });
+    }
+
+    // Nearer images on top until the scene takes over the stacking
+    const ranks = depthRanks(layouts.map(layout => layout.z!));
+    layouts.forEach((layout, index) => { layout.zIndex = ranks[index] + 1; });
+
+    return layouts;
+  }
+}
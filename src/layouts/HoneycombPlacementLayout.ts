@@ -1,12 +1,13 @@
 /**
  * HoneycombPlacementLayout.ts
- * Places images in hexagonal rings, filling outward clockwise from center-top.
+ * Places images in hexagonal rings, filling outward clockwise from center-top,
+ * or row by row in a rectangle matching the container (honeycomb.shape).
  * Default/hover clip paths are forced to hexagon height-relative by mergeConfig().
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig } from '../config/types';
 import { DEFAULT_HONEYCOMB_CONFIG } from '../config/defaults';
-import { getHexRingCells, hexCubeToPixel } from '../utils/hexagonGeometry';
+import { getHexRingCells, getHexRectangleCells, getHexTilingParams, hexCubeToPixel, resolveHexTiling } from '../utils/hexagonGeometry';
 
 export class HoneycombPlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
@@ -42,6 +43,32 @@ export class HoneycombPlacementLayout implements PlacementLayout {
     // Note: baseImageSize is already capped to fit the container by LayoutEngine.calculateAdaptiveSize().
     const hexH = baseImageSize + spacing;
 
+    // Same tiling LayoutEngine sized the images for
+    const padding = this.config.spacing?.padding ?? 50;
+    const tiling = resolveHexTiling(honeycombConfig.shape ?? 'rings', imageCount, width, height, padding, spacing);
+
+    if (tiling.shape === 'rectangle') {
+      // Top-left cell center, so the tiling (odd columns half a pitch lower) is centered
+      const { colStep, rowOffset } = getHexTilingParams(hexH);
+      const originX = containerCX - (tiling.columns - 1) * colStep / 2;
+      const originY = containerCY - ((tiling.rows - 1) * hexH + (tiling.columns > 1 ? rowOffset : 0)) / 2;
+
+      getHexRectangleCells(imageCount, tiling.columns).forEach(([cx, cy, cz], index) => {
+        const { px, py } = hexCubeToPixel(cx, cy, cz, originX, originY, hexH);
+        layouts.push({
+          id: index,
+          x: px,
+          y: py,
+          rotation: 0,
+          scale: 1.0,
+          baseSize: baseImageSize,
+          zIndex: index + 1
+        });
+      });
+
+      return layouts;
+    }
+
     let placed = 0;
     let ring = 0;
 
@@ -0,0 +1,154 @@
+/**
+ * JustifiedPlacementLayout.ts
+ * Fills rows edge to edge: every image in a row gets the same height, and each
+ * row's height is chosen so its images, at their natural aspect ratios, exactly
+ * span the container width
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig, JustifiedAlgorithmConfig } from '../config/types';
+
+const DEFAULT_JUSTIFIED_CONFIG: Required<JustifiedAlgorithmConfig> = {
+  rowHeight: 'auto',
+  gap: 10,
+  lastRow: 'start',
+  overflow: 'grow'
+};
+
+// Used until an image has loaded and its real aspect ratio is known
+const DEFAULT_ASPECT_RATIO = 1.4;
+
+// Binary search steps when shrinking rows to fit the container ('fit')
+const FIT_ITERATIONS = 24;
+
+interface JustifiedRow {
+  start: number;   // index of the first image in the row
+  end: number;     // index after the last image
+  height: number;
+  width: number;   // rendered width including gaps
+}
+
+export class JustifiedPlacementLayout implements PlacementLayout {
+  private config: LayoutConfig;
+  readonly usesAspectRatios = true;
+
+  constructor(config: LayoutConfig, _imageConfig: ImageConfig = {}) {
+    this.config = config;
+  }
+
+  get growsContainer(): boolean {
+    return (this.config.justified?.overflow ?? DEFAULT_JUSTIFIED_CONFIG.overflow) === 'grow';
+  }
+
+  /**
+   * Generate justified row positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight and aspectRatios)
+   * @returns Array of layout objects with position, rotation, scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    if (imageCount === 0) return layouts;
+
+    const justifiedConfig = { ...DEFAULT_JUSTIFIED_CONFIG, ...this.config.justified, ...options.justified };
+    const padding = options.spacing?.padding ?? this.config.spacing.padding;
+    const baseImageSize = options.fixedHeight ?? 200;
+    const targetHeight = justifiedConfig.rowHeight === 'auto' ? baseImageSize : justifiedConfig.rowHeight;
+    const gap = justifiedConfig.gap;
+
+    const availableWidth = Math.max(1, containerBounds.width - 2 * padding);
+    const availableHeight = Math.max(1, containerBounds.height - 2 * padding);
+
+    const aspectRatios: number[] = [];
+    for (let i = 0; i < imageCount; i++) {
+      const ratio = options.aspectRatios?.[i];
+      aspectRatios.push(ratio !== undefined && ratio > 0 && isFinite(ratio) ? ratio : DEFAULT_ASPECT_RATIO);
+    }
+
+    let rows = this.buildRows(aspectRatios, availableWidth, targetHeight, gap, justifiedConfig.lastRow);
+    let offsetY = padding;
+
+    if (justifiedConfig.overflow === 'fit') {
+      // Largest row height whose rows still fit the container height
+      if (this.totalHeight(rows, gap) > availableHeight) {
+        let low = 0;
+        let high = targetHeight;
+        for (let i = 0; i < FIT_ITERATIONS; i++) {
+          const mid = (low + high) / 2;
+          if (this.totalHeight(this.buildRows(aspectRatios, availableWidth, mid, gap, justifiedConfig.lastRow), gap) > availableHeight) {
+            high = mid;
+          } else {
+            low = mid;
+          }
+        }
+        rows = this.buildRows(aspectRatios, availableWidth, Math.max(low, 1), gap, justifiedConfig.lastRow);
+      }
+      offsetY += Math.max(0, (availableHeight - this.totalHeight(rows, gap)) / 2);
+    }
+
+    for (const row of rows) {
+      let offsetX = padding;
+      if (justifiedConfig.lastRow === 'center') {
+        offsetX += (availableWidth - row.width) / 2;
+      } else if (justifiedConfig.lastRow === 'end') {
+        offsetX += availableWidth - row.width;
+      }
+
+      for (let i = row.start; i < row.end; i++) {
+        const imageWidth = aspectRatios[i] * row.height;
+        const scale = row.height / baseImageSize;
+        layouts.push({
+          id: i,
+          x: offsetX + imageWidth / 2,
+          y: offsetY + row.height / 2,
+          rotation: 0,
+          scale,
+          baseSize: row.height
+        });
+        offsetX += imageWidth + gap;
+      }
+      offsetY += row.height + gap;
+    }
+
+    return layouts;
+  }
+
+  /**
+   * Break images into rows that span the available width at about the target height
+   * Full rows shrink slightly below the target so their images exactly fill the width.
+   */
+  private buildRows(
+    aspectRatios: number[],
+    availableWidth: number,
+    targetHeight: number,
+    gap: number,
+    lastRow: Required<JustifiedAlgorithmConfig>['lastRow']
+  ): JustifiedRow[] {
+    const rows: JustifiedRow[] = [];
+    let start = 0;
+    let ratioSum = 0;
+
+    for (let i = 0; i < aspectRatios.length; i++) {
+      ratioSum += aspectRatios[i];
+      const gaps = gap * (i - start);
+      if (ratioSum * targetHeight + gaps >= availableWidth) {
+        rows.push({ start, end: i + 1, height: (availableWidth - gaps) / ratioSum, width: availableWidth });
+        start = i + 1;
+        ratioSum = 0;
+      }
+    }
+
+    // Leftover images that do not fill a row
+    if (start < aspectRatios.length) {
+      const gaps = gap * (aspectRatios.length - 1 - start);
+      const height = lastRow === 'justify' ? (availableWidth - gaps) / ratioSum : targetHeight;
+      rows.push({ start, end: aspectRatios.length, height, width: ratioSum * height + gaps });
+    }
+
+    return rows;
+  }
+
+  private totalHeight(rows: JustifiedRow[], gap: number): number {
+    return rows.reduce((sum, row) => sum + row.height, 0) + gap * (rows.length - 1);
+  }
+}
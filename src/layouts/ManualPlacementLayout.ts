@@ -0,0 +1,90 @@
+/**
+ * ManualPlacementLayout.ts
+ * Places images at saved positions (container fractions) from layout.manual,
+ * matched by URL or image index. Images without a saved position are placed
+ * by the fallback layout.
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig, ManualLayoutItem } from '../config/types';
+
+export class ManualPlacementLayout implements PlacementLayout {
+  private config: LayoutConfig;
+  private fallback: PlacementLayout;
+
+  /**
+   * @param config - Layout config; positions come from config.manual.items
+   * @param _imageConfig - Unused: rotation and scale come from the saved items
+   * @param fallback - Layout for images without a saved position
+   */
+  constructor(config: LayoutConfig, _imageConfig: ImageConfig, fallback: PlacementLayout) {
+    this.config = config;
+    this.fallback = fallback;
+  }
+
+  // Unsaved images are placed by the fallback, so it decides how images are held and sized
+  get usesAspectRatios(): boolean {
+    return this.fallback.usesAspectRatios === true;
+  }
+
+  get growsContainer(): boolean {
+    return this.fallback.growsContainer === true;
+  }
+
+  /**
+   * Generate layout positions from the saved items
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight and images)
+   * @returns Array of layout objects with position, rotation, scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const items = (options.manual ?? this.config.manual)?.items ?? [];
+    // Items with a repeated URL go to the images with that URL in order
+    const byUrl = new Map<string, ManualLayoutItem[]>();
+    const byId = new Map<number, ManualLayoutItem>();
+    for (const item of items) {
+      if (item.url !== undefined) {
+        const list = byUrl.get(item.url) ?? [];
+        list.push(item);
+        byUrl.set(item.url, list);
+      }
+      if (item.id !== undefined && !byId.has(item.id)) byId.set(item.id, item);
+    }
+
+    // Match by URL first, then give images left over the unused item saved for their index
+    const matched: (ManualLayoutItem | undefined)[] = [];
+    for (let index = 0; index < imageCount; index++) {
+      const url = options.images?.[index]?.url;
+      matched.push(url !== undefined ? byUrl.get(url)?.shift() : undefined);
+    }
+    const used = new Set(matched);
+    for (let index = 0; index < imageCount; index++) {
+      const item = byId.get(index);
+      if (matched[index] === undefined && item && !used.has(item)) {
+        matched[index] = item;
+        used.add(item);
+      }
+    }
+
+    const baseImageSize = options.fixedHeight ?? 200;
+    const { width, height } = containerBounds;
+    const layouts = this.fallback.generate(imageCount, containerBounds, options);
+
+    return layouts.map((layout, index) => {
+      const item = matched[index];
+      if (!item) return layout;
+
+      const scale = item.scale ?? 1;
+      const placed: ImageLayout = {
+        id: index,
+        x: item.x * width,
+        y: item.y * height,
+        rotation: item.rotation ?? 0,
+        scale,
+        baseSize: baseImageSize * scale
+      };
+      if (item.zIndex !== undefined) placed.zIndex = item.zIndex;
+      return placed;
+    });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * MasonryPlacementLayout.ts
+ * Equal-width columns: each image keeps its natural aspect ratio and goes
+ * into the currently shortest column
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig, MasonryAlgorithmConfig } from '../config/types';
+
+const DEFAULT_MASONRY_CONFIG: Required<MasonryAlgorithmConfig> = {
+  columns: 'auto',
+  gap: 10,
+  overflow: 'grow'
+};
+
+// Used until an image has loaded and its real aspect ratio is known
+const DEFAULT_ASPECT_RATIO = 1.4;
+
+// Binary search steps when narrowing columns to fit the container ('fit')
+const FIT_ITERATIONS = 24;
+
+interface MasonryPlacement {
+  column: number;
+  top: number;     // top edge relative to the first row
+  height: number;
+}
+
+export class MasonryPlacementLayout implements PlacementLayout {
+  private config: LayoutConfig;
+  readonly usesAspectRatios = true;
+
+  constructor(config: LayoutConfig, _imageConfig: ImageConfig = {}) {
+    this.config = config;
+  }
+
+  get growsContainer(): boolean {
+    return (this.config.masonry?.overflow ?? DEFAULT_MASONRY_CONFIG.overflow) === 'grow';
+  }
+
+  /**
+   * Generate masonry column positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight and aspectRatios)
+   * @returns Array of layout objects with position, rotation, scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    if (imageCount === 0) return layouts;
+
+    const masonryConfig = { ...DEFAULT_MASONRY_CONFIG, ...this.config.masonry, ...options.masonry };
+    const padding = options.spacing?.padding ?? this.config.spacing.padding;
+    const baseImageSize = options.fixedHeight ?? 200;
+    const gap = masonryConfig.gap;
+
+    const availableWidth = Math.max(1, containerBounds.width - 2 * padding);
+    const availableHeight = Math.max(1, containerBounds.height - 2 * padding);
+
+    // 'auto': columns about as wide as the adaptive image height
+    const columns = masonryConfig.columns === 'auto'
+      ? Math.max(1, Math.round((availableWidth + gap) / (baseImageSize + gap)))
+      : Math.max(1, Math.floor(masonryConfig.columns));
+
+    const aspectRatios: number[] = [];
+    for (let i = 0; i < imageCount; i++) {
+      const ratio = options.aspectRatios?.[i];
+      aspectRatios.push(ratio !== undefined && ratio > 0 && isFinite(ratio) ? ratio : DEFAULT_ASPECT_RATIO);
+    }
+
+    let columnWidth = Math.max(1, (availableWidth - gap * (columns - 1)) / columns);
+    let placements = this.place(aspectRatios, columns, columnWidth, gap);
+    let offsetX = padding;
+    let offsetY = padding;
+
+    if (masonryConfig.overflow === 'fit') {
+      // Widest columns whose tallest column still fits the container height
+      if (this.totalHeight(placements) > availableHeight) {
+        let low = 0;
+        let high = columnWidth;
+        for (let i = 0; i < FIT_ITERATIONS; i++) {
+          const mid = (low + high) / 2;
+          if (this.totalHeight(this.place(aspectRatios, columns, mid, gap)) > availableHeight) {
+            high = mid;
+          } else {
+            low = mid;
+          }
+        }
+        columnWidth = Math.max(low, 1);
+        placements = this.place(aspectRatios, columns, columnWidth, gap);
+      }
+      // Narrowed columns no longer span the width; center the block
+      offsetX += (availableWidth - (columns * columnWidth + gap * (columns - 1))) / 2;
+      offsetY += Math.max(0, (availableHeight - this.totalHeight(placements)) / 2);
+    }
+
+    placements.forEach((placement, i) => {
+      layouts.push({
+        id: i,
+        x: offsetX + placement.column * (columnWidth + gap) + columnWidth / 2,
+        y: offsetY + placement.top + placement.height / 2,
+        rotation: 0,
+        scale: placement.height / baseImageSize,
+        baseSize: placement.height
+      });
+    });
+
+    return layouts;
+  }
+
+  /**
+   * Drop each image into the shortest column (leftmost on ties)
+   */
+  private place(aspectRatios: number[], columns: number, columnWidth: number, gap: number): MasonryPlacement[] {
+    const columnHeights: number[] = new Array(columns).fill(0);
+
+    return aspectRatios.map(ratio => {
+      let column = 0;
+      for (let c = 1; c < columns; c++) {
+        if (columnHeights[c] < columnHeights[column]) column = c;
+      }
+      const height = columnWidth / ratio;
+      const top = columnHeights[column] === 0 ? 0 : columnHeights[column] + gap;
+      columnHeights[column] = top + height;
+      return { column, top, height };
+    });
+  }
+
+  private totalHeight(placements: MasonryPlacement[]): number {
+    return placements.reduce((max, placement) => Math.max(max, placement.top + placement.height), 0);
+  }
+}
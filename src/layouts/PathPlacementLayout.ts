@@ -0,0 +1,313 @@
+/**
+ * PathPlacementLayout.ts
+ * Spaces images evenly by arc length along an SVG path or a parametric curve,
+ * optionally in several parallel lanes
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig, PathAlgorithmConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { flattenPath } from '../utils/svgPath';
+import { weightScale } from '../utils/weights';
+
+const DEFAULT_PATH_CONFIG: Required<Pick<PathAlgorithmConfig, 'fit' | 'lanes' | 'laneSpacing'>> = {
+  fit: 'contain',
+  lanes: 1,
+  laneSpacing: 'auto'
+};
+
+// Points sampled along a parametric curve
+const CURVE_SAMPLES = 256;
+
+// Share of the path length on either side of an image used to measure its tangent
+const TANGENT_STEP = 0.002;
+
+// Lane spacing for 'auto', relative to the image height
+const AUTO_LANE_SPACING = 1.2;
+
+// Matches the estimate the random layout uses to keep images inside the container
+const EST_ASPECT_RATIO = 1.5;
+
+// Used when the path is missing or invalid: a horizontal line across the container
+const FALLBACK_PATH: Array<Array<[number, number]>> = [[[0, 0], [1, 0]]];
+
+interface PathSegment {
+  x: number;        // start point
+  y: number;
+  dx: number;
+  dy: number;
+  start: number;    // arc length at the start point
+  length: number;
+}
+
+interface PathSource {
+  polylines: Array<Array<[number, number]>>;
+  closed: boolean;  // spacing wraps around instead of running end to end
+}
+
+export class PathPlacementLayout implements PlacementLayout {
+  private config: LayoutConfig;
+  private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
+
+  // Flattened path, kept until `d` or `curve` changes
+  private sourceKey: string | PathAlgorithmConfig['curve'] | null = null;
+  private source: PathSource | null = null;
+
+  constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
+    this.config = config;
+    this.imageConfig = imageConfig;
+  }
+
+  /**
+   * Generate path layout positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight)
+   * @returns Array of layout objects with position, rotation, scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    if (imageCount === 0) return layouts;
+
+    this.rng = createRandom(options.seed ?? this.config.seed);
+    const pathConfig = { ...DEFAULT_PATH_CONFIG, ...this.config.path, ...options.path };
+    const { width, height } = containerBounds;
+    const padding = options.spacing?.padding ?? this.config.spacing.padding;
+    const baseImageSize = options.fixedHeight ?? 200;
+
+    // Get rotation config from image config
+    const rotationMode = this.imageConfig.rotation?.mode ?? 'none';
+    const minRotation = this.imageConfig.rotation?.range?.min ?? -15;
+    const maxRotation = this.imageConfig.rotation?.range?.max ?? 15;
+
+    // Get variance config from image config
+    const varianceMin = this.imageConfig.sizing?.variance?.min ?? 1.0;
+    const varianceMax = this.imageConfig.sizing?.variance?.max ?? 1.0;
+    const hasVariance = varianceMin !== 1.0 || varianceMax !== 1.0;
+
+    const lanes = Math.max(1, Math.floor(pathConfig.lanes));
+    const laneSpacing = pathConfig.laneSpacing === 'auto' ? baseImageSize * AUTO_LANE_SPACING : pathConfig.laneSpacing;
+    const laneReach = ((lanes - 1) / 2) * laneSpacing;
+
+    // Fit the path inside the padded container, inset so images and outer lanes stay inside
+    const insetX = padding + (baseImageSize * EST_ASPECT_RATIO) / 2 + laneReach;
+    const insetY = padding + baseImageSize / 2 + laneReach;
+    const source = this.getSource(pathConfig);
+    const polylines = pathConfig.fit === 'none'
+      ? source.polylines
+      : this.fitPolylines(source.polylines, {
+        x: Math.min(insetX, width / 2),
+        y: Math.min(insetY, height / 2),
+        width: Math.max(0, width - 2 * insetX),
+        height: Math.max(0, height - 2 * insetY)
+      }, pathConfig.fit);
+    const segments = this.buildSegments(polylines);
+    const totalLength = segments.length > 0 ? segments[segments.length - 1].start + segments[segments.length - 1].length : 0;
+
+    // Fill lanes in order, spreading each lane's images along the whole path
+    const perLane = Math.ceil(imageCount / lanes);
+
+    for (let i = 0; i < imageCount; i++) {
+      const lane = Math.floor(i / perLane);
+      const indexInLane = i - lane * perLane;
+      const laneCount = Math.min(perLane, imageCount - lane * perLane);
+
+      let distance: number;
+      if (source.closed) {
+        distance = (totalLength * indexInLane) / laneCount;
+      } else {
+        distance = laneCount === 1 ? totalLength / 2 : (totalLength * indexInLane) / (laneCount - 1);
+      }
+
+      const origin = polylines[0][0];
+      const point = this.pointAt(segments, distance, origin);
+      const angle = this.tangentAt(segments, distance, totalLength, source.closed, origin);
+      // Lanes are offset along the normal; the first lane runs on the left of the direction of travel
+      const offset = (lane - (lanes - 1) / 2) * laneSpacing;
+      const x = point.x - Math.sin(angle) * offset;
+      const y = point.y + Math.cos(angle) * offset;
+
+      // Calculate rotation based on image.rotation.mode
+      let rotation = 0;
+      if (rotationMode === 'tangent') {
+        rotation = this.uprightDegrees(angle);
+      } else if (rotationMode === 'random') {
+        rotation = this.random(minRotation, maxRotation);
+      }
+
+      // Random size variance, times the image's weight
+      const scale = (hasVariance ? this.random(varianceMin, varianceMax) : 1.0) * weightScale(options.weights?.[i]);
+
+      layouts.push({
+        id: i,
+        x,
+        y,
+        rotation,
+        scale,
+        baseSize: baseImageSize * scale,
+        zIndex: i + 1
+      });
+    }
+
+    return layouts;
+  }
+
+  /**
+   * Flatten `d` or sample `curve`, reusing the last result while neither changes
+   */
+  private getSource(pathConfig: PathAlgorithmConfig): PathSource {
+    const key = pathConfig.d ?? pathConfig.curve ?? null;
+    if (this.source && key === this.sourceKey) return this.source;
+    this.sourceKey = key;
+
+    let source: PathSource | null = null;
+    if (pathConfig.d !== undefined) {
+      const polylines = flattenPath(pathConfig.d);
+      if (polylines && polylines.length > 0) {
+        source = {
+          polylines: polylines.map(polyline => polyline.points),
+          closed: polylines.every(polyline => polyline.closed)
+        };
+      } else {
+        console.warn('[image-cloud] layout.path.d is not valid SVG path data; using a horizontal line instead.');
+      }
+    } else if (pathConfig.curve !== undefined) {
+      source = this.sampleCurve(pathConfig.curve);
+      if (!source) {
+        console.warn('[image-cloud] layout.path.curve must return finite { x, y } points for t from 0 to 1; using a horizontal line instead.');
+      }
+    } else {
+      console.warn('[image-cloud] layout.path needs d or curve; using a horizontal line instead.');
+    }
+
+    this.source = source ?? { polylines: FALLBACK_PATH, closed: false };
+    return this.source;
+  }
+
+  private sampleCurve(curve: NonNullable<PathAlgorithmConfig['curve']>): PathSource | null {
+    const points: Array<[number, number]> = [];
+    for (let i = 0; i <= CURVE_SAMPLES; i++) {
+      const point = curve(i / CURVE_SAMPLES);
+      if (!point || !isFinite(point.x) || !isFinite(point.y)) return null;
+      points.push([point.x, point.y]);
+    }
+    const [firstX, firstY] = points[0];
+    const [lastX, lastY] = points[points.length - 1];
+    // Closed curves such as circles end where they start, up to rounding
+    return { polylines: [points], closed: Math.abs(lastX - firstX) + Math.abs(lastY - firstY) < 1e-6 };
+  }
+
+  /**
+   * Map the path's bounding box onto the target area. A path that is flat on
+   * one axis (a straight line) is centered on that axis.
+   */
+  private fitPolylines(
+    polylines: Array<Array<[number, number]>>,
+    area: { x: number; y: number; width: number; height: number },
+    fit: 'contain' | 'fill'
+  ): Array<Array<[number, number]>> {
+    const points = polylines.flat();
+    const minX = Math.min(...points.map(p => p[0]));
+    const maxX = Math.max(...points.map(p => p[0]));
+    const minY = Math.min(...points.map(p => p[1]));
+    const maxY = Math.max(...points.map(p => p[1]));
+    const pathWidth = maxX - minX;
+    const pathHeight = maxY - minY;
+
+    let scaleX = pathWidth > 0 ? area.width / pathWidth : Infinity;
+    let scaleY = pathHeight > 0 ? area.height / pathHeight : Infinity;
+    if (fit === 'contain') {
+      scaleX = scaleY = Math.min(scaleX, scaleY);
+    }
+    if (!isFinite(scaleX)) scaleX = 0;
+    if (!isFinite(scaleY)) scaleY = 0;
+
+    const offsetX = area.x + (area.width - pathWidth * scaleX) / 2;
+    const offsetY = area.y + (area.height - pathHeight * scaleY) / 2;
+    return polylines.map(polyline =>
+      polyline.map(([px, py]) => [offsetX + (px - minX) * scaleX, offsetY + (py - minY) * scaleY] as [number, number])
+    );
+  }
+
+  /**
+   * Line segments with their running arc length; the jumps between subpaths are skipped
+   */
+  private buildSegments(polylines: Array<Array<[number, number]>>): PathSegment[] {
+    const segments: PathSegment[] = [];
+    let total = 0;
+    for (const polyline of polylines) {
+      for (let i = 1; i < polyline.length; i++) {
+        const [x, y] = polyline[i - 1];
+        const dx = polyline[i][0] - x;
+        const dy = polyline[i][1] - y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        if (length === 0) continue;
+        segments.push({ x, y, dx, dy, start: total, length });
+        total += length;
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Point at an arc length along the path
+   * @param origin - Returned when the path has no length
+   */
+  private pointAt(segments: PathSegment[], distance: number, origin: [number, number]): { x: number; y: number } {
+    if (segments.length === 0) {
+      return { x: origin[0], y: origin[1] };
+    }
+
+    // Binary search for the segment containing the distance
+    let low = 0;
+    let high = segments.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (segments[mid].start <= distance) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const segment = segments[low];
+    const t = Math.max(0, Math.min(1, (distance - segment.start) / segment.length));
+    return {
+      x: segment.x + segment.dx * t,
+      y: segment.y + segment.dy * t
+    };
+  }
+
+  /**
+   * Direction of travel (radians) at an arc length, measured across a short
+   * stretch of path so corners of the flattened curve do not show
+   */
+  private tangentAt(segments: PathSegment[], distance: number, totalLength: number, closed: boolean, origin: [number, number]): number {
+    const step = totalLength * TANGENT_STEP;
+    const along = (value: number): number => closed
+      ? ((value % totalLength) + totalLength) % totalLength
+      : Math.max(0, Math.min(totalLength, value));
+    const before = this.pointAt(segments, along(distance - step), origin);
+    const after = this.pointAt(segments, along(distance + step), origin);
+    if (before.x === after.x && before.y === after.y) return 0;
+    return Math.atan2(after.y - before.y, after.x - before.x);
+  }
+
+  /**
+   * Tangent direction in degrees, turned by half a turn when needed so images
+   * are never upside down (like the wave layout, within -90..90)
+   */
+  private uprightDegrees(angle: number): number {
+    let degrees = (angle * 180) / Math.PI;
+    if (degrees > 90) degrees -= 180;
+    else if (degrees <= -90) degrees += 180;
+    return degrees;
+  }
+
+  /**
+   * Utility: Generate random number between min and max
+   */
+  private random(min: number, max: number): number {
+    return this.rng() * (max - min) + min;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * PhysicsPlacementLayout.ts
+ * Force-directed layout: images start near the center and a bounded simulation
+ * pushes overlapping footprints apart, pulls everything toward the center and
+ * keeps images inside the container walls
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig, PhysicsAlgorithmConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { weightScale } from '../utils/weights';
+
+const DEFAULT_PHYSICS_CONFIG: Required<PhysicsAlgorithmConfig> = {
+  iterations: 300,
+  gap: 10,
+  gravity: 0.05,
+  tolerance: 0.5,
+  live: false
+};
+
+// Used until an image has loaded and its real aspect ratio is known
+const DEFAULT_ASPECT_RATIO = 1.4;
+
+// Share of the container (per axis) that new images are scattered across before the simulation runs
+const START_SPREAD = 0.5;
+
+interface PhysicsBody {
+  x: number;
+  y: number;
+  halfWidth: number;   // half of the rotated footprint's bounding box
+  halfHeight: number;
+  anchored: boolean;
+}
+
+export class PhysicsPlacementLayout implements PlacementLayout {
+  private config: LayoutConfig;
+  private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
+  readonly usesAspectRatios = true;
+
+  // Last result per image, the starting point when the layout is live
+  private previous: Map<string, ImageLayout> = new Map();
+
+  constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
+    this.config = config;
+    this.imageConfig = imageConfig;
+  }
+
+  get live(): boolean {
+    return this.config.physics?.live ?? DEFAULT_PHYSICS_CONFIG.live;
+  }
+
+  /**
+   * Generate physics layout positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight, aspectRatios and anchors)
+   * @returns Array of layout objects with position, rotation, scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
+    const physicsConfig = { ...DEFAULT_PHYSICS_CONFIG, ...this.config.physics, ...options.physics };
+    const { width, height } = containerBounds;
+    const padding = options.spacing?.padding ?? this.config.spacing.padding;
+    const baseImageSize = options.fixedHeight ?? 200;
+
+    // Get rotation config from image config
+    const rotationMode = this.imageConfig.rotation?.mode ?? 'none';
+    const minRotation = this.imageConfig.rotation?.range?.min ?? -15;
+    const maxRotation = this.imageConfig.rotation?.range?.max ?? 15;
+
+    // Get variance config from image config
+    const varianceMin = this.imageConfig.sizing?.variance?.min ?? 1.0;
+    const varianceMax = this.imageConfig.sizing?.variance?.max ?? 1.0;
+    const hasVariance = varianceMin !== 1.0 || varianceMax !== 1.0;
+
+    const keys = this.imageKeys(imageCount, options);
+    const anchors = new Set(options.anchors ?? []);
+    const bodies: PhysicsBody[] = [];
+
+    for (let i = 0; i < imageCount; i++) {
+      // Draw every random value so seeded results do not depend on the live state
+      const startX = width / 2 + (this.rng() - 0.5) * width * START_SPREAD;
+      const startY = height / 2 + (this.rng() - 0.5) * height * START_SPREAD;
+      const randomRotation = rotationMode === 'random' ? this.random(minRotation, maxRotation) : 0;
+      const randomScale = (hasVariance ? this.random(varianceMin, varianceMax) : 1.0) * weightScale(options.weights?.[i]);
+
+      const previous = physicsConfig.live ? this.previous.get(keys[i]) : undefined;
+      const rotation = previous?.rotation ?? randomRotation;
+      const scale = previous?.scale ?? randomScale;
+      const imageHeight = baseImageSize * scale;
+      const ratio = options.aspectRatios?.[i];
+      const imageWidth = imageHeight * (ratio !== undefined && ratio > 0 && isFinite(ratio) ? ratio : DEFAULT_ASPECT_RATIO);
+
+      // Axis-aligned box around the rotated image
+      const radians = (rotation * Math.PI) / 180;
+      const cos = Math.abs(Math.cos(radians));
+      const sin = Math.abs(Math.sin(radians));
+      bodies.push({
+        x: previous?.x ?? startX,
+        y: previous?.y ?? startY,
+        halfWidth: (imageWidth * cos + imageHeight * sin) / 2,
+        halfHeight: (imageWidth * sin + imageHeight * cos) / 2,
+        anchored: previous !== undefined && anchors.has(i)
+      });
+
+      const layout: ImageLayout = {
+        id: i,
+        x: 0,
+        y: 0,
+        rotation,
+        scale,
+        baseSize: imageHeight
+      };
+      // Keeps a dropped image above the others
+      if (previous?.zIndex !== undefined) layout.zIndex = previous.zIndex;
+      layouts.push(layout);
+    }
+
+    this.simulate(bodies, containerBounds, padding, physicsConfig);
+
+    this.previous = new Map();
+    layouts.forEach((layout, i) => {
+      layout.x = bodies[i].x;
+      layout.y = bodies[i].y;
+      this.previous.set(keys[i], layout);
+    });
+
+    return layouts;
+  }
+
+  /**
+   * Run the simulation until nothing moves more than the tolerance or the
+   * iteration limit is reached
+   */
+  private simulate(
+    bodies: PhysicsBody[],
+    containerBounds: ContainerBounds,
+    padding: number,
+    physicsConfig: Required<PhysicsAlgorithmConfig>
+  ): void {
+    const centerX = containerBounds.width / 2;
+    const centerY = containerBounds.height / 2;
+    const { gap, gravity, tolerance } = physicsConfig;
+
+    this.constrainToWalls(bodies, containerBounds, padding);
+
+    for (let step = 0; step < physicsConfig.iterations; step++) {
+      const startPositions = bodies.map(body => ({ x: body.x, y: body.y }));
+
+      // Attraction to the center
+      for (const body of bodies) {
+        if (body.anchored) continue;
+        body.x += (centerX - body.x) * gravity;
+        body.y += (centerY - body.y) * gravity;
+      }
+
+      this.separateAll(bodies, gap);
+      this.constrainToWalls(bodies, containerBounds, padding);
+
+      let maxMove = 0;
+      bodies.forEach((body, i) => {
+        maxMove = Math.max(maxMove, Math.abs(body.x - startPositions[i].x), Math.abs(body.y - startPositions[i].y));
+      });
+      if (maxMove < tolerance) break;
+    }
+
+    // Gravity keeps squeezing neighbours together at equilibrium; settle without it
+    for (let step = 0; step < physicsConfig.iterations; step++) {
+      const overlapping = this.separateAll(bodies, gap);
+      this.constrainToWalls(bodies, containerBounds, padding);
+      if (!overlapping) break;
+    }
+  }
+
+  /**
+   * Repulsion: separate every overlapping pair along its axis of least overlap
+   * @returns Whether any pair overlapped
+   */
+  private separateAll(bodies: PhysicsBody[], gap: number): boolean {
+    let overlapping = false;
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        if (this.separate(bodies[i], bodies[j], gap)) overlapping = true;
+      }
+    }
+    return overlapping;
+  }
+
+  /**
+   * Push two bodies apart until their footprints (plus the gap) no longer overlap
+   * When both centers coincide, `a` moves left or up.
+   * @returns Whether the pair overlapped
+   */
+  private separate(a: PhysicsBody, b: PhysicsBody, gap: number): boolean {
+    if (a.anchored && b.anchored) return false;
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const overlapX = a.halfWidth + b.halfWidth + gap - Math.abs(dx);
+    const overlapY = a.halfHeight + b.halfHeight + gap - Math.abs(dy);
+    // Small tolerance so floating-point leftovers do not count as overlap
+    if (overlapX <= 0.01 || overlapY <= 0.01) return false;
+
+    // Anchored bodies do not move, so the other one takes the whole push
+    const shareA = a.anchored ? 0 : b.anchored ? 1 : 0.5;
+    const shareB = 1 - shareA;
+
+    if (overlapX < overlapY) {
+      const direction = dx === 0 ? -1 : -Math.sign(dx);
+      a.x += direction * overlapX * shareA;
+      b.x -= direction * overlapX * shareB;
+    } else {
+      const direction = dy === 0 ? -1 : -Math.sign(dy);
+      a.y += direction * overlapY * shareA;
+      b.y -= direction * overlapY * shareB;
+    }
+    return true;
+  }
+
+  /**
+   * Keep every free footprint inside the padded container; images larger than
+   * the available space are centered on that axis
+   */
+  private constrainToWalls(bodies: PhysicsBody[], containerBounds: ContainerBounds, padding: number): void {
+    const { width, height } = containerBounds;
+    for (const body of bodies) {
+      if (body.anchored) continue;
+      body.x = this.clampToWall(body.x, body.halfWidth, padding, width);
+      body.y = this.clampToWall(body.y, body.halfHeight, padding, height);
+    }
+  }
+
+  private clampToWall(value: number, half: number, padding: number, size: number): number {
+    const min = padding + half;
+    const max = size - padding - half;
+    return min > max ? size / 2 : Math.max(min, Math.min(max, value));
+  }
+
+  /**
+   * Stable key per image for the live state: its URL (numbered when repeated), or its index
+   */
+  private imageKeys(imageCount: number, options: PlacementLayoutOptions): string[] {
+    const seen = new Map<string, number>();
+    const keys: string[] = [];
+    for (let i = 0; i < imageCount; i++) {
+      const url = options.images?.[i]?.url;
+      if (url === undefined) {
+        keys.push(`#${i}`);
+        continue;
+      }
+      const occurrence = seen.get(url) ?? 0;
+      seen.set(url, occurrence + 1);
+      keys.push(`${url}#${occurrence}`);
+    }
+    return keys;
+  }
+
+  /**
+   * Utility: Generate random number between min and max
+   */
+  private random(min: number, max: number): number {
+    return this.rng() * (max - min) + min;
+  }
+}
@@ -4,15 +4,19 @@
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, RadialAlgorithmConfig, ImageConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
 import { DEFAULT_RADIAL_CONFIG } from '../config/defaults';
+import { orderByWeight, weightScale } from '../utils/weights';
 
 interface RadialLayoutOptions extends Partial<LayoutConfig> {
   fixedHeight?: number;
+  weights?: number[];
 }
 
 export class RadialPlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
   private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
 
   constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
     this.config = config;
@@ -32,6 +36,7 @@ export class RadialPlacementLayout implements PlacementLayout {
     options: RadialLayoutOptions = {}
   ): ImageLayout[] {
     const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
     const { width, height } = containerBounds;
     // Use fixedHeight if provided, otherwise use default 200
     const baseImageSize = options.fixedHeight ?? 200;
@@ -62,6 +67,9 @@ export class RadialPlacementLayout implements PlacementLayout {
     // Calculate max rings for scale decay calculation
     const estimatedMaxRings = Math.ceil(Math.sqrt(imageCount));
 
+    // Positions are filled from the center out, heaviest image first
+    const order = orderByWeight(imageCount, options.weights);
+
     const padding = this.config.spacing.padding ?? 50;
     const maxRadius = Math.max(imageSize * 0.8, Math.min(
       cx - padding - imageSize / 2,
@@ -70,16 +78,17 @@ export class RadialPlacementLayout implements PlacementLayout {
 
     // Add center image (using center position)
     if (imageCount > 0) {
-      // Apply variance to center image
+      // Apply variance and weight to center image
       const varianceScale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
-      const centerSize = imageSize * varianceScale;
+      const centerScale = varianceScale * weightScale(options.weights?.[order[0]]);
+      const centerSize = imageSize * centerScale;
 
       layouts.push({
-        id: 0,
+        id: order[0],
         x: cx,
         y: cy,
         rotation: rotationMode === 'random' ? this.random(minRotation * 0.33, maxRotation * 0.33) : 0, // Less rotation for center
-        scale: varianceScale,
+        scale: centerScale,
         baseSize: centerSize,
         zIndex: 100 // Center image is highest
       });
@@ -120,9 +129,10 @@ export class RadialPlacementLayout implements PlacementLayout {
       for (let i = 0; i < itemsInRing && processedCount < imageCount; i++) {
         const angle = (i * angleStep) + ringOffset;
 
-        // Apply variance and scale decay
+        // Apply variance, scale decay and weight
+        const imageIndex = order[processedCount];
         const varianceScale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
-        const combinedScale = ringScale * varianceScale;
+        const combinedScale = ringScale * varianceScale * weightScale(options.weights?.[imageIndex]);
         const scaledImageSize = imageSize * combinedScale;
 
         // Calculate center position of image using elliptical formula (store center, not top-left)
@@ -152,7 +162,7 @@ export class RadialPlacementLayout implements PlacementLayout {
         const rotation = rotationMode === 'random' ? this.random(minRotation, maxRotation) : 0;
 
         layouts.push({
-          id: processedCount,
+          id: imageIndex,
           x,
           y,
           rotation,
@@ -167,7 +177,8 @@ export class RadialPlacementLayout implements PlacementLayout {
       currentRing++;
     }
 
-    return layouts;
+    // Callers index layouts by image
+    return layouts.sort((a, b) => a.id - b.id);
   }
 
   /**
@@ -189,6 +200,6 @@ export class RadialPlacementLayout implements PlacementLayout {
    * @returns Random number in range
    */
   private random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return this.rng() * (max - min) + min;
   }
 }
\ No newline at end of file
@@ -4,14 +4,18 @@
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { weightScale } from '../utils/weights';
 
 interface RandomLayoutOptions extends Partial<LayoutConfig> {
   fixedHeight?: number;
+  weights?: number[];
 }
 
 export class RandomPlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
   private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
 
   constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
     this.config = config;
@@ -27,6 +31,7 @@ export class RandomPlacementLayout implements PlacementLayout {
    */
   generate(imageCount: number, containerBounds: ContainerBounds, options: RandomLayoutOptions = {}): ImageLayout[] {
     const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
     const { width, height } = containerBounds;
 
     const padding = this.config.spacing.padding;
@@ -62,8 +67,8 @@ export class RandomPlacementLayout implements PlacementLayout {
       // Random rotation within range (only when mode is random)
       const rotation = rotationMode === 'random' ? this.random(minRotation, maxRotation) : 0;
 
-      // Random size variance
-      const scale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
+      // Random size variance, times the image's weight
+      const scale = (hasVariance ? this.random(varianceMin, varianceMax) : 1.0) * weightScale(options.weights?.[i]);
       const scaledImageSize = baseImageSize * scale;
 
       const layout: ImageLayout = {
@@ -88,6 +93,6 @@ export class RandomPlacementLayout implements PlacementLayout {
    * @returns Random number in range
    */
   private random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return this.rng() * (max - min) + min;
   }
 }
@@ -0,0 +1,227 @@
+/**
+ * ShapePlacementLayout.ts
+ * Arranges images so the cloud forms a silhouette: an SVG path, a polygon or
+ * a line of text. Image centers are spread evenly over the filled area, with
+ * a share of them lined up along the outline so the shape reads clearly.
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig, ShapeAlgorithmConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { polygonMask, pathMask, textMask, type ShapeMask } from '../utils/shapeMask';
+import { weightScale } from '../utils/weights';
+
+const DEFAULT_SHAPE_CONFIG: Required<Omit<ShapeAlgorithmConfig, 'path' | 'points' | 'text'>> = {
+  font: 'bold 100px sans-serif',
+  fillRule: 'nonzero',
+  density: 1,
+  edge: 0.3
+};
+
+// Cells along the longer side of the stand-in mask used when the shape is missing or cannot be drawn
+const FALLBACK_RESOLUTION = 32;
+
+// Random candidates tried per image; the one farthest from placed images wins
+const CANDIDATES = 15;
+
+// Images never shrink below this share of the adaptive size, however thin the shape
+const MIN_SIZE_FACTOR = 0.25;
+
+// Matches the estimate the random layout uses to keep images inside the container
+const EST_ASPECT_RATIO = 1.5;
+
+interface ShapeCell {
+  col: number;
+  row: number;
+}
+
+export class ShapePlacementLayout implements PlacementLayout {
+  private config: LayoutConfig;
+  private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
+
+  // Sampling text or paths draws on a canvas, so the mask is kept until the shape changes
+  private maskKey: string | null = null;
+  private mask: ShapeMask | null = null;
+
+  constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
+    this.config = config;
+    this.imageConfig = imageConfig;
+  }
+
+  /**
+   * Generate shape layout positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight)
+   * @returns Array of layout objects with position, rotation, scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const layouts: ImageLayout[] = [];
+    if (imageCount === 0) return layouts;
+
+    this.rng = createRandom(options.seed ?? this.config.seed);
+    const shapeConfig = { ...DEFAULT_SHAPE_CONFIG, ...this.config.shape, ...options.shape };
+    const { width, height } = containerBounds;
+    const padding = options.spacing?.padding ?? this.config.spacing.padding;
+    const baseImageSize = options.fixedHeight ?? 200;
+
+    // Get rotation config from image config
+    const rotationMode = this.imageConfig.rotation?.mode ?? 'none';
+    const minRotation = this.imageConfig.rotation?.range?.min ?? -15;
+    const maxRotation = this.imageConfig.rotation?.range?.max ?? 15;
+
+    // Get variance config from image config
+    const varianceMin = this.imageConfig.sizing?.variance?.min ?? 1.0;
+    const varianceMax = this.imageConfig.sizing?.variance?.max ?? 1.0;
+    const hasVariance = varianceMin !== 1.0 || varianceMax !== 1.0;
+
+    // Adaptive sizing targets the whole container; shrink images to the shape's share of it
+    const availableWidth = Math.max(1, width - 2 * padding);
+    const availableHeight = Math.max(1, height - 2 * padding);
+    const mask = this.getMask(shapeConfig) ?? this.fullMask(availableWidth, availableHeight);
+    const fitCell = Math.min(availableWidth / mask.columns, availableHeight / mask.rows);
+    const shapeArea = mask.filled * fitCell * fitCell;
+    const areaFactor = Math.max(MIN_SIZE_FACTOR, Math.min(1, Math.sqrt(shapeArea / Math.max(1, width * height))));
+    const imageHeight = baseImageSize * areaFactor * Math.max(0, shapeConfig.density);
+
+    // Fit the shape inside the padded container, inset so edge images stay inside
+    const insetWidth = Math.max(1, availableWidth - imageHeight * EST_ASPECT_RATIO);
+    const insetHeight = Math.max(1, availableHeight - imageHeight);
+    const cellSize = Math.min(insetWidth / mask.columns, insetHeight / mask.rows);
+    const offsetX = (width - mask.columns * cellSize) / 2;
+    const offsetY = (height - mask.rows * cellSize) / 2;
+
+    const { edgeCells, innerCells } = this.classifyCells(mask);
+    const edgeShare = Math.max(0, Math.min(1, shapeConfig.edge));
+    const edgeCount = edgeCells.length > 0 ? Math.round(imageCount * edgeShare) : 0;
+
+    const centers: Array<[number, number]> = [];
+    for (let i = 0; i < imageCount; i++) {
+      const cells = i < edgeCount || innerCells.length === 0 ? edgeCells : innerCells;
+      // Edge images sit on the cell center so the outline stays crisp
+      const jitter = i < edgeCount ? 0 : cellSize;
+      const [x, y] = this.pickCenter(cells, centers, cellSize, offsetX, offsetY, jitter);
+      centers.push([x, y]);
+
+      // Random rotation within range (only when mode is random)
+      const rotation = rotationMode === 'random' ? this.random(minRotation, maxRotation) : 0;
+
+      // Random size variance
+      const variance = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
+      const scale = areaFactor * Math.max(0, shapeConfig.density) * variance * weightScale(options.weights?.[i]);
+
+      layouts.push({
+        id: i,
+        x,
+        y,
+        rotation,
+        scale,
+        baseSize: baseImageSize * scale
+      });
+    }
+
+    return layouts;
+  }
+
+  /**
+   * Sample the configured shape, reusing the last mask while the shape is unchanged
+   */
+  private getMask(shapeConfig: ShapeAlgorithmConfig & typeof DEFAULT_SHAPE_CONFIG): ShapeMask | null {
+    const { path, points, text, font, fillRule } = shapeConfig;
+    const key = JSON.stringify({ path, points, text, font, fillRule });
+    if (key === this.maskKey) return this.mask;
+    this.maskKey = key;
+
+    let mask: ShapeMask | null = null;
+    let source = '';
+    if (path !== undefined) {
+      mask = pathMask(path, fillRule);
+      source = 'layout.shape.path';
+    } else if (points !== undefined) {
+      mask = polygonMask(points, fillRule);
+      source = 'layout.shape.points';
+    } else if (text !== undefined) {
+      mask = textMask(text, font);
+      source = 'layout.shape.text';
+    }
+
+    if (!mask) {
+      console.warn(
+        source
+          ? `[image-cloud] ${source} has no filled area or could not be drawn; filling the whole container instead.`
+          : '[image-cloud] layout.shape needs a path, points or text; filling the whole container instead.'
+      );
+    }
+    this.mask = mask;
+    return this.mask;
+  }
+
+  /**
+   * Stand-in mask that fills the whole area, so the layout still works without a shape
+   */
+  private fullMask(width: number, height: number): ShapeMask {
+    const cellSize = Math.max(width, height) / FALLBACK_RESOLUTION;
+    const columns = Math.max(1, Math.round(width / cellSize));
+    const rows = Math.max(1, Math.round(height / cellSize));
+    return { columns, rows, cells: new Uint8Array(columns * rows).fill(1), filled: columns * rows };
+  }
+
+  /**
+   * Split filled cells into outline cells (next to an empty cell or the mask
+   * border) and the cells inside them
+   */
+  private classifyCells(mask: ShapeMask): { edgeCells: ShapeCell[]; innerCells: ShapeCell[] } {
+    const edgeCells: ShapeCell[] = [];
+    const innerCells: ShapeCell[] = [];
+    const isFilled = (col: number, row: number): boolean =>
+      col >= 0 && row >= 0 && col < mask.columns && row < mask.rows && mask.cells[row * mask.columns + col] === 1;
+
+    for (let row = 0; row < mask.rows; row++) {
+      for (let col = 0; col < mask.columns; col++) {
+        if (!isFilled(col, row)) continue;
+        const inside = isFilled(col - 1, row) && isFilled(col + 1, row) && isFilled(col, row - 1) && isFilled(col, row + 1);
+        (inside ? innerCells : edgeCells).push({ col, row });
+      }
+    }
+    return { edgeCells, innerCells };
+  }
+
+  /**
+   * Best-candidate sampling: of a few random cells, take the one farthest from
+   * every placed center, which spreads images evenly without a grid look
+   */
+  private pickCenter(
+    cells: ShapeCell[],
+    centers: Array<[number, number]>,
+    cellSize: number,
+    offsetX: number,
+    offsetY: number,
+    jitter: number
+  ): [number, number] {
+    let best: [number, number] = [0, 0];
+    let bestDistance = -1;
+
+    for (let k = 0; k < CANDIDATES; k++) {
+      const cell = cells[Math.floor(this.rng() * cells.length)];
+      const x = offsetX + (cell.col + 0.5) * cellSize + (this.rng() - 0.5) * jitter;
+      const y = offsetY + (cell.row + 0.5) * cellSize + (this.rng() - 0.5) * jitter;
+
+      let nearest = Infinity;
+      for (const [cx, cy] of centers) {
+        nearest = Math.min(nearest, (x - cx) * (x - cx) + (y - cy) * (y - cy));
+      }
+      if (nearest > bestDistance) {
+        bestDistance = nearest;
+        best = [x, y];
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Utility: Generate random number between min and max
+   */
+  private random(min: number, max: number): number {
+    return this.rng() * (max - min) + min;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * SpherePlacementLayout.ts
+ * Spreads images evenly over a sphere, like a tag-cloud globe, each facing
+ * outward from the center. ImageCloud shows the sphere in perspective and
+ * turns it (layout.scene).
+ */
+
+import type { PlacementLayout, PlacementLayoutOptions, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig } from '../config/types';
+import { DEFAULT_SPHERE_CONFIG, DEFAULT_SCENE_CONFIG } from '../config/defaults';
+import { fibonacciSphere, outwardPose, radiusForApparentSize, depthRanks } from '../utils/scene3d';
+import { weightScale } from '../utils/weights';
+
+export class SpherePlacementLayout implements PlacementLayout {
+  readonly is3D = true;
+  private config: LayoutConfig;
+
+  // Images face outward from the sphere, so image rotation and size variance do not apply
+  constructor(config: LayoutConfig, _imageConfig: ImageConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Generate sphere positions for images
+   * @param imageCount - Number of images to layout
+   * @param containerBounds - Container dimensions {width, height}
+   * @param options - Optional overrides (includes fixedHeight and weights)
+   * @returns Array of layout objects with 3D pose, rotation and scale
+   */
+  generate(imageCount: number, containerBounds: ContainerBounds, options: PlacementLayoutOptions = {}): ImageLayout[] {
+    const { width, height } = containerBounds;
+    const imageSize = options.fixedHeight ?? 200;
+    const sphereConfig = { ...DEFAULT_SPHERE_CONFIG, ...this.config.sphere };
+    const perspective = this.config.scene?.perspective ?? DEFAULT_SCENE_CONFIG.perspective;
+    const padding = this.config.spacing?.padding ?? 50;
+
+    const cx = width / 2;
+    const cy = height / 2;
+    // The outline, grown by perspective, keeps half an image clear of the padding
+    const radius = typeof sphereConfig.radius === 'number'
+      ? sphereConfig.radius
+      : radiusForApparentSize(Math.max(imageSize / 2, Math.min(cx, cy) - padding - imageSize / 2), perspective);
+
+    const layouts: ImageLayout[] = fibonacciSphere(imageCount).map((point, index) => {
+      const x = point.x * radius;
+      const y = point.y * radius;
+      const z = point.z * radius;
+      const scale = weightScale(options.weights?.[index]);
+      return {
+        id: index,
+        x: cx + x,
+        y: cy + y,
+        z,
+        ...outwardPose(x, y, z, true),
+        rotation: 0,
+        scale,
+        baseSize: imageSize * scale
+      };
+    });
+
+    // Nearer images on top until the scene takes over the stacking
+    const ranks = depthRanks(layouts.map(layout => layout.z!));
+    layouts.forEach((layout, index) => { layout.zIndex = ranks[index] + 1; });
+
+    return layouts;
+  }
+}
@@ -4,9 +4,12 @@
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, SpiralAlgorithmConfig, ImageConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { orderByWeight, weightScale } from '../utils/weights';
 
 interface SpiralLayoutOptions extends Partial<LayoutConfig> {
   fixedHeight?: number;
+  weights?: number[];
 }
 
 // Golden angle in radians (~137.5 degrees)
@@ -23,6 +26,7 @@ const DEFAULT_SPIRAL_CONFIG: SpiralAlgorithmConfig = {
 export class SpiralPlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
   private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
 
   constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
     this.config = config;
@@ -42,6 +46,7 @@ export class SpiralPlacementLayout implements PlacementLayout {
     options: SpiralLayoutOptions = {}
   ): ImageLayout[] {
     const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
     const { width, height } = containerBounds;
 
     const spiralConfig = { ...DEFAULT_SPIRAL_CONFIG, ...this.config.spiral };
@@ -75,6 +80,9 @@ export class SpiralPlacementLayout implements PlacementLayout {
     // Direction multiplier (1 for counterclockwise, -1 for clockwise)
     const directionMultiplier = spiralConfig.direction === 'clockwise' ? -1 : 1;
 
+    // Spiral positions are filled from the center out, heaviest image first
+    const order = orderByWeight(imageCount, options.weights);
+
     for (let i = 0; i < imageCount; i++) {
       // Calculate angle based on spiral type
       let angle: number;
@@ -108,9 +116,9 @@ export class SpiralPlacementLayout implements PlacementLayout {
         ? 1 - (normalizedRadius * scaleDecay * 0.5) // Max 50% size reduction
         : 1.0;
 
-      // Apply variance
+      // Apply variance and weight
       const varianceScale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
-      const combinedScale = decayScale * varianceScale;
+      const combinedScale = decayScale * varianceScale * weightScale(options.weights?.[order[i]]);
 
       // Apply scaled image size
       const scaledImageSize = baseImageSize * combinedScale;
@@ -145,7 +153,7 @@ export class SpiralPlacementLayout implements PlacementLayout {
       const zIndex = imageCount - i;
 
       layouts.push({
-        id: i,
+        id: order[i],
         x: clampedX,
         y: clampedY,
         rotation,
@@ -155,7 +163,8 @@ export class SpiralPlacementLayout implements PlacementLayout {
       });
     }
 
-    return layouts;
+    // Callers index layouts by image
+    return layouts.sort((a, b) => a.id - b.id);
   }
 
   /**
@@ -258,6 +267,6 @@ export class SpiralPlacementLayout implements PlacementLayout {
    * Utility: Generate random number between min and max
    */
   private random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return this.rng() * (max - min) + min;
   }
 }
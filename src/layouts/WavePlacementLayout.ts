@@ -4,15 +4,19 @@
  */
 
 import type { PlacementLayout, ImageLayout, ContainerBounds, LayoutConfig, ImageConfig } from '../config/types';
+import { createRandom, type RandomSource } from '../utils/random';
+import { weightScale } from '../utils/weights';
 import { DEFAULT_WAVE_CONFIG } from '../config/defaults';
 
 interface WaveLayoutOptions extends Partial<LayoutConfig> {
   fixedHeight?: number;
+  weights?: number[];
 }
 
 export class WavePlacementLayout implements PlacementLayout {
   private config: LayoutConfig;
   private imageConfig: ImageConfig;
+  private rng: RandomSource = Math.random;
 
   constructor(config: LayoutConfig, imageConfig: ImageConfig = {}) {
     this.config = config;
@@ -32,6 +36,7 @@ export class WavePlacementLayout implements PlacementLayout {
     options: WaveLayoutOptions = {}
   ): ImageLayout[] {
     const layouts: ImageLayout[] = [];
+    this.rng = createRandom(options.seed ?? this.config.seed);
     const { width, height } = containerBounds;
     // Use fixedHeight if provided, otherwise use default 200
     const baseImageSize = options.fixedHeight ?? 200;
@@ -116,9 +121,10 @@ export class WavePlacementLayout implements PlacementLayout {
         const x = centerX;
         const y = baseY + waveY;
 
-        // Apply variance
+        // Apply variance and the image's weight
         const varianceScale = hasVariance ? this.random(varianceMin, varianceMax) : 1.0;
-        const scaledImageSize = imageSize * varianceScale;
+        const combinedScale = varianceScale * weightScale(options.weights?.[imageIndex]);
+        const scaledImageSize = imageSize * combinedScale;
 
         // Calculate rotation based on image.rotation.mode
         let rotation = 0;
@@ -146,7 +152,7 @@ export class WavePlacementLayout implements PlacementLayout {
           x: Math.max(minX, Math.min(x, maxX)),
           y: Math.max(minY, Math.min(y, maxY)),
           rotation,
-          scale: varianceScale,
+          scale: combinedScale,
           baseSize: scaledImageSize,
           zIndex: imageIndex + 1
         });
@@ -216,6 +222,6 @@ export class WavePlacementLayout implements PlacementLayout {
    * @returns Random number in range
    */
   private random(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return this.rng() * (max - min) + min;
   }
 }
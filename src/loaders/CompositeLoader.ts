@@ -6,10 +6,12 @@
  * - prepare(filter) - Async discovery of images from all loaders in parallel
  * - imagesLength() - Get combined count of discovered images
  * - imageURLs() - Get combined ordered list of image URLs
+ * - imageDescriptors() - Get combined ordered list of image descriptors
  * - isPrepared() - Check if loader has been prepared
  */
 
-import type { ImageLoader, IImageFilter } from '../config/types';
+import type { ImageLoader, IImageFilter, ImageDescriptor } from '../config/types';
+import { descriptorsFromUrls } from '../utils/imageDescriptor';
 
 export interface CompositeLoaderConfig {
   loaders: ImageLoader[];
@@ -22,7 +24,7 @@ export class CompositeLoader implements ImageLoader {
 
   // State for interface
   private _prepared: boolean = false;
-  private _discoveredUrls: string[] = [];
+  private _discoveredImages: ImageDescriptor[] = [];
 
   constructor(config: CompositeLoaderConfig) {
     this.loaders = config.loaders;
@@ -41,7 +43,7 @@ export class CompositeLoader implements ImageLoader {
    * @param filter - Filter to apply to discovered images
    */
   async prepare(filter: IImageFilter): Promise<void> {
-    this._discoveredUrls = [];
+    this._discoveredImages = [];
 
     this.log(`Preparing ${this.loaders.length} loader(s) in parallel`);
 
@@ -57,16 +59,16 @@ export class CompositeLoader implements ImageLoader {
 
     await Promise.all(preparePromises);
 
-    // Combine URLs from all prepared loaders (preserves order of loaders array)
+    // Combine descriptors from all prepared loaders (preserves order of loaders array)
     for (const loader of this.loaders) {
       if (loader.isPrepared()) {
-        const urls = loader.imageURLs();
-        this._discoveredUrls.push(...urls);
+        const images = loader.imageDescriptors?.() ?? descriptorsFromUrls(loader.imageURLs());
+        this._discoveredImages.push(...images);
       }
     }
 
     this._prepared = true;
-    this.log(`CompositeLoader prepared with ${this._discoveredUrls.length} total images`);
+    this.log(`CompositeLoader prepared with ${this._discoveredImages.length} total images`);
   }
 
   /**
@@ -77,7 +79,7 @@ export class CompositeLoader implements ImageLoader {
     if (!this._prepared) {
       throw new Error('CompositeLoader.imagesLength() called before prepare()');
     }
-    return this._discoveredUrls.length;
+    return this._discoveredImages.length;
   }
 
   /**
@@ -88,7 +90,18 @@ export class CompositeLoader implements ImageLoader {
     if (!this._prepared) {
       throw new Error('CompositeLoader.imageURLs() called before prepare()');
     }
-    return [...this._discoveredUrls];
+    return this._discoveredImages.map(image => image.url);
+  }
+
+  /**
+   * Get the combined ordered list of image descriptors
+   * @throws Error if called before prepare()
+   */
+  imageDescriptors(): ImageDescriptor[] {
+    if (!this._prepared) {
+      throw new Error('CompositeLoader.imageDescriptors() called before prepare()');
+    }
+    return this._discoveredImages.map(image => ({ ...image }));
   }
 
   /**
@@ -6,6 +6,7 @@
  * - prepare(filter) - Async discovery of images
  * - imagesLength() - Get count of discovered images
  * - imageURLs() - Get ordered list of image URLs
+ * - imageDescriptors() - Get ordered list of image descriptors (name, description, dimensions)
  * - isPrepared() - Check if loader has been prepared
  *
  * Helper methods (for advanced usage):
@@ -13,7 +14,16 @@
  * - manualImageUrls(imageIds)
  */
 
-import type { ImageLoader, IImageFilter, GoogleDriveResponse, GoogleDriveLoaderInnerConfig, GoogleDriveSource } from '../config/types';
+import type { ImageLoader, IImageFilter, GoogleDriveResponse, GoogleDriveLoaderInnerConfig, GoogleDriveSource, GoogleDriveFile, ImageDescriptor } from '../config/types';
+
+// Drive file fields requested for image files (dimensions and description feed ImageDescriptor)
+const FILE_FIELDS = 'id,name,mimeType,description,imageMediaMetadata(width,height)';
+
+// Longest side (px) of the Drive CDN renditions: the descriptor's url, the variant
+// shown in the cloud, and the variant swapped in on focus (capped at the original's size)
+const IMAGE_SIZE_PX = 1600;
+const THUMBNAIL_SIZE_PX = 600;
+const FULL_SIZE_PX = 2560;
 
 export class GoogleDriveLoader implements ImageLoader {
   private apiKey: string;
@@ -23,7 +33,7 @@ export class GoogleDriveLoader implements ImageLoader {
 
   // State for new interface
   private _prepared: boolean = false;
-  private _discoveredUrls: string[] = [];
+  private _discoveredImages: ImageDescriptor[] = [];
 
   constructor(config: GoogleDriveLoaderInnerConfig) {
     this.apiKey = config.apiKey ?? '';
@@ -42,18 +52,18 @@ export class GoogleDriveLoader implements ImageLoader {
    * @param filter - Filter to apply to discovered images
    */
   async prepare(filter: IImageFilter): Promise<void> {
-    this._discoveredUrls = [];
+    this._discoveredImages = [];
 
     for (const source of this.sources) {
       if ('folders' in source) {
         for (const folderUrl of source.folders) {
           const recursive = source.recursive !== undefined ? source.recursive : true;
-          const urls = await this.loadFromFolder(folderUrl, filter, recursive);
-          this._discoveredUrls.push(...urls);
+          const images = await this.loadFromFolder(folderUrl, filter, recursive);
+          this._discoveredImages.push(...images);
         }
       } else if ('files' in source) {
-        const urls = await this.loadFiles(source.files, filter);
-        this._discoveredUrls.push(...urls);
+        const images = await this.loadFiles(source.files, filter);
+        this._discoveredImages.push(...images);
       }
     }
 
@@ -68,7 +78,7 @@ export class GoogleDriveLoader implements ImageLoader {
     if (!this._prepared) {
       throw new Error('GoogleDriveLoader.imagesLength() called before prepare()');
     }
-    return this._discoveredUrls.length;
+    return this._discoveredImages.length;
   }
 
   /**
@@ -79,7 +89,20 @@ export class GoogleDriveLoader implements ImageLoader {
     if (!this._prepared) {
       throw new Error('GoogleDriveLoader.imageURLs() called before prepare()');
     }
-    return [...this._discoveredUrls];
+    return this._discoveredImages.map(image => image.url);
+  }
+
+  /**
+   * Get the ordered list of image descriptors
+   * Files listed through the API carry alt text (file name), caption (file description)
+   * and natural dimensions; files added without an API key carry only the URL.
+   * @throws Error if called before prepare()
+   */
+  imageDescriptors(): ImageDescriptor[] {
+    if (!this._prepared) {
+      throw new Error('GoogleDriveLoader.imageDescriptors() called before prepare()');
+    }
+    return this._discoveredImages.map(image => ({ ...image }));
   }
 
   /**
@@ -119,9 +142,9 @@ export class GoogleDriveLoader implements ImageLoader {
    * @param folderUrl - Google Drive folder URL
    * @param filter - Filter to apply to discovered images
    * @param recursive - Whether to include images from subfolders
-   * @returns Promise resolving to array of image URLs
+   * @returns Promise resolving to array of image descriptors
    */
-  private async loadFromFolder(folderUrl: string, filter: IImageFilter, recursive: boolean = true): Promise<string[]> {
+  private async loadFromFolder(folderUrl: string, filter: IImageFilter, recursive: boolean = true): Promise<ImageDescriptor[]> {
     const folderId = this.extractFolderId(folderUrl);
 
     if (!folderId) {
@@ -150,14 +173,14 @@ export class GoogleDriveLoader implements ImageLoader {
    * Load images from a single folder (non-recursive)
    * @param folderId - Google Drive folder ID
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of image URLs
+   * @returns Promise resolving to array of image descriptors
    */
-  private async loadImagesFromSingleFolder(folderId: string, filter: IImageFilter): Promise<string[]> {
-    const imageUrls: string[] = [];
+  private async loadImagesFromSingleFolder(folderId: string, filter: IImageFilter): Promise<ImageDescriptor[]> {
+    const images: ImageDescriptor[] = [];
 
     // Query for all files in this folder
     const query = `'${folderId}' in parents and trashed=false`;
-    const fields = 'files(id,name,mimeType,thumbnailLink)';
+    const fields = `files(${FILE_FIELDS})`;
     const url = `${this.apiEndpoint}?q=${encodeURIComponent(query)}&fields=${fields}&key=${this.apiKey}`;
 
     const response = await fetch(url);
@@ -175,23 +198,23 @@ export class GoogleDriveLoader implements ImageLoader {
 
     this.log(`Found ${validFiles.length} images in folder ${folderId} (non-recursive)`);
 
-    // Add image URLs
+    // Add image descriptors
     validFiles.forEach(file => {
-      imageUrls.push(`https://lh3.googleusercontent.com/d/${file.id}=s1600`);
+      images.push(this.fileToDescriptor(file));
       this.log(`Added file: ${file.name}`);
     });
 
-    return imageUrls;
+    return images;
   }
 
   /**
    * Load specific files by their URLs or IDs
    * @param fileUrls - Array of Google Drive file URLs or IDs
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of image URLs
+   * @returns Promise resolving to array of image descriptors
    */
-  private async loadFiles(fileUrls: string[], filter: IImageFilter): Promise<string[]> {
-    const imageUrls: string[] = [];
+  private async loadFiles(fileUrls: string[], filter: IImageFilter): Promise<ImageDescriptor[]> {
+    const images: ImageDescriptor[] = [];
 
     for (const fileUrl of fileUrls) {
       const fileId = this.extractFileId(fileUrl);
@@ -205,13 +228,13 @@ export class GoogleDriveLoader implements ImageLoader {
       if (this.apiKey && this.apiKey !== 'YOUR_API_KEY_HERE') {
         try {
           // Get file metadata to verify it's an image
-          const metadataUrl = `${this.apiEndpoint}/${fileId}?fields=name,mimeType&key=${this.apiKey}`;
+          const metadataUrl = `${this.apiEndpoint}/${fileId}?fields=${FILE_FIELDS}&key=${this.apiKey}`;
           const response = await fetch(metadataUrl);
 
           if (response.ok) {
-            const metadata = await response.json();
+            const metadata: GoogleDriveFile = await response.json();
             if (metadata.mimeType.startsWith('image/') && filter.isAllowed(metadata.name)) {
-              imageUrls.push(`https://lh3.googleusercontent.com/d/${fileId}=s1600`);
+              images.push(this.fileToDescriptor({ ...metadata, id: fileId }));
               this.log(`Added file: ${metadata.name}`);
             } else {
               this.log(`Skipping non-image file: ${metadata.name} (${metadata.mimeType})`);
@@ -224,11 +247,15 @@ export class GoogleDriveLoader implements ImageLoader {
         }
       } else {
         // Without API key, assume it's valid and add it
-        imageUrls.push(`https://lh3.googleusercontent.com/d/${fileId}=s1600`);
+        images.push({
+          url: this.fileUrl(fileId),
+          thumbnailUrl: this.fileUrl(fileId, THUMBNAIL_SIZE_PX),
+          fullUrl: this.fileUrl(fileId, FULL_SIZE_PX)
+        });
       }
     }
 
-    return imageUrls;
+    return images;
   }
 
   /**
@@ -267,15 +294,14 @@ export class GoogleDriveLoader implements ImageLoader {
    * Recursively load images from a folder and all its subfolders
    * @param folderId - Google Drive folder ID
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of image URLs
+   * @returns Promise resolving to array of image descriptors
    */
-  private async loadImagesRecursively(folderId: string, filter: IImageFilter): Promise<string[]> {
-    const imageUrls: string[] = [];
+  private async loadImagesRecursively(folderId: string, filter: IImageFilter): Promise<ImageDescriptor[]> {
+    const images: ImageDescriptor[] = [];
 
     // Query for all files in this folder
     const query = `'${folderId}' in parents and trashed=false`;
-    // Request thumbnailLink for PDFs
-    const fields = 'files(id,name,mimeType,thumbnailLink)';
+    const fields = `files(${FILE_FIELDS})`;
     const url = `${this.apiEndpoint}?q=${encodeURIComponent(query)}&fields=${fields}&key=${this.apiKey}`;
 
     const response = await fetch(url);
@@ -302,7 +328,7 @@ export class GoogleDriveLoader implements ImageLoader {
     this.log(`- ${validFiles.length} valid files (images only)`);
     this.log(`- ${subfolders.length} subfolders`);
 
-    // Add image URLs from this folder
+    // Add image descriptors from this folder
     validFiles.forEach(file => {
       // Use the reliable thumbnail/preview endpoint for both Images and PDFs
       // This works for public folders and handles file format conversion automatically
@@ -312,7 +338,7 @@ export class GoogleDriveLoader implements ImageLoader {
       // 2. The API's "thumbnailLink" is a signed URL that can expire or fail 403.
       // 3. "lh3.googleusercontent.com/d/{ID}" is the permanent CDN link structure.
       //    It bypasses the domain block AND the signing issues.
-      imageUrls.push(`https://lh3.googleusercontent.com/d/${file.id}=s1600`);
+      images.push(this.fileToDescriptor(file));
 
       this.log(`Added file: ${file.name}`);
     });
@@ -321,10 +347,10 @@ export class GoogleDriveLoader implements ImageLoader {
     for (const folder of subfolders) {
       this.log(`Loading images from subfolder: ${folder.name}`);
       const subfolderImages = await this.loadImagesRecursively(folder.id, filter);
-      imageUrls.push(...subfolderImages);
+      images.push(...subfolderImages);
     }
 
-    return imageUrls;
+    return images;
   }
 
   /**
@@ -332,9 +358,9 @@ export class GoogleDriveLoader implements ImageLoader {
    * Uses embedded folder view to scrape image IDs
    * @param folderId - Google Drive folder ID
    * @param filter - Filter to apply (not used in fallback mode)
-   * @returns Promise resolving to array of image URLs
+   * @returns Promise resolving to array of image descriptors
    */
-  private async loadImagesDirectly(folderId: string, _filter: IImageFilter): Promise<string[]> {
+  private async loadImagesDirectly(folderId: string, _filter: IImageFilter): Promise<ImageDescriptor[]> {
     // For now, we'll return a method that requires the user to manually provide image IDs
     // or we construct URLs based on a known pattern
 
@@ -357,11 +383,9 @@ export class GoogleDriveLoader implements ImageLoader {
       const matches = [...html.matchAll(imageIdPattern)];
       const imageIds = [...new Set(matches.map(m => m[1]))];
 
-      const imageUrls = imageIds.map(id =>
-        `https://drive.google.com/uc?export=view&id=${id}`
-      );
-
-      return imageUrls;
+      return imageIds.map(id => ({
+        url: `https://drive.google.com/uc?export=view&id=${id}`
+      }));
 
     } catch (error) {
       console.error('Direct loading failed:', error);
@@ -383,6 +407,39 @@ export class GoogleDriveLoader implements ImageLoader {
     return imageIds.map(id => `https://drive.google.com/uc?export=view&id=${id}`);
   }
 
+  /**
+   * Build the CDN URL for a Drive file ID
+   * @param fileId - Google Drive file ID
+   * @param size - Longest side of the rendition in pixels
+   * @returns Image URL
+   */
+  private fileUrl(fileId: string, size: number = IMAGE_SIZE_PX): string {
+    return `https://lh3.googleusercontent.com/d/${fileId}=s${size}`;
+  }
+
+  /**
+   * Build an image descriptor from Drive file metadata
+   * @param file - Drive file resource (requested with FILE_FIELDS)
+   * @returns Descriptor with cloud and focus variants, alt text, caption, dimensions and Drive metadata
+   */
+  private fileToDescriptor(file: GoogleDriveFile): ImageDescriptor {
+    const { width, height } = file.imageMediaMetadata ?? {};
+    const fullSize = width && height ? Math.min(Math.max(width, height), FULL_SIZE_PX) : FULL_SIZE_PX;
+    const descriptor: ImageDescriptor = {
+      url: this.fileUrl(file.id),
+      thumbnailUrl: this.fileUrl(file.id, THUMBNAIL_SIZE_PX),
+      fullUrl: this.fileUrl(file.id, fullSize),
+      alt: file.name.replace(/\.[^.]+$/, ''),
+      meta: { id: file.id, name: file.name, mimeType: file.mimeType }
+    };
+    if (file.description) descriptor.caption = file.description;
+    if (width && height) {
+      descriptor.width = width;
+      descriptor.height = height;
+    }
+    return descriptor;
+  }
+
   /**
    * Debug logging helper
    * @param args - Arguments to log
@@ -7,10 +7,12 @@
  * - prepare(filter) - Async discovery of images
  * - imagesLength() - Get count of discovered images
  * - imageURLs() - Get ordered list of image URLs
+ * - imageDescriptors() - Get ordered list of image descriptors
  * - isPrepared() - Check if loader has been prepared
  */
 
-import type { ImageLoader, IImageFilter, StaticSource, StaticLoaderInnerConfig } from '../config/types';
+import type { ImageLoader, IImageFilter, StaticSource, StaticLoaderInnerConfig, ImageDescriptor, ImageSource } from '../config/types';
+import { toImageDescriptor } from '../utils/imageDescriptor';
 
 export class StaticImageLoader implements ImageLoader {
   private validateUrls: boolean;
@@ -21,7 +23,7 @@ export class StaticImageLoader implements ImageLoader {
 
   // State for new interface
   private _prepared: boolean = false;
-  private _discoveredUrls: string[] = [];
+  private _discoveredImages: ImageDescriptor[] = [];
 
   constructor(config: StaticLoaderInnerConfig) {
     this.validateUrls = config.validateUrls !== false;
@@ -43,15 +45,15 @@ export class StaticImageLoader implements ImageLoader {
    * @param filter - Filter to apply to discovered images
    */
   async prepare(filter: IImageFilter): Promise<void> {
-    this._discoveredUrls = [];
+    this._discoveredImages = [];
 
     this.log(`Processing ${this.sources.length} source(s)`);
 
     // Process sources sequentially to preserve order
     for (const source of this.sources) {
       try {
-        const urls = await this.processSource(source, filter);
-        this._discoveredUrls.push(...urls);
+        const images = await this.processSource(source, filter);
+        this._discoveredImages.push(...images);
       } catch (error) {
         console.warn('Failed to process source:', source, error);
         // Continue processing other sources
@@ -59,7 +61,7 @@ export class StaticImageLoader implements ImageLoader {
     }
 
     this._prepared = true;
-    this.log(`Successfully loaded ${this._discoveredUrls.length} image(s)`);
+    this.log(`Successfully loaded ${this._discoveredImages.length} image(s)`);
   }
 
   /**
@@ -70,7 +72,7 @@ export class StaticImageLoader implements ImageLoader {
     if (!this._prepared) {
       throw new Error('StaticImageLoader.imagesLength() called before prepare()');
     }
-    return this._discoveredUrls.length;
+    return this._discoveredImages.length;
   }
 
   /**
@@ -81,7 +83,18 @@ export class StaticImageLoader implements ImageLoader {
     if (!this._prepared) {
       throw new Error('StaticImageLoader.imageURLs() called before prepare()');
     }
-    return [...this._discoveredUrls];
+    return this._discoveredImages.map(image => image.url);
+  }
+
+  /**
+   * Get the ordered list of image descriptors
+   * @throws Error if called before prepare()
+   */
+  imageDescriptors(): ImageDescriptor[] {
+    if (!this._prepared) {
+      throw new Error('StaticImageLoader.imageDescriptors() called before prepare()');
+    }
+    return this._discoveredImages.map(image => ({ ...image }));
   }
 
   /**
@@ -95,9 +108,9 @@ export class StaticImageLoader implements ImageLoader {
    * Process a single source object using shape-based detection
    * @param source - Source configuration detected by key presence
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of valid URLs from this source
+   * @returns Promise resolving to array of valid image descriptors from this source
    */
-  private async processSource(source: StaticSource, filter: IImageFilter): Promise<string[]> {
+  private async processSource(source: StaticSource, filter: IImageFilter): Promise<ImageDescriptor[]> {
     if (!source) {
       console.warn('Invalid source object:', source);
       return [];
@@ -116,20 +129,27 @@ export class StaticImageLoader implements ImageLoader {
   }
 
   /**
-   * Process a list of direct URLs
-   * @param urls - Array of image URLs
+   * Process a list of direct URLs or image descriptors
+   * @param urls - Array of image URLs and/or descriptor objects
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of validated URLs
+   * @returns Promise resolving to array of validated image descriptors
    */
-  private async processUrls(urls: string[], filter: IImageFilter): Promise<string[]> {
+  private async processUrls(urls: ImageSource[], filter: IImageFilter): Promise<ImageDescriptor[]> {
     if (!Array.isArray(urls)) {
       console.warn('URLs must be an array:', urls);
       return [];
     }
 
-    const validUrls: string[] = [];
+    const validImages: ImageDescriptor[] = [];
+
+    for (const entry of urls) {
+      const image = toImageDescriptor(entry);
+      if (!image) {
+        console.warn('Skipping image entry without a url:', entry);
+        continue;
+      }
+      const url = image.url;
 
-    for (const url of urls) {
       // Apply filter based on URL filename
       const filename = url.split('/').pop() || url;
       if (!filter.isAllowed(filename)) {
@@ -140,17 +160,17 @@ export class StaticImageLoader implements ImageLoader {
       if (this.validateUrls) {
         const isValid = await this.validateUrl(url);
         if (isValid) {
-          validUrls.push(url);
+          validImages.push(image);
         } else {
           console.warn(`Skipping invalid/missing URL: ${url}`);
         }
       } else {
         // No validation - add all URLs
-        validUrls.push(url);
+        validImages.push(image);
       }
     }
 
-    return validUrls;
+    return validImages;
   }
 
   /**
@@ -158,16 +178,16 @@ export class StaticImageLoader implements ImageLoader {
    * @param basePath - Base path (relative or absolute)
    * @param files - Array of filenames
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of validated URLs
+   * @returns Promise resolving to array of validated image descriptors
    */
-  private async processPath(basePath: string, files: string[], filter: IImageFilter): Promise<string[]> {
+  private async processPath(basePath: string, files: string[], filter: IImageFilter): Promise<ImageDescriptor[]> {
 
     if (!Array.isArray(files)) {
       console.warn('files must be an array:', files);
       return [];
     }
 
-    const validUrls: string[] = [];
+    const validImages: ImageDescriptor[] = [];
 
     for (const file of files) {
       // Apply filter based on filename
@@ -181,27 +201,27 @@ export class StaticImageLoader implements ImageLoader {
       if (this.validateUrls) {
         const isValid = await this.validateUrl(url);
         if (isValid) {
-          validUrls.push(url);
+          validImages.push({ url });
         } else {
           console.warn(`Skipping invalid/missing file: ${url}`);
         }
       } else {
         // No validation - add all URLs
-        validUrls.push(url);
+        validImages.push({ url });
       }
     }
 
-    return validUrls;
+    return validImages;
   }
 
   /**
    * Process a JSON endpoint source
-   * Fetches a JSON endpoint that returns { images: string[] }
+   * Fetches a JSON endpoint that returns { images: (string | ImageDescriptor)[] }
    * @param url - JSON endpoint URL
    * @param filter - Filter to apply to discovered images
-   * @returns Promise resolving to array of validated URLs
+   * @returns Promise resolving to array of validated image descriptors
    */
-  private async processJson(url: string, filter: IImageFilter): Promise<string[]> {
+  private async processJson(url: string, filter: IImageFilter): Promise<ImageDescriptor[]> {
 
     this.log(`Fetching JSON endpoint: ${url}`);
 
@@ -219,7 +239,7 @@ export class StaticImageLoader implements ImageLoader {
       const data = await response.json();
 
       if (!data || !Array.isArray(data.images)) {
-        throw new Error(`JSON source must return JSON with shape { "images": ["url1", "url2", ...] }`);
+        throw new Error(`JSON source must return JSON with shape { "images": ["url1", { "url": "url2", "alt": "..." }, ...] }`);
       }
 
       this.log(`JSON endpoint returned ${data.images.length} image(s)`);
@@ -28,6 +28,10 @@ export const ImageCloud = forwardRef<ImageCloudRef, ImageCloudProps>(
       },
     }));
 
+    // Options as of the last create/update, to skip effects that change nothing
+    const optionsKey = JSON.stringify(options);
+    const appliedKeyRef = useRef(optionsKey);
+
     useEffect(() => {
       if (!containerRef.current) return;
 
@@ -36,6 +40,7 @@ export const ImageCloud = forwardRef<ImageCloudRef, ImageCloudProps>(
         ...options,
       });
       instanceRef.current = cloud;
+      appliedKeyRef.current = optionsKey;
 
       cloud.init().catch((err) => {
         console.error('ImageCloud init failed:', err);
@@ -46,7 +51,19 @@ export const ImageCloud = forwardRef<ImageCloudRef, ImageCloudProps>(
         instanceRef.current = null;
       };
       // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [JSON.stringify(options)]);
+    }, []);
+
+    // Replace the live instance's options instead of recreating it (props left out fall back to defaults)
+    useEffect(() => {
+      const cloud = instanceRef.current;
+      if (!cloud || appliedKeyRef.current === optionsKey) return;
+      appliedKeyRef.current = optionsKey;
+
+      cloud.setOptions(options).catch((err) => {
+        console.error('ImageCloud update failed:', err);
+      });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [optionsKey]);
 
     return <div ref={containerRef} className={className} style={style} />;
   }
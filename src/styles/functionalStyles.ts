@@ -39,6 +39,191 @@ export const FUNCTIONAL_CSS = `
   will-change: auto;
 }
 
+/* Declared dimensions: a box holds the image's slot until it has downloaded */
+.fbn-ic-image.fbn-ic-placeholder {
+  background-color: rgba(128, 128, 128, 0.25);
+  color: transparent;
+}
+
+/* Drag to rearrange: images take pointer input instead of scrolling the page */
+.fbn-ic-gallery.fbn-ic-rearrange .fbn-ic-image:not(.fbn-ic-focused) {
+  cursor: grab;
+  touch-action: none;
+}
+
+.fbn-ic-image.fbn-ic-dragging {
+  cursor: grabbing;
+}
+
+/* Detail zoom: the focused image takes pinch and drag input instead of scrolling the page */
+.fbn-ic-detail-zoom .fbn-ic-image.fbn-ic-focused {
+  cursor: zoom-in;
+  touch-action: none;
+}
+
+.fbn-ic-detail-zoom .fbn-ic-image.fbn-ic-zoomed-in {
+  cursor: grab;
+}
+
+/* Lightbox: a full-viewport overlay; it only takes input while open */
+.fbn-ic-lightbox {
+  position: fixed;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  left: 0;
+  z-index: 10002;
+  pointer-events: none;
+  outline: none;
+}
+.fbn-ic-lightbox.fbn-ic-lightbox-open {
+  pointer-events: auto;
+}
+.fbn-ic-lightbox-backdrop,
+.fbn-ic-lightbox-footer,
+.fbn-ic-lightbox-btn {
+  opacity: 0;
+  transition: opacity var(--fbn-ic-lightbox-duration) ease;
+}
+.fbn-ic-lightbox-open .fbn-ic-lightbox-backdrop,
+.fbn-ic-lightbox-open .fbn-ic-lightbox-footer,
+.fbn-ic-lightbox-open .fbn-ic-lightbox-btn {
+  opacity: 1;
+}
+.fbn-ic-lightbox-backdrop {
+  position: absolute;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  left: 0;
+  background: rgba(0, 0, 0, 0.9);
+}
+.fbn-ic-lightbox-stage {
+  position: absolute;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  left: 0;
+  overflow: hidden;
+}
+.fbn-ic-lightbox .fbn-ic-image {
+  cursor: default;
+}
+.fbn-ic-lightbox-footer {
+  position: absolute;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  z-index: 1;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+}
+.fbn-ic-lightbox-caption {
+  max-width: 80%;
+  text-align: center;
+}
+.fbn-ic-lightbox-filmstrip {
+  display: flex;
+  max-width: 100%;
+  overflow-x: auto;
+}
+.fbn-ic-lightbox-thumb {
+  flex: none;
+  width: 64px;
+  height: 48px;
+  overflow: hidden;
+  border: none;
+  background: none;
+  padding: 0;
+  cursor: pointer;
+}
+.fbn-ic-lightbox-thumb img {
+  display: block;
+  width: 100%;
+  height: 100%;
+  object-fit: cover;
+}
+.fbn-ic-lightbox-btn {
+  position: absolute;
+  z-index: 1;
+  cursor: pointer;
+  border: none;
+  background: none;
+  padding: 0;
+  line-height: 1;
+}
+.fbn-ic-lightbox-close {
+  top: 12px;
+  right: 12px;
+}
+.fbn-ic-lightbox-prev,
+.fbn-ic-lightbox-next {
+  top: 50%;
+  transform: translateY(-50%);
+}
+.fbn-ic-lightbox-prev {
+  left: 12px;
+}
+.fbn-ic-lightbox-next {
+  right: 12px;
+}
+
+/* Canvas mode: the images sit on a stage that is panned and zoomed as a whole */
+.fbn-ic-gallery.fbn-ic-canvas-mode {
+  cursor: grab;
+  touch-action: none;
+}
+
+.fbn-ic-gallery.fbn-ic-panning,
+.fbn-ic-gallery.fbn-ic-panning .fbn-ic-image {
+  cursor: grabbing;
+}
+
+.fbn-ic-canvas {
+  position: absolute;
+  left: 0;
+  top: 0;
+  transform-origin: 0 0;
+  perspective: 1000px;
+}
+
+/* 3D layouts: sideways drags spin the scene, vertical ones still scroll the page */
+.fbn-ic-gallery.fbn-ic-scene-mode {
+  cursor: grab;
+  touch-action: pan-y;
+}
+
+.fbn-ic-gallery.fbn-ic-spinning,
+.fbn-ic-gallery.fbn-ic-spinning .fbn-ic-image {
+  cursor: grabbing;
+}
+
+.fbn-ic-minimap {
+  position: absolute;
+  right: 12px;
+  bottom: 12px;
+  z-index: 10000;
+  overflow: hidden;
+  background: rgba(0, 0, 0, 0.5);
+  cursor: pointer;
+  touch-action: none;
+}
+.fbn-ic-gallery.fbn-ic-has-focus .fbn-ic-minimap {
+  display: none;
+}
+.fbn-ic-minimap-item {
+  position: absolute;
+  background: rgba(255, 255, 255, 0.5);
+  pointer-events: none;
+}
+.fbn-ic-minimap-viewport {
+  position: absolute;
+  box-sizing: border-box;
+  border: 1px solid #fff;
+  pointer-events: none;
+}
+
 .fbn-ic-counter {
   position: fixed;
   bottom: 24px;
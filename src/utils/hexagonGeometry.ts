@@ -1,9 +1,11 @@
 /**
  * hexagonGeometry.ts
  * Single source of truth for hexagonal grid math.
- * Used by clipPathGenerator.ts and HoneycombPlacementLayout.ts.
+ * Used by clipPathGenerator.ts, HoneycombPlacementLayout.ts and LayoutEngine's honeycomb sizing.
  */
 
+import type { HoneycombShape } from '../config/types';
+
 /** Reference height for the canonical hexagon definition (100px) */
 export const HEXAGON_REF_HEIGHT = 100;
 
@@ -35,6 +37,9 @@ export const HEXAGON_COL_STEP_RATIO = HEXAGON_REF_POINTS[1][0] / HEXAGON_REF_HEI
 /** Row-offset ratio = y of right vertex / refHeight = 50/100 = 0.50 (unchanged) */
 export const HEXAGON_ROW_OFFSET_RATIO = HEXAGON_REF_POINTS[2][1] / HEXAGON_REF_HEIGHT; // 0.50
 
+/** Half-width ratio = circumradius / refHeight = 1/√3 ≈ 0.577 */
+const HEXAGON_HALF_WIDTH_RATIO = HEXAGON_REF_POINTS[2][0] / 2 / HEXAGON_REF_HEIGHT; // 1/√3 ≈ 0.577
+
 /**
  * Returns tiling parameters for a hexagon of the given height.
  * Derived from the canonical reference points, not hardcoded constants.
@@ -93,3 +98,110 @@ export function getHexRingCells(ring: number): Array<[number, number, number]> {
   }
   return cells;
 }
+
+/**
+ * Returns cube coordinates for a rectangular tiling, row by row from the top-left.
+ * Odd columns sit half a hex lower. A partial last row is centered.
+ * @param imageCount - Number of cells
+ * @param columns - Cells per row
+ */
+export function getHexRectangleCells(imageCount: number, columns: number): Array<[number, number, number]> {
+  const cells: Array<[number, number, number]> = [];
+  for (let index = 0; index < imageCount; index++) {
+    const row = Math.floor(index / columns);
+    const inRow = Math.min(columns, imageCount - row * columns);
+    const col = index % columns + Math.floor((columns - inRow) / 2);
+    // Offset (col, row) to cube: cy + cx/2 must equal row, plus ½ on odd columns
+    const cx = col;
+    const cy = row - (col - (col & 1)) / 2;
+    cells.push([cx, cy, -cx - cy]);
+  }
+  return cells;
+}
+
+/** How a honeycomb is tiled, with the largest hex height that fits the container */
+export type HexTiling =
+  | { shape: 'rings'; maxHeight: number }
+  | { shape: 'rectangle'; maxHeight: number; columns: number; rows: number };
+
+/**
+ * Largest hex height at which all rings fit within the container.
+ * Spacing is additive on top of the hex height, so it only tightens the constraint.
+ */
+function getHexRingsMaxHeight(imageCount: number, width: number, height: number, padding: number, spacing: number): number {
+  if (imageCount <= 1) return Infinity;
+
+  // Find outermost ring: cells in rings 0..k = 1 + 3k(k+1)
+  let maxRing = 0;
+  let total = 1;
+  while (total < imageCount) {
+    maxRing++;
+    total += 6 * maxRing;
+  }
+
+  // Vertical: height/2 - maxRing*(size+spacing) - size/2 >= padding
+  const maxV = (height / 2 - padding - spacing * maxRing) / (maxRing + 0.5);
+
+  // Horizontal: width/2 - COL_STEP_RATIO*maxRing*(size+spacing) - HALF_WIDTH_RATIO*size >= padding
+  const maxH = (width / 2 - padding - HEXAGON_COL_STEP_RATIO * spacing * maxRing)
+               / (HEXAGON_COL_STEP_RATIO * maxRing + HEXAGON_HALF_WIDTH_RATIO);
+
+  return Math.max(10, Math.min(maxV, maxH));
+}
+
+/**
+ * Columns and rows of the rectangular tiling that allows the largest hexes,
+ * which is the one closest to the container's aspect ratio.
+ */
+function getHexRectangleGrid(
+  imageCount: number, width: number, height: number, padding: number, spacing: number
+): { maxHeight: number; columns: number; rows: number } {
+  const availableWidth = width - 2 * padding;
+  const availableHeight = height - 2 * padding;
+  let best = { maxHeight: -Infinity, columns: 1, rows: Math.max(1, imageCount) };
+
+  for (let columns = 1; columns <= Math.max(1, imageCount); columns++) {
+    const rows = Math.ceil(imageCount / columns);
+    // Odd columns sit half a pitch lower, so more than one column adds half a row
+    const pitchRows = rows - 1 + (columns > 1 ? HEXAGON_ROW_OFFSET_RATIO : 0);
+
+    // Horizontal: (columns-1) × colStep × (size+spacing) + 2 × HALF_WIDTH_RATIO × size <= availableWidth
+    const maxH = (availableWidth - HEXAGON_COL_STEP_RATIO * spacing * (columns - 1))
+                 / (HEXAGON_COL_STEP_RATIO * (columns - 1) + 2 * HEXAGON_HALF_WIDTH_RATIO);
+
+    // Vertical: pitchRows × (size+spacing) + size <= availableHeight
+    const maxV = (availableHeight - spacing * pitchRows) / (pitchRows + 1);
+
+    const maxHeight = Math.min(maxH, maxV);
+    if (maxHeight > best.maxHeight) best = { maxHeight, columns, rows };
+  }
+
+  return { ...best, maxHeight: Math.max(10, best.maxHeight) };
+}
+
+/**
+ * Resolves a honeycomb shape to its tiling. 'fit' picks whichever of rings
+ * and rectangle allows larger hexes in this container.
+ * @param shape - Configured honeycomb shape
+ * @param imageCount - Number of images
+ * @param width - Container width
+ * @param height - Container height
+ * @param padding - Container padding (layout.spacing.padding)
+ * @param spacing - Extra gap between hexes (layout.honeycomb.spacing)
+ */
+export function resolveHexTiling(
+  shape: HoneycombShape,
+  imageCount: number,
+  width: number,
+  height: number,
+  padding: number,
+  spacing: number
+): HexTiling {
+  const rings: HexTiling = { shape: 'rings', maxHeight: getHexRingsMaxHeight(imageCount, width, height, padding, spacing) };
+  if (shape === 'rings') return rings;
+
+  const rectangle: HexTiling = { shape: 'rectangle', ...getHexRectangleGrid(imageCount, width, height, padding, spacing) };
+  if (shape === 'rectangle') return rectangle;
+
+  return rings.maxHeight >= rectangle.maxHeight ? rings : rectangle;
+}
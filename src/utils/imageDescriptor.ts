@@ -0,0 +1,92 @@
+/**
+ * imageDescriptor.ts
+ * Normalizes the image sources loaders accept (bare URL strings or
+ * ImageDescriptor objects) into ImageDescriptor objects.
+ */
+
+import type { ImageDescriptor, ImageSource } from '../config/types';
+
+/**
+ * Normalize a single image source into a descriptor
+ * @param source - URL string or descriptor object (may be unvalidated JSON)
+ * @returns A fresh descriptor, or null if the source has no usable URL
+ */
+export function toImageDescriptor(source: ImageSource | null | undefined): ImageDescriptor | null {
+  if (typeof source === 'string') {
+    return source.length > 0 ? { url: source } : null;
+  }
+  if (source && typeof source === 'object' && typeof (source as ImageDescriptor).url === 'string') {
+    const descriptor = source as ImageDescriptor;
+    if (descriptor.url.length === 0) return null;
+    return { ...descriptor };
+  }
+  return null;
+}
+
+/**
+ * Wrap a list of URLs as descriptors (fallback for loaders without imageDescriptors())
+ * @param urls - Ordered list of image URLs
+ */
+export function descriptorsFromUrls(urls: string[]): ImageDescriptor[] {
+  return urls.map(url => ({ url }));
+}
+
+/**
+ * URL of the variant shown in the cloud
+ */
+export function getThumbnailUrl(image: ImageDescriptor): string {
+  return image.thumbnailUrl || image.url;
+}
+
+/**
+ * URL of the variant shown while the image is focused: fullUrl, else the widest
+ * srcset candidate, else url
+ */
+export function getFullUrl(image: ImageDescriptor): string {
+  return image.fullUrl || (image.srcset ? largestSrcsetCandidate(image.srcset) : null) || image.url;
+}
+
+/**
+ * Pick the largest candidate of a srcset attribute value
+ * Width descriptors (`640w`) win over density descriptors (`2x`); a candidate without
+ * a descriptor counts as `1x`.
+ * @param srcset - srcset attribute value
+ * @returns Candidate URL, or null if the srcset has no candidates
+ */
+export function largestSrcsetCandidate(srcset: string): string | null {
+  let best: { url: string; width: number; density: number } | null = null;
+  let rest = srcset;
+  for (;;) {
+    rest = rest.replace(/^[\s,]+/, '');
+    if (!rest) break;
+    // As in the HTML parser: the URL runs to whitespace, and trailing commas end the candidate
+    let url = rest.match(/^\S+/)![0];
+    rest = rest.slice(url.length);
+    let descriptor = '';
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      descriptor = rest.match(/^[^,]*/)![0];
+      rest = rest.slice(descriptor.length);
+      descriptor = descriptor.trim();
+    }
+
+    const value = parseFloat(descriptor) || 1;
+    const width = descriptor.endsWith('w') ? value : 0;
+    const density = descriptor.endsWith('w') ? 0 : value;
+    if (!best || width > best.width || (width === best.width && density > best.density)) {
+      best = { url, width, density };
+    }
+  }
+  return best?.url ?? null;
+}
+
+/**
+ * Aspect ratio (width / height) from the descriptor's declared dimensions
+ * @returns The ratio, or undefined if width and height are not both known
+ */
+export function getKnownAspectRatio(image: ImageDescriptor | undefined): number | undefined {
+  const width = image?.width;
+  const height = image?.height;
+  return width && height && width > 0 && height > 0 ? width / height : undefined;
+}
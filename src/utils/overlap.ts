@@ -0,0 +1,407 @@
+/**
+ * overlap.ts
+ * Measures how much image footprints overlap, relaxes a layout until they overlap less,
+ * and moves images off exclusion zones and pinned images.
+ * Used by LayoutEngine.ts for layout.collision, layout.exclusionZones and pinned images.
+ *
+ * A footprint is the rectangle an image is drawn in: its size times the layout scale,
+ * rotated by the layout rotation. Overlap is measured exactly on those rectangles;
+ * the relaxation pushes pairs apart using their bounding boxes, which is cheaper and
+ * errs on the side of leaving a little more room around rotated images.
+ */
+
+import type { ImageLayout, ContainerBounds, LayoutCollisionConfig, ExclusionZone } from '../config/types';
+
+export const DEFAULT_COLLISION_CONFIG: Required<LayoutCollisionConfig> = {
+  enabled: false,
+  maxOverlap: 0.02,
+  iterations: 200,
+  gap: 0,
+  anchorStrength: 0.05
+};
+
+/** Unscaled size of an image, as rendered before layout.scale is applied */
+export interface FootprintSize {
+  width: number;
+  height: number;
+}
+
+// Spreads images that share a center in different directions
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Directions tried when moving an image off an obstacle
+const SEARCH_DIRECTIONS = 16;
+
+// Overlap with obstacles, in px², that still counts as clear
+const CLEAR_AREA = 0.5;
+
+type Point = [number, number];
+
+interface Obstacle {
+  polygon: Point[];
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface Footprint {
+  x: number;
+  y: number;
+  corners: Point[];    // Relative to the center
+  halfWidth: number;   // Half of the rotated footprint's bounding box
+  halfHeight: number;
+  area: number;
+}
+
+interface CollisionBody extends Footprint {
+  originX: number;     // Where the layout algorithm put the image
+  originY: number;
+  anchored: boolean;
+}
+
+function createFootprint(layout: ImageLayout, size: FootprintSize): Footprint {
+  const halfW = (size.width * layout.scale) / 2;
+  const halfH = (size.height * layout.scale) / 2;
+  const radians = (layout.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const corners: Point[] = [[-halfW, -halfH], [halfW, -halfH], [halfW, halfH], [-halfW, halfH]]
+    .map(([x, y]) => [x * cos - y * sin, x * sin + y * cos]);
+  return {
+    x: layout.x,
+    y: layout.y,
+    corners,
+    halfWidth: halfW * Math.abs(cos) + halfH * Math.abs(sin),
+    halfHeight: halfW * Math.abs(sin) + halfH * Math.abs(cos),
+    area: 4 * halfW * halfH
+  };
+}
+
+function toPolygon(footprint: Footprint): Point[] {
+  return footprint.corners.map(([x, y]) => [footprint.x + x, footprint.y + y]);
+}
+
+/**
+ * Signed shoelace area; positive for counter-clockwise points (in y-up coordinates)
+ */
+function signedArea(polygon: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+}
+
+/**
+ * Clip a polygon to a convex polygon (Sutherland–Hodgman)
+ */
+function clipPolygon(subject: Point[], clip: Point[]): Point[] {
+  const orientation = Math.sign(signedArea(clip));
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const [ax, ay] = clip[i];
+    const [bx, by] = clip[(i + 1) % clip.length];
+    const side = ([x, y]: Point) => orientation * ((bx - ax) * (y - ay) - (by - ay) * (x - ax));
+
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j];
+      const previous = input[(j + input.length - 1) % input.length];
+      const currentSide = side(current);
+      const previousSide = side(previous);
+      if ((currentSide >= 0) !== (previousSide >= 0)) {
+        // The edge crosses the clip line: keep the crossing point
+        const t = previousSide / (previousSide - currentSide);
+        output.push([previous[0] + (current[0] - previous[0]) * t, previous[1] + (current[1] - previous[1]) * t]);
+      }
+      if (currentSide >= 0) output.push(current);
+    }
+  }
+  return output;
+}
+
+/**
+ * Overlapping area of every pair divided by the total footprint area
+ */
+function overlapRatio(footprints: Footprint[]): number {
+  let totalArea = 0;
+  for (const footprint of footprints) totalArea += footprint.area;
+  if (totalArea === 0) return 0;
+
+  const polygons = footprints.map(toPolygon);
+  let overlap = 0;
+  for (let i = 0; i < footprints.length; i++) {
+    for (let j = i + 1; j < footprints.length; j++) {
+      const a = footprints[i];
+      const b = footprints[j];
+      // Bounding boxes apart: the footprints cannot touch
+      if (Math.abs(a.x - b.x) >= a.halfWidth + b.halfWidth || Math.abs(a.y - b.y) >= a.halfHeight + b.halfHeight) continue;
+      overlap += Math.abs(signedArea(clipPolygon(polygons[i], polygons[j])));
+    }
+  }
+  return overlap / totalArea;
+}
+
+/**
+ * How much a layout's images overlap: the area shared by every pair of images
+ * divided by the total image area. 0 means no image touches another; images
+ * stacked exactly on top of each other in pairs give 0.5.
+ * @param layouts - Positions, rotations and scales, e.g. from LayoutEngine.generateLayout()
+ * @param sizes - Unscaled rendered size per layout (the image height times its aspect ratio, by the image height)
+ */
+export function measureOverlap(layouts: ImageLayout[], sizes: FootprintSize[]): number {
+  if (sizes.length < layouts.length) {
+    throw new Error(
+      `[image-cloud] measureOverlap() got ${layouts.length} layouts but ${sizes.length} sizes. ` +
+      'Pass one { width, height } per layout, in the same order.'
+    );
+  }
+  return overlapRatio(layouts.map((layout, i) => createFootprint(layout, sizes[i])));
+}
+
+/**
+ * Push two bodies apart along the line between their centers until their bounding
+ * boxes (plus the gap) no longer overlap
+ */
+function separate(a: CollisionBody, b: CollisionBody, gap: number, index: number): void {
+  if (a.anchored && b.anchored) return;
+
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const reachX = a.halfWidth + b.halfWidth + gap;
+  const reachY = a.halfHeight + b.halfHeight + gap;
+  // Small tolerance so floating-point leftovers do not count as overlap
+  if (reachX - Math.abs(dx) <= 0.01 || reachY - Math.abs(dy) <= 0.01) return;
+
+  const distance = Math.hypot(dx, dy);
+  const angle = distance > 0 ? Math.atan2(dy, dx) : index * GOLDEN_ANGLE;
+  const ux = Math.cos(angle);
+  const uy = Math.sin(angle);
+  // Distance along that line at which the boxes part on either axis
+  const push = Math.min(
+    Math.abs(ux) > 1e-9 ? reachX / Math.abs(ux) - distance : Infinity,
+    Math.abs(uy) > 1e-9 ? reachY / Math.abs(uy) - distance : Infinity
+  );
+
+  // Anchored bodies do not move, so the other one takes the whole push
+  const shareA = a.anchored ? 0 : b.anchored ? 1 : 0.5;
+  const shareB = 1 - shareA;
+  a.x -= ux * push * shareA;
+  a.y -= uy * push * shareA;
+  b.x += ux * push * shareB;
+  b.y += uy * push * shareB;
+}
+
+/**
+ * Keep a value inside the container, except on the side the algorithm already placed it beyond
+ */
+function clampToContainer(value: number, origin: number, half: number, size: number): number {
+  const min = Math.min(origin, half);
+  const max = Math.max(origin, size - half);
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Nudge overlapping images apart until the overlap ratio (see measureOverlap) is at
+ * most `maxOverlap` or the step limit is reached. Each step first pulls every image
+ * back toward its original position, so rings stay rings and grids stay grids.
+ * Images pushed onto an obstacle move to the nearest clear spot in the same step,
+ * so pass layouts that are already clear of the obstacles (see avoidObstacles).
+ * @param layouts - Layouts from a placement algorithm; they are not modified
+ * @param sizes - Unscaled rendered size per layout
+ * @param containerBounds - Images are not pushed out of the container
+ * @param config - Relaxation settings (defaults: DEFAULT_COLLISION_CONFIG)
+ * @param anchors - Indexes of images that keep their position
+ * @param obstacles - Polygons in px that images are kept off, e.g. from exclusionZonePolygon()
+ * @returns New layouts with updated positions
+ */
+export function resolveCollisions(
+  layouts: ImageLayout[],
+  sizes: FootprintSize[],
+  containerBounds: ContainerBounds,
+  config: LayoutCollisionConfig = {},
+  anchors: number[] = [],
+  obstacles: Point[][] = []
+): ImageLayout[] {
+  const settings = { ...DEFAULT_COLLISION_CONFIG, ...config };
+  const areas = obstacles.filter(polygon => polygon.length >= 3).map(toObstacle);
+  const anchored = new Set(anchors);
+  const bodies: CollisionBody[] = layouts.map((layout, i) => ({
+    ...createFootprint(layout, sizes[i]),
+    originX: layout.x,
+    originY: layout.y,
+    anchored: anchored.has(i)
+  }));
+
+  if (overlapRatio(bodies) <= settings.maxOverlap) {
+    return layouts.map(layout => ({ ...layout }));
+  }
+
+  for (let step = 0; step < settings.iterations; step++) {
+    // The pull fades out over the steps, so it cannot hold images in overlap indefinitely
+    const pull = settings.anchorStrength * (1 - step / settings.iterations);
+    for (const body of bodies) {
+      if (body.anchored) continue;
+      body.x += (body.originX - body.x) * pull;
+      body.y += (body.originY - body.y) * pull;
+    }
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        separate(bodies[i], bodies[j], settings.gap, j);
+      }
+    }
+    for (const body of bodies) {
+      if (body.anchored) continue;
+      body.x = clampToContainer(body.x, body.originX, body.halfWidth, containerBounds.width);
+      body.y = clampToContainer(body.y, body.originY, body.halfHeight, containerBounds.height);
+      if (areas.length > 0 && obstacleOverlap(body, areas) > CLEAR_AREA) {
+        const spot = findClearSpot(body, body.originX, body.originY, areas, containerBounds);
+        if (spot) {
+          body.x = spot.x;
+          body.y = spot.y;
+        }
+      }
+    }
+    if (overlapRatio(bodies) <= settings.maxOverlap) break;
+  }
+
+  return layouts.map((layout, i) => ({ ...layout, x: bodies[i].x, y: bodies[i].y }));
+}
+
+/**
+ * Corners of an exclusion zone in px
+ */
+export function exclusionZonePolygon(zone: ExclusionZone, containerBounds: ContainerBounds): Point[] {
+  const { width, height } = containerBounds;
+  if ('points' in zone) {
+    return zone.points.map(([x, y]) => [x * width, y * height]);
+  }
+  const left = zone.x * width;
+  const top = zone.y * height;
+  const right = left + zone.width * width;
+  const bottom = top + zone.height * height;
+  return [[left, top], [right, top], [right, bottom], [left, bottom]];
+}
+
+/**
+ * Corners of an image footprint in px
+ */
+export function footprintPolygon(layout: ImageLayout, size: FootprintSize): Point[] {
+  return toPolygon(createFootprint(layout, size));
+}
+
+function toObstacle(polygon: Point[]): Obstacle {
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  return { polygon, minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/**
+ * Area a footprint shares with the obstacles. Obstacles are clipped to the
+ * (convex) footprint, so they may be concave.
+ */
+function obstacleOverlap(footprint: Footprint, obstacles: Obstacle[]): number {
+  let polygon: Point[] | null = null;
+  let area = 0;
+  for (const obstacle of obstacles) {
+    if (footprint.x + footprint.halfWidth <= obstacle.minX || footprint.x - footprint.halfWidth >= obstacle.maxX ||
+        footprint.y + footprint.halfHeight <= obstacle.minY || footprint.y - footprint.halfHeight >= obstacle.maxY) continue;
+    polygon ??= toPolygon(footprint);
+    area += Math.abs(signedArea(clipPolygon(obstacle.polygon, polygon)));
+  }
+  return area;
+}
+
+/**
+ * Nearest spot, in SEARCH_DIRECTIONS directions from the footprint's position, where
+ * it covers no obstacle and stays inside the container (or beyond the edge the
+ * origin is already beyond)
+ * @returns The clear position, or null when none is in reach
+ */
+function findClearSpot(
+  footprint: Footprint,
+  originX: number,
+  originY: number,
+  areas: Obstacle[],
+  containerBounds: ContainerBounds
+): { x: number; y: number } | null {
+  const { width, height } = containerBounds;
+  const reach = Math.hypot(width, height);
+  const overlapAt = (x: number, y: number) => obstacleOverlap({ ...footprint, x, y }, areas);
+  const inContainer = (x: number, y: number) =>
+    clampToContainer(x, originX, footprint.halfWidth, width) === x &&
+    clampToContainer(y, originY, footprint.halfHeight, height) === y;
+  const step = Math.max(4, Math.min(footprint.halfWidth, footprint.halfHeight) / 2);
+
+  let best = Infinity;
+  let spot: { x: number; y: number } | null = null;
+  for (let d = 0; d < SEARCH_DIRECTIONS; d++) {
+    const angle = (d / SEARCH_DIRECTIONS) * Math.PI * 2;
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+
+    // Walk outward until clear, then narrow down between the last covered and the first clear step
+    let covered = 0;
+    let clear = Infinity;
+    for (let t = step; t <= reach && t < best; t += step) {
+      const x = footprint.x + ux * t;
+      const y = footprint.y + uy * t;
+      // The container is convex, so once a direction leaves it, it never comes back
+      if (!inContainer(x, y)) break;
+      if (overlapAt(x, y) <= CLEAR_AREA) {
+        clear = t;
+        break;
+      }
+      covered = t;
+    }
+    if (clear === Infinity) continue;
+    for (let k = 0; k < 8; k++) {
+      const t = (covered + clear) / 2;
+      if (overlapAt(footprint.x + ux * t, footprint.y + uy * t) <= CLEAR_AREA) clear = t;
+      else covered = t;
+    }
+    if (clear < best) {
+      best = clear;
+      spot = { x: footprint.x + ux * clear, y: footprint.y + uy * clear };
+    }
+  }
+  return spot;
+}
+
+/**
+ * Move every image that covers an obstacle to the nearest clear spot, trying
+ * SEARCH_DIRECTIONS directions. Images stay inside the container (unless the
+ * algorithm already placed them beyond its edge); an image with no clear spot
+ * in reach keeps its position. Images are moved one at a time without regard
+ * for each other; run resolveCollisions() with the same obstacles afterwards
+ * to part images that end up on top of each other.
+ * @param layouts - Layouts to adjust; they are not modified
+ * @param sizes - Unscaled rendered size per layout
+ * @param obstacles - Polygons in px, e.g. from exclusionZonePolygon() and footprintPolygon()
+ * @param containerBounds - Container dimensions {width, height}
+ * @param fixed - Indexes of images that keep their position (e.g. the pinned images themselves)
+ * @returns New layouts with updated positions
+ */
+export function avoidObstacles(
+  layouts: ImageLayout[],
+  sizes: FootprintSize[],
+  obstacles: Point[][],
+  containerBounds: ContainerBounds,
+  fixed: number[] = []
+): ImageLayout[] {
+  const areas = obstacles.filter(polygon => polygon.length >= 3).map(toObstacle);
+  const fixedSet = new Set(fixed);
+
+  return layouts.map((layout, i) => {
+    if (fixedSet.has(i) || areas.length === 0) return { ...layout };
+    const footprint = createFootprint(layout, sizes[i]);
+    if (obstacleOverlap(footprint, areas) <= CLEAR_AREA) return { ...layout };
+
+    const spot = findClearSpot(footprint, layout.x, layout.y, areas, containerBounds);
+    return spot ? { ...layout, ...spot } : { ...layout };
+  });
+}
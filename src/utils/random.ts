@@ -0,0 +1,49 @@
+/**
+ * random.ts
+ * Seedable random numbers shared by the layouts and animation engines.
+ * Without a seed every source is Math.random; with a seed the same seed
+ * and stream always produce the same sequence.
+ */
+
+import type { RandomSeed } from '../config/types';
+
+/** Returns a float in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed to a 32-bit integer (FNV-1a for strings)
+ * @param seed - Number or string seed
+ */
+export function hashSeed(seed: RandomSeed): number {
+  if (typeof seed === 'number') {
+    // Keep fractional seeds distinct: 1.5 and 1 should not collide
+    return Number.isInteger(seed) ? seed >>> 0 : hashSeed(String(seed));
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a random source
+ * @param seed - Seed, or undefined for Math.random
+ * @param stream - Independent sequence for the same seed (e.g. an image index)
+ * @returns Random source (mulberry32 when seeded)
+ */
+export function createRandom(seed?: RandomSeed, stream = 0): RandomSource {
+  if (seed === undefined) {
+    return Math.random;
+  }
+
+  let state = (hashSeed(seed) ^ Math.imul(stream + 1, 0x9e3779b1)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * scene3d.ts
+ * Geometry shared by the 3D layouts (sphere, cylinder, helix) and SceneEngine.
+ * Layouts place each image at its pose for a scene turned by 0°; the scene then
+ * turns around the vertical axis through the container center.
+ *
+ * Axes follow CSS: x to the right, y down, z toward the viewer.
+ */
+
+import type { ImageLayout } from '../config/types';
+
+const DEG = Math.PI / 180;
+
+/**
+ * Where an image is after the scene turned. x/y are container pixels (the spot
+ * on the image plane before perspective), rotations are in degrees.
+ */
+export interface ScenePose {
+  x: number;
+  y: number;
+  z: number;
+  rotationX: number;
+  rotationY: number;
+}
+
+/**
+ * Angle in degrees, wrapped to (-180, 180]
+ */
+export function normalizeAngle(angle: number): number {
+  const wrapped = ((angle % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/**
+ * Pose of a point on a sphere or cylinder around the scene axis, turned to face
+ * outward from the axis (and, with tilt, from the center)
+ * @param offsetX - Offset from the axis in px
+ * @param offsetY - Offset from the center in px
+ * @param z - Depth toward the viewer in px
+ * @param tilt - Lean up or down with the surface, as on a sphere
+ */
+export function outwardPose(offsetX: number, offsetY: number, z: number, tilt: boolean): Pick<ScenePose, 'rotationX' | 'rotationY'> {
+  const distance = Math.hypot(offsetX, offsetY, z);
+  return {
+    rotationY: Math.atan2(offsetX, z) / DEG,
+    rotationX: tilt && distance > 0 ? Math.asin(Math.max(-1, Math.min(1, -offsetY / distance))) / DEG : 0
+  };
+}
+
+/**
+ * Pose of a layout's image once the scene is turned by `angle` degrees
+ * (positive turns the front toward the right)
+ * @param centerX - x of the vertical axis the scene turns around
+ */
+export function spinPose(layout: ImageLayout, centerX: number, angle: number): ScenePose {
+  const dx = layout.x - centerX;
+  const dz = layout.z ?? 0;
+  const cos = Math.cos(angle * DEG);
+  const sin = Math.sin(angle * DEG);
+  return {
+    x: centerX + dx * cos + dz * sin,
+    y: layout.y,
+    z: -dx * sin + dz * cos,
+    rotationX: layout.rotationX ?? 0,
+    rotationY: normalizeAngle((layout.rotationY ?? 0) + angle)
+  };
+}
+
+/**
+ * How directly a pose faces the viewer: 1 facing them, 0 edge-on, -1 facing away
+ */
+export function poseFacing(pose: Pick<ScenePose, 'rotationX' | 'rotationY'>): number {
+  return Math.cos(pose.rotationX * DEG) * Math.cos(pose.rotationY * DEG);
+}
+
+/**
+ * Transform placing an image (positioned at layout.x/y with left/top) at a pose,
+ * in the pixel-centered form the 2D layouts use
+ */
+export function buildSceneTransform(pose: ScenePose, layout: ImageLayout, width: number, height: number): string {
+  return `translate(${-width / 2}px, ${-height / 2}px) ` +
+    `translate3d(${pose.x - layout.x}px, ${pose.y - layout.y}px, ${pose.z}px) ` +
+    `rotateY(${pose.rotationY}deg) rotateX(${pose.rotationX}deg) ` +
+    `rotate(${layout.rotation}deg) scale(${layout.scale})`;
+}
+
+/**
+ * Evenly spread points on a unit sphere (golden-angle spiral from top to bottom),
+ * the first point nearest the viewer's side of the top
+ */
+export function fibonacciSphere(count: number): Array<{ x: number; y: number; z: number }> {
+  const points: Array<{ x: number; y: number; z: number }> = [];
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const y = count === 1 ? 0 : 1 - (2 * (i + 0.5)) / count;
+    const ring = Math.sqrt(1 - y * y);
+    const theta = goldenAngle * i;
+    points.push({ x: ring * Math.sin(theta), y: -y, z: ring * Math.cos(theta) });
+  }
+  return points;
+}
+
+/**
+ * Radius at which a sphere seen from `perspective` px away looks `apparent` px
+ * in radius: its outline is magnified by perspective / sqrt(perspective² - r²)
+ */
+export function radiusForApparentSize(apparent: number, perspective: number): number {
+  if (apparent <= 0) return 0;
+  return apparent * perspective / Math.hypot(perspective, apparent);
+}
+
+/**
+ * Magnification of something `z` px in front of the scene plane
+ */
+export function perspectiveScale(z: number, perspective: number): number {
+  return perspective / Math.max(1, perspective - z);
+}
+
+/**
+ * Stacking order for depths: 0 for the farthest, count - 1 for the nearest
+ */
+export function depthRanks(depths: number[]): number[] {
+  const ranks = new Array<number>(depths.length);
+  depths
+    .map((z, index) => ({ z, index }))
+    .sort((a, b) => a.z - b.z)
+    .forEach(({ index }, rank) => { ranks[index] = rank; });
+  return ranks;
+}
@@ -0,0 +1,306 @@
+/**
+ * shapeMask.ts
+ * Rasterizes a shape (SVG path, polygon or text) into a coarse grid of filled cells.
+ * Used by ShapePlacementLayout.ts.
+ *
+ * Polygons are sampled in plain math; paths and text are drawn on a small 2D
+ * canvas that is read back on the CPU, so no GPU or visible element is needed.
+ */
+
+/** Cells along the longer side of the shape */
+export const MASK_RESOLUTION = 160;
+
+// Canvas alpha above which a cell counts as filled
+const ALPHA_THRESHOLD = 127;
+
+export type ShapeFillRule = 'nonzero' | 'evenodd';
+
+/**
+ * Filled cells of a shape, cropped to the filled area.
+ * Cells are square, so `columns / rows` is the shape's aspect ratio.
+ */
+export interface ShapeMask {
+  columns: number;
+  rows: number;
+  cells: Uint8Array;  // 1 where the shape is filled, row by row
+  filled: number;     // number of filled cells
+}
+
+interface ShapeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type MaskCanvas = HTMLCanvasElement | OffscreenCanvas;
+type MaskContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Sample a polygon; works without a canvas
+ * @param points - Vertices in any units
+ * @param fillRule - Rule for self-intersecting polygons (default: 'nonzero')
+ * @returns The mask, or null when the polygon has no area
+ */
+export function polygonMask(points: Array<[number, number]>, fillRule: ShapeFillRule = 'nonzero', resolution = MASK_RESOLUTION): ShapeMask | null {
+  if (points.length < 3) return null;
+
+  const bounds = pointBounds(points);
+  if (!bounds) return null;
+  const grid = gridFor(bounds, resolution);
+  const cells = new Uint8Array(grid.columns * grid.rows);
+
+  for (let row = 0; row < grid.rows; row++) {
+    const y = bounds.y + (row + 0.5) * grid.cellSize;
+    for (let col = 0; col < grid.columns; col++) {
+      const x = bounds.x + (col + 0.5) * grid.cellSize;
+      const winding = windingNumber(points, x, y);
+      if (fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0) {
+        cells[row * grid.columns + col] = 1;
+      }
+    }
+  }
+
+  return cropMask(grid.columns, grid.rows, cells);
+}
+
+/**
+ * Sample SVG path data on an offscreen canvas
+ * @param d - Path data, as in `<path d="...">`
+ * @param fillRule - Fill rule for the path (default: 'nonzero')
+ * @returns The mask, or null when the path is empty or no canvas is available
+ */
+export function pathMask(d: string, fillRule: ShapeFillRule = 'nonzero', resolution = MASK_RESOLUTION): ShapeMask | null {
+  const bounds = pathBounds(d);
+  if (!bounds || typeof Path2D === 'undefined') return null;
+
+  const grid = gridFor(bounds, resolution);
+  const context = createMaskContext(grid.columns, grid.rows);
+  if (!context) return null;
+
+  context.scale(1 / grid.cellSize, 1 / grid.cellSize);
+  context.translate(-bounds.x, -bounds.y);
+  context.fill(new Path2D(d), fillRule);
+
+  return readMask(context, grid.columns, grid.rows);
+}
+
+/**
+ * Draw a line of text on an offscreen canvas and sample its letters
+ * @param text - Text to draw
+ * @param font - CSS font shorthand; only family, weight and style matter, the size is scaled away
+ * @returns The mask, or null when the text is blank or no canvas is available
+ */
+export function textMask(text: string, font: string, resolution = MASK_RESOLUTION): ShapeMask | null {
+  if (text.trim() === '') return null;
+
+  const measure = createMaskContext(1, 1);
+  if (!measure) return null;
+  measure.font = font;
+  const metrics = measure.measureText(text);
+  const left = metrics.actualBoundingBoxLeft ?? 0;
+  const ascent = metrics.actualBoundingBoxAscent ?? 0;
+  const width = left + (metrics.actualBoundingBoxRight ?? metrics.width);
+  const height = ascent + (metrics.actualBoundingBoxDescent ?? 0);
+  if (!(width > 0) || !(height > 0)) return null;
+
+  const grid = gridFor({ x: 0, y: 0, width, height }, resolution);
+  const context = createMaskContext(grid.columns, grid.rows);
+  if (!context) return null;
+
+  context.scale(1 / grid.cellSize, 1 / grid.cellSize);
+  context.font = font;
+  context.textBaseline = 'alphabetic';
+  context.fillText(text, left, ascent);
+
+  return readMask(context, grid.columns, grid.rows);
+}
+
+/**
+ * Bounding box of SVG path data, including curve control points, so it may be
+ * slightly larger than the drawn path
+ * @returns The bounds, or null when the path has no area
+ */
+export function pathBounds(d: string): ShapeBounds | null {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const points: Array<[number, number]> = [];
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let i = 0;
+
+  const next = (): number => Number(tokens[i++]);
+  const hasNumber = (): boolean => i < tokens.length && !/^[A-Za-z]$/.test(tokens[i]);
+
+  while (i < tokens.length) {
+    if (/^[A-Za-z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (command === '') {
+      return null;
+    }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    switch (command.toUpperCase()) {
+      case 'Z':
+        x = startX;
+        y = startY;
+        // A number right after Z is malformed; skip it rather than loop forever
+        if (hasNumber()) i++;
+        continue;
+      case 'M':
+      case 'L':
+      case 'T':
+        x = ox + next();
+        y = oy + next();
+        if (command.toUpperCase() === 'M') {
+          startX = x;
+          startY = y;
+          // Extra coordinate pairs after a moveto are linetos
+          command = relative ? 'l' : 'L';
+        }
+        break;
+      case 'H':
+        x = ox + next();
+        break;
+      case 'V':
+        y = oy + next();
+        break;
+      case 'C':
+        points.push([ox + next(), oy + next()], [ox + next(), oy + next()]);
+        x = ox + next();
+        y = oy + next();
+        break;
+      case 'S':
+      case 'Q':
+        points.push([ox + next(), oy + next()]);
+        x = ox + next();
+        y = oy + next();
+        break;
+      case 'A': {
+        const rx = Math.abs(next());
+        const ry = Math.abs(next());
+        i += 3;  // rotation and flags
+        const fromX = x;
+        const fromY = y;
+        x = ox + next();
+        y = oy + next();
+        // The arc stays within its radii of both endpoints
+        const radius = Math.max(rx, ry);
+        for (const [px, py] of [[fromX, fromY], [x, y]]) {
+          points.push([px - radius, py - radius], [px + radius, py + radius]);
+        }
+        break;
+      }
+      default:
+        return null;
+    }
+    points.push([x, y]);
+  }
+
+  if (points.some(([px, py]) => !isFinite(px) || !isFinite(py))) return null;
+  return pointBounds(points);
+}
+
+function pointBounds(points: Array<[number, number]>): ShapeBounds | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const width = maxX - minX;
+  const height = maxY - minY;
+  if (!(width > 0) || !(height > 0)) return null;
+  return { x: minX, y: minY, width, height };
+}
+
+function gridFor(bounds: ShapeBounds, resolution: number): { columns: number; rows: number; cellSize: number } {
+  const cellSize = Math.max(bounds.width, bounds.height) / resolution;
+  return {
+    columns: Math.max(1, Math.ceil(bounds.width / cellSize)),
+    rows: Math.max(1, Math.ceil(bounds.height / cellSize)),
+    cellSize
+  };
+}
+
+/**
+ * Winding number of the polygon around (x, y); 0 means outside for 'nonzero'
+ */
+function windingNumber(points: Array<[number, number]>, x: number, y: number): number {
+  let winding = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    const side = (x2 - x1) * (y - y1) - (x - x1) * (y2 - y1);
+    if (y1 <= y) {
+      if (y2 > y && side > 0) winding++;
+    } else if (y2 <= y && side < 0) {
+      winding--;
+    }
+  }
+  return winding;
+}
+
+/**
+ * Small 2D context for sampling. `willReadFrequently` keeps the canvas in CPU memory.
+ */
+function createMaskContext(width: number, height: number): MaskContext | null {
+  let canvas: MaskCanvas | null = null;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(width, height);
+  } else if (typeof document !== 'undefined') {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return (canvas?.getContext('2d', { willReadFrequently: true }) as MaskContext | null | undefined) ?? null;
+}
+
+function readMask(context: MaskContext, columns: number, rows: number): ShapeMask | null {
+  const pixels = context.getImageData(0, 0, columns, rows).data;
+  const cells = new Uint8Array(columns * rows);
+  for (let i = 0; i < cells.length; i++) {
+    if (pixels[i * 4 + 3] > ALPHA_THRESHOLD) cells[i] = 1;
+  }
+  return cropMask(columns, rows, cells);
+}
+
+/**
+ * Trim empty rows and columns so the mask fits its filled area exactly
+ */
+function cropMask(columns: number, rows: number, cells: Uint8Array): ShapeMask | null {
+  let minCol = columns;
+  let minRow = rows;
+  let maxCol = -1;
+  let maxRow = -1;
+  let filled = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      if (!cells[row * columns + col]) continue;
+      filled++;
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+    }
+  }
+  if (filled === 0) return null;
+
+  const croppedColumns = maxCol - minCol + 1;
+  const croppedRows = maxRow - minRow + 1;
+  const cropped = new Uint8Array(croppedColumns * croppedRows);
+  for (let row = 0; row < croppedRows; row++) {
+    const from = (row + minRow) * columns + minCol;
+    cropped.set(cells.subarray(from, from + croppedColumns), row * croppedColumns);
+  }
+  return { columns: croppedColumns, rows: croppedRows, cells: cropped, filled };
+}
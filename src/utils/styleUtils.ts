@@ -271,6 +271,15 @@ export function applyStylesToElement(element: HTMLElement, styles: StyleProperti
   if (styles.overflow !== undefined) element.style.overflow = styles.overflow;
 }
 
+/**
+ * Remove inline style properties previously applied with applyStylesToElement
+ */
+export function removeStylesFromElement(element: HTMLElement, styles: StyleProperties): void {
+  for (const key of Object.keys(styles) as (keyof StyleProperties)[]) {
+    element.style[key] = '';
+  }
+}
+
 /**
  * Build and apply style properties for a given state with image dimensions
  * This is useful for height-relative clip-path calculations which depend on image height and width
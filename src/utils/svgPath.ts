@@ -0,0 +1,215 @@
+/**
+ * svgPath.ts
+ * Flattens SVG path data into polylines without the DOM.
+ * Used by PathPlacementLayout.ts.
+ */
+
+/** One subpath as a list of points */
+export interface PathPolyline {
+  points: Array<[number, number]>;
+  closed: boolean;   // ended with Z
+}
+
+/** Line segments per Bézier curve */
+const CURVE_SEGMENTS = 16;
+
+/** Largest angle covered by one line segment of an elliptical arc (10°) */
+const ARC_SEGMENT_ANGLE = Math.PI / 18;
+
+const PARAMETER_COUNTS: Record<string, number> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0
+};
+
+/**
+ * Flatten path data into one polyline per subpath; curves and arcs become short line segments
+ * @param d - Path data, as in `<path d="...">`
+ * @returns The polylines (subpaths with fewer than two points are dropped), or null when the data is malformed
+ */
+export function flattenPath(d: string): PathPolyline[] | null {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const polylines: PathPolyline[] = [];
+  let current: PathPolyline | null = null;
+  let command = '';
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last control point, reflected by S and T
+  let cubicControl: [number, number] | null = null;
+  let quadControl: [number, number] | null = null;
+  let i = 0;
+
+  const isCommand = (token: string): boolean => /^[A-Za-z]$/.test(token);
+  const lineTo = (px: number, py: number): void => {
+    if (!current) {
+      current = { points: [[x, y]], closed: false };
+      polylines.push(current);
+    }
+    current.points.push([px, py]);
+  };
+
+  while (i < tokens.length) {
+    if (isCommand(tokens[i])) {
+      command = tokens[i++];
+    } else if (command === '' || command.toUpperCase() === 'Z') {
+      return null;
+    }
+
+    const type = command.toUpperCase();
+    const count = PARAMETER_COUNTS[type];
+    const values: number[] = [];
+    for (let k = 0; k < count; k++) {
+      if (i >= tokens.length || isCommand(tokens[i])) return null;
+      values.push(Number(tokens[i++]));
+    }
+    if (values.some(value => !isFinite(value))) return null;
+
+    const relative = command !== type;
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let nextCubic: [number, number] | null = null;
+    let nextQuad: [number, number] | null = null;
+
+    switch (type) {
+      case 'M':
+        x = ox + values[0];
+        y = oy + values[1];
+        startX = x;
+        startY = y;
+        current = null;
+        // Extra coordinate pairs after a moveto are linetos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        lineTo(ox + values[0], oy + values[1]);
+        break;
+      case 'H':
+        lineTo(ox + values[0], y);
+        break;
+      case 'V':
+        lineTo(x, oy + values[0]);
+        break;
+      case 'C':
+      case 'S': {
+        const control1: [number, number] = type === 'C'
+          ? [ox + values[0], oy + values[1]]
+          : cubicControl ? [2 * x - cubicControl[0], 2 * y - cubicControl[1]] : [x, y];
+        const rest = type === 'C' ? values.slice(2) : values;
+        const control2: [number, number] = [ox + rest[0], oy + rest[1]];
+        const end: [number, number] = [ox + rest[2], oy + rest[3]];
+        for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+          const t = s / CURVE_SEGMENTS;
+          const u = 1 - t;
+          lineTo(
+            u * u * u * x + 3 * u * u * t * control1[0] + 3 * u * t * t * control2[0] + t * t * t * end[0],
+            u * u * u * y + 3 * u * u * t * control1[1] + 3 * u * t * t * control2[1] + t * t * t * end[1]
+          );
+        }
+        nextCubic = control2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const control: [number, number] = type === 'Q'
+          ? [ox + values[0], oy + values[1]]
+          : quadControl ? [2 * x - quadControl[0], 2 * y - quadControl[1]] : [x, y];
+        const rest = type === 'Q' ? values.slice(2) : values;
+        const end: [number, number] = [ox + rest[0], oy + rest[1]];
+        for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+          const t = s / CURVE_SEGMENTS;
+          const u = 1 - t;
+          lineTo(
+            u * u * x + 2 * u * t * control[0] + t * t * end[0],
+            u * u * y + 2 * u * t * control[1] + t * t * end[1]
+          );
+        }
+        nextQuad = control;
+        break;
+      }
+      case 'A':
+        for (const [px, py] of arcPoints(x, y, values[0], values[1], values[2], values[3] !== 0, values[4] !== 0, ox + values[5], oy + values[6])) {
+          lineTo(px, py);
+        }
+        break;
+      case 'Z':
+        if (current) {
+          const polyline: PathPolyline = current;
+          const [lastX, lastY] = polyline.points[polyline.points.length - 1];
+          if (lastX !== startX || lastY !== startY) polyline.points.push([startX, startY]);
+          polyline.closed = true;
+        }
+        // Drawing on after Z starts a new subpath at the same point
+        current = null;
+        x = startX;
+        y = startY;
+        break;
+    }
+
+    if (type !== 'M' && type !== 'Z' && current) {
+      const points: Array<[number, number]> = (current as PathPolyline).points;
+      [x, y] = points[points.length - 1];
+    }
+    cubicControl = nextCubic;
+    quadControl = nextQuad;
+  }
+
+  return polylines.filter(polyline => polyline.points.length >= 2);
+}
+
+/**
+ * Points along an SVG elliptical arc, excluding the start point
+ * (endpoint to center conversion from the SVG spec, appendix F.6.5)
+ */
+function arcPoints(
+  x1: number, y1: number,
+  radiusX: number, radiusY: number,
+  rotationDeg: number, largeArc: boolean, sweep: boolean,
+  x2: number, y2: number
+): Array<[number, number]> {
+  if (x1 === x2 && y1 === y2) return [];
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0) return [[x2, y2]];
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small to reach the endpoint are scaled up
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number): number =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let sweepAngle = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+  const segments = Math.max(1, Math.ceil(Math.abs(sweepAngle) / ARC_SEGMENT_ANGLE));
+  const points: Array<[number, number]> = [];
+  for (let s = 1; s < segments; s++) {
+    const theta = startAngle + (sweepAngle * s) / segments;
+    points.push([
+      cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos
+    ]);
+  }
+  points.push([x2, y2]);
+  return points;
+}
@@ -0,0 +1,48 @@
+/**
+ * weights.ts
+ * Image weights (ImageDescriptor.weight or layout.weightFor) shared by the layouts.
+ * Heavier images are drawn larger and placed more prominently; 1 is neutral.
+ */
+
+import type { ImageDescriptor, ImageWeightFn } from '../config/types';
+
+/**
+ * Weight per image: layout.weightFor when it returns a number, else the
+ * descriptor's weight, else 1. Zero, negative and non-finite weights count as 1.
+ * @param imageCount - Number of images
+ * @param images - Descriptor per image, in layout order
+ * @param weightFor - Optional callback overriding descriptor weights
+ */
+export function resolveWeights(imageCount: number, images: ImageDescriptor[] = [], weightFor?: ImageWeightFn): number[] {
+  const weights: number[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    const weight = weightFor?.(i, images[i]?.url ?? '') ?? images[i]?.weight;
+    weights.push(typeof weight === 'number' && Number.isFinite(weight) && weight > 0 ? weight : 1);
+  }
+  return weights;
+}
+
+/**
+ * Whether any image has a weight other than 1
+ */
+export function hasWeights(weights: number[] = []): boolean {
+  return weights.some(weight => weight !== 1);
+}
+
+/**
+ * Scale for a weight: the image's area grows in proportion to its weight
+ */
+export function weightScale(weight: number | undefined): number {
+  return weight !== undefined && Number.isFinite(weight) && weight > 0 ? Math.sqrt(weight) : 1;
+}
+
+/**
+ * Image indexes, heaviest first; images of equal weight keep their order
+ * @param imageCount - Number of images
+ * @param weights - Weight per image (missing weights count as 1)
+ */
+export function orderByWeight(imageCount: number, weights: number[] = []): number[] {
+  const order = Array.from({ length: imageCount }, (_, i) => i);
+  // Array.prototype.sort is stable
+  return order.sort((a, b) => (weights[b] ?? 1) - (weights[a] ?? 1));
+}
@@ -49,10 +49,17 @@ export const ImageCloud = defineComponent({
       instance.value = null;
     });
 
+    // Replace the live instance's options instead of recreating it (props left out fall back to defaults)
     watch(
       () => props.options,
-      () => {
-        init();
+      (options) => {
+        if (!instance.value) {
+          init();
+          return;
+        }
+        instance.value.setOptions(options).catch((err) => {
+          console.error('ImageCloud update failed:', err);
+        });
       },
       { deep: true }
     );
@@ -1,5 +1,5 @@
 import { ImageCloud } from '../ImageCloud';
-import type { ImageCloudOptions } from '../config/types';
+import type { ImageCloudOptions, ImageSource } from '../config/types';
 
 export class ImageCloudElement extends HTMLElement {
   static observedAttributes = ['config', 'images', 'layout'];
@@ -57,7 +57,7 @@ export class ImageCloudElement extends HTMLElement {
     const imagesAttr = this.getAttribute('images');
     if (imagesAttr) {
       try {
-        options.images = JSON.parse(imagesAttr) as string[];
+        options.images = JSON.parse(imagesAttr) as ImageSource[];
       } catch (e) {
         console.error('<image-cloud> invalid images JSON:', e);
       }
@@ -0,0 +1,357 @@
+import { test, expect } from '@playwright/test';
+
+// Local fixture images with mixed aspect ratios
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg',
+  '/test/fixtures/images/food1.jpg',
+  '/test/fixtures/images/food2.jpg',
+  '/test/fixtures/images/food3.jpg',
+  '/test/fixtures/images/scenery1.jpg',
+  '/test/fixtures/images/scenery2.jpg',
+  '/test/fixtures/images/scenery3.jpg'
+];
+
+async function initGallery(page: any, canvasConfig: object | null = {}, imageCount = 40) {
+  await page.goto('/test/fixtures/canvas.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, canvas }: { urls: string[], canvas: object | null }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: { algorithm: 'grid', seed: 42 },
+      interaction: {
+        focus: { animationDuration: 100 },
+        ...(canvas ? { canvas: { enabled: true, ...canvas } } : {})
+      },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, canvas: canvasConfig });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 10000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+async function getStageBox(page: any) {
+  return page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    const rect = document.querySelector('#imageCloud .fbn-ic-canvas')!.getBoundingClientRect();
+    return { left: rect.left - container.left, top: rect.top - container.top, width: rect.width, height: rect.height };
+  });
+}
+
+async function getContainerSize(page: any) {
+  return page.evaluate(() => {
+    const el = document.getElementById('imageCloud')!;
+    return { width: el.clientWidth, height: el.clientHeight };
+  });
+}
+
+async function getImageHeight(page: any) {
+  return page.evaluate(() => parseFloat(document.querySelector<HTMLImageElement>('#imageCloud img')!.style.height));
+}
+
+/**
+ * Press on an empty spot of the container (outside every image) and drag
+ * @param hold - Hold still before letting go so the view does not glide
+ */
+async function dragBackground(page: any, dx: number, dy: number, hold = true) {
+  const start = await page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    for (let y = container.top + 5; y < container.bottom; y += 10) {
+      for (let x = container.left + 5; x < container.right; x += 10) {
+        if (!document.elementFromPoint(x, y)?.closest('.fbn-ic-image')) return { x, y };
+      }
+    }
+    return { x: container.left + 5, y: container.top + 5 };
+  });
+  await page.mouse.move(start.x, start.y);
+  await page.mouse.down();
+  await page.mouse.move(start.x + dx, start.y + dy, { steps: 10 });
+  if (hold) await page.waitForTimeout(150);
+  await page.mouse.up();
+}
+
+/**
+ * Two touch pointers pressed around the container center, spread apart by `grow` pixels and lifted
+ */
+async function pinchBackground(page: any, grow: number) {
+  await page.evaluate((grow: number) => {
+    // Synthetic pointers are not active, so pointer capture would throw
+    Element.prototype.setPointerCapture = () => {};
+    Element.prototype.releasePointerCapture = () => {};
+    const container = document.getElementById('imageCloud')!;
+    const rect = container.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+    const dispatch = (type: string, pointerId: number, clientX: number) => {
+      container.dispatchEvent(new PointerEvent(type, { bubbles: true, cancelable: true, pointerId, pointerType: 'touch', clientX, clientY: y }));
+    };
+    dispatch('pointerdown', 1, x - 50);
+    dispatch('pointerdown', 2, x + 50);
+    dispatch('pointermove', 1, x - 50 - grow / 2);
+    dispatch('pointermove', 2, x + 50 + grow / 2);
+    dispatch('pointerup', 1, x - 50 - grow / 2);
+    dispatch('pointerup', 2, x + 50 + grow / 2);
+  }, grow);
+  await page.waitForTimeout(100);
+}
+
+test.describe('Canvas mode', () => {
+
+  test('places the images on a stage inside the container', async ({ page }) => {
+    await initGallery(page);
+
+    const inStage = await page.evaluate(() =>
+      Array.from(document.querySelectorAll('#imageCloud img')).every(img => img.parentElement!.classList.contains('fbn-ic-canvas'))
+    );
+    expect(inStage).toBe(true);
+  });
+
+  test('auto size keeps images larger than fitting them in the container', async ({ page }) => {
+    await initGallery(page, null, 80);
+    const fittedHeight = await getImageHeight(page);
+
+    await initGallery(page, {}, 80);
+    const canvasHeight = await getImageHeight(page);
+    const stage = await getStageBox(page);
+    const container = await getContainerSize(page);
+
+    expect(canvasHeight).toBeGreaterThan(fittedHeight);
+    expect(stage.width).toBeGreaterThan(container.width);
+  });
+
+  test('size sets the surface as a multiple of the container', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+
+    const stage = await getStageBox(page);
+    const container = await getContainerSize(page);
+    expect(stage.width).toBeCloseTo(container.width * 2, 0);
+    expect(stage.height).toBeCloseTo(container.height * 2, 0);
+  });
+
+  test('starts at zoom 1 centered on the surface', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+
+    const stage = await getStageBox(page);
+    const container = await getContainerSize(page);
+    expect(await page.evaluate(() => window.gallery.getZoom())).toBe(1);
+    expect(stage.left + stage.width / 2).toBeCloseTo(container.width / 2, 0);
+    expect(stage.top + stage.height / 2).toBeCloseTo(container.height / 2, 0);
+  });
+
+  test('dragging the background pans the surface', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+    const before = await getStageBox(page);
+
+    await dragBackground(page, 80, 50);
+
+    const after = await getStageBox(page);
+    expect(after.left - before.left).toBeCloseTo(80, 0);
+    expect(after.top - before.top).toBeCloseTo(50, 0);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+  });
+
+  test('dragging across an image pans without focusing it', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+    const before = await getStageBox(page);
+
+    const box = (await page.locator('#imageCloud img[data-image-id="0"]').boundingBox())!;
+    await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
+    await page.mouse.down();
+    await page.mouse.move(box.x + box.width / 2 + 40, box.y + box.height / 2, { steps: 5 });
+    await page.waitForTimeout(150);
+    await page.mouse.up();
+    await page.waitForTimeout(200);
+
+    const after = await getStageBox(page);
+    expect(after.left - before.left).toBeCloseTo(40, 0);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+  });
+
+  test('panning stops at the surface edge', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+
+    await dragBackground(page, 2000, 2000);
+
+    const stage = await getStageBox(page);
+    expect(stage.left).toBeCloseTo(0, 0);
+    expect(stage.top).toBeCloseTo(0, 0);
+  });
+
+  test('the wheel zooms around the pointer', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page, { size: 2 });
+    const container = await getContainerSize(page);
+
+    // Surface point under the pointer before zooming (zoom 1)
+    const pointer = { x: container.width / 4, y: container.height / 4 };
+    const before = await getStageBox(page);
+    const surfaceX = pointer.x - before.left;
+
+    await page.mouse.move(pointer.x, pointer.y);
+    await page.mouse.wheel(0, -200);
+    await page.waitForTimeout(100);
+
+    const zoom = await page.evaluate(() => window.gallery.getZoom());
+    expect(zoom).toBeGreaterThan(1);
+    const after = await getStageBox(page);
+    expect(after.left + surfaceX * zoom).toBeCloseTo(pointer.x, 0);
+  });
+
+  test('a pinch zooms around the fingers', async ({ page }, testInfo) => {
+    test.skip(!testInfo.project.use.hasTouch, 'Needs a touchscreen');
+    await initGallery(page, { size: 2 });
+
+    // The fingers move from 100px to 200px apart
+    await pinchBackground(page, 100);
+
+    expect(await page.evaluate(() => window.gallery.getZoom())).toBeCloseTo(2, 1);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+  });
+
+  test('a fast pan keeps gliding after it ends', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+
+    await dragBackground(page, -120, 0, false);
+    const released = await getStageBox(page);
+    await page.waitForTimeout(300);
+
+    expect((await getStageBox(page)).left).toBeLessThan(released.left - 1);
+  });
+
+  test('does not glide with inertia: false', async ({ page }) => {
+    await initGallery(page, { size: 2, inertia: false });
+
+    await dragBackground(page, -120, 0, false);
+    const released = await getStageBox(page);
+    await page.waitForTimeout(300);
+
+    expect(await getStageBox(page)).toEqual(released);
+  });
+
+  test('zoom stays within maxZoom and the fit-all minimum', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page, { size: 2, maxZoom: 2 });
+    const container = await getContainerSize(page);
+    await page.mouse.move(container.width / 2, container.height / 2);
+
+    for (let i = 0; i < 10; i++) await page.mouse.wheel(0, -500);
+    await page.waitForTimeout(100);
+    expect(await page.evaluate(() => window.gallery.getZoom())).toBeCloseTo(2, 5);
+
+    for (let i = 0; i < 20; i++) await page.mouse.wheel(0, 500);
+    await page.waitForTimeout(100);
+    expect(await page.evaluate(() => window.gallery.getZoom())).toBeCloseTo(0.5, 2);
+  });
+
+  test('fitAll shows the whole surface', async ({ page }) => {
+    await initGallery(page, { size: 3 });
+
+    await page.evaluate(() => window.gallery.fitAll({ animate: false }));
+
+    const stage = await getStageBox(page);
+    const container = await getContainerSize(page);
+    expect(stage.left).toBeGreaterThanOrEqual(-1);
+    expect(stage.top).toBeGreaterThanOrEqual(-1);
+    expect(stage.left + stage.width).toBeLessThanOrEqual(container.width + 1);
+    expect(stage.top + stage.height).toBeLessThanOrEqual(container.height + 1);
+  });
+
+  test('clicking an image focuses it in the middle of the view at any zoom', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+    await page.evaluate(() => window.gallery.setZoom(1.5, { animate: false }));
+    await dragBackground(page, -60, 30);
+
+    const box = (await page.locator('#imageCloud img[data-image-id="5"]').boundingBox())!;
+    await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
+    await page.waitForTimeout(400);
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(5);
+    const focused = (await page.locator('#imageCloud img[data-image-id="5"]').boundingBox())!;
+    const container = await getContainerSize(page);
+    expect(focused.x + focused.width / 2).toBeCloseTo(container.width / 2, -1);
+    expect(focused.y + focused.height / 2).toBeCloseTo(container.height / 2, -1);
+    // Default focus.scalePercent: 80% of the container, whatever the zoom
+    expect(Math.max(focused.width / container.width, focused.height / container.height)).toBeCloseTo(0.8, 1);
+  });
+
+  test('does not pan while an image is focused', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page, { size: 2 });
+    await page.evaluate(() => window.gallery.focusImage(0));
+    await page.waitForTimeout(200);
+    const before = await getStageBox(page);
+
+    await page.mouse.move(20, 20);
+    await page.mouse.wheel(0, -300);
+    await page.waitForTimeout(100);
+
+    expect(await getStageBox(page)).toEqual(before);
+  });
+
+  test.describe('minimap', () => {
+
+    test('is only shown when enabled', async ({ page }) => {
+      await initGallery(page, { size: 2 });
+      await expect(page.locator('#imageCloud .fbn-ic-minimap')).toHaveCount(0);
+    });
+
+    test('draws every image and the visible area', async ({ page }) => {
+      await initGallery(page, { size: 2, minimap: true });
+
+      await expect(page.locator('#imageCloud .fbn-ic-minimap-item')).toHaveCount(40);
+      const minimap = (await page.locator('#imageCloud .fbn-ic-minimap').boundingBox())!;
+      const viewport = (await page.locator('#imageCloud .fbn-ic-minimap-viewport').boundingBox())!;
+      // Half the surface is visible on each axis at zoom 1
+      expect(viewport.width / minimap.width).toBeCloseTo(0.5, 1);
+      expect(viewport.height / minimap.height).toBeCloseTo(0.5, 1);
+    });
+
+    test('pressing the minimap moves the view there', async ({ page }) => {
+      await initGallery(page, { size: 2, minimap: true });
+
+      const minimap = (await page.locator('#imageCloud .fbn-ic-minimap').boundingBox())!;
+      await page.mouse.click(minimap.x + 2, minimap.y + 2);
+
+      // Centered on the top left corner, clamped to the surface edge
+      const stage = await getStageBox(page);
+      expect(stage.left).toBeCloseTo(0, 0);
+      expect(stage.top).toBeCloseTo(0, 0);
+      expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+    });
+
+  });
+
+  test('can be turned off with updateOptions', async ({ page }) => {
+    await initGallery(page, { size: 2 });
+
+    await page.evaluate(() => window.gallery.updateOptions({ interaction: { canvas: { enabled: false } } }));
+
+    const state = await page.evaluate(() => ({
+      stages: document.querySelectorAll('#imageCloud .fbn-ic-canvas').length,
+      inContainer: Array.from(document.querySelectorAll('#imageCloud img')).every(img => img.parentElement!.id === 'imageCloud')
+    }));
+    expect(state.stages).toBe(0);
+    expect(state.inContainer).toBe(true);
+  });
+
+});
@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+
+// Declared sizes let the layout run without waiting for downloads
+const IMAGES = [
+  { url: '/test/fixtures/images/image1.jpg', width: 800, height: 533 },
+  { url: '/test/fixtures/images/image2.jpg', width: 800, height: 1200 },
+  { url: '/test/fixtures/images/image3.jpg', width: 800, height: 600 }
+];
+
+/**
+ * Lay out a tight cluster and return the overlap ratio of the reported layouts
+ */
+async function layoutOverlap(page: any, collision: object | null): Promise<number> {
+  await page.goto('/test/fixtures/collision.html');
+
+  const images = Array.from({ length: 24 }, (_, i) => IMAGES[i % IMAGES.length]);
+  return page.evaluate(async ({ images, collision }: { images: typeof IMAGES, collision: object | null }) => {
+    let layouts: any[] = [];
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: {
+        algorithm: 'cluster',
+        seed: 42,
+        cluster: { clusterCount: 2, clusterSpread: 60, overlap: 0.8 },
+        ...(collision ? { collision } : {})
+      },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } },
+      on: { onLayoutComplete: (ctx: any) => { layouts = ctx.layouts; } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+    await new Promise(r => setTimeout(r, 500));
+
+    const height = parseFloat(document.querySelector<HTMLImageElement>('#imageCloud img')!.style.height);
+    const sizes = images.map(image => ({ width: height * image.width / image.height, height }));
+    // @ts-ignore
+    return window.measureOverlap(layouts, sizes);
+  }, { images, collision });
+}
+
+test.describe('Layout collision pass', () => {
+
+  test('reduces overlap to the target ratio', async ({ page }) => {
+    const before = await layoutOverlap(page, null);
+    expect(before).toBeGreaterThan(0.05);
+
+    const after = await layoutOverlap(page, { enabled: true, maxOverlap: 0.02 });
+    expect(after).toBeLessThanOrEqual(0.02);
+  });
+
+  test('does nothing when disabled', async ({ page }) => {
+    const before = await layoutOverlap(page, null);
+    const disabled = await layoutOverlap(page, { enabled: false });
+    expect(disabled).toBeCloseTo(before, 5);
+  });
+
+  test('keeps images inside the container', async ({ page }) => {
+    await layoutOverlap(page, { enabled: true, maxOverlap: 0 });
+
+    const outside = await page.evaluate(() => {
+      const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+      return Array.from(document.querySelectorAll('#imageCloud img')).filter(img => {
+        const rect = img.getBoundingClientRect();
+        const x = rect.left + rect.width / 2;
+        const y = rect.top + rect.height / 2;
+        return x < container.left || x > container.right || y < container.top || y > container.bottom;
+      }).length;
+    });
+    expect(outside).toBe(0);
+  });
+
+});
@@ -0,0 +1,124 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page, count: number) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction((n) => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === n && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, count, { timeout: 10000 });
+  // Let entry animations and the observer's initial callback settle
+  await page.waitForTimeout(800);
+}
+
+function markOriginals(page: Page) {
+  return page.evaluate(() => {
+    document.querySelectorAll('#imageCloud img').forEach(img => img.setAttribute('data-original', 'true'));
+    window.callbackLog = [];
+  });
+}
+
+function setPanelWidth(page: Page, width: number) {
+  return page.evaluate((w) => { document.getElementById('panel')!.style.width = `${w}px`; }, width);
+}
+
+function imageHeight(page: Page) {
+  return page.locator('#imageCloud img').first().evaluate(img => parseFloat((img as HTMLElement).style.height));
+}
+
+test.describe('Container resize', () => {
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    // Breakpoint assertions assume a desktop viewport
+    test.skip(testInfo.project.name === 'mobile', 'Desktop-only test');
+    await page.setViewportSize({ width: 1280, height: 800 });
+  });
+
+  test('re-lays out in place when the container shrinks', async ({ page }) => {
+    await page.goto('/test/fixtures/container-resize.html');
+    await waitForAllImages(page, 5);
+    await markOriginals(page);
+
+    await setPanelWidth(page, 600);
+    await page.waitForFunction(() => window.callbackLog.some((e: any) => e.event === 'layout'), null, { timeout: 3000 });
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0].containerBounds.width).toBe(600);
+
+    // Nothing reloaded or re-entered
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(5);
+    const entries = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'entry'));
+    expect(entries).toHaveLength(0);
+
+    // Every image ends up inside the narrower container
+    const lefts = await page.locator('#imageCloud img').evaluateAll(imgs => imgs.map(img => parseFloat((img as HTMLElement).style.left)));
+    for (const left of lefts) {
+      expect(left).toBeLessThan(600);
+    }
+  });
+
+  test('does not re-layout when the size is unchanged', async ({ page }) => {
+    await page.goto('/test/fixtures/container-resize.html');
+    await waitForAllImages(page, 5);
+    await markOriginals(page);
+
+    await setPanelWidth(page, 1000);
+    await page.waitForTimeout(800);
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(0);
+  });
+
+  test('breakpoints resolve against the viewport by default', async ({ page }) => {
+    await page.goto('/test/fixtures/container-resize.html');
+    await waitForAllImages(page, 5);
+
+    // 1280px viewport: screen height, even though the container is 1000px wide
+    expect(await imageHeight(page)).toBe(200);
+
+    await setPanelWidth(page, 500);
+    await page.waitForTimeout(1200);
+    expect(await imageHeight(page)).toBe(200);
+  });
+
+  test('breakpoints resolve against the container with basis: container', async ({ page }) => {
+    await page.goto('/test/fixtures/container-resize.html?basis=container');
+    await waitForAllImages(page, 5);
+
+    // 1000px container: tablet height
+    expect(await imageHeight(page)).toBe(140);
+
+    // 500px container: mobile height, without reloading
+    await markOriginals(page);
+    await setPanelWidth(page, 500);
+    await page.waitForTimeout(1200);
+    expect(await imageHeight(page)).toBe(80);
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(5);
+  });
+
+  test('stops observing the container after destroy', async ({ page }) => {
+    await page.goto('/test/fixtures/container-resize.html');
+    await waitForAllImages(page, 5);
+
+    await page.evaluate(() => {
+      window.gallery.destroy();
+      window.callbackLog = [];
+    });
+    await setPanelWidth(page, 600);
+    await page.waitForTimeout(800);
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(0);
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+  }
+}
@@ -0,0 +1,142 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction(() => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === 4 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+async function getPositions(page: Page) {
+  return page.evaluate(() =>
+    Array.from(document.querySelectorAll<HTMLImageElement>('#imageCloud img'))
+      .sort((a, b) => Number(a.dataset.imageId) - Number(b.dataset.imageId))
+      .map(img => ({ x: parseFloat(img.style.left), y: parseFloat(img.style.top), height: img.offsetHeight }))
+  );
+}
+
+test.describe('Custom layouts', () => {
+
+  test.describe('registerLayout', () => {
+
+    test.beforeEach(async ({ page }) => {
+      await page.goto('/test/fixtures/custom-layout.html');
+      await waitForAllImages(page);
+    });
+
+    test('places images where the registered layout puts them', async ({ page }) => {
+      const layout = await page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'layout'));
+      expect(layout.algorithm).toBe('row');
+
+      const viewport = page.viewportSize()!;
+      const positions = await getPositions(page);
+      positions.forEach((pos, i) => {
+        expect(pos.x).toBeCloseTo(viewport.width * (i + 1) / 5, 0);
+        expect(pos.y).toBeCloseTo(viewport.height / 2, 0);
+      });
+    });
+
+    test('factory receives the gallery layout and image config', async ({ page }) => {
+      const calls = await page.evaluate(() => window.factoryLog);
+      expect(calls[0]).toEqual({ algorithm: 'row', padding: 30, sizingMode: 'adaptive' });
+    });
+
+    test('images are sized by adaptive sizing', async ({ page }) => {
+      const layout = await page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'layout'));
+      const positions = await getPositions(page);
+      positions.forEach((pos, i) => {
+        expect(pos.height).toBeCloseTo(layout.layouts[i].baseSize, 0);
+      });
+    });
+
+    test('every image plays the entry animation', async ({ page }) => {
+      const entries = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'entry'));
+      expect(entries).toHaveLength(4);
+    });
+
+    test('setLayout switches between built-in and registered layouts', async ({ page }) => {
+      await page.evaluate(() => window.gallery.setLayout('grid', { duration: 100 }));
+      await page.evaluate(() => { window.callbackLog = []; });
+      await page.evaluate(() => window.gallery.setLayout('row', { duration: 100 }));
+
+      const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+      expect(layouts.map((l: any) => l.algorithm)).toEqual(['row']);
+
+      const viewport = page.viewportSize()!;
+      const positions = await getPositions(page);
+      positions.forEach(pos => expect(pos.y).toBeCloseTo(viewport.height / 2, 0));
+    });
+
+    test('rejects built-in names and missing factories', async ({ page }) => {
+      const errors = await page.evaluate(() => {
+        const messages: string[] = [];
+        const Cloud = window.gallery.constructor;
+        try { Cloud.registerLayout('grid', () => window.diagonal); } catch (e: any) { messages.push(e.message); }
+        try { Cloud.registerLayout('', () => window.diagonal); } catch (e: any) { messages.push(e.message); }
+        try { Cloud.registerLayout('petals', null); } catch (e: any) { messages.push(e.message); }
+        return messages;
+      });
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain('built in');
+    });
+
+    test('unknown algorithm warns and falls back to random', async ({ page }) => {
+      const warnings: string[] = [];
+      page.on('console', msg => {
+        if (msg.type() === 'warning') warnings.push(msg.text());
+      });
+
+      await page.evaluate(() => window.gallery.setLayout('petals', { duration: 100 }));
+
+      expect(warnings.some(w => w.includes('Unknown layout algorithm "petals"'))).toBe(true);
+      await expect(page.locator('#imageCloud img')).toHaveCount(4);
+    });
+
+  });
+
+  test.describe('layout.custom', () => {
+
+    test.beforeEach(async ({ page }) => {
+      await page.goto('/test/fixtures/custom-layout.html?mode=instance');
+      await waitForAllImages(page);
+    });
+
+    test('uses the instance instead of the algorithm', async ({ page }) => {
+      const viewport = page.viewportSize()!;
+      const positions = await getPositions(page);
+      positions.forEach((pos, i) => {
+        expect(pos.x).toBeCloseTo(viewport.width * (i + 1) / 5, 0);
+        expect(pos.y).toBeCloseTo(viewport.height * (i + 1) / 5, 0);
+      });
+    });
+
+    test('setLayout replaces the instance', async ({ page }) => {
+      await page.evaluate(() => { window.callbackLog = []; });
+      await page.evaluate(() => window.gallery.setLayout('random', { duration: 100 }));
+
+      const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+      expect(layouts).toHaveLength(1);
+      const onDiagonal = layouts[0].layouts.every((l: any, i: number) =>
+        Math.abs(l.y - (page.viewportSize()!.height * (i + 1) / 5)) < 1
+      );
+      expect(onDiagonal).toBe(false);
+    });
+
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+    factoryLog: any[];
+    diagonal: any;
+  }
+}
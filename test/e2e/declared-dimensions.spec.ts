@@ -0,0 +1,123 @@
+import { test, expect } from '@playwright/test';
+
+// Natural sizes of the fixture images
+const LANDSCAPE = { url: '/test/fixtures/images/image1.jpg', width: 800, height: 533 };
+const PORTRAIT = { url: '/test/fixtures/images/image2.jpg', width: 800, height: 1200 };
+
+async function createGallery(page: any, images: object[], algorithm = 'grid') {
+  await page.goto('/test/fixtures/declared-dimensions.html');
+
+  await page.evaluate(({ images, algorithm }: { images: object[], algorithm: string }) => {
+    // @ts-ignore
+    window.layoutCompleted = false;
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: { algorithm, seed: 42 },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } },
+      // @ts-ignore
+      on: { onLayoutComplete: () => { window.layoutCompleted = true; } }
+    });
+    // @ts-ignore
+    window.initPromise = window.gallery.init();
+  }, { images, algorithm });
+}
+
+async function getImageHeight(page: any) {
+  await page.waitForSelector('#imageCloud img');
+  return page.evaluate(() => parseFloat(document.querySelector<HTMLImageElement>('#imageCloud img')!.style.height));
+}
+
+test.describe('Declared image dimensions', () => {
+
+  test('images take their slot at the declared size before they download', async ({ page }) => {
+    // Never answer, so the images stay unloaded
+    await page.route('**/fixtures/images/*.jpg', () => {});
+    await createGallery(page, [LANDSCAPE, PORTRAIT]);
+    await page.waitForSelector('#imageCloud img[data-image-id="1"]', { state: 'attached' });
+
+    const placeholders = await page.evaluate(() =>
+      Array.from(document.querySelectorAll<HTMLImageElement>('#imageCloud img')).map(img => ({
+        width: parseFloat(img.style.width),
+        height: parseFloat(img.style.height),
+        positioned: img.style.left !== '' && img.style.top !== ''
+      }))
+    );
+    expect(placeholders).toHaveLength(2);
+    expect(placeholders[0].width / placeholders[0].height).toBeCloseTo(800 / 533, 2);
+    expect(placeholders[1].width / placeholders[1].height).toBeCloseTo(800 / 1200, 2);
+    expect(placeholders.every(placeholder => placeholder.positioned)).toBe(true);
+  });
+
+  test('placeholder boxes are visible before the images load', async ({ page }) => {
+    await page.route('**/fixtures/images/*.jpg', () => {});
+    await createGallery(page, [LANDSCAPE, PORTRAIT]);
+
+    const boxes = page.locator('#imageCloud img.fbn-ic-placeholder');
+    await expect(boxes).toHaveCount(2);
+    await expect(boxes.first()).toBeVisible();
+    const style = await boxes.first().evaluate((img: HTMLElement) => {
+      const computed = getComputedStyle(img);
+      return { opacity: computed.opacity, background: computed.backgroundColor };
+    });
+    expect(style.opacity).toBe('1');
+    expect(style.background).not.toBe('rgba(0, 0, 0, 0)');
+  });
+
+  test('the placeholder gives way to the image once it loads', async ({ page }) => {
+    await createGallery(page, [LANDSCAPE, PORTRAIT]);
+
+    await page.waitForFunction(() => {
+      const imgs = Array.from(document.querySelectorAll<HTMLImageElement>('#imageCloud img'));
+      return imgs.length === 2 && imgs.every(img => img.style.opacity !== '0' && img.dataset.finalTransform);
+    }, undefined, { timeout: 10000 });
+    await expect(page.locator('#imageCloud img.fbn-ic-placeholder')).toHaveCount(0);
+  });
+
+  test('adaptive sizing accounts for the declared aspect ratios', async ({ page }) => {
+    const portraits = Array.from({ length: 30 }, () => PORTRAIT);
+    await createGallery(page, portraits.map(({ url }) => ({ url })));
+    const assumed = await getImageHeight(page);
+
+    await createGallery(page, portraits);
+    const declared = await getImageHeight(page);
+
+    // Narrow images cover less area at the same height, so they get taller
+    expect(declared).toBeGreaterThan(assumed);
+  });
+
+  test('aspect-ratio layouts show images without waiting for the others to load', async ({ page }) => {
+    // Hold the portrait back; the landscape images load normally
+    await page.route('**/image2.jpg', () => {});
+    await createGallery(page, [LANDSCAPE, PORTRAIT, LANDSCAPE], 'justified');
+
+    await page.waitForFunction(() => {
+      const img = document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]');
+      return img !== null && img.style.opacity !== '0' && img.dataset.finalTransform !== undefined;
+    }, undefined, { timeout: 10000 });
+    expect(await page.evaluate(() => window.layoutCompleted)).toBe(true);
+  });
+
+  test('aspect-ratio layouts hold declared images back until the undeclared sizes are known', async ({ page }) => {
+    // Hold the undeclared image back until the test releases it
+    let release: () => void = () => {};
+    await page.route('**/image2.jpg', (route: any) => { release = () => route.continue(); });
+    await createGallery(page, [LANDSCAPE, { url: PORTRAIT.url }, LANDSCAPE], 'justified');
+    await page.waitForSelector('#imageCloud img[data-image-id="0"]', { state: 'attached' });
+    await page.waitForTimeout(1000);
+
+    // Its slot would move once the undeclared image is laid out, so it stays hidden
+    const opacity = await page.evaluate(() => document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]')!.style.opacity);
+    expect(opacity).toBe('0');
+    expect(await page.evaluate(() => window.layoutCompleted)).toBe(false);
+
+    release();
+    await page.waitForFunction(() => {
+      const img = document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]');
+      return img !== null && img.style.opacity !== '0';
+    }, undefined, { timeout: 10000 });
+    expect(await page.evaluate(() => window.layoutCompleted)).toBe(true);
+  });
+
+});
@@ -0,0 +1,298 @@
+import { test, expect } from '@playwright/test';
+
+// Large fixture images: image 0 (4937x3285) is focused at 80% of the container
+// height, so its native resolution is several times the focused size
+const TEST_IMAGES = [
+  '/test/fixtures/images/computing1.jpg',
+  '/test/fixtures/images/computing3.jpg'
+];
+
+async function initGallery(page: any, detailZoom = true, imageCount = 6) {
+  await page.goto('/test/fixtures/detail-zoom.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, detailZoom }: { urls: string[], detailZoom: boolean }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: { algorithm: 'grid', seed: 42 },
+      interaction: { focus: { animationDuration: 100, detailZoom } },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, detailZoom });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 10000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+async function focus(page: any, index = 0) {
+  await page.evaluate((i: number) => window.gallery.focusImage(i), index);
+  await page.waitForTimeout(100);
+}
+
+async function getImageBox(page: any, index = 0) {
+  return (await page.locator(`#imageCloud img[data-image-id="${index}"]`).boundingBox())!;
+}
+
+async function getContainerSize(page: any) {
+  return page.evaluate(() => {
+    const el = document.getElementById('imageCloud')!;
+    return { width: el.clientWidth, height: el.clientHeight };
+  });
+}
+
+/**
+ * Two touch pointers pressed around the image center, spread apart by `grow` pixels and lifted
+ */
+async function pinchCenter(page: any, grow: number, index = 0) {
+  await page.evaluate(({ index, grow }: { index: number, grow: number }) => {
+    // Synthetic pointers are not active, so pointer capture would throw
+    Element.prototype.setPointerCapture = () => {};
+    Element.prototype.releasePointerCapture = () => {};
+    const img = document.querySelector(`#imageCloud img[data-image-id="${index}"]`)!;
+    const rect = img.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+    const dispatch = (type: string, pointerId: number, clientX: number) => {
+      img.dispatchEvent(new PointerEvent(type, { bubbles: true, cancelable: true, pointerId, pointerType: 'touch', clientX, clientY: y }));
+    };
+    dispatch('pointerdown', 1, x - 50);
+    dispatch('pointerdown', 2, x + 50);
+    dispatch('pointermove', 1, x - 50 - grow / 2);
+    dispatch('pointermove', 2, x + 50 + grow / 2);
+    dispatch('pointerup', 1, x - 50 - grow / 2);
+    dispatch('pointerup', 2, x + 50 + grow / 2);
+  }, { index, grow });
+  await page.waitForTimeout(100);
+}
+
+async function doubleClickCenter(page: any, index = 0) {
+  const box = await getImageBox(page, index);
+  await page.mouse.dblclick(box.x + box.width / 2, box.y + box.height / 2);
+  // Animated zoom (250ms)
+  await page.waitForTimeout(400);
+}
+
+test.describe('Detail zoom', () => {
+
+  test('double-click zooms the focused image to its native resolution', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+
+    await doubleClickCenter(page);
+
+    const box = await getImageBox(page);
+    expect(box.width).toBeCloseTo(4937, -1);
+    expect(box.height).toBeCloseTo(3285, -1);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('a second double-click zooms back out', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+    const focused = await getImageBox(page);
+
+    await doubleClickCenter(page);
+    await page.waitForTimeout(300);
+    await doubleClickCenter(page);
+
+    const box = await getImageBox(page);
+    expect(box.width).toBeCloseTo(focused.width, 0);
+    expect(box.x).toBeCloseTo(focused.x, 0);
+  });
+
+  test('a single click on the focused image still unfocuses it', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+
+    const box = await getImageBox(page);
+    await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
+    await page.waitForTimeout(600);
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+  });
+
+  test('the wheel zooms around the pointer', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page);
+    await focus(page);
+    const before = await getImageBox(page);
+
+    // A point left of and above the image center
+    const pointer = { x: before.x + before.width * 0.3, y: before.y + before.height * 0.4 };
+    await page.mouse.move(pointer.x, pointer.y);
+    // Enough to make the image larger than the container on both axes
+    await page.mouse.wheel(0, -300);
+    await page.waitForTimeout(100);
+
+    const after = await getImageBox(page);
+    const zoom = after.width / before.width;
+    expect(zoom).toBeGreaterThan(1);
+    // The image point under the pointer stays under it
+    expect(after.x + (pointer.x - before.x) * zoom).toBeCloseTo(pointer.x, 0);
+    expect(after.y + (pointer.y - before.y) * zoom).toBeCloseTo(pointer.y, 0);
+  });
+
+  test('zoom stops at native resolution', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page);
+    await focus(page);
+    const container = await getContainerSize(page);
+    await page.mouse.move(container.width / 2, container.height / 2);
+
+    for (let i = 0; i < 10; i++) await page.mouse.wheel(0, -500);
+    await page.waitForTimeout(100);
+
+    expect((await getImageBox(page)).width).toBeCloseTo(4937, -1);
+  });
+
+  test('dragging pans the zoomed image without unfocusing it', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+    await doubleClickCenter(page);
+    const before = await getImageBox(page);
+
+    const start = { x: before.x + before.width / 2, y: before.y + before.height / 2 };
+    await page.mouse.move(start.x, start.y);
+    await page.mouse.down();
+    await page.mouse.move(start.x + 60, start.y + 30, { steps: 10 });
+    await page.mouse.up();
+    await page.waitForTimeout(400);
+
+    const after = await getImageBox(page);
+    expect(after.x - before.x).toBeCloseTo(60, 0);
+    expect(after.y - before.y).toBeCloseTo(30, 0);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('panning keeps the image edges outside the focus area', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page);
+    await focus(page);
+    const container = await getContainerSize(page);
+    await page.mouse.move(container.width / 2, container.height / 2);
+    // Zoom 1.5: a little larger than the container on both axes
+    await page.mouse.wheel(0, -203);
+    await page.waitForTimeout(100);
+
+    await page.mouse.down();
+    await page.mouse.move(container.width / 2 + 300, container.height / 2 + 300, { steps: 10 });
+    await page.mouse.up();
+    await page.waitForTimeout(400);
+
+    const after = await getImageBox(page);
+    expect(after.x).toBeCloseTo(0, 0);
+    expect(after.y).toBeCloseTo(0, 0);
+  });
+
+  test('navigating resets the zoom', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+    const focused = await getImageBox(page);
+    await doubleClickCenter(page);
+
+    await page.keyboard.press('ArrowRight');
+    await page.waitForTimeout(400);
+    await page.keyboard.press('ArrowLeft');
+    await page.waitForTimeout(400);
+
+    const box = await getImageBox(page);
+    expect(box.width).toBeCloseTo(focused.width, 0);
+  });
+
+  test('unfocusing returns a zoomed image to its layout size', async ({ page }) => {
+    await initGallery(page);
+    const layout = await getImageBox(page);
+    await focus(page);
+    await doubleClickCenter(page);
+
+    await page.keyboard.press('Escape');
+    await page.waitForTimeout(400);
+
+    const box = await getImageBox(page);
+    expect(box.width).toBeCloseTo(layout.width, 0);
+    expect(box.x).toBeCloseTo(layout.x, 0);
+  });
+
+  test('a pinch zooms the focused image', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+    const before = await getImageBox(page);
+
+    // Spreading the fingers from 100px to 200px apart doubles the zoom
+    await pinchCenter(page, 100);
+
+    const after = await getImageBox(page);
+    expect(after.width / before.width).toBeCloseTo(2, 1);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('a double-tap zooms the focused image to its native resolution', async ({ page }, testInfo) => {
+    test.skip(!testInfo.project.use.hasTouch, 'Needs a touchscreen');
+    await initGallery(page);
+    await focus(page);
+
+    const box = await getImageBox(page);
+    await page.touchscreen.tap(box.x + box.width / 2, box.y + box.height / 2);
+    await page.touchscreen.tap(box.x + box.width / 2, box.y + box.height / 2);
+    await page.waitForTimeout(400);
+
+    expect((await getImageBox(page)).width).toBeCloseTo(4937, -1);
+  });
+
+  test('swipe does not navigate while zoomed in', async ({ page }) => {
+    await initGallery(page);
+    await focus(page);
+    await doubleClickCenter(page);
+
+    await page.evaluate(async () => {
+      const gallery = document.getElementById('imageCloud')!;
+      const rect = gallery.getBoundingClientRect();
+      const y = rect.top + rect.height / 2;
+      const dispatch = (type: string, x: number, active: boolean) => {
+        const touch = new Touch({ identifier: 1, target: gallery, clientX: x, clientY: y });
+        gallery.dispatchEvent(new TouchEvent(type, {
+          bubbles: true, cancelable: true,
+          touches: active ? [touch] : [], targetTouches: active ? [touch] : [], changedTouches: [touch]
+        }));
+      };
+      dispatch('touchstart', rect.left + rect.width / 2, true);
+      await new Promise(r => setTimeout(r, 50));
+      dispatch('touchmove', rect.left + rect.width / 2 - 200, true);
+      dispatch('touchend', rect.left + rect.width / 2 - 200, false);
+    });
+    await page.waitForTimeout(400);
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('is off by default', async ({ page }, testInfo) => {
+    test.skip(testInfo.project.name === 'mobile', 'Mouse wheel is not supported in mobile WebKit');
+    await initGallery(page, false);
+    await focus(page);
+    const before = await getImageBox(page);
+
+    await page.mouse.move(before.x + before.width / 2, before.y + before.height / 2);
+    await page.mouse.wheel(0, -300);
+    await page.waitForTimeout(100);
+
+    expect((await getImageBox(page)).width).toBeCloseTo(before.width, 0);
+  });
+
+});
@@ -0,0 +1,173 @@
+import { test, expect } from '@playwright/test';
+
+// Declared sizes let the layout run without waiting for downloads
+const IMAGES = [
+  { url: '/test/fixtures/images/image1.jpg', width: 800, height: 533 },
+  { url: '/test/fixtures/images/image2.jpg', width: 800, height: 1200 },
+  { url: '/test/fixtures/images/image3.jpg', width: 800, height: 600 }
+];
+
+// Middle band of the container, as fractions
+const ZONE = { x: 0.25, y: 0.35, width: 0.5, height: 0.3 };
+
+async function initGallery(page: any, layout: object, pinned: object | null = null, imageCount = 20) {
+  await page.goto('/test/fixtures/exclusion-zones.html');
+
+  const images: object[] = Array.from({ length: imageCount }, (_, i) => IMAGES[i % IMAGES.length]);
+  if (pinned) images[0] = { ...images[0], pinned };
+
+  await page.evaluate(async ({ images, layout }: { images: object[], layout: object }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: { seed: 42, ...layout },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { images, layout });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 10000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+/**
+ * Rendered boxes of the images, relative to the container
+ */
+async function getBoxes(page: any) {
+  return page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    return Array.from(document.querySelectorAll<HTMLElement>('#imageCloud img')).map(img => {
+      const rect = img.getBoundingClientRect();
+      return {
+        id: Number(img.dataset.imageId),
+        left: rect.left - container.left,
+        top: rect.top - container.top,
+        right: rect.right - container.left,
+        bottom: rect.bottom - container.top
+      };
+    });
+  });
+}
+
+async function getContainerSize(page: any) {
+  return page.evaluate(() => {
+    const el = document.getElementById('imageCloud')!;
+    return { width: el.clientWidth, height: el.clientHeight };
+  });
+}
+
+function intersects(a: { left: number; top: number; right: number; bottom: number }, b: typeof a): boolean {
+  // 1px tolerance for subpixel rounding
+  return a.left < b.right - 1 && b.left < a.right - 1 && a.top < b.bottom - 1 && b.top < a.bottom - 1;
+}
+
+async function getZoneBox(page: any) {
+  const { width, height } = await getContainerSize(page);
+  return {
+    left: ZONE.x * width,
+    top: ZONE.y * height,
+    right: (ZONE.x + ZONE.width) * width,
+    bottom: (ZONE.y + ZONE.height) * height
+  };
+}
+
+test.describe('Exclusion zones', () => {
+
+  for (const algorithm of ['random', 'radial', 'grid', 'spiral']) {
+    test(`keeps ${algorithm} images out of the zone`, async ({ page }) => {
+      await initGallery(page, { algorithm, exclusionZones: [ZONE] });
+
+      const zone = await getZoneBox(page);
+      const covering = (await getBoxes(page)).filter((box: any) => intersects(box, zone));
+      expect(covering).toEqual([]);
+    });
+  }
+
+  test('accepts polygons', async ({ page }) => {
+    // Left half of the container, given as a polygon
+    await initGallery(page, { algorithm: 'random', exclusionZones: [{ points: [[0, 0], [0.5, 0], [0.5, 1], [0, 1]] }] });
+
+    const { width } = await getContainerSize(page);
+    const covering = (await getBoxes(page)).filter((box: any) => box.left < width / 2 - 1);
+    expect(covering).toEqual([]);
+  });
+
+  test('with collision, images moved off the zone do not pile up', async ({ page }) => {
+    await initGallery(page, { algorithm: 'grid', exclusionZones: [ZONE], collision: { enabled: true } }, null, 12);
+
+    const boxes = await getBoxes(page);
+    const zone = await getZoneBox(page);
+    expect(boxes.filter((box: any) => intersects(box, zone))).toEqual([]);
+
+    // Shared area of every pair over the total area, as layout.collision measures it
+    const area = (b: any) => (b.right - b.left) * (b.bottom - b.top);
+    let shared = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const w = Math.min(boxes[i].right, boxes[j].right) - Math.max(boxes[i].left, boxes[j].left);
+        const h = Math.min(boxes[i].bottom, boxes[j].bottom) - Math.max(boxes[i].top, boxes[j].top);
+        if (w > 0 && h > 0) shared += w * h;
+      }
+    }
+    const total = boxes.reduce((sum: number, box: any) => sum + area(box), 0);
+    // maxOverlap defaults to 0.02; a little slack for subpixel rounding
+    expect(shared / total).toBeLessThan(0.025);
+  });
+
+  test('still holds after a resize', async ({ page }) => {
+    await initGallery(page, { algorithm: 'random', exclusionZones: [ZONE] });
+
+    await page.setViewportSize({ width: 900, height: 700 });
+    await page.waitForTimeout(800);
+
+    const zone = await getZoneBox(page);
+    const covering = (await getBoxes(page)).filter((box: any) => intersects(box, zone));
+    expect(covering).toEqual([]);
+  });
+
+});
+
+test.describe('Pinned images', () => {
+
+  test('sit at their pinned position', async ({ page }) => {
+    await initGallery(page, { algorithm: 'random' }, { x: 0.3, y: 0.4 });
+
+    const { width, height } = await getContainerSize(page);
+    const pinned = (await getBoxes(page)).find((box: any) => box.id === 0)!;
+    expect((pinned.left + pinned.right) / 2).toBeCloseTo(width * 0.3, 0);
+    expect((pinned.top + pinned.bottom) / 2).toBeCloseTo(height * 0.4, 0);
+  });
+
+  test('other images flow around them', async ({ page }) => {
+    await initGallery(page, { algorithm: 'grid' }, { x: 0.5, y: 0.5, scale: 1.5 });
+
+    const boxes = await getBoxes(page);
+    const pinned = boxes.find((box: any) => box.id === 0)!;
+    const covering = boxes.filter((box: any) => box.id !== 0 && intersects(box, pinned));
+    expect(covering).toEqual([]);
+  });
+
+  test('keep their position on resize', async ({ page }) => {
+    await initGallery(page, { algorithm: 'random' }, { x: 0.3, y: 0.4 });
+
+    await page.setViewportSize({ width: 900, height: 700 });
+    await page.waitForTimeout(800);
+
+    const { width, height } = await getContainerSize(page);
+    const pinned = (await getBoxes(page)).find((box: any) => box.id === 0)!;
+    expect((pinned.left + pinned.right) / 2).toBeCloseTo(width * 0.3, 0);
+    expect((pinned.top + pinned.bottom) / 2).toBeCloseTo(height * 0.4, 0);
+  });
+
+});
@@ -0,0 +1,166 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page, count: number) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction((n) => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === n && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, count, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+function exitEvents(page: Page) {
+  return page.evaluate(() => window.callbackLog.filter((e: any) => e.event.startsWith('exit')));
+}
+
+test.describe('Exit animation', () => {
+
+  test('clear({ animate: true }) animates images out before removing them', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    const clearing = page.evaluate(() => {
+      window.clearDone = false;
+      return window.gallery.clear({ animate: true }).then(() => { window.clearDone = true; });
+    });
+
+    // Still on screen while leaving
+    await page.waitForTimeout(100);
+    expect(await page.locator('#imageCloud img.fbn-ic-exiting').count()).toBe(4);
+    expect(await page.evaluate(() => window.clearDone)).toBe(false);
+
+    await clearing;
+    await expect(page.locator('#imageCloud img')).toHaveCount(0);
+  });
+
+  test('fires onExitStart and onExitComplete once per exit', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.clear());
+
+    const events = await exitEvents(page);
+    expect(events.map((e: any) => e.event)).toEqual(['exitStart', 'exitComplete']);
+    expect(events[0].count).toBe(4);
+    expect(events[0].urls[0]).toContain('image1.jpg');
+    // 400ms per image + 50ms stagger for each of the 3 later images
+    expect(events[0].duration).toBe(550);
+    expect(events[1].connected).toBe(0);
+  });
+
+  test('images move toward the target edge', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    const before = await page.locator('#imageCloud img').first().evaluate(img => img.getBoundingClientRect().top);
+    const clearing = page.evaluate(() => window.gallery.clear());
+    await page.waitForTimeout(300);
+    const during = await page.locator('#imageCloud img').first().evaluate(img => img.getBoundingClientRect().top);
+    await clearing;
+
+    expect(during).toBeLessThan(before);
+  });
+
+  test('clear({ animate: false }) removes images immediately', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.clear({ animate: false }));
+
+    await expect(page.locator('#imageCloud img')).toHaveCount(0);
+    expect(await exitEvents(page)).toHaveLength(0);
+  });
+
+  test('clearImageCloud() plays the configured exit animation', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.clearImageCloud());
+    expect(await page.locator('#imageCloud img.fbn-ic-exiting').count()).toBe(4);
+
+    await expect(page.locator('#imageCloud img')).toHaveCount(0, { timeout: 2000 });
+  });
+
+  test('clearImageCloud() logs a failing exit hook instead of rejecting unhandled', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    const pageErrors: string[] = [];
+    const consoleErrors: string[] = [];
+    page.on('pageerror', error => pageErrors.push(error.message));
+    page.on('console', message => { if (message.type() === 'error') consoleErrors.push(message.text()); });
+
+    await page.evaluate(() => window.gallery.updateOptions({
+      on: { onExitComplete: () => { throw new Error('hook failed'); } }
+    }));
+    await page.evaluate(() => window.gallery.clearImageCloud());
+    await expect(page.locator('#imageCloud img')).toHaveCount(0, { timeout: 2000 });
+    await page.waitForTimeout(100);
+
+    expect(pageErrors).toHaveLength(0);
+    expect(consoleErrors.some(text => text.includes('Error clearing images'))).toBe(true);
+  });
+
+  test('reloading with new images animates the old ones out', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.updateOptions({
+      images: ['/test/fixtures/images/scenery1.jpg', '/test/fixtures/images/scenery2.jpg']
+    }));
+
+    await page.waitForFunction(() => window.callbackLog.some((e: any) => e.event === 'exitComplete'), null, { timeout: 3000 });
+    const events = await exitEvents(page);
+    expect(events[0].count).toBe(4);
+    await waitForAllImages(page, 2);
+  });
+
+  test('removed images animate out', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.removeImage(1));
+
+    const events = await exitEvents(page);
+    expect(events.map((e: any) => e.event)).toEqual(['exitStart', 'exitComplete']);
+    expect(events[0].count).toBe(1);
+    expect(events[0].urls[0]).toContain('image2.jpg');
+    await expect(page.locator('#imageCloud img')).toHaveCount(3);
+  });
+
+  test('without animation.exit images are removed immediately', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html?exit=0');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.clearImageCloud());
+
+    await expect(page.locator('#imageCloud img')).toHaveCount(0);
+    expect(await exitEvents(page)).toHaveLength(0);
+  });
+
+  test('clear({ animate: true }) uses the default exit without animation.exit', async ({ page }) => {
+    await page.goto('/test/fixtures/exit-animation.html?exit=0');
+    await waitForAllImages(page, 4);
+
+    await page.evaluate(() => window.gallery.clear({ animate: true }));
+
+    const events = await exitEvents(page);
+    expect(events[0].count).toBe(4);
+    // Default duration is animation.duration (300ms) with no stagger
+    expect(events[0].duration).toBe(300);
+    await expect(page.locator('#imageCloud img')).toHaveCount(0);
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+    clearDone: boolean;
+  }
+}
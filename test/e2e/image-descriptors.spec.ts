@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Image Descriptors', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/test/fixtures/image-descriptors.html');
+    await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+    await page.evaluate(() => window.galleryInitPromise);
+    await page.waitForFunction(() => {
+      const imgs = document.querySelectorAll('#imageCloud img');
+      return imgs.length >= 3 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+    }, { timeout: 10000 });
+  });
+
+  test('uses descriptor alt text and falls back to filename for strings', async ({ page }) => {
+    const alts = await page.evaluate(() => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img')) as HTMLImageElement[];
+      return Object.fromEntries(imgs.map(img => [img.dataset.imageId, img.alt]));
+    });
+
+    expect(alts['0']).toBe('image1');
+    expect(alts['1']).toBe('Mountain lake');
+    expect(alts['2']).toBe('Forest path');
+  });
+
+  test('passes descriptors to onImageLoaded', async ({ page }) => {
+    const log = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'loaded'));
+    const second = log.find((e: any) => e.index === 1);
+
+    expect(second.image).toEqual({
+      url: '/test/fixtures/images/image2.jpg',
+      alt: 'Mountain lake',
+      caption: 'Early morning',
+      tags: ['nature'],
+      link: 'https://example.com/lake',
+      meta: { photographer: 'Sam' }
+    });
+
+    const first = log.find((e: any) => e.index === 0);
+    expect(first.image).toEqual({ url: '/test/fixtures/images/image1.jpg' });
+  });
+
+  test('passes descriptors to onLayoutComplete', async ({ page }) => {
+    const layout = await page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'layout'));
+
+    expect(layout.images).toHaveLength(3);
+    expect(layout.images[2].alt).toBe('Forest path');
+  });
+
+  test('passes descriptor to onImageFocus', async ({ page }) => {
+    await page.evaluate(() => window.gallery.focusImage(1));
+
+    const focus = await page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'focus'));
+    expect(focus.index).toBe(1);
+    expect(focus.image.caption).toBe('Early morning');
+    expect(focus.image.meta).toEqual({ photographer: 'Sam' });
+  });
+});
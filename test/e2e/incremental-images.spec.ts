@@ -0,0 +1,183 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForImages(page: Page, count: number) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction((n) => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === n && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, count, { timeout: 10000 });
+}
+
+function imageSources(page: Page) {
+  return page.evaluate(() =>
+    Array.from(document.querySelectorAll<HTMLImageElement>('#imageCloud img'))
+      .sort((a, b) => Number(a.dataset.imageId) - Number(b.dataset.imageId))
+      .map(img => new URL(img.src).pathname)
+  );
+}
+
+test.describe('Incremental Image Updates', () => {
+
+  test('addImages appends images without reloading existing ones', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    // Mark existing elements so we can tell whether they were recreated
+    await page.evaluate(() => {
+      document.querySelectorAll('#imageCloud img').forEach(img => img.setAttribute('data-original', 'true'));
+      window.callbackLog = [];
+    });
+
+    await page.evaluate(() => window.gallery.addImages([
+      '/test/fixtures/images/food1.jpg',
+      { url: '/test/fixtures/images/food2.jpg', alt: 'Dessert' }
+    ]));
+    await waitForImages(page, 5);
+
+    expect(await page.evaluate(() => window.gallery.getImageCount())).toBe(5);
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(3);
+    expect(await imageSources(page)).toEqual([
+      '/test/fixtures/images/image1.jpg',
+      '/test/fixtures/images/image2.jpg',
+      '/test/fixtures/images/image3.jpg',
+      '/test/fixtures/images/food1.jpg',
+      '/test/fixtures/images/food2.jpg'
+    ]);
+    await expect(page.locator('#imageCloud img[data-image-id="4"]')).toHaveAttribute('alt', 'Dessert');
+  });
+
+  test('only added images play the entry animation', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+    await page.evaluate(() => { window.callbackLog = []; });
+
+    await page.evaluate(() => window.gallery.addImages(['/test/fixtures/images/food1.jpg']));
+    await waitForImages(page, 4);
+
+    const entries = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'entry'));
+    expect(entries).toHaveLength(1);
+    expect(entries[0].url).toBe('/test/fixtures/images/food1.jpg');
+  });
+
+  test('addImages re-runs the layout and fires onLayoutComplete', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+    await page.evaluate(() => { window.callbackLog = []; });
+
+    await page.evaluate(() => window.gallery.addImages([
+      '/test/fixtures/images/food1.jpg',
+      '/test/fixtures/images/food2.jpg',
+      '/test/fixtures/images/food3.jpg'
+    ]));
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0].imageCount).toBe(6);
+
+    // Existing images end up at their slot in the new layout
+    const left = await page.locator('#imageCloud img[data-image-id="0"]').evaluate(img => parseFloat((img as HTMLElement).style.left));
+    expect(left).toBeCloseTo(layouts[0].firstX, 1);
+  });
+
+  test('addImages skips entries with disallowed extensions', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    await page.evaluate(() => window.gallery.addImages([
+      '/test/fixtures/images/skip-me.pdf',
+      '/test/fixtures/images/food1.jpg'
+    ]));
+    await waitForImages(page, 4);
+
+    expect(await page.evaluate(() => window.gallery.getImageCount())).toBe(4);
+  });
+
+  test('removeImage removes the image and reindexes the rest', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    await page.evaluate(() => window.gallery.removeImage(0));
+
+    expect(await page.evaluate(() => window.gallery.getImageCount())).toBe(2);
+    expect(await imageSources(page)).toEqual([
+      '/test/fixtures/images/image2.jpg',
+      '/test/fixtures/images/image3.jpg'
+    ]);
+  });
+
+  test('removeImage rejects an out-of-range index', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    const message = await page.evaluate(async () => {
+      try {
+        await window.gallery.removeImage(3);
+        return null;
+      } catch (e) {
+        return (e as Error).message;
+      }
+    });
+    expect(message).toContain('out of range');
+    expect(await page.evaluate(() => window.gallery.getImageCount())).toBe(3);
+  });
+
+  test('removeImage unfocuses the focused image first', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    await page.evaluate(() => window.gallery.focusImage(1));
+    await page.evaluate(() => window.gallery.removeImage(2));
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+    await expect(page.locator('#imageCloud img.fbn-ic-focused')).toHaveCount(0);
+  });
+
+  test('replaceImages keeps matching images and swaps the rest', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    await page.evaluate(() => {
+      document.querySelectorAll('#imageCloud img').forEach(img => img.setAttribute('data-original', 'true'));
+    });
+
+    await page.evaluate(() => window.gallery.replaceImages([
+      '/test/fixtures/images/image3.jpg',
+      '/test/fixtures/images/scenery1.jpg',
+      '/test/fixtures/images/image1.jpg'
+    ]));
+    await waitForImages(page, 3);
+
+    expect(await imageSources(page)).toEqual([
+      '/test/fixtures/images/image3.jpg',
+      '/test/fixtures/images/scenery1.jpg',
+      '/test/fixtures/images/image1.jpg'
+    ]);
+    // image1 and image3 kept their elements; image2 was removed
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(2);
+  });
+
+  test('navigation follows the new indices after a change', async ({ page }) => {
+    await page.goto('/test/fixtures/incremental-images.html');
+    await waitForImages(page, 3);
+
+    await page.evaluate(() => window.gallery.removeImage(0));
+    await page.evaluate(() => window.gallery.focusImage(0));
+
+    const focused = await page.evaluate(() => {
+      const el = document.querySelector('#imageCloud img.fbn-ic-focused') as HTMLImageElement | null;
+      return el ? new URL(el.src).pathname : null;
+    });
+    expect(focused).toBe('/test/fixtures/images/image2.jpg');
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+  }
+}
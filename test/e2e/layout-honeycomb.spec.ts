@@ -218,6 +218,41 @@ test.describe('Honeycomb Layout Algorithm', () => {
 
   });
 
+  test.describe('Rectangle Shape', () => {
+
+    test('fills rows left to right, odd columns half a hex lower', async ({ page }) => {
+      await initGallery(page, { shape: 'rectangle' }, 12);
+
+      const positions = await getLayoutPositions(page);
+      expect(positions.length).toBe(12);
+
+      // Image 1 is right of image 0 and half a hex (50px) lower; image 2 is back on image 0's line
+      expect(positions[1].x).toBeGreaterThan(positions[0].x);
+      expect(positions[1].y - positions[0].y).toBeCloseTo(50, 0);
+      expect(positions[2].y).toBeCloseTo(positions[0].y, 0);
+    });
+
+    test('is wider than tall in a landscape container', async ({ page }) => {
+      await initGallery(page, { shape: 'rectangle' }, 24);
+
+      const positions = await getLayoutPositions(page);
+      const xs = positions.map(p => p.x);
+      const ys = positions.map(p => p.y);
+      expect(Math.max(...xs) - Math.min(...xs)).toBeGreaterThan(Math.max(...ys) - Math.min(...ys));
+    });
+
+    test('fit renders without errors', async ({ page }) => {
+      const errors: string[] = [];
+      page.on('pageerror', (err) => errors.push(err.message));
+
+      await initGallery(page, { shape: 'fit' }, 19);
+
+      expect(await getImageCount(page)).toBe(19);
+      expect(errors).toHaveLength(0);
+    });
+
+  });
+
   test.describe('Edge Cases', () => {
 
     test('handles 19 images across multiple rings', async ({ page }) => {
@@ -0,0 +1,185 @@
+import { test, expect } from '@playwright/test';
+import { getImageCount } from '../utils/test-helpers';
+
+// Local fixture images with mixed aspect ratios
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg',
+  '/test/fixtures/images/food1.jpg',
+  '/test/fixtures/images/food2.jpg',
+  '/test/fixtures/images/food3.jpg',
+  '/test/fixtures/images/scenery1.jpg',
+  '/test/fixtures/images/scenery2.jpg',
+  '/test/fixtures/images/scenery3.jpg'
+];
+
+async function initGallery(page: any, justifiedConfig: object = {}, imageCount = 9) {
+  await page.goto('/test/fixtures/layout-justified.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, justified }: { urls: string[], justified: object }) => {
+    // @ts-ignore
+    window.layoutLog = [];
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: {
+        algorithm: 'justified',
+        spacing: { padding: 20 },
+        justified
+      },
+      image: { sizing: { mode: 'fixed', height: 120 } },
+      animation: { duration: 50, queue: { enabled: true, interval: 10 } },
+      on: {
+        // @ts-ignore
+        onLayoutComplete: (ctx: any) => window.layoutLog.push(ctx.layouts.length)
+      }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, justified: justifiedConfig });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 8000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+/**
+ * On-screen boxes relative to the container, sorted by image index
+ */
+async function getImageBoxes(page: any) {
+  return page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    const imgs = Array.from(document.querySelectorAll('#imageCloud img')) as HTMLImageElement[];
+    return imgs
+      .map(img => {
+        const rect = img.getBoundingClientRect();
+        return {
+          id: parseInt(img.dataset.imageId || '0'),
+          left: rect.left - container.left,
+          right: rect.right - container.left,
+          top: rect.top - container.top,
+          bottom: rect.bottom - container.top,
+          aspectRatio: img.naturalWidth / img.naturalHeight
+        };
+      })
+      .sort((a, b) => a.id - b.id);
+  });
+}
+
+test.describe('Justified Layout Algorithm', () => {
+
+  test('renders all images without errors', async ({ page }) => {
+    const errors: string[] = [];
+    page.on('pageerror', (err) => errors.push(err.message));
+
+    await initGallery(page);
+
+    expect(await getImageCount(page)).toBe(9);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('rows span the container width between the padding', async ({ page }) => {
+    await initGallery(page, { gap: 8 });
+
+    const width = await page.evaluate(() => document.getElementById('imageCloud')!.offsetWidth);
+    const boxes = await getImageBoxes(page);
+
+    // Group images into rows by their top edge
+    const rows = new Map<number, typeof boxes>();
+    for (const box of boxes) {
+      const key = Math.round(box.top);
+      rows.set(key, [...(rows.get(key) ?? []), box]);
+    }
+    const fullRows = [...rows.values()].slice(0, -1);
+    expect(fullRows.length).toBeGreaterThan(0);
+
+    for (const row of fullRows) {
+      expect(row[0].left).toBeCloseTo(20, 0);
+      expect(row[row.length - 1].right).toBeCloseTo(width - 20, 0);
+    }
+  });
+
+  test('images keep their natural aspect ratio', async ({ page }) => {
+    await initGallery(page);
+
+    for (const box of await getImageBoxes(page)) {
+      const rendered = (box.right - box.left) / (box.bottom - box.top);
+      expect(rendered).toBeCloseTo(box.aspectRatio, 1);
+    }
+  });
+
+  test('images do not overlap', async ({ page }) => {
+    await initGallery(page);
+    const boxes = await getImageBoxes(page);
+
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const a = boxes[i];
+        const b = boxes[j];
+        const overlapX = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+        const overlapY = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+        expect(overlapX <= 1 || overlapY <= 1).toBe(true);
+      }
+    }
+  });
+
+  test('fires onLayoutComplete once, after the images have loaded', async ({ page }) => {
+    await initGallery(page);
+    const log = await page.evaluate(() => (window as any).layoutLog);
+    expect(log).toEqual([9]);
+  });
+
+  test('container grows to fit images that do not fit', async ({ page }) => {
+    await initGallery(page, { rowHeight: 300 }, 18);
+
+    const sizes = await page.evaluate(() => {
+      const el = document.getElementById('imageCloud')!;
+      return { height: el.offsetHeight, minHeight: el.style.minHeight, viewport: window.innerHeight };
+    });
+    expect(sizes.height).toBeGreaterThan(sizes.viewport);
+
+    const boxes = await getImageBoxes(page);
+    const bottom = Math.max(...boxes.map(b => b.bottom));
+    expect(bottom).toBeLessThanOrEqual(sizes.height);
+  });
+
+  test('overflow fit keeps every image inside the container', async ({ page }) => {
+    await initGallery(page, { rowHeight: 300, overflow: 'fit' }, 18);
+
+    const height = await page.evaluate(() => document.getElementById('imageCloud')!.offsetHeight);
+    expect(height).toBe(page.viewportSize()!.height);
+
+    for (const box of await getImageBoxes(page)) {
+      expect(box.top).toBeGreaterThanOrEqual(19);
+      expect(box.bottom).toBeLessThanOrEqual(height - 19);
+    }
+  });
+
+  test('switching away restores the container height', async ({ page }) => {
+    await initGallery(page, { rowHeight: 300 }, 18);
+
+    await page.evaluate(() => (window as any).gallery.setLayout('grid', { duration: 50 }));
+    const sizes = await page.evaluate(() => {
+      const el = document.getElementById('imageCloud')!;
+      return { height: el.offsetHeight, minHeight: el.style.minHeight };
+    });
+    expect(sizes.minHeight).toBe('');
+    expect(sizes.height).toBe(page.viewportSize()!.height);
+  });
+
+});
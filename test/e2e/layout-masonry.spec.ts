@@ -0,0 +1,153 @@
+import { test, expect } from '@playwright/test';
+import { getImageCount } from '../utils/test-helpers';
+
+// Local fixture images with mixed aspect ratios
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg',
+  '/test/fixtures/images/food1.jpg',
+  '/test/fixtures/images/food2.jpg',
+  '/test/fixtures/images/food3.jpg',
+  '/test/fixtures/images/scenery1.jpg',
+  '/test/fixtures/images/scenery2.jpg',
+  '/test/fixtures/images/scenery3.jpg'
+];
+
+async function initGallery(page: any, masonryConfig: object = {}, imageCount = 9) {
+  await page.goto('/test/fixtures/layout-masonry.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, masonry }: { urls: string[], masonry: object }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: {
+        algorithm: 'masonry',
+        spacing: { padding: 20 },
+        masonry
+      },
+      image: { sizing: { mode: 'fixed', height: 120 } },
+      animation: { duration: 50, queue: { enabled: true, interval: 10 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, masonry: masonryConfig });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 8000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+/**
+ * On-screen boxes relative to the container, sorted by image index
+ */
+async function getImageBoxes(page: any) {
+  return page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    const imgs = Array.from(document.querySelectorAll('#imageCloud img')) as HTMLImageElement[];
+    return imgs
+      .map(img => {
+        const rect = img.getBoundingClientRect();
+        return {
+          id: parseInt(img.dataset.imageId || '0'),
+          left: rect.left - container.left,
+          right: rect.right - container.left,
+          top: rect.top - container.top,
+          bottom: rect.bottom - container.top,
+          aspectRatio: img.naturalWidth / img.naturalHeight
+        };
+      })
+      .sort((a, b) => a.id - b.id);
+  });
+}
+
+test.describe('Masonry Layout Algorithm', () => {
+
+  test('renders all images without errors', async ({ page }) => {
+    const errors: string[] = [];
+    page.on('pageerror', (err) => errors.push(err.message));
+
+    await initGallery(page);
+
+    expect(await getImageCount(page)).toBe(9);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('columns have equal width and span the container', async ({ page }) => {
+    await initGallery(page, { columns: 3, gap: 10 });
+
+    const width = await page.evaluate(() => document.getElementById('imageCloud')!.offsetWidth);
+    const boxes = await getImageBoxes(page);
+    const columnWidth = (width - 40 - 20) / 3;
+
+    for (const box of boxes) {
+      expect(box.right - box.left).toBeCloseTo(columnWidth, 0);
+    }
+    expect(Math.min(...boxes.map(b => b.left))).toBeCloseTo(20, 0);
+    expect(Math.max(...boxes.map(b => b.right))).toBeCloseTo(width - 20, 0);
+  });
+
+  test('images keep their natural aspect ratio', async ({ page }) => {
+    await initGallery(page, { columns: 3 });
+
+    for (const box of await getImageBoxes(page)) {
+      const rendered = (box.right - box.left) / (box.bottom - box.top);
+      expect(rendered).toBeCloseTo(box.aspectRatio, 1);
+    }
+  });
+
+  test('images stack in columns without overlapping', async ({ page }) => {
+    await initGallery(page, { columns: 3, gap: 10 });
+    const boxes = await getImageBoxes(page);
+
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        const a = boxes[i];
+        const b = boxes[j];
+        const overlapX = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+        const overlapY = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+        expect(overlapX <= 1 || overlapY <= 1).toBe(true);
+      }
+    }
+  });
+
+  test('container grows to fit tall columns', async ({ page }) => {
+    await initGallery(page, { columns: 2 }, 18);
+
+    const sizes = await page.evaluate(() => ({
+      height: document.getElementById('imageCloud')!.offsetHeight,
+      viewport: window.innerHeight
+    }));
+    expect(sizes.height).toBeGreaterThan(sizes.viewport);
+
+    const boxes = await getImageBoxes(page);
+    expect(Math.max(...boxes.map(b => b.bottom))).toBeLessThanOrEqual(sizes.height);
+  });
+
+  test('overflow fit keeps every image inside the container', async ({ page }) => {
+    await initGallery(page, { columns: 2, overflow: 'fit' }, 18);
+
+    const height = await page.evaluate(() => document.getElementById('imageCloud')!.offsetHeight);
+    expect(height).toBe(page.viewportSize()!.height);
+
+    for (const box of await getImageBoxes(page)) {
+      expect(box.top).toBeGreaterThanOrEqual(19);
+      expect(box.bottom).toBeLessThanOrEqual(height - 19);
+    }
+  });
+
+});
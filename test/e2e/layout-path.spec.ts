@@ -0,0 +1,167 @@
+import { test, expect } from '@playwright/test';
+import { getImageCount } from '../utils/test-helpers';
+
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg',
+  '/test/fixtures/images/food1.jpg',
+  '/test/fixtures/images/food2.jpg',
+  '/test/fixtures/images/food3.jpg'
+];
+
+/**
+ * Build the gallery in the page. `curve` is passed as a function body over `t`
+ * because functions cannot cross into page.evaluate.
+ */
+async function initGallery(page: any, pathConfig: object, imageCount = 8, options: { curve?: string, rotation?: string } = {}) {
+  await page.goto('/test/fixtures/layout-path.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, path, curve, rotation }: { urls: string[], path: any, curve?: string, rotation?: string }) => {
+    if (curve) {
+      path.curve = new Function('t', curve);
+    }
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: {
+        algorithm: 'path',
+        spacing: { padding: 20 },
+        path
+      },
+      image: {
+        sizing: { mode: 'fixed', height: 80 },
+        rotation: { mode: rotation ?? 'none' }
+      },
+      animation: { duration: 50, queue: { enabled: true, interval: 10 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, path: pathConfig, ...options });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 8000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+async function getLayout(page: any): Promise<{ x: number, y: number, rotation: number }[]> {
+  return page.evaluate(() => (window as any).gallery.getLayout());
+}
+
+test.describe('Path Layout Algorithm', () => {
+
+  test('renders all images without errors', async ({ page }) => {
+    const errors: string[] = [];
+    page.on('pageerror', (err) => errors.push(err.message));
+
+    await initGallery(page, { d: 'M0 0 C30 100 70 -100 100 0' });
+
+    expect(await getImageCount(page)).toBe(8);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('spaces images evenly along a straight path', async ({ page }) => {
+    await initGallery(page, { d: 'M0 0 L100 0' }, 5);
+
+    const layout = await getLayout(page);
+    const gaps = layout.slice(1).map((l, i) => l.x - layout[i].x);
+    for (const gap of gaps) {
+      expect(gap).toBeCloseTo(gaps[0], 1);
+    }
+    for (const l of layout) {
+      expect(l.y).toBeCloseTo(layout[0].y, 1);
+    }
+  });
+
+  test('spaces images by arc length, not by curve parameter', async ({ page }) => {
+    // x = t^3 crowds t near the start; arc-length spacing must not
+    await initGallery(page, {}, 5, { curve: 'return { x: t * t * t, y: 0 };' });
+
+    const layout = await getLayout(page);
+    const gaps = layout.slice(1).map((l, i) => l.x - layout[i].x);
+    for (const gap of gaps) {
+      expect(gap).toBeCloseTo(gaps[0], 0);
+    }
+  });
+
+  test('closed curves spread images all the way around', async ({ page }) => {
+    await initGallery(page, {}, 8, { curve: 'return { x: Math.cos(t * 2 * Math.PI), y: Math.sin(t * 2 * Math.PI) };' });
+
+    const layout = await getLayout(page);
+    const cx = layout.reduce((sum, l) => sum + l.x, 0) / layout.length;
+    const cy = layout.reduce((sum, l) => sum + l.y, 0) / layout.length;
+    const radii = layout.map(l => Math.hypot(l.x - cx, l.y - cy));
+    for (const radius of radii) {
+      expect(radius).toBeCloseTo(radii[0], 0);
+    }
+    // No image doubles up at the seam where the curve closes
+    const angles = layout.map(l => Math.atan2(l.y - cy, l.x - cx));
+    for (let i = 1; i < angles.length; i++) {
+      expect(Math.abs(angles[i] - angles[i - 1])).toBeGreaterThan(0.5);
+    }
+  });
+
+  test('tangent rotation follows the path', async ({ page }) => {
+    await initGallery(page, { d: 'M0 100 L100 0', fit: 'fill' }, 3, { rotation: 'tangent' });
+
+    const layout = await getLayout(page);
+    // Stretched to fill, the diagonal rises at the container's own slope
+    const slope = (layout[2].y - layout[0].y) / (layout[2].x - layout[0].x);
+    const expected = Math.atan(slope) * 180 / Math.PI;
+    expect(expected).toBeLessThan(0);
+    for (const l of layout) {
+      expect(l.rotation).toBeCloseTo(expected, 0);
+    }
+  });
+
+  test('lanes run parallel to the path', async ({ page }) => {
+    await initGallery(page, { d: 'M0 0 L100 0', lanes: 3, laneSpacing: 100 }, 9);
+
+    const layout = await getLayout(page);
+    const rows = [0, 1, 2].map(lane => layout.slice(lane * 3, lane * 3 + 3));
+    for (const row of rows) {
+      for (const l of row) {
+        expect(l.y).toBeCloseTo(row[0].y, 1);
+      }
+    }
+    expect(rows[1][0].y - rows[0][0].y).toBeCloseTo(100, 1);
+    expect(rows[2][0].y - rows[1][0].y).toBeCloseTo(100, 1);
+  });
+
+  test('fit none uses container coordinates', async ({ page }) => {
+    await initGallery(page, { d: 'M100 200 L500 200', fit: 'none' }, 3);
+
+    const layout = await getLayout(page);
+    expect(layout.map(l => Math.round(l.x))).toEqual([100, 300, 500]);
+    for (const l of layout) {
+      expect(l.y).toBeCloseTo(200, 1);
+    }
+  });
+
+  test('warns and uses a horizontal line for invalid path data', async ({ page }) => {
+    const warnings: string[] = [];
+    page.on('console', (msg) => {
+      if (msg.type() === 'warning') warnings.push(msg.text());
+    });
+
+    await initGallery(page, { d: 'not a path' }, 4);
+
+    expect(await getImageCount(page)).toBe(4);
+    expect(warnings.some(w => w.includes('layout.path.d is not valid SVG path data'))).toBe(true);
+  });
+
+});
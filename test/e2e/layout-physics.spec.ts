@@ -0,0 +1,183 @@
+import { test, expect } from '@playwright/test';
+import { getImageCount } from '../utils/test-helpers';
+
+// Local fixture images with mixed aspect ratios
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg',
+  '/test/fixtures/images/food1.jpg',
+  '/test/fixtures/images/food2.jpg',
+  '/test/fixtures/images/food3.jpg',
+  '/test/fixtures/images/scenery1.jpg',
+  '/test/fixtures/images/scenery2.jpg',
+  '/test/fixtures/images/scenery3.jpg'
+];
+
+async function initGallery(page: any, physicsConfig: object = {}, imageCount = 9) {
+  await page.goto('/test/fixtures/layout-physics.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, physics }: { urls: string[], physics: object }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: {
+        algorithm: 'physics',
+        seed: 42,
+        spacing: { padding: 20 },
+        physics
+      },
+      image: { sizing: { mode: 'fixed', height: 100 } },
+      interaction: { rearrange: true },
+      animation: { duration: 50, queue: { enabled: true, interval: 10 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, physics: physicsConfig });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 8000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+/**
+ * On-screen boxes relative to the container, sorted by image index
+ */
+async function getImageBoxes(page: any) {
+  return page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    const imgs = Array.from(document.querySelectorAll('#imageCloud img')) as HTMLImageElement[];
+    return imgs
+      .map(img => {
+        const rect = img.getBoundingClientRect();
+        return {
+          id: parseInt(img.dataset.imageId || '0'),
+          left: rect.left - container.left,
+          right: rect.right - container.left,
+          top: rect.top - container.top,
+          bottom: rect.bottom - container.top
+        };
+      })
+      .sort((a, b) => a.id - b.id);
+  });
+}
+
+function expectNoOverlaps(boxes: { left: number, right: number, top: number, bottom: number }[]) {
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      const a = boxes[i];
+      const b = boxes[j];
+      const overlapX = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+      const overlapY = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+      expect(overlapX <= 1 || overlapY <= 1).toBe(true);
+    }
+  }
+}
+
+async function drag(page: any, index: number, dx: number, dy: number) {
+  const box = (await page.locator(`#imageCloud img[data-image-id="${index}"]`).boundingBox())!;
+  const startX = box.x + box.width / 2;
+  const startY = box.y + box.height / 2;
+  await page.mouse.move(startX, startY);
+  await page.mouse.down();
+  await page.mouse.move(startX + dx, startY + dy, { steps: 10 });
+  await page.mouse.up();
+  // Live relayout animation
+  await page.waitForTimeout(1000);
+}
+
+test.describe('Physics Layout Algorithm', () => {
+
+  test('renders all images without errors', async ({ page }) => {
+    const errors: string[] = [];
+    page.on('pageerror', (err) => errors.push(err.message));
+
+    await initGallery(page);
+
+    expect(await getImageCount(page)).toBe(9);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('images do not overlap', async ({ page }) => {
+    await initGallery(page, { gap: 10 });
+    expectNoOverlaps(await getImageBoxes(page));
+  });
+
+  test('images stay inside the container walls', async ({ page }) => {
+    await initGallery(page, {}, 12);
+
+    const size = await page.evaluate(() => {
+      const el = document.getElementById('imageCloud')!;
+      return { width: el.offsetWidth, height: el.offsetHeight };
+    });
+    for (const box of await getImageBoxes(page)) {
+      expect(box.left).toBeGreaterThanOrEqual(19);
+      expect(box.top).toBeGreaterThanOrEqual(19);
+      expect(box.right).toBeLessThanOrEqual(size.width - 19);
+      expect(box.bottom).toBeLessThanOrEqual(size.height - 19);
+    }
+  });
+
+  test('images gather around the center', async ({ page }) => {
+    await initGallery(page, {}, 4);
+
+    const size = await page.evaluate(() => {
+      const el = document.getElementById('imageCloud')!;
+      return { width: el.offsetWidth, height: el.offsetHeight };
+    });
+    const layout = await page.evaluate(() => (window as any).gallery.getLayout());
+    for (const l of layout) {
+      expect(Math.abs(l.x - size.width / 2)).toBeLessThan(size.width / 4);
+      expect(Math.abs(l.y - size.height / 2)).toBeLessThan(size.height / 4);
+    }
+  });
+
+  test('live mode keeps the dropped image where it was dropped', async ({ page }) => {
+    await initGallery(page, { live: true });
+
+    const before = await page.evaluate(() => (window as any).gallery.getLayout());
+    await drag(page, 0, 80, 40);
+
+    const after = await page.evaluate(() => (window as any).gallery.getLayout());
+    expect(after[0].x).toBeCloseTo(before[0].x + 80, 0);
+    expect(after[0].y).toBeCloseTo(before[0].y + 40, 0);
+  });
+
+  test('live mode pushes other images aside after a drop', async ({ page }) => {
+    await initGallery(page, { live: true });
+
+    // Drop image 0 onto image 1
+    const layout = await page.evaluate(() => (window as any).gallery.getLayout());
+    await drag(page, 0, layout[1].x - layout[0].x, layout[1].y - layout[0].y);
+
+    expectNoOverlaps(await getImageBoxes(page));
+  });
+
+  test('without live mode a drop leaves the other images alone', async ({ page }) => {
+    await initGallery(page);
+
+    const before = await page.evaluate(() => (window as any).gallery.getLayout());
+    await drag(page, 0, before[1].x - before[0].x, before[1].y - before[0].y);
+
+    const after = await page.evaluate(() => (window as any).gallery.getLayout());
+    for (let i = 1; i < before.length; i++) {
+      expect(after[i].x).toBeCloseTo(before[i].x, 1);
+      expect(after[i].y).toBeCloseTo(before[i].y, 1);
+    }
+  });
+
+});
@@ -0,0 +1,162 @@
+import { test, expect } from '@playwright/test';
+import { getImageCount } from '../utils/test-helpers';
+
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg',
+  '/test/fixtures/images/food1.jpg',
+  '/test/fixtures/images/food2.jpg',
+  '/test/fixtures/images/food3.jpg'
+];
+
+async function initGallery(page: any, shapeConfig: object, imageCount = 24) {
+  await page.goto('/test/fixtures/layout-shape.html');
+
+  const urls: string[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    urls.push(TEST_IMAGES[i % TEST_IMAGES.length]);
+  }
+
+  await page.evaluate(async ({ urls, shape }: { urls: string[], shape: object }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      loaders: [{ static: { sources: [{ urls }], validateUrls: false } }],
+      layout: {
+        algorithm: 'shape',
+        seed: 7,
+        spacing: { padding: 20 },
+        shape
+      },
+      image: { sizing: { mode: 'fixed', height: 100 } },
+      animation: { duration: 50, queue: { enabled: true, interval: 10 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { urls, shape: shapeConfig });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 8000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+async function getCenters(page: any): Promise<{ x: number, y: number }[]> {
+  return page.evaluate(() => (window as any).gallery.getLayout().map((l: any) => ({ x: l.x, y: l.y })));
+}
+
+/**
+ * Extent of the image centers; edge images sit on the outline, so this is about the fitted shape
+ */
+function extent(centers: { x: number, y: number }[]) {
+  const minX = Math.min(...centers.map(c => c.x));
+  const maxX = Math.max(...centers.map(c => c.x));
+  const minY = Math.min(...centers.map(c => c.y));
+  const maxY = Math.max(...centers.map(c => c.y));
+  return { minX, minY, width: maxX - minX, height: maxY - minY };
+}
+
+test.describe('Shape Layout Algorithm', () => {
+
+  test('renders all images without errors', async ({ page }) => {
+    const errors: string[] = [];
+    page.on('pageerror', (err) => errors.push(err.message));
+
+    await initGallery(page, { points: [[0, 100], [50, 0], [100, 100]] });
+
+    expect(await getImageCount(page)).toBe(24);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('polygon: image centers stay inside the triangle', async ({ page }) => {
+    await initGallery(page, { points: [[0, 100], [50, 0], [100, 100]] });
+
+    const centers = await getCenters(page);
+    const box = extent(centers);
+    const middle = box.minX + box.width / 2;
+    for (const c of centers) {
+      // Width of the triangle at this height, plus a little for sampling jitter
+      const t = (c.y - box.minY) / box.height;
+      expect(Math.abs(c.x - middle)).toBeLessThanOrEqual(t * box.width / 2 + box.width * 0.05);
+    }
+  });
+
+  test('path: evenodd leaves the hole empty', async ({ page }) => {
+    await initGallery(page, {
+      path: 'M0 0 H100 V100 H0 Z M30 30 H70 V70 H30 Z',
+      fillRule: 'evenodd'
+    }, 30);
+
+    const centers = await getCenters(page);
+    const box = extent(centers);
+    for (const c of centers) {
+      const u = (c.x - box.minX) / box.width;
+      const v = (c.y - box.minY) / box.height;
+      expect(u > 0.33 && u < 0.67 && v > 0.33 && v < 0.67).toBe(false);
+    }
+  });
+
+  test('text: a wide word spreads images wider than tall', async ({ page }) => {
+    await initGallery(page, { text: 'CLOUD', font: 'bold 100px sans-serif' });
+
+    const box = extent(await getCenters(page));
+    expect(box.width).toBeGreaterThan(box.height * 2);
+  });
+
+  test('edge 1 puts every image on the outline', async ({ page }) => {
+    await initGallery(page, { points: [[0, 0], [100, 0], [100, 100], [0, 100]], edge: 1 }, 16);
+
+    const centers = await getCenters(page);
+    const box = extent(centers);
+    for (const c of centers) {
+      const fromEdge = Math.min(c.x - box.minX, box.minX + box.width - c.x, c.y - box.minY, box.minY + box.height - c.y);
+      expect(fromEdge).toBeLessThan(box.width * 0.02);
+    }
+  });
+
+  test('higher density gives larger images', async ({ page }) => {
+    await initGallery(page, { points: [[0, 0], [100, 0], [100, 100], [0, 100]] });
+    const normal = await page.evaluate(() => (window as any).gallery.getLayout()[0].scale);
+
+    await initGallery(page, { points: [[0, 0], [100, 0], [100, 100], [0, 100]], density: 1.5 });
+    const dense = await page.evaluate(() => (window as any).gallery.getLayout()[0].scale);
+
+    expect(dense).toBeCloseTo(normal * 1.5, 5);
+  });
+
+  test('images stay inside the container', async ({ page }) => {
+    await initGallery(page, { text: 'HI' });
+
+    const size = await page.evaluate(() => {
+      const el = document.getElementById('imageCloud')!;
+      return { width: el.offsetWidth, height: el.offsetHeight };
+    });
+    for (const c of await getCenters(page)) {
+      expect(c.x).toBeGreaterThan(20);
+      expect(c.x).toBeLessThan(size.width - 20);
+      expect(c.y).toBeGreaterThan(20);
+      expect(c.y).toBeLessThan(size.height - 20);
+    }
+  });
+
+  test('warns and fills the container when no shape is given', async ({ page }) => {
+    const warnings: string[] = [];
+    page.on('console', (msg) => {
+      if (msg.type() === 'warning') warnings.push(msg.text());
+    });
+
+    await initGallery(page, {}, 6);
+
+    expect(await getImageCount(page)).toBe(6);
+    expect(warnings.some(w => w.includes('layout.shape needs a path, points or text'))).toBe(true);
+  });
+
+});
@@ -0,0 +1,187 @@
+import { test, expect } from '@playwright/test';
+
+const TEST_IMAGES = [
+  '/test/fixtures/images/image1.jpg',
+  '/test/fixtures/images/image2.jpg',
+  '/test/fixtures/images/image3.jpg'
+];
+
+// Fullscreen is off so the viewport stays the page's; it is covered by the
+// overlay filling the window either way
+async function initGallery(page: any, lightbox: object = {}, imageCount = 6) {
+  await page.goto('/test/fixtures/lightbox.html');
+
+  const images: object[] = [];
+  for (let i = 0; i < imageCount; i++) {
+    images.push({ url: TEST_IMAGES[i % TEST_IMAGES.length], alt: `Image ${i}`, caption: i === 0 ? 'First caption' : undefined });
+  }
+
+  await page.evaluate(async ({ images, lightbox }: { images: object[], lightbox: object }) => {
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: { algorithm: 'grid', seed: 42 },
+      interaction: { focus: { animationDuration: 100, mode: 'lightbox', lightbox: { fullscreen: false, ...lightbox } } },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, { images, lightbox });
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    imageCount,
+    { timeout: 10000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+async function clickImage(page: any, index = 0) {
+  await page.locator(`#imageCloud img[data-image-id="${index}"]`).click();
+  await page.waitForTimeout(300);
+}
+
+function lightboxImage(page: any) {
+  return page.locator('.fbn-ic-lightbox-stage img.fbn-ic-focused');
+}
+
+test.describe('Lightbox', () => {
+
+  test('clicking an image opens it in a full-viewport overlay', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+
+    await expect(page.locator('.fbn-ic-lightbox.fbn-ic-lightbox-open')).toHaveCount(1);
+    const overlay = (await page.locator('.fbn-ic-lightbox').boundingBox())!;
+    const viewport = page.viewportSize()!;
+    expect(overlay.width).toBeCloseTo(viewport.width, 0);
+    expect(overlay.height).toBeCloseTo(viewport.height, 0);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('the image fits the overlay and the original is hidden', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+
+    const box = (await lightboxImage(page).boundingBox())!;
+    const viewport = page.viewportSize()!;
+    // Fills the width or height between the margins, centered horizontally
+    expect(box.width >= viewport.width - 129 || box.height >= viewport.height - 200).toBe(true);
+    expect(box.x + box.width / 2).toBeCloseTo(viewport.width / 2, 0);
+    await expect(page.locator('#imageCloud img[data-image-id="0"]')).toHaveCSS('visibility', 'hidden');
+  });
+
+  test('shows the caption, falling back to alt text', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+    await expect(page.locator('.fbn-ic-lightbox-caption')).toHaveText('First caption');
+
+    await page.locator('.fbn-ic-lightbox-next').click();
+    await page.waitForTimeout(300);
+    await expect(page.locator('.fbn-ic-lightbox-caption')).toHaveText('Image 1');
+  });
+
+  test('captions can be turned off', async ({ page }) => {
+    await initGallery(page, { captions: false });
+    await clickImage(page);
+
+    await expect(page.locator('.fbn-ic-lightbox-caption')).toBeHidden();
+  });
+
+  test('prev and next buttons move between images', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page, 2);
+
+    await page.locator('.fbn-ic-lightbox-next').click();
+    await page.waitForTimeout(300);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(3);
+
+    await page.locator('.fbn-ic-lightbox-prev').click();
+    await page.locator('.fbn-ic-lightbox-prev').click();
+    await page.waitForTimeout(300);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(1);
+    await expect(lightboxImage(page)).toHaveAttribute('data-image-id', '1');
+  });
+
+  test('the close button closes the lightbox and flies the image back', async ({ page }) => {
+    await initGallery(page);
+    const before = (await page.locator('#imageCloud img[data-image-id="0"]').boundingBox())!;
+    await clickImage(page);
+
+    await page.locator('.fbn-ic-lightbox-close').click();
+    await page.waitForTimeout(300);
+
+    await expect(page.locator('.fbn-ic-lightbox')).toHaveCount(0);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+    const original = page.locator('#imageCloud img[data-image-id="0"]');
+    await expect(original).toHaveCSS('visibility', 'visible');
+    const after = (await original.boundingBox())!;
+    expect(after.x).toBeCloseTo(before.x, 0);
+    expect(after.width).toBeCloseTo(before.width, 0);
+  });
+
+  test('clicking the backdrop or pressing Escape closes the lightbox', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+    await page.mouse.click(5, 5);
+    await page.waitForTimeout(300);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+
+    await clickImage(page, 1);
+    await page.keyboard.press('Escape');
+    await page.waitForTimeout(300);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+    await expect(page.locator('.fbn-ic-lightbox')).toHaveCount(0);
+  });
+
+  test('clicking the lightbox image keeps it open', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+
+    await lightboxImage(page).click();
+    await page.waitForTimeout(300);
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('the filmstrip shows every image and switches to the one clicked', async ({ page }) => {
+    await initGallery(page, { filmstrip: true });
+    await clickImage(page);
+
+    const thumbs = page.locator('.fbn-ic-lightbox-thumb');
+    await expect(thumbs).toHaveCount(6);
+    await expect(thumbs.nth(0)).toHaveClass(/fbn-ic-active/);
+
+    await thumbs.nth(4).click();
+    await page.waitForTimeout(300);
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(4);
+    await expect(thumbs.nth(4)).toHaveClass(/fbn-ic-active/);
+    await expect(thumbs.nth(0)).not.toHaveClass(/fbn-ic-active/);
+  });
+
+  test('has no filmstrip by default', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+
+    await expect(page.locator('.fbn-ic-lightbox-filmstrip')).toHaveCount(0);
+  });
+
+  test('updateOptions switches back to inline focus', async ({ page }) => {
+    await initGallery(page);
+    await clickImage(page);
+
+    await page.evaluate(() => window.gallery.updateOptions({ interaction: { focus: { mode: 'inline' } } }));
+    await expect(page.locator('.fbn-ic-lightbox')).toHaveCount(0);
+
+    await clickImage(page, 1);
+    await expect(page.locator('#imageCloud img[data-image-id="1"]')).toHaveClass(/fbn-ic-focused/);
+    await expect(page.locator('.fbn-ic-lightbox')).toHaveCount(0);
+  });
+
+});
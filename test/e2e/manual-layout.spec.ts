@@ -0,0 +1,134 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction(() => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === 4 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+async function getPositions(page: Page) {
+  return page.evaluate(() =>
+    Array.from(document.querySelectorAll<HTMLImageElement>('#imageCloud img'))
+      .sort((a, b) => Number(a.dataset.imageId) - Number(b.dataset.imageId))
+      .map(img => ({ x: parseFloat(img.style.left), y: parseFloat(img.style.top), zIndex: img.style.zIndex }))
+  );
+}
+
+test.describe('Manual layout', () => {
+
+  test.describe('saved arrangement', () => {
+
+    test.beforeEach(async ({ page }) => {
+      await page.goto('/test/fixtures/manual-layout.html');
+      await waitForAllImages(page);
+    });
+
+    test('places saved images at their container fractions', async ({ page }) => {
+      const viewport = page.viewportSize()!;
+      const items = await page.evaluate(() => window.savedItems);
+      const positions = await getPositions(page);
+
+      items.forEach((item: any, i: number) => {
+        expect(positions[i].x).toBeCloseTo(item.x * viewport.width, 0);
+        expect(positions[i].y).toBeCloseTo(item.y * viewport.height, 0);
+      });
+      expect(positions[0].zIndex).toBe('2');
+      expect(positions[1].zIndex).toBe('5');
+    });
+
+    test('applies saved rotation and scale', async ({ page }) => {
+      const layout = await page.evaluate(() => window.gallery.getLayout());
+      expect(layout[0].rotation).toBe(-10);
+      expect(layout[1].scale).toBe(1.2);
+      expect(layout[2].rotation).toBe(15);
+    });
+
+    test('places unsaved images with the fallback algorithm', async ({ page }) => {
+      const layout = await page.evaluate(() => window.gallery.getLayout());
+      const viewport = page.viewportSize()!;
+      // Grid puts the fourth image in a cell, not at any saved position
+      expect(layout[3].x).toBeGreaterThan(0);
+      expect(layout[3].x).toBeLessThan(viewport.width);
+      expect(layout[3].x).not.toBeCloseTo(0.5 * viewport.width, 0);
+    });
+
+    test('scales the arrangement when the container resizes', async ({ page }) => {
+      await page.setViewportSize({ width: 800, height: 500 });
+      await page.waitForTimeout(1200);
+
+      const items = await page.evaluate(() => window.savedItems);
+      const positions = await getPositions(page);
+      items.forEach((item: any, i: number) => {
+        expect(positions[i].x).toBeCloseTo(item.x * 800, 0);
+        expect(positions[i].y).toBeCloseTo(item.y * 500, 0);
+      });
+    });
+
+  });
+
+  test.describe('getLayout and exportLayout', () => {
+
+    test.beforeEach(async ({ page }) => {
+      await page.goto('/test/fixtures/manual-layout.html?mode=generated');
+      await waitForAllImages(page);
+    });
+
+    test('getLayout returns copies of the current layout', async ({ page }) => {
+      const result = await page.evaluate(() => {
+        const layout = window.gallery.getLayout();
+        const fromHook = window.callbackLog.find((e: any) => e.event === 'layout').layouts;
+        layout[0].x = -1000;
+        return { layout: window.gallery.getLayout(), fromHook };
+      });
+      expect(result.layout).toEqual(result.fromHook);
+    });
+
+    test('exportLayout stores positions as container fractions with URLs', async ({ page }) => {
+      const viewport = page.viewportSize()!;
+      const { layout, items } = await page.evaluate(() => ({
+        layout: window.gallery.getLayout(),
+        items: window.gallery.exportLayout()
+      }));
+
+      expect(items).toHaveLength(4);
+      expect(items[0].url).toBe('/test/fixtures/images/image1.jpg');
+      items.forEach((item: any, i: number) => {
+        expect(item.x).toBeCloseTo(layout[i].x / viewport.width, 5);
+        expect(item.y).toBeCloseTo(layout[i].y / viewport.height, 5);
+        expect(item.rotation).toBe(layout[i].rotation);
+      });
+    });
+
+    test('an exported layout restores the same arrangement', async ({ page }) => {
+      const before = await getPositions(page);
+
+      await page.evaluate(async () => {
+        const items = window.gallery.exportLayout();
+        await window.gallery.updateOptions({ layout: { algorithm: 'manual', manual: { items } } });
+      });
+
+      const after = await getPositions(page);
+      after.forEach((pos, i) => {
+        expect(pos.x).toBeCloseTo(before[i].x, 1);
+        expect(pos.y).toBeCloseTo(before[i].y, 1);
+      });
+    });
+
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+    savedItems: any[];
+  }
+}
@@ -0,0 +1,157 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction(() => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length >= 5 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, { timeout: 10000 });
+}
+
+function focusedImageId(page: Page) {
+  return page.evaluate(() => {
+    const el = document.querySelector('#imageCloud img.fbn-ic-focused') as HTMLImageElement | null;
+    return el?.dataset.imageId ?? null;
+  });
+}
+
+test.describe('Programmatic Navigation API', () => {
+
+  test('getImageCount returns the number of images', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    const count = await page.evaluate(() => window.gallery.getImageCount());
+    expect(count).toBe(5);
+  });
+
+  test('getFocusedIndex is null before anything is focused', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    const index = await page.evaluate(() => window.gallery.getFocusedIndex());
+    expect(index).toBeNull();
+  });
+
+  test('focusImage resolves after the image is focused', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    // Focus state is stable as soon as the promise resolves — no extra wait
+    const result = await page.evaluate(async () => {
+      await window.gallery.focusImage(2);
+      const el = document.querySelector('#imageCloud img.fbn-ic-focused') as HTMLImageElement | null;
+      return { focusedId: el?.dataset.imageId ?? null, index: window.gallery.getFocusedIndex() };
+    });
+
+    expect(result.focusedId).toBe('2');
+    expect(result.index).toBe(2);
+  });
+
+  test('focusImage keeps counter, nav buttons and aria-live in sync', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(() => window.gallery.focusImage(1));
+
+    await expect(page.locator('.fbn-ic-counter')).toHaveText('2 of 5');
+    await expect(page.locator('.fbn-ic-nav-btn-next')).not.toHaveClass(/fbn-ic-hidden/);
+    await expect(page.locator('.fbn-ic-nav-btn-prev')).not.toHaveClass(/fbn-ic-hidden/);
+    await expect(page.locator('#imageCloud')).toHaveClass(/fbn-ic-has-focus/);
+    await expect(page.locator('[aria-live="polite"]')).toContainText('Image 2 of 5');
+  });
+
+  test('focusImage rejects an out-of-range index', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    const message = await page.evaluate(async () => {
+      try {
+        await window.gallery.focusImage(99);
+        return null;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    });
+
+    expect(message).toContain('out of range');
+  });
+
+  test('next and prev wrap around', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(() => window.gallery.focusImage(4));
+    await page.evaluate(() => window.gallery.next());
+    expect(await focusedImageId(page)).toBe('0');
+    await expect(page.locator('.fbn-ic-counter')).toHaveText('1 of 5');
+
+    await page.evaluate(() => window.gallery.prev());
+    expect(await focusedImageId(page)).toBe('4');
+    await expect(page.locator('.fbn-ic-counter')).toHaveText('5 of 5');
+  });
+
+  test('next focuses the first image when nothing is focused', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(() => window.gallery.next());
+    expect(await focusedImageId(page)).toBe('0');
+  });
+
+  test('prev focuses the last image when nothing is focused', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(() => window.gallery.prev());
+    expect(await focusedImageId(page)).toBe('4');
+  });
+
+  test('unfocus resolves after the image returns and resets UI', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(() => window.gallery.focusImage(3));
+    const result = await page.evaluate(async () => {
+      await window.gallery.unfocus();
+      return {
+        focused: document.querySelectorAll('#imageCloud img.fbn-ic-focused').length,
+        index: window.gallery.getFocusedIndex()
+      };
+    });
+
+    expect(result.focused).toBe(0);
+    expect(result.index).toBeNull();
+    await expect(page.locator('.fbn-ic-counter')).toHaveClass(/fbn-ic-hidden/);
+    await expect(page.locator('.fbn-ic-nav-btn-next')).toHaveClass(/fbn-ic-hidden/);
+    await expect(page.locator('#imageCloud')).not.toHaveClass(/fbn-ic-has-focus/);
+  });
+
+  test('fires onImageFocus and onImageUnfocus hooks', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(async () => {
+      await window.gallery.focusImage(0);
+      await window.gallery.next();
+      await window.gallery.unfocus();
+    });
+
+    const log = await page.evaluate(() => window.callbackLog);
+    expect(log).toContainEqual({ event: 'focus', index: 0 });
+    expect(log).toContainEqual({ event: 'focus', index: 1 });
+    expect(log).toContainEqual({ event: 'unfocus', index: 0 });
+    expect(log).toContainEqual({ event: 'unfocus', index: 1 });
+  });
+
+  test('focusing the already-focused image keeps it focused', async ({ page }) => {
+    await page.goto('/test/fixtures/programmatic-navigation.html');
+    await waitForAllImages(page);
+
+    await page.evaluate(() => window.gallery.focusImage(2));
+    await page.evaluate(() => window.gallery.focusImage(2));
+
+    expect(await focusedImageId(page)).toBe('2');
+  });
+});
@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+
+// image1.jpg stands in for a thumbnail, computing1.jpg (4937x3285) for the original
+const THUMBNAIL = '/test/fixtures/images/image1.jpg';
+const FULL = '/test/fixtures/images/computing1.jpg';
+
+async function initGallery(page: any, images: object[]) {
+  await page.goto('/test/fixtures/progressive-resolution.html');
+
+  await page.evaluate(async (images: object[]) => {
+    // @ts-ignore
+    window.loadedCount = 0;
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: { algorithm: 'grid', seed: 42 },
+      interaction: { focus: { animationDuration: 100 } },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } },
+      // @ts-ignore
+      on: { onImageLoaded: () => { window.loadedCount++; } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+  }, images);
+
+  await page.waitForFunction(
+    (n: number) => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img'));
+      return imgs.length >= n && imgs.every(img => (img as HTMLElement).dataset.finalTransform);
+    },
+    images.length,
+    { timeout: 10000 }
+  );
+
+  // Small buffer for CSS animations to complete (duration: 50ms)
+  await page.waitForTimeout(300);
+}
+
+function getSrc(page: any, index = 0) {
+  return page.evaluate((i: number) => document.querySelector<HTMLImageElement>(`#imageCloud img[data-image-id="${i}"]`)!.currentSrc, index);
+}
+
+test.describe('Progressive resolution', () => {
+
+  test('the cloud shows thumbnailUrl', async ({ page }) => {
+    await initGallery(page, [{ url: FULL, thumbnailUrl: THUMBNAIL }, { url: THUMBNAIL }]);
+
+    expect(await getSrc(page, 0)).toContain(THUMBNAIL);
+  });
+
+  test('focusing swaps in the full variant once it has decoded', async ({ page }) => {
+    await initGallery(page, [{ url: THUMBNAIL, fullUrl: FULL }, { url: THUMBNAIL }]);
+
+    await page.evaluate(() => window.gallery.focusImage(0));
+    await page.waitForFunction(() => document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]')!.currentSrc.includes('computing1'));
+
+    const state = await page.evaluate(() => {
+      const img = document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]')!;
+      return { naturalWidth: img.naturalWidth, hasFullSrc: 'fullSrc' in img.dataset };
+    });
+    expect(state.naturalWidth).toBe(4937);
+    expect(state.hasFullSrc).toBe(false);
+    // The load handler does not treat the swap as a new image
+    expect(await page.evaluate(() => window.loadedCount)).toBe(2);
+  });
+
+  test('the swap keeps the focused size and position', async ({ page }) => {
+    await initGallery(page, [{ url: THUMBNAIL, fullUrl: FULL }, { url: THUMBNAIL }]);
+
+    // Hold the full variant back until the focus animation has settled
+    let release: () => void = () => {};
+    const held = new Promise<void>(resolve => { release = resolve; });
+    await page.route('**/computing1.jpg', async (route: any) => {
+      await held;
+      await route.continue();
+    });
+
+    await page.evaluate(() => window.gallery.focusImage(0));
+    await page.waitForTimeout(300);
+    const focused = (await page.locator('#imageCloud img[data-image-id="0"]').boundingBox())!;
+
+    release();
+    await page.waitForFunction(() => document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]')!.currentSrc.includes('computing1'));
+    const swapped = (await page.locator('#imageCloud img[data-image-id="0"]').boundingBox())!;
+    expect(swapped).toEqual(focused);
+  });
+
+  test('unfocusing before the full variant arrives keeps the thumbnail', async ({ page }) => {
+    await initGallery(page, [{ url: THUMBNAIL, fullUrl: FULL }, { url: THUMBNAIL }]);
+
+    let release: () => void = () => {};
+    const held = new Promise<void>(resolve => { release = resolve; });
+    await page.route('**/computing1.jpg', async (route: any) => {
+      await held;
+      await route.continue();
+    });
+
+    await page.evaluate(() => window.gallery.focusImage(0));
+    await page.evaluate(() => window.gallery.unfocus());
+    release();
+    await page.waitForTimeout(500);
+
+    expect(await getSrc(page, 0)).toContain(THUMBNAIL);
+  });
+
+  test('srcset picks the cloud variant and its widest candidate is used on focus', async ({ page }) => {
+    await initGallery(page, [
+      { url: THUMBNAIL, srcset: `${THUMBNAIL} 400w, ${FULL} 4937w`, sizes: '10px' },
+      { url: THUMBNAIL }
+    ]);
+    expect(await getSrc(page, 0)).toContain(THUMBNAIL);
+
+    await page.evaluate(() => window.gallery.focusImage(0));
+    await page.waitForFunction(() => document.querySelector<HTMLImageElement>('#imageCloud img[data-image-id="0"]')!.currentSrc.includes('computing1'));
+  });
+
+});
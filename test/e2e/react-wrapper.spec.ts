@@ -29,7 +29,7 @@ test.describe('React Wrapper', () => {
 
   test.describe('Reactivity', () => {
 
-    test('reinitializes gallery when images prop changes', async ({ page }) => {
+    test('reloads images when images prop changes', async ({ page }) => {
       await page.goto('/test/fixtures/react-test.html');
       const images = page.locator('#root img');
       await expect(images.first()).toBeVisible({ timeout: 10000 });
@@ -47,6 +47,55 @@ test.describe('React Wrapper', () => {
       expect(await images.count()).toBe(2);
     });
 
+    test('applies layout changes to the live instance', async ({ page }) => {
+      await page.goto('/test/fixtures/react-test.html');
+      const images = page.locator('#root img');
+      await expect(images.first()).toBeVisible({ timeout: 10000 });
+      await page.waitForTimeout(500);
+
+      await page.evaluate(() => {
+        const w = window as any;
+        w.initialInstance = w.cloudRef.current.instance;
+        document.querySelectorAll('#root img').forEach(img => img.setAttribute('data-original', 'true'));
+        w.updateLayout('grid');
+      });
+      await page.waitForTimeout(1000);
+
+      const sameInstance = await page.evaluate(() => {
+        const w = window as any;
+        return w.cloudRef.current.instance === w.initialInstance;
+      });
+      expect(sameInstance).toBe(true);
+      // Images were moved, not reloaded
+      expect(await page.locator('#root img[data-original]').count()).toBe(3);
+    });
+
+  });
+
+  test.describe('Removed options', () => {
+
+    test('an option removed from the props goes back to its default', async ({ page }) => {
+      await page.goto('/test/fixtures/react-test.html');
+      await expect(page.locator('#root img').first()).toBeVisible({ timeout: 10000 });
+      await page.waitForTimeout(500);
+
+      await page.evaluate(() => (window as any).updateUi({ showImageCounter: true }));
+      await expect(page.locator('.fbn-ic-counter')).toHaveCount(1);
+
+      await page.evaluate(() => {
+        const w = window as any;
+        w.initialInstance = w.cloudRef.current.instance;
+        w.updateUi(undefined);
+      });
+      // showImageCounter defaults to false
+      await expect(page.locator('.fbn-ic-counter')).toHaveCount(0);
+      const sameInstance = await page.evaluate(() => {
+        const w = window as any;
+        return w.cloudRef.current.instance === w.initialInstance;
+      });
+      expect(sameInstance).toBe(true);
+    });
+
   });
 
   test.describe('Cleanup', () => {
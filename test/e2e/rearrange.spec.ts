@@ -0,0 +1,151 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction(() => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === 4 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+async function getCenter(page: Page, index: number) {
+  return page.evaluate((i) => {
+    const img = document.querySelector<HTMLImageElement>(`#imageCloud img[data-image-id="${i}"]`)!;
+    return { x: parseFloat(img.style.left), y: parseFloat(img.style.top) };
+  }, index);
+}
+
+async function drag(page: Page, index: number, dx: number, dy: number) {
+  const box = (await page.locator(`#imageCloud img[data-image-id="${index}"]`).boundingBox())!;
+  const startX = box.x + box.width / 2;
+  const startY = box.y + box.height / 2;
+  await page.mouse.move(startX, startY);
+  await page.mouse.down();
+  await page.mouse.move(startX + dx, startY + dy, { steps: 10 });
+  await page.mouse.up();
+  await page.waitForTimeout(100);
+}
+
+test.describe('Drag to rearrange', () => {
+
+  test.describe('enabled', () => {
+
+    test.beforeEach(async ({ page }) => {
+      await page.goto('/test/fixtures/rearrange.html');
+      await waitForAllImages(page);
+    });
+
+    test('moves the image by the drag distance', async ({ page }) => {
+      const before = await getCenter(page, 0);
+      await drag(page, 0, 60, 40);
+
+      const after = await getCenter(page, 0);
+      expect(after.x).toBeCloseTo(before.x + 60, 0);
+      expect(after.y).toBeCloseTo(before.y + 40, 0);
+    });
+
+    test('updates the stored layout', async ({ page }) => {
+      await drag(page, 1, 50, 30);
+
+      const center = await getCenter(page, 1);
+      const layout = await page.evaluate(() => window.gallery.getLayout());
+      expect(layout[1].x).toBeCloseTo(center.x, 1);
+      expect(layout[1].y).toBeCloseTo(center.y, 1);
+    });
+
+    test('fires onImageMoved with the new and previous layout', async ({ page }) => {
+      const before = await getCenter(page, 2);
+      await drag(page, 2, -40, 20);
+
+      const moved = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'moved'));
+      expect(moved).toHaveLength(1);
+      expect(moved[0].index).toBe(2);
+      expect(moved[0].previousLayout.x).toBeCloseTo(before.x, 1);
+      expect(moved[0].layout.x).toBeCloseTo(before.x - 40, 0);
+      expect(moved[0].layouts[2]).toEqual(moved[0].layout);
+    });
+
+    test('raises the dropped image above the others', async ({ page }) => {
+      await drag(page, 0, 30, 30);
+      await drag(page, 1, 30, 30);
+
+      const zIndexes = await page.evaluate(() =>
+        [0, 1, 2, 3].map(i => Number(document.querySelector<HTMLImageElement>(`#imageCloud img[data-image-id="${i}"]`)!.style.zIndex || 0))
+      );
+      expect(zIndexes[1]).toBeGreaterThan(zIndexes[0]);
+      expect(zIndexes[0]).toBeGreaterThan(zIndexes[2]);
+    });
+
+    test('keeps the image inside the container', async ({ page }) => {
+      const viewport = page.viewportSize()!;
+      await drag(page, 0, -5000, -5000);
+
+      const box = (await page.locator('#imageCloud img[data-image-id="0"]').boundingBox())!;
+      expect(box.x).toBeGreaterThanOrEqual(-1);
+      expect(box.y).toBeGreaterThanOrEqual(-1);
+
+      await drag(page, 0, 10000, 10000);
+      const end = (await page.locator('#imageCloud img[data-image-id="0"]').boundingBox())!;
+      expect(end.x + end.width).toBeLessThanOrEqual(viewport.width + 1);
+      expect(end.y + end.height).toBeLessThanOrEqual(viewport.height + 1);
+    });
+
+    test('dropping does not focus the image', async ({ page }) => {
+      await drag(page, 0, 60, 0);
+
+      expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+      const focus = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'focus'));
+      expect(focus).toHaveLength(0);
+    });
+
+    test('a click without movement still focuses', async ({ page }) => {
+      await page.locator('#imageCloud img[data-image-id="1"]').click();
+      await page.waitForTimeout(700);
+
+      expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(1);
+    });
+
+    test('images cannot be dragged while one is focused', async ({ page }) => {
+      await page.evaluate(() => window.gallery.focusImage(3));
+      await page.waitForTimeout(700);
+      const before = await getCenter(page, 3);
+
+      await drag(page, 3, 80, 0);
+
+      const moved = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'moved'));
+      expect(moved).toHaveLength(0);
+      expect(await getCenter(page, 3)).toEqual(before);
+    });
+
+    test('images are not natively draggable', async ({ page }) => {
+      const draggable = await page.locator('#imageCloud img[data-image-id="0"]').evaluate(img => (img as HTMLImageElement).draggable);
+      expect(draggable).toBe(false);
+    });
+
+  });
+
+  test('is off by default', async ({ page }) => {
+    await page.goto('/test/fixtures/rearrange.html?rearrange=0');
+    await waitForAllImages(page);
+
+    const before = await getCenter(page, 0);
+    await drag(page, 0, 60, 40);
+
+    expect(await getCenter(page, 0)).toEqual(before);
+    const moved = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'moved'));
+    expect(moved).toHaveLength(0);
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+  }
+}
@@ -62,14 +62,14 @@ test.describe('Responsive Behavior', () => {
 
       // Resize to mobile
       await page.setViewportSize({ width: 400, height: 700 });
-      await waitForAnimation(page, 700); // Wait for debounced resize + animation
+      await waitForAnimation(page, 1200); // Wait for debounced resize + layout morph
 
       const mobileHeight = await img.evaluate((el) => el.getBoundingClientRect().height);
 
       expect(mobileHeight).toBeLessThan(desktopHeight);
     });
 
-    test('minor resize within breakpoint does not re-layout', async ({ page }, testInfo) => {
+    test('minor resize within breakpoint keeps images near their positions', async ({ page }, testInfo) => {
       // Skip on mobile project - this test uses desktop viewport sizes
       test.skip(testInfo.project.name === 'mobile', 'Desktop-only test');
       await page.setViewportSize({ width: 1400, height: 900 });
@@ -86,8 +86,7 @@ test.describe('Responsive Behavior', () => {
 
       const afterBox = await img.boundingBox();
 
-      // Position should be similar (layout preserved)
-      // Note: Some repositioning may occur, so we check approximate equality
+      // Radial positions follow the container's new center, so images only shift slightly
       expect(Math.abs(afterBox!.x - beforeBox!.x)).toBeLessThan(100);
     });
 
@@ -0,0 +1,143 @@
+import { test, expect } from '@playwright/test';
+
+// Declared sizes let the layout run without waiting for downloads
+const IMAGES = [
+  { url: '/test/fixtures/images/image1.jpg', width: 800, height: 533 },
+  { url: '/test/fixtures/images/image2.jpg', width: 800, height: 1200 },
+  { url: '/test/fixtures/images/image3.jpg', width: 800, height: 600 }
+];
+
+/**
+ * Lay out 16 images in a 3D layout and return the reported layouts once every image has entered
+ */
+async function initGallery(page: any, layout: object, scene: object = {}): Promise<any[]> {
+  await page.goto('/test/fixtures/scene-3d.html');
+
+  const images = Array.from({ length: 16 }, (_, i) => IMAGES[i % IMAGES.length]);
+  const layouts = await page.evaluate(async ({ images, layout, scene }: { images: object[], layout: object, scene: object }) => {
+    let layouts: any[] = [];
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: { ...layout, scene },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } },
+      on: { onLayoutComplete: (ctx: any) => { layouts = ctx.layouts; } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+    return layouts;
+  }, { images, layout, scene });
+
+  await page.waitForFunction(() => {
+    const imgs = Array.from(document.querySelectorAll('#imageCloud img')) as HTMLElement[];
+    return imgs.length === 16 && imgs.every(img => img.dataset.finalTransform);
+  });
+  // Let the last entries settle so the scene takes over
+  await page.waitForTimeout(300);
+  return layouts;
+}
+
+function getTransforms(page: any): Promise<string[]> {
+  return page.evaluate(() =>
+    Array.from(document.querySelectorAll('#imageCloud img')).map(img => (img as HTMLElement).style.transform)
+  );
+}
+
+/**
+ * Press on an empty spot of the container (outside every image) and drag
+ */
+async function dragBackground(page: any, dx: number) {
+  const start = await page.evaluate(() => {
+    const container = document.getElementById('imageCloud')!.getBoundingClientRect();
+    for (let y = container.top + 5; y < container.bottom; y += 10) {
+      for (let x = container.left + 5; x < container.right; x += 10) {
+        if (!document.elementFromPoint(x, y)?.closest('.fbn-ic-image')) return { x, y };
+      }
+    }
+    return { x: container.left + 5, y: container.top + 5 };
+  });
+  await page.mouse.move(start.x, start.y);
+  await page.mouse.down();
+  await page.mouse.move(start.x + dx, start.y, { steps: 10 });
+  await page.waitForTimeout(150);
+  await page.mouse.up();
+}
+
+test.describe('3D layouts', () => {
+
+  for (const algorithm of ['sphere', 'cylinder', 'helix']) {
+    test(`${algorithm} poses images in depth`, async ({ page }) => {
+      const layouts = await initGallery(page, { algorithm }, { autoRotate: 0 });
+      expect(layouts).toHaveLength(16);
+      expect(layouts.every(layout => typeof layout.z === 'number' && typeof layout.rotationY === 'number')).toBe(true);
+      expect(new Set(layouts.map(layout => Math.round(layout.z))).size).toBeGreaterThan(1);
+
+      const transforms = await getTransforms(page);
+      expect(transforms.every(transform => transform.includes('translate3d(') && transform.includes('rotateY('))).toBe(true);
+    });
+  }
+
+  test('the container gets the scene perspective', async ({ page }) => {
+    await initGallery(page, { algorithm: 'sphere' }, { perspective: 1400, autoRotate: 0 });
+    const perspective = await page.evaluate(() => document.getElementById('imageCloud')!.style.perspective);
+    expect(perspective).toBe('1400px');
+  });
+
+  test('dims images facing away', async ({ page }) => {
+    await initGallery(page, { algorithm: 'cylinder' }, { autoRotate: 0, backfaceOpacity: 0.25 });
+    const opacities = await page.evaluate(() =>
+      Array.from(document.querySelectorAll('#imageCloud img')).map(img => parseFloat((img as HTMLElement).style.opacity || '1'))
+    );
+    expect(Math.min(...opacities)).toBeLessThan(0.5);
+    expect(Math.max(...opacities)).toBe(1);
+  });
+
+  test('hides images facing away with backface: hide', async ({ page }) => {
+    await initGallery(page, { algorithm: 'cylinder' }, { autoRotate: 0, backface: 'hide' });
+    const hidden = await page.evaluate(() =>
+      Array.from(document.querySelectorAll('#imageCloud img')).filter(img => (img as HTMLElement).style.visibility === 'hidden').length
+    );
+    expect(hidden).toBeGreaterThan(0);
+    expect(hidden).toBeLessThan(16);
+  });
+
+  test('turns on its own', async ({ page }) => {
+    await initGallery(page, { algorithm: 'sphere' }, { autoRotate: 60 });
+    const before = await getTransforms(page);
+    await page.waitForTimeout(500);
+    expect(await getTransforms(page)).not.toEqual(before);
+  });
+
+  test('stays still with autoRotate: 0', async ({ page }) => {
+    await initGallery(page, { algorithm: 'sphere' }, { autoRotate: 0 });
+    const before = await getTransforms(page);
+    await page.waitForTimeout(500);
+    expect(await getTransforms(page)).toEqual(before);
+  });
+
+  test('dragging the background spins the scene', async ({ page }) => {
+    await initGallery(page, { algorithm: 'cylinder' }, { autoRotate: 0, inertia: false });
+    const before = await getTransforms(page);
+    await dragBackground(page, 200);
+    expect(await getTransforms(page)).not.toEqual(before);
+  });
+
+  test('clicking an image focuses it facing the viewer', async ({ page }) => {
+    await initGallery(page, { algorithm: 'cylinder' }, { autoRotate: 0 });
+    // The nearest image faces the viewer, on top of the others
+    const index = await page.evaluate(() => {
+      const imgs = Array.from(document.querySelectorAll('#imageCloud img')) as HTMLElement[];
+      const zIndexes = imgs.map(img => parseInt(img.style.zIndex || '0', 10));
+      return zIndexes.indexOf(Math.max(...zIndexes));
+    });
+    await page.locator('#imageCloud img').nth(index).click();
+    await page.waitForTimeout(800);
+
+    const focused = page.locator('#imageCloud img.fbn-ic-focused');
+    await expect(focused).toHaveCount(1);
+    const transform = await focused.evaluate((img: HTMLElement) => img.style.transform);
+    expect(transform).toContain('rotateY(0deg)');
+  });
+
+});
@@ -0,0 +1,79 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction(() => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === 6 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+async function loadLayout(page: Page, query: string) {
+  await page.goto(`/test/fixtures/seeded-layout.html?${query}`);
+  await waitForAllImages(page);
+  return page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'layout').layouts);
+}
+
+async function loadEntryStarts(page: Page, query: string) {
+  await page.goto(`/test/fixtures/seeded-layout.html?${query}`);
+  await waitForAllImages(page);
+  return page.evaluate(() =>
+    window.callbackLog
+      .filter((e: any) => e.event === 'entry')
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((e: any) => e.from)
+  );
+}
+
+test.describe('Seeded randomness', () => {
+
+  for (const algorithm of ['random', 'grid', 'cluster', 'spiral', 'wave', 'radial']) {
+    test(`${algorithm}: same seed produces the same layout`, async ({ page }) => {
+      const first = await loadLayout(page, `seed=permalink&algorithm=${algorithm}`);
+      const second = await loadLayout(page, `seed=permalink&algorithm=${algorithm}`);
+      expect(second).toEqual(first);
+    });
+  }
+
+  test('different seeds produce different layouts', async ({ page }) => {
+    const first = await loadLayout(page, 'seed=1');
+    const second = await loadLayout(page, 'seed=2');
+    expect(second).not.toEqual(first);
+  });
+
+  test('unseeded layouts differ between loads', async ({ page }) => {
+    const first = await loadLayout(page, '');
+    const second = await loadLayout(page, '');
+    expect(second).not.toEqual(first);
+  });
+
+  test('switching away and back restores the seeded layout', async ({ page }) => {
+    const first = await loadLayout(page, 'seed=42');
+
+    await page.evaluate(() => window.gallery.setLayout('grid', { duration: 100 }));
+    await page.evaluate(() => { window.callbackLog = []; });
+    await page.evaluate(() => window.gallery.setLayout('random', { duration: 100 }));
+
+    const again = await page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'layout').layouts);
+    expect(again).toEqual(first);
+  });
+
+  test('same animation seed produces the same entry starts', async ({ page }) => {
+    const first = await loadEntryStarts(page, 'seed=42');
+    const second = await loadEntryStarts(page, 'seed=42');
+    expect(second).toEqual(first);
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+  }
+}
@@ -0,0 +1,130 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction(() => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === 6 && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+test.describe('setLayout', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/test/fixtures/set-layout.html');
+    await waitForAllImages(page);
+    await page.evaluate(() => { window.callbackLog = []; });
+  });
+
+  test('moves every image to its slot in the new layout', async ({ page }) => {
+    await page.evaluate(() => window.gallery.setLayout('grid', { duration: 100 }));
+
+    const layout = await page.evaluate(() => window.callbackLog.find((e: any) => e.event === 'layout'));
+    expect(layout.algorithm).toBe('grid');
+
+    const positions = await page.evaluate(() =>
+      Array.from(document.querySelectorAll<HTMLImageElement>('#imageCloud img'))
+        .sort((a, b) => Number(a.dataset.imageId) - Number(b.dataset.imageId))
+        .map(img => ({ x: parseFloat(img.style.left), y: parseFloat(img.style.top) }))
+    );
+    positions.forEach((pos, i) => {
+      expect(pos.x).toBeCloseTo(layout.layouts[i].x, 1);
+      expect(pos.y).toBeCloseTo(layout.layouts[i].y, 1);
+    });
+  });
+
+  test('keeps the existing elements instead of reloading', async ({ page }) => {
+    await page.evaluate(() => {
+      document.querySelectorAll('#imageCloud img').forEach(img => img.setAttribute('data-original', 'true'));
+    });
+
+    await page.evaluate(() => window.gallery.setLayout('spiral', { duration: 100 }));
+
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(6);
+    const entries = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'entry'));
+    expect(entries).toHaveLength(0);
+  });
+
+  test('animates from the current position', async ({ page }) => {
+    const before = await page.locator('#imageCloud img[data-image-id="0"]').boundingBox();
+
+    // Sample the first image part-way through a slow morph
+    const midway = await page.evaluate(async () => {
+      const done = window.gallery.setLayout('grid', { duration: 1000, easing: 'linear' });
+      await new Promise(r => setTimeout(r, 300));
+      const rect = document.querySelector('#imageCloud img[data-image-id="0"]')!.getBoundingClientRect();
+      await done;
+      return { x: rect.x, y: rect.y };
+    });
+    const after = await page.locator('#imageCloud img[data-image-id="0"]').boundingBox();
+
+    // Mid-animation position lies between start and end (not snapped to either)
+    const travelled = Math.hypot(midway.x - before!.x, midway.y - before!.y);
+    const total = Math.hypot(after!.x - before!.x, after!.y - before!.y);
+    expect(total).toBeGreaterThan(20);
+    expect(travelled).toBeGreaterThan(0);
+    expect(travelled).toBeLessThan(total);
+  });
+
+  test('fires onLayoutComplete after the morph finishes', async ({ page }) => {
+    const started = await page.evaluate(async () => {
+      const start = performance.now();
+      await window.gallery.setLayout('grid', { duration: 400 });
+      return start;
+    });
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0].time - started).toBeGreaterThanOrEqual(400);
+  });
+
+  test('stagger delays later images', async ({ page }) => {
+    const elapsed = await page.evaluate(async () => {
+      const start = performance.now();
+      await window.gallery.setLayout('grid', { duration: 100, stagger: 100 });
+      return performance.now() - start;
+    });
+
+    // Six images: the last starts 500ms after the first
+    expect(elapsed).toBeGreaterThanOrEqual(600);
+  });
+
+  test('only the latest of overlapping calls reports completion', async ({ page }) => {
+    await page.evaluate(async () => {
+      const first = window.gallery.setLayout('grid', { duration: 400 });
+      const second = window.gallery.setLayout('spiral', { duration: 100 });
+      await Promise.all([first, second]);
+    });
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts.map((l: any) => l.algorithm)).toEqual(['spiral']);
+  });
+
+  test('unfocuses the focused image first', async ({ page }) => {
+    await page.evaluate(() => window.gallery.focusImage(2));
+    await page.evaluate(() => window.gallery.setLayout('grid', { duration: 100 }));
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+    await expect(page.locator('#imageCloud img.fbn-ic-focused')).toHaveCount(0);
+  });
+
+  test('switching to honeycomb applies the hexagon clip-path', async ({ page }) => {
+    await page.evaluate(() => window.gallery.setLayout('honeycomb', { duration: 100 }));
+
+    const clipPath = await page.locator('#imageCloud img[data-image-id="0"]').evaluate(img => getComputedStyle(img).clipPath);
+    expect(clipPath).toContain('polygon');
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+  }
+}
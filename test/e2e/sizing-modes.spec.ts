@@ -110,7 +110,7 @@ test.describe('Sizing Modes', () => {
 
       // Resize to mobile (cross breakpoint)
       await page.setViewportSize({ width: 400, height: 700 });
-      await waitForAnimation(page, 700);
+      await waitForAnimation(page, 1200); // Wait for debounced resize + layout morph
 
       const mobileHeight = await img.evaluate((el) => el.getBoundingClientRect().height);
 
@@ -0,0 +1,169 @@
+import { test, expect, Page } from '@playwright/test';
+
+async function waitForAllImages(page: Page, count: number) {
+  await page.waitForFunction(() => window.galleryInitPromise !== undefined);
+  await page.evaluate(() => window.galleryInitPromise);
+  await page.waitForFunction((n) => {
+    const imgs = document.querySelectorAll('#imageCloud img');
+    return imgs.length === n && Array.from(imgs).every(img => getComputedStyle(img).opacity !== '0');
+  }, count, { timeout: 10000 });
+  // Let entry animations settle
+  await page.waitForTimeout(400);
+}
+
+function markOriginals(page: Page) {
+  return page.evaluate(() => {
+    document.querySelectorAll('#imageCloud img').forEach(img => img.setAttribute('data-original', 'true'));
+    window.callbackLog = [];
+  });
+}
+
+test.describe('updateOptions', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/test/fixtures/update-options.html');
+    await waitForAllImages(page, 4);
+    await markOriginals(page);
+  });
+
+  test('styling changes apply to the existing images', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({
+      styling: { default: { border: { width: 6, color: '#ff0000', style: 'solid' } } }
+    }));
+
+    const borderWidth = await page.locator('#imageCloud img').first().evaluate(img => getComputedStyle(img).borderTopWidth);
+    expect(borderWidth).toBe('6px');
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(4);
+
+    // No re-layout for a styling change
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(0);
+  });
+
+  test('removed styling is cleared from the images', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({
+      styling: { default: { border: { width: 6, color: '#ff0000', style: 'solid' } } }
+    }));
+    await page.evaluate(() => window.gallery.updateOptions({ styling: { default: {} } }));
+
+    const borderWidth = await page.locator('#imageCloud img').first().evaluate(img => getComputedStyle(img).borderTopWidth);
+    expect(borderWidth).toBe('0px');
+  });
+
+  test('layout changes re-layout without reloading', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({ layout: { algorithm: 'grid' } }));
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0].algorithm).toBe('grid');
+
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(4);
+    const entries = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'entry'));
+    expect(entries).toHaveLength(0);
+
+    const left = await page.locator('#imageCloud img[data-image-id="0"]').evaluate(img => parseFloat((img as HTMLElement).style.left));
+    expect(left).toBeCloseTo(layouts[0].layouts[0].x, 1);
+  });
+
+  test('image changes reload the gallery', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({
+      images: ['/test/fixtures/images/scenery1.jpg', '/test/fixtures/images/scenery2.jpg']
+    }));
+    await waitForAllImages(page, 2);
+
+    expect(await page.locator('#imageCloud img[data-original]').count()).toBe(0);
+  });
+
+  test('merges into the current options section by section', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({ layout: { algorithm: 'grid' } }));
+    await page.evaluate(() => { window.callbackLog = []; });
+
+    // Changing only spacing keeps the grid algorithm
+    await page.evaluate(() => window.gallery.updateOptions({ layout: { spacing: { padding: 10 } } }));
+
+    const layouts = await page.evaluate(() => window.callbackLog.filter((e: any) => e.event === 'layout'));
+    expect(layouts).toHaveLength(1);
+    expect(layouts[0].algorithm).toBe('grid');
+  });
+
+  test('keyboard navigation can be turned off', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({ interaction: { navigation: { keyboard: false } } }));
+    await page.evaluate(() => window.gallery.focusImage(0));
+
+    await page.locator('#imageCloud').press('ArrowRight');
+    await page.waitForTimeout(300);
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBe(0);
+  });
+
+  test('UI changes create and remove elements', async ({ page }) => {
+    await expect(page.locator('.fbn-ic-counter')).toHaveCount(0);
+
+    await page.evaluate(() => window.gallery.updateOptions({ ui: { showImageCounter: true } }));
+    await expect(page.locator('.fbn-ic-counter')).toHaveCount(1);
+
+    await page.evaluate(() => window.gallery.focusImage(1));
+    await expect(page.locator('.fbn-ic-counter')).toHaveText('2 of 4');
+
+    await page.evaluate(() => window.gallery.updateOptions({ ui: { showImageCounter: false } }));
+    await expect(page.locator('.fbn-ic-counter')).toHaveCount(0);
+  });
+
+  test('unfocuses the focused image before applying changes', async ({ page }) => {
+    await page.evaluate(() => window.gallery.focusImage(2));
+    await page.evaluate(() => window.gallery.updateOptions({ interaction: { focus: { scalePercent: 0.5 } } }));
+
+    expect(await page.evaluate(() => window.gallery.getFocusedIndex())).toBeNull();
+    await expect(page.locator('#imageCloud img.fbn-ic-focused')).toHaveCount(0);
+  });
+
+  test('back-to-back changes while focused both apply', async ({ page }) => {
+    await page.evaluate(() => window.gallery.focusImage(2));
+    await page.evaluate(() => Promise.all([
+      window.gallery.updateOptions({ ui: { showImageCounter: false } }),
+      window.gallery.updateOptions({ styling: { default: { border: { width: 6, color: '#ff0000', style: 'solid' } } } })
+    ]));
+
+    await expect(page.locator('.fbn-ic-counter')).toHaveCount(0);
+    const borderWidth = await page.locator('#imageCloud img').first().evaluate(img => getComputedStyle(img).borderTopWidth);
+    expect(borderWidth).toBe('6px');
+  });
+
+  test('styling changes keep the live layout state', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({
+      layout: { algorithm: 'physics', physics: { live: true } },
+      image: { rotation: { mode: 'random', range: { min: -30, max: 30 } } }
+    }));
+    const before = await page.evaluate(() => window.gallery.getLayout().map((l: any) => l.rotation));
+
+    await page.evaluate(() => window.gallery.updateOptions({
+      styling: { default: { border: { width: 6, color: '#ff0000', style: 'solid' } } }
+    }));
+    // A live layout continues from the previous positions, keeping each image's random rotation
+    await page.evaluate(() => window.gallery.addImages(['/test/fixtures/images/food2.jpg']));
+
+    const after = await page.evaluate(() => window.gallery.getLayout().map((l: any) => l.rotation));
+    expect(after.slice(0, 4)).toEqual(before);
+  });
+
+  test('new callbacks replace the old ones', async ({ page }) => {
+    await page.evaluate(() => window.gallery.updateOptions({
+      on: { onImageFocus: (ctx: any) => window.callbackLog.push({ event: 'focus-v2', index: ctx.index }) }
+    }));
+    await page.evaluate(() => window.gallery.focusImage(1));
+
+    const events = await page.evaluate(() => window.callbackLog.map((e: any) => e.event));
+    expect(events).toContain('focus-v2');
+    expect(events).not.toContain('focus');
+  });
+
+});
+
+// Type declarations
+declare global {
+  interface Window {
+    galleryInitPromise: Promise<void>;
+    gallery: any;
+    callbackLog: any[];
+  }
+}
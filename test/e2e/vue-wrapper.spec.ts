@@ -28,7 +28,7 @@ test.describe('Vue Wrapper', () => {
 
   test.describe('Reactivity', () => {
 
-    test('reinitializes gallery when options change', async ({ page }) => {
+    test('reloads images when the images option changes', async ({ page }) => {
       await page.goto('/test/fixtures/vue-test.html');
       const images = page.locator('#app img');
       await expect(images.first()).toBeVisible({ timeout: 10000 });
@@ -46,6 +46,55 @@ test.describe('Vue Wrapper', () => {
       expect(await images.count()).toBe(2);
     });
 
+    test('applies layout changes to the live instance', async ({ page }) => {
+      await page.goto('/test/fixtures/vue-test.html');
+      const images = page.locator('#app img');
+      await expect(images.first()).toBeVisible({ timeout: 10000 });
+      await page.waitForTimeout(500);
+
+      await page.evaluate(() => {
+        const w = window as any;
+        w.initialInstance = w.getInstance();
+        document.querySelectorAll('#app img').forEach(img => img.setAttribute('data-original', 'true'));
+        w.updateLayout('grid');
+      });
+      await page.waitForTimeout(1000);
+
+      const sameInstance = await page.evaluate(() => {
+        const w = window as any;
+        return w.getInstance() === w.initialInstance;
+      });
+      expect(sameInstance).toBe(true);
+      // Images were moved, not reloaded
+      expect(await page.locator('#app img[data-original]').count()).toBe(3);
+    });
+
+  });
+
+  test.describe('Removed options', () => {
+
+    test('an option removed from the props goes back to its default', async ({ page }) => {
+      await page.goto('/test/fixtures/vue-test.html');
+      await expect(page.locator('#app img').first()).toBeVisible({ timeout: 10000 });
+      await page.waitForTimeout(500);
+
+      await page.evaluate(() => (window as any).updateUi({ showImageCounter: true }));
+      await expect(page.locator('.fbn-ic-counter')).toHaveCount(1);
+
+      await page.evaluate(() => {
+        const w = window as any;
+        w.initialInstance = w.getInstance();
+        w.updateUi(undefined);
+      });
+      // showImageCounter defaults to false
+      await expect(page.locator('.fbn-ic-counter')).toHaveCount(0);
+      const sameInstance = await page.evaluate(() => {
+        const w = window as any;
+        return w.getInstance() === w.initialInstance;
+      });
+      expect(sameInstance).toBe(true);
+    });
+
   });
 
   test.describe('Cleanup', () => {
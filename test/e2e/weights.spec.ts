@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+
+// Declared sizes let the layout run without waiting for downloads
+const IMAGES = [
+  { url: '/test/fixtures/images/image1.jpg', width: 800, height: 533 },
+  { url: '/test/fixtures/images/image2.jpg', width: 800, height: 1200 },
+  { url: '/test/fixtures/images/image3.jpg', width: 800, height: 600 }
+];
+
+/**
+ * Lay out 12 images, the given one featured, and return the reported layouts
+ */
+async function getLayouts(page: any, layout: object, featured: number, weight = 4): Promise<any[]> {
+  await page.goto('/test/fixtures/weights.html');
+
+  const images = Array.from({ length: 12 }, (_, i) => ({ ...IMAGES[i % IMAGES.length], ...(i === featured ? { weight } : {}) }));
+  return page.evaluate(async ({ images, layout }: { images: object[], layout: object }) => {
+    let layouts: any[] = [];
+    // @ts-ignore
+    window.gallery = new window.ImageCloud({
+      container: 'imageCloud',
+      images,
+      layout: { seed: 42, ...layout },
+      animation: { duration: 50, queue: { enabled: true, interval: 5 } },
+      on: { onLayoutComplete: (ctx: any) => { layouts = ctx.layouts; } }
+    });
+    // @ts-ignore
+    await window.gallery.init();
+    await new Promise(r => setTimeout(r, 300));
+    return layouts;
+  }, { images, layout });
+}
+
+function distanceFromCenter(page: any, layout: { x: number; y: number }) {
+  const { width, height } = page.viewportSize();
+  return Math.hypot(layout.x - width / 2, layout.y - height / 2);
+}
+
+test.describe('Image weights', () => {
+
+  test('scale reflects the weight', async ({ page }) => {
+    const layouts = await getLayouts(page, { algorithm: 'random' }, 5);
+    expect(layouts[5].scale).toBeCloseTo(2, 5);
+    expect(layouts[0].scale).toBeCloseTo(1, 5);
+  });
+
+  for (const algorithm of ['radial', 'spiral']) {
+    test(`${algorithm} places the heaviest image at the center`, async ({ page }) => {
+      const layouts = await getLayouts(page, { algorithm }, 7);
+      const nearest = Math.min(...layouts.map(layout => distanceFromCenter(page, layout)));
+      expect(distanceFromCenter(page, layouts[7])).toBe(nearest);
+    });
+  }
+
+  test('layouts stay in image order', async ({ page }) => {
+    const layouts = await getLayouts(page, { algorithm: 'radial' }, 7);
+    expect(layouts.map(layout => layout.id)).toEqual(layouts.map((_, i) => i));
+  });
+
+  test('grid spans featured images across 2x2 cells', async ({ page }) => {
+    const layouts = await getLayouts(page, { algorithm: 'grid', grid: { gap: 10 } }, 0);
+    expect(layouts[0].scale).toBeGreaterThan(2);
+    expect(layouts.slice(1).every(layout => layout.scale === 1)).toBe(true);
+  });
+
+  test('grid ignores weights below 2', async ({ page }) => {
+    const layouts = await getLayouts(page, { algorithm: 'grid' }, 0, 1.5);
+    expect(layouts.every(layout => layout.scale === 1)).toBe(true);
+  });
+
+});
@@ -141,6 +141,34 @@ test.describe('CompositeLoader Unit Tests', () => {
       ]);
     });
 
+    test('combines descriptors and wraps URL-only custom loaders', async ({ page }) => {
+      const descriptors = await page.evaluate(async () => {
+        // @ts-ignore
+        const staticLoader = new window.StaticImageLoader({
+          sources: [{ urls: [{ url: 'https://example.com/a.jpg', alt: 'First' }] }],
+          validationMethod: 'none'
+        });
+        // Custom loader without imageDescriptors()
+        const customLoader = {
+          prepared: false,
+          async prepare() { this.prepared = true; },
+          imagesLength() { return 1; },
+          imageURLs() { return ['https://example.com/custom.jpg']; },
+          isPrepared() { return this.prepared; }
+        };
+        // @ts-ignore
+        const composite = new window.CompositeLoader({ loaders: [staticLoader, customLoader] });
+        // @ts-ignore
+        await composite.prepare(new window.ImageFilter());
+        return composite.imageDescriptors();
+      });
+
+      expect(descriptors).toEqual([
+        { url: 'https://example.com/a.jpg', alt: 'First' },
+        { url: 'https://example.com/custom.jpg' }
+      ]);
+    });
+
     test('preserves order of loaders', async ({ page }) => {
       const result = await page.evaluate(async () => {
         // @ts-ignore
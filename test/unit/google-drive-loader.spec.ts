@@ -176,6 +176,63 @@ test.describe('GoogleDriveLoader Unit Tests', () => {
 
   });
 
+  test.describe('Image Descriptors', () => {
+
+    test('builds descriptors from Drive file metadata', async ({ page }) => {
+      await page.route('https://www.googleapis.com/drive/v3/files?**', route => {
+        route.fulfill({
+          contentType: 'application/json',
+          body: JSON.stringify({
+            files: [{
+              id: 'abc123',
+              name: 'harbor-dawn.jpg',
+              mimeType: 'image/jpeg',
+              description: 'Harbor at dawn',
+              imageMediaMetadata: { width: 4000, height: 3000 }
+            }]
+          })
+        });
+      });
+
+      const descriptors = await page.evaluate(async () => {
+        // @ts-ignore
+        const loader = new window.GoogleDriveLoader({
+          apiKey: 'test-key',
+          sources: [{ folders: ['https://drive.google.com/drive/folders/folder1'], recursive: false }]
+        });
+        const filter = { isAllowed: () => true };
+        await loader.prepare(filter);
+        return loader.imageDescriptors();
+      });
+
+      expect(descriptors).toEqual([{
+        url: 'https://lh3.googleusercontent.com/d/abc123=s1600',
+        thumbnailUrl: 'https://lh3.googleusercontent.com/d/abc123=s600',
+        fullUrl: 'https://lh3.googleusercontent.com/d/abc123=s2560',
+        alt: 'harbor-dawn',
+        caption: 'Harbor at dawn',
+        width: 4000,
+        height: 3000,
+        meta: { id: 'abc123', name: 'harbor-dawn.jpg', mimeType: 'image/jpeg' }
+      }]);
+    });
+
+    test('imageDescriptors throws before prepare()', async ({ page }) => {
+      const error = await page.evaluate((config) => {
+        // @ts-ignore
+        const loader = new window.GoogleDriveLoader(config);
+        try {
+          loader.imageDescriptors();
+          return null;
+        } catch (e) {
+          return (e as Error).message;
+        }
+      }, minimalConfig);
+      expect(error).toContain('called before prepare()');
+    });
+
+  });
+
   // Setup: load a page that exposes GoogleDriveLoader
   test.beforeEach(async ({ page }) => {
     await page.goto('/test/fixtures/google-drive-unit-test.html');
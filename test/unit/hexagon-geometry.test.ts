@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getHexRectangleCells, getHexTilingParams, hexCubeToPixel, resolveHexTiling } from '../../src/utils/hexagonGeometry.ts';
+
+const HEX_H = 100;
+const HALF_WIDTH = HEX_H / Math.sqrt(3);
+
+function pixels(cells: Array<[number, number, number]>) {
+  return cells.map(([cx, cy, cz]) => hexCubeToPixel(cx, cy, cz, 0, 0, HEX_H));
+}
+
+/**
+ * Bounding box of a rectangle tiling laid out the way HoneycombPlacementLayout does
+ */
+function tilingBox(imageCount: number, columns: number, rows: number, hexH: number, width: number, height: number) {
+  const { colStep, rowOffset } = getHexTilingParams(hexH);
+  const originX = width / 2 - (columns - 1) * colStep / 2;
+  const originY = height / 2 - ((rows - 1) * hexH + (columns > 1 ? rowOffset : 0)) / 2;
+  const points = getHexRectangleCells(imageCount, columns).map(([cx, cy, cz]) => hexCubeToPixel(cx, cy, cz, originX, originY, hexH));
+  const halfWidth = hexH / Math.sqrt(3);
+  return {
+    left: Math.min(...points.map(p => p.px)) - halfWidth,
+    right: Math.max(...points.map(p => p.px)) + halfWidth,
+    top: Math.min(...points.map(p => p.py)) - hexH / 2,
+    bottom: Math.max(...points.map(p => p.py)) + hexH / 2
+  };
+}
+
+describe('getHexRectangleCells', () => {
+
+  it('fills rows left to right, odd columns half a hex lower', () => {
+    const points = pixels(getHexRectangleCells(8, 4));
+    const { colStep } = getHexTilingParams(HEX_H);
+    points.forEach(({ px, py }, index) => {
+      const col = index % 4;
+      const row = Math.floor(index / 4);
+      assert.ok(Math.abs(px - col * colStep) < 1e-9);
+      assert.ok(Math.abs(py - (row * HEX_H + (col % 2) * HEX_H / 2)) < 1e-9);
+    });
+  });
+
+  it('tiles edge to edge: neighbors are one hex height apart', () => {
+    const points = pixels(getHexRectangleCells(12, 4));
+    for (let i = 0; i < points.length; i++) {
+      const neighbors = points.filter((p, j) => j !== i && Math.hypot(p.px - points[i].px, p.py - points[i].py) < HEX_H * 1.01);
+      assert.ok(neighbors.length >= 2);
+      neighbors.forEach(p => {
+        assert.ok(Math.abs(Math.hypot(p.px - points[i].px, p.py - points[i].py) - HEX_H) < 1e-9);
+      });
+    }
+  });
+
+  it('centers a partial last row', () => {
+    const { colStep } = getHexTilingParams(HEX_H);
+    const lastRow = pixels(getHexRectangleCells(6, 5)).slice(5);
+    assert.ok(Math.abs(lastRow[0].px - 2 * colStep) < 1e-9);
+  });
+
+});
+
+describe('resolveHexTiling', () => {
+
+  it('keeps rings by default', () => {
+    assert.equal(resolveHexTiling('rings', 20, 1600, 600, 50, 0).shape, 'rings');
+  });
+
+  it('matches the rectangle to a wide container', () => {
+    const tiling = resolveHexTiling('rectangle', 40, 1600, 600, 50, 0);
+    assert.equal(tiling.shape, 'rectangle');
+    if (tiling.shape !== 'rectangle') return;
+    assert.ok(tiling.columns > tiling.rows);
+    assert.ok(tiling.columns * tiling.rows >= 40);
+  });
+
+  it('sizes the rectangle to fit inside the padding', () => {
+    for (const [width, height] of [[1600, 600], [600, 1200], [900, 900]]) {
+      for (const spacing of [0, 12]) {
+        const tiling = resolveHexTiling('rectangle', 23, width, height, 50, spacing);
+        if (tiling.shape !== 'rectangle') throw new Error('expected a rectangle');
+        const box = tilingBox(23, tiling.columns, tiling.rows, tiling.maxHeight + spacing, width, height);
+        // The box is measured at pitch, so the last hex's spacing may reach past the padding
+        assert.ok(box.left >= 50 - spacing - 1e-6, `left ${box.left}`);
+        assert.ok(box.right <= width - 50 + spacing + 1e-6, `right ${box.right}`);
+        assert.ok(box.top >= 50 - spacing - 1e-6, `top ${box.top}`);
+        assert.ok(box.bottom <= height - 50 + spacing + 1e-6, `bottom ${box.bottom}`);
+        // And it is tight in at least one direction
+        assert.ok(box.left < 50 + tiling.maxHeight * 0.1 || box.top < 50 + tiling.maxHeight * 0.1);
+      }
+    }
+  });
+
+  it('fit picks the rectangle in a wide container and rings for a single image', () => {
+    const rings = resolveHexTiling('rings', 30, 1800, 500, 50, 0);
+    const fit = resolveHexTiling('fit', 30, 1800, 500, 50, 0);
+    assert.equal(fit.shape, 'rectangle');
+    assert.ok(fit.maxHeight > rings.maxHeight);
+    assert.equal(resolveHexTiling('fit', 1, 1800, 500, 50, 0).shape, 'rings');
+  });
+
+  it('fit keeps rings when they fit larger hexes', () => {
+    // 7 images form one ring, which fills a square container better than any rectangle
+    const fit = resolveHexTiling('fit', 7, 800, 800, 50, 0);
+    assert.equal(fit.shape, 'rings');
+  });
+
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getThumbnailUrl, getFullUrl, largestSrcsetCandidate, getKnownAspectRatio } from '../../src/utils/imageDescriptor.ts';
+
+describe('image variants', () => {
+
+  it('uses url for both variants by default', () => {
+    const image = { url: 'a.jpg' };
+    assert.equal(getThumbnailUrl(image), 'a.jpg');
+    assert.equal(getFullUrl(image), 'a.jpg');
+  });
+
+  it('uses thumbnailUrl in the cloud and url on focus', () => {
+    const image = { url: 'a.jpg', thumbnailUrl: 'a-small.jpg' };
+    assert.equal(getThumbnailUrl(image), 'a-small.jpg');
+    assert.equal(getFullUrl(image), 'a.jpg');
+  });
+
+  it('prefers fullUrl, then the widest srcset candidate, on focus', () => {
+    assert.equal(getFullUrl({ url: 'a.jpg', fullUrl: 'a-full.jpg', srcset: 'a-2000.jpg 2000w' }), 'a-full.jpg');
+    assert.equal(getFullUrl({ url: 'a.jpg', srcset: 'a-400.jpg 400w, a-2000.jpg 2000w' }), 'a-2000.jpg');
+  });
+
+});
+
+describe('largestSrcsetCandidate', () => {
+
+  it('picks the widest width descriptor in any order', () => {
+    assert.equal(largestSrcsetCandidate('b.jpg 1600w, a.jpg 400w, c.jpg 800w'), 'b.jpg');
+  });
+
+  it('picks the highest density descriptor, counting a bare URL as 1x', () => {
+    assert.equal(largestSrcsetCandidate('a.jpg, b.jpg 3x, c.jpg 2x'), 'b.jpg');
+  });
+
+  it('keeps commas inside URLs', () => {
+    assert.equal(
+      largestSrcsetCandidate('/img/w_400,h_300/a.jpg 400w,/img/w_1600,h_1200/a.jpg 1600w'),
+      '/img/w_1600,h_1200/a.jpg'
+    );
+  });
+
+  it('returns null for an empty srcset', () => {
+    assert.equal(largestSrcsetCandidate(' , '), null);
+  });
+
+});
+
+describe('getKnownAspectRatio', () => {
+
+  it('divides the declared width by the height', () => {
+    assert.equal(getKnownAspectRatio({ url: 'a.jpg', width: 4000, height: 2000 }), 2);
+  });
+
+  it('is undefined unless both dimensions are positive', () => {
+    assert.equal(getKnownAspectRatio({ url: 'a.jpg', width: 4000 }), undefined);
+    assert.equal(getKnownAspectRatio({ url: 'a.jpg', width: 4000, height: 0 }), undefined);
+    assert.equal(getKnownAspectRatio(undefined), undefined);
+  });
+
+});
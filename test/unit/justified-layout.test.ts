@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JustifiedPlacementLayout } from '../../src/layouts/JustifiedPlacementLayout.ts';
+import type { LayoutConfig, JustifiedAlgorithmConfig, ImageLayout } from '../../src/config/types.ts';
+
+function createLayout(justified: JustifiedAlgorithmConfig = {}): JustifiedPlacementLayout {
+  const config = {
+    algorithm: 'justified',
+    spacing: { padding: 0 },
+    justified
+  } as LayoutConfig;
+  return new JustifiedPlacementLayout(config);
+}
+
+// Rendered box of a layout entry for an image of the given aspect ratio
+function box(layout: ImageLayout, aspectRatio: number) {
+  const height = layout.baseSize;
+  const width = height * aspectRatio;
+  return { left: layout.x - width / 2, right: layout.x + width / 2, top: layout.y - height / 2, bottom: layout.y + height / 2 };
+}
+
+describe('JustifiedPlacementLayout', () => {
+
+  it('fills full rows edge to edge', () => {
+    const layout = createLayout({ rowHeight: 100, gap: 10 });
+    const ratios = [1.5, 1, 2.5, 0.75, 1.5, 1.5];
+    const placed = layout.generate(ratios.length, { width: 500, height: 400 }, { fixedHeight: 100, aspectRatios: ratios });
+
+    // First row: 1.5 + 1 + 2.5 passes 500px at 100px high, so it is shrunk to fit
+    const first = placed.slice(0, 3).map((l, i) => box(l, ratios[i]));
+    assert.ok(Math.abs(first[0].left) < 1e-9);
+    assert.ok(Math.abs(first[2].right - 500) < 1e-9);
+    assert.ok(Math.abs(first[1].left - first[0].right - 10) < 1e-9);
+    assert.ok(placed[0].baseSize < 100);
+  });
+
+  it('gives every image in a row the same height and keeps aspect ratios', () => {
+    const layout = createLayout({ rowHeight: 120 });
+    const ratios = [1.5, 0.6, 1, 1.8, 1.2];
+    const placed = layout.generate(ratios.length, { width: 600, height: 800 }, { fixedHeight: 200, aspectRatios: ratios });
+
+    const rowTops = new Map<number, number>();
+    placed.forEach(l => {
+      assert.equal(l.scale, l.baseSize / 200);
+      assert.equal(l.rotation, 0);
+      const top = Math.round(l.y - l.baseSize / 2);
+      rowTops.set(top, (rowTops.get(top) ?? 0) + 1);
+    });
+    assert.ok(rowTops.size >= 2);
+  });
+
+  it('keeps the target height for an unfilled last row unless justified', () => {
+    const ratios = [1, 1, 1, 1];
+    const bounds = { width: 1000, height: 400 };
+
+    const start = createLayout({ rowHeight: 100 }).generate(4, bounds, { fixedHeight: 100, aspectRatios: ratios });
+    assert.equal(start[3].baseSize, 100);
+    assert.equal(box(start[0], 1).left, 0);
+
+    const justify = createLayout({ rowHeight: 100, lastRow: 'justify', gap: 0 }).generate(4, bounds, { fixedHeight: 100, aspectRatios: ratios });
+    assert.equal(justify[3].baseSize, 250);
+  });
+
+  it('extends below the container when growing', () => {
+    const layout = createLayout({ rowHeight: 100 });
+    assert.equal(layout.growsContainer, true);
+    const placed = layout.generate(20, { width: 300, height: 200 }, { fixedHeight: 100, aspectRatios: new Array(20).fill(1) });
+    assert.ok(Math.max(...placed.map(l => l.y + l.baseSize / 2)) > 200);
+  });
+
+  it('shrinks rows to fit the container with overflow fit', () => {
+    const layout = createLayout({ rowHeight: 100, overflow: 'fit' });
+    assert.equal(layout.growsContainer, false);
+    const placed = layout.generate(20, { width: 300, height: 200 }, { fixedHeight: 100, aspectRatios: new Array(20).fill(1) });
+    for (const l of placed) {
+      const b = box(l, 1);
+      assert.ok(b.top >= -1e-6 && b.bottom <= 200 + 1e-6);
+    }
+  });
+
+  it('assumes a landscape ratio for images that have not loaded', () => {
+    const layout = createLayout({ rowHeight: 100, gap: 0 });
+    const [placed] = layout.generate(1, { width: 1000, height: 400 }, { fixedHeight: 100, aspectRatios: [undefined] });
+    assert.equal(placed.x, 70);
+  });
+
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ManualPlacementLayout } from '../../src/layouts/ManualPlacementLayout.ts';
+import type { LayoutConfig, PlacementLayout, ManualLayoutItem } from '../../src/config/types.ts';
+
+// Puts every image at the container origin so fallback placements are easy to spot
+const originLayout: PlacementLayout = {
+  generate: (imageCount) => Array.from({ length: imageCount }, (_, id) => ({
+    id, x: 0, y: 0, rotation: 0, scale: 1, baseSize: 100
+  }))
+};
+
+function createLayout(items: ManualLayoutItem[]): ManualPlacementLayout {
+  const config = {
+    algorithm: 'manual',
+    spacing: { padding: 50, minGap: 20 },
+    manual: { items }
+  } as LayoutConfig;
+  return new ManualPlacementLayout(config, {}, originLayout);
+}
+
+const bounds = { width: 1000, height: 500 };
+
+describe('ManualPlacementLayout', () => {
+
+  it('converts container fractions to pixels', () => {
+    const layout = createLayout([{ id: 0, x: 0.25, y: 0.5, rotation: 10, scale: 1.5, zIndex: 3 }]);
+    const [placed] = layout.generate(1, bounds, { fixedHeight: 100 });
+    assert.deepEqual(placed, { id: 0, x: 250, y: 250, rotation: 10, scale: 1.5, baseSize: 150, zIndex: 3 });
+  });
+
+  it('scales the arrangement with the container', () => {
+    const layout = createLayout([{ id: 0, x: 0.25, y: 0.5 }]);
+    const [placed] = layout.generate(1, { width: 400, height: 300 });
+    assert.equal(placed.x, 100);
+    assert.equal(placed.y, 150);
+  });
+
+  it('matches items by URL before index', () => {
+    const layout = createLayout([
+      { url: 'b.jpg', x: 0.1, y: 0.1 },
+      { id: 0, x: 0.9, y: 0.9 }
+    ]);
+    const placed = layout.generate(2, bounds, { images: [{ url: 'a.jpg' }, { url: 'b.jpg' }] });
+    assert.equal(placed[0].x, 900);
+    assert.equal(placed[1].x, 100);
+  });
+
+  it('places images without a saved item with the fallback layout', () => {
+    const layout = createLayout([{ id: 1, x: 0.5, y: 0.5 }]);
+    const placed = layout.generate(3, bounds);
+    assert.deepEqual(placed.map(l => l.x), [0, 500, 0]);
+  });
+
+  it('falls back to the id of URL items that match no image', () => {
+    const layout = createLayout([{ id: 0, url: 'gone.jpg', x: 0.5, y: 0.5 }]);
+    const [placed] = layout.generate(1, bounds, { images: [{ url: 'new.jpg' }] });
+    assert.equal(placed.x, 500);
+  });
+
+  it('gives repeated URLs their saved items in order', () => {
+    const layout = createLayout([
+      { id: 0, url: 'a.jpg', x: 0.1, y: 0.1 },
+      { id: 1, url: 'b.jpg', x: 0.5, y: 0.5 },
+      { id: 2, url: 'a.jpg', x: 0.9, y: 0.9 }
+    ]);
+    const placed = layout.generate(3, bounds, { images: [{ url: 'a.jpg' }, { url: 'b.jpg' }, { url: 'a.jpg' }] });
+    assert.deepEqual(placed.map(l => l.x), [100, 500, 900]);
+  });
+
+  it('does not reuse an item taken by URL for another image by id', () => {
+    const layout = createLayout([
+      { id: 0, url: 'a.jpg', x: 0.1, y: 0.1 },
+      { id: 1, url: 'b.jpg', x: 0.5, y: 0.5 }
+    ]);
+    // b.jpg moved to index 0 and takes its item; c.jpg at index 1 has no item left
+    const placed = layout.generate(2, bounds, { images: [{ url: 'b.jpg' }, { url: 'c.jpg' }] });
+    assert.deepEqual(placed.map(l => l.x), [500, 0]);
+  });
+
+});
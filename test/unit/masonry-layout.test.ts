@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MasonryPlacementLayout } from '../../src/layouts/MasonryPlacementLayout.ts';
+import type { LayoutConfig, MasonryAlgorithmConfig } from '../../src/config/types.ts';
+
+function createLayout(masonry: MasonryAlgorithmConfig = {}): MasonryPlacementLayout {
+  const config = {
+    algorithm: 'masonry',
+    spacing: { padding: 0 },
+    masonry
+  } as LayoutConfig;
+  return new MasonryPlacementLayout(config);
+}
+
+describe('MasonryPlacementLayout', () => {
+
+  it('splits the width into equal columns', () => {
+    const layout = createLayout({ columns: 3, gap: 10 });
+    const placed = layout.generate(3, { width: 320, height: 600 }, { fixedHeight: 100, aspectRatios: [1, 1, 1] });
+    assert.deepEqual(placed.map(l => l.x), [50, 160, 270]);
+    placed.forEach(l => assert.equal(l.baseSize, 100));
+  });
+
+  it('puts each image into the shortest column', () => {
+    const layout = createLayout({ columns: 2, gap: 0 });
+    // Image 0 is tall, so images 2 and 3 both go to the right column
+    const placed = layout.generate(4, { width: 200, height: 600 }, { fixedHeight: 100, aspectRatios: [0.25, 1, 1, 1] });
+    assert.deepEqual(placed.map(l => l.x), [50, 150, 150, 150]);
+    assert.deepEqual(placed.map(l => l.y), [200, 50, 150, 250]);
+  });
+
+  it('keeps each image at its aspect ratio', () => {
+    const layout = createLayout({ columns: 2 });
+    const placed = layout.generate(2, { width: 210, height: 600 }, { fixedHeight: 50, aspectRatios: [2, 0.5] });
+    assert.equal(placed[0].baseSize, 50);
+    assert.equal(placed[1].baseSize, 200);
+    assert.equal(placed[1].scale, 4);
+  });
+
+  it('narrows the columns to fit the container with overflow fit', () => {
+    const layout = createLayout({ columns: 2, gap: 0, overflow: 'fit' });
+    const placed = layout.generate(6, { width: 200, height: 200 }, { fixedHeight: 100, aspectRatios: new Array(6).fill(1) });
+    for (const l of placed) {
+      assert.ok(l.y + l.baseSize / 2 <= 200 + 1e-6);
+    }
+    // Centered horizontally once the columns are narrower than the container
+    assert.ok(Math.abs(placed[0].x + placed[1].x - 200) < 1e-6);
+  });
+
+});
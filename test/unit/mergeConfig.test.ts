@@ -50,3 +50,48 @@ describe('mergeConfig - animation duration resolution', () => {
   });
 
 });
+
+describe('mergeConfig - exit animation', () => {
+
+  it('leaves exit animation unset by default', () => {
+    const config = mergeConfig({});
+    assert.equal(config.animation.exit, undefined);
+  });
+
+  it('fills in defaults for a partial exit config', () => {
+    const config = mergeConfig({ animation: { exit: { target: { position: 'center' }, stagger: 40 } } });
+    assert.equal(config.animation.exit!.target!.position, 'center');
+    assert.equal(config.animation.exit!.target!.offset, 100);
+    assert.equal(config.animation.exit!.stagger, 40);
+    assert.equal(config.animation.exit!.fade, true);
+    assert.equal(config.animation.exit!.path!.type, 'linear');
+  });
+
+  it('merges exit path, rotation and scale with their defaults', () => {
+    const config = mergeConfig({
+      animation: { exit: { path: { type: 'bounce' }, scale: { mode: 'grow', startScale: 0.2 } } }
+    });
+    assert.equal(config.animation.exit!.path!.type, 'bounce');
+    assert.equal(config.animation.exit!.scale!.mode, 'grow');
+    assert.equal(config.animation.exit!.scale!.startScale, 0.2);
+    assert.equal(config.animation.exit!.rotation!.mode, 'none');
+  });
+
+});
+
+describe('mergeConfig - lightbox', () => {
+
+  it('defaults to inline focus with the lightbox defaults', () => {
+    const config = mergeConfig({});
+    assert.equal(config.interaction.focus.mode, 'inline');
+    assert.deepEqual(config.interaction.focus.lightbox, { fullscreen: true, captions: true, filmstrip: false });
+  });
+
+  it('merges a partial lightbox config with its defaults', () => {
+    const config = mergeConfig({ interaction: { focus: { mode: 'lightbox', lightbox: { filmstrip: true } } } });
+    assert.equal(config.interaction.focus.mode, 'lightbox');
+    assert.deepEqual(config.interaction.focus.lightbox, { fullscreen: true, captions: true, filmstrip: true });
+    assert.equal(config.interaction.focus.scalePercent, 0.8);
+  });
+
+});
@@ -0,0 +1,181 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { measureOverlap, resolveCollisions, avoidObstacles, exclusionZonePolygon, footprintPolygon } from '../../src/utils/overlap.ts';
+import type { ImageLayout } from '../../src/config/types.ts';
+
+function layout(id: number, x: number, y: number, rotation = 0, scale = 1): ImageLayout {
+  return { id, x, y, rotation, scale, baseSize: 100 };
+}
+
+const SQUARE = { width: 100, height: 100 };
+
+describe('measureOverlap', () => {
+
+  it('is 0 when no footprints touch', () => {
+    const layouts = [layout(0, 50, 50), layout(1, 150, 50), layout(2, 50, 150)];
+    assert.equal(measureOverlap(layouts, [SQUARE, SQUARE, SQUARE]), 0);
+  });
+
+  it('divides the shared area by the total image area', () => {
+    // Half of each square is shared: 5000 / 20000
+    const ratio = measureOverlap([layout(0, 50, 50), layout(1, 100, 50)], [SQUARE, SQUARE]);
+    assert.ok(Math.abs(ratio - 0.25) < 1e-9);
+  });
+
+  it('counts exactly stacked pairs as 0.5', () => {
+    const ratio = measureOverlap([layout(0, 50, 50), layout(1, 50, 50)], [SQUARE, SQUARE]);
+    assert.ok(Math.abs(ratio - 0.5) < 1e-9);
+  });
+
+  it('applies the layout scale', () => {
+    // Scaled to 50x50, the squares 60px apart no longer touch
+    const ratio = measureOverlap([layout(0, 50, 50, 0, 0.5), layout(1, 110, 50, 0, 0.5)], [SQUARE, SQUARE]);
+    assert.equal(ratio, 0);
+  });
+
+  it('measures rotated footprints exactly', () => {
+    // A square turned 45° reaches 70.7px from its center along the axes, so its
+    // corner pokes into a neighbor 110px away; the bounding boxes overlap far more
+    const ratio = measureOverlap([layout(0, 0, 0, 45), layout(1, 110, 0)], [SQUARE, SQUARE]);
+    const tip = 100 / Math.SQRT2 - 60;
+    assert.ok(Math.abs(ratio - (tip * tip) / 20000) < 1e-9);
+  });
+
+  it('throws when a size is missing', () => {
+    assert.throws(() => measureOverlap([layout(0, 0, 0), layout(1, 0, 0)], [SQUARE]), /one \{ width, height \} per layout/);
+  });
+
+});
+
+describe('resolveCollisions', () => {
+
+  const bounds = { width: 1000, height: 1000 };
+
+  it('leaves layouts that already overlap little untouched', () => {
+    const layouts = [layout(0, 100, 100), layout(1, 300, 100)];
+    const result = resolveCollisions(layouts, [SQUARE, SQUARE], bounds, { enabled: true });
+    assert.deepEqual(result, layouts);
+    assert.notEqual(result[0], layouts[0]);
+  });
+
+  it('pushes a pile apart until the overlap drops below maxOverlap', () => {
+    const layouts = Array.from({ length: 12 }, (_, i) => layout(i, 500 + (i % 4) * 10, 500 + Math.floor(i / 4) * 10));
+    const sizes = layouts.map(() => SQUARE);
+    assert.ok(measureOverlap(layouts, sizes) > 0.3);
+
+    const result = resolveCollisions(layouts, sizes, bounds, { enabled: true, maxOverlap: 0.01, iterations: 500 });
+    assert.ok(measureOverlap(result, sizes) <= 0.01);
+  });
+
+  it('does not modify the input layouts', () => {
+    const layouts = [layout(0, 500, 500), layout(1, 510, 500)];
+    resolveCollisions(layouts, [SQUARE, SQUARE], bounds, { enabled: true });
+    assert.equal(layouts[0].x, 500);
+    assert.equal(layouts[1].x, 510);
+  });
+
+  it('keeps anchored images in place', () => {
+    const layouts = [layout(0, 500, 500), layout(1, 520, 500)];
+    const result = resolveCollisions(layouts, [SQUARE, SQUARE], bounds, { enabled: true }, [0]);
+    assert.equal(result[0].x, 500);
+    assert.equal(result[0].y, 500);
+    assert.ok(result[1].x >= 600);
+  });
+
+  it('moves images along the line between their centers', () => {
+    const result = resolveCollisions([layout(0, 500, 500), layout(1, 530, 540)], [SQUARE, SQUARE], bounds, { enabled: true });
+    const angle = Math.atan2(result[1].y - result[0].y, result[1].x - result[0].x);
+    assert.ok(Math.abs(angle - Math.atan2(40, 30)) < 1e-6);
+  });
+
+  it('does not push images out of the container', () => {
+    const layouts = [layout(0, 50, 50), layout(1, 60, 50)];
+    const result = resolveCollisions(layouts, [SQUARE, SQUARE], bounds, { enabled: true });
+    assert.ok(result.every(l => l.x >= 50 && l.y >= 50));
+  });
+
+});
+
+describe('exclusionZonePolygon', () => {
+
+  const bounds = { width: 1000, height: 500 };
+
+  it('scales a rectangle from container fractions to px', () => {
+    assert.deepEqual(
+      exclusionZonePolygon({ x: 0.25, y: 0.2, width: 0.5, height: 0.4 }, bounds),
+      [[250, 100], [750, 100], [750, 300], [250, 300]]
+    );
+  });
+
+  it('scales polygon points from container fractions to px', () => {
+    assert.deepEqual(exclusionZonePolygon({ points: [[0, 0], [1, 0], [0.5, 1]] }, bounds), [[0, 0], [1000, 0], [500, 500]]);
+  });
+
+});
+
+describe('avoidObstacles', () => {
+
+  const bounds = { width: 1000, height: 1000 };
+  // Middle band of the container: x 300-700, y 400-600
+  const band = exclusionZonePolygon({ x: 0.3, y: 0.4, width: 0.4, height: 0.2 }, bounds);
+
+  it('moves images off an obstacle by the shortest way out', () => {
+    // 50px into the band from above: moving up 100px clears it
+    const [moved] = avoidObstacles([layout(0, 500, 400)], [SQUARE], [band], bounds);
+    assert.equal(measureOverlap([moved, layout(1, 500, 500)], [SQUARE, { width: 400, height: 200 }]), 0);
+    assert.ok(Math.abs(moved.x - 500) < 1);
+    assert.ok(Math.abs(moved.y - 350) < 1);
+  });
+
+  it('leaves images that do not touch an obstacle alone', () => {
+    const layouts = [layout(0, 100, 100), layout(1, 900, 900)];
+    assert.deepEqual(avoidObstacles(layouts, [SQUARE, SQUARE], [band], bounds), layouts);
+  });
+
+  it('handles concave polygons', () => {
+    // An L shape: the image sits in its notch and does not need to move
+    const lShape = exclusionZonePolygon({ points: [[0.2, 0.2], [0.8, 0.2], [0.8, 0.3], [0.3, 0.3], [0.3, 0.8], [0.2, 0.8]] }, bounds);
+    const [kept] = avoidObstacles([layout(0, 500, 500)], [SQUARE], [lShape], bounds);
+    assert.equal(kept.x, 500);
+    assert.equal(kept.y, 500);
+  });
+
+  it('keeps fixed images in place and moves others off their footprints', () => {
+    const pinned = layout(0, 500, 500);
+    const result = avoidObstacles([pinned, layout(1, 520, 500)], [SQUARE, SQUARE], [footprintPolygon(pinned, SQUARE)], bounds, [0]);
+    assert.deepEqual(result[0], pinned);
+    assert.ok(measureOverlap(result, [SQUARE, SQUARE]) < 1e-3);
+  });
+
+  it('stays inside the container', () => {
+    // The band spans the full width, so the only ways out are up and down
+    const wide = exclusionZonePolygon({ x: 0, y: 0.4, width: 1, height: 0.2 }, bounds);
+    const [moved] = avoidObstacles([layout(0, 60, 480)], [SQUARE], [wide], bounds);
+    assert.ok(moved.x >= 50);
+    assert.ok(Math.abs(moved.y - 350) < 1);
+  });
+
+});
+
+describe('resolveCollisions with obstacles', () => {
+
+  const bounds = { width: 1000, height: 1000 };
+  const band = exclusionZonePolygon({ x: 0.3, y: 0.4, width: 0.4, height: 0.2 }, bounds);
+  const BAND_SIZE = { width: 400, height: 200 };
+  const bandLayout = layout(-1, 500, 500);
+
+  it('parts images moved off a zone without pushing them back onto it', () => {
+    // A row of images across the band all move off it, piling up along its edges
+    const layouts = [0, 1, 2, 3, 4, 5].map(i => layout(i, 350 + i * 60, 480));
+    const sizes = layouts.map(() => SQUARE);
+    const avoided = avoidObstacles(layouts, sizes, [band], bounds);
+    assert.ok(measureOverlap(avoided, sizes) > 0.02);
+
+    const result = resolveCollisions(avoided, sizes, bounds, { enabled: true }, [], [band]);
+    assert.ok(measureOverlap(result, sizes) <= 0.02);
+    for (const placed of result) {
+      assert.ok(measureOverlap([placed, bandLayout], [SQUARE, BAND_SIZE]) < 1e-3);
+    }
+  });
+
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRandom, hashSeed } from '../../src/utils/random.ts';
+
+function take(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+describe('createRandom', () => {
+
+  it('returns Math.random when no seed is given', () => {
+    assert.equal(createRandom(), Math.random);
+  });
+
+  it('repeats the same sequence for the same seed', () => {
+    assert.deepEqual(take(createRandom(42), 10), take(createRandom(42), 10));
+    assert.deepEqual(take(createRandom('permalink'), 10), take(createRandom('permalink'), 10));
+  });
+
+  it('produces different sequences for different seeds', () => {
+    assert.notDeepEqual(take(createRandom(1), 10), take(createRandom(2), 10));
+    assert.notDeepEqual(take(createRandom(1), 10), take(createRandom(1.5), 10));
+  });
+
+  it('produces independent streams for the same seed', () => {
+    assert.notDeepEqual(take(createRandom(42, 0), 10), take(createRandom(42, 1), 10));
+    assert.deepEqual(take(createRandom(42, 3), 10), take(createRandom(42, 3), 10));
+  });
+
+  it('returns values in [0, 1)', () => {
+    for (const value of take(createRandom('range'), 1000)) {
+      assert.ok(value >= 0 && value < 1, `${value} out of range`);
+    }
+  });
+
+});
+
+describe('hashSeed', () => {
+
+  it('keeps integer seeds as unsigned 32-bit values', () => {
+    assert.equal(hashSeed(7), 7);
+    assert.equal(hashSeed(-1), 0xffffffff);
+  });
+
+  it('hashes strings to stable 32-bit values', () => {
+    assert.equal(hashSeed('abc'), hashSeed('abc'));
+    assert.notEqual(hashSeed('abc'), hashSeed('abd'));
+    assert.ok(Number.isInteger(hashSeed('abc')) && hashSeed('abc') >= 0);
+  });
+
+});
@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeAngle, outwardPose, spinPose, poseFacing, buildSceneTransform, fibonacciSphere, radiusForApparentSize, depthRanks } from '../../src/utils/scene3d.ts';
+import type { ImageLayout } from '../../src/config/types.ts';
+
+const DEG = Math.PI / 180;
+
+/**
+ * Direction an image posed with rotateY(rotationY) rotateX(rotationX) faces
+ */
+function normal(pose: { rotationX: number; rotationY: number }) {
+  const rx = pose.rotationX * DEG;
+  const ry = pose.rotationY * DEG;
+  return { x: Math.cos(rx) * Math.sin(ry), y: -Math.sin(rx), z: Math.cos(rx) * Math.cos(ry) };
+}
+
+function close(a: number, b: number, epsilon = 1e-9): boolean {
+  return Math.abs(a - b) < epsilon;
+}
+
+/** Image at spin 0 on the front of a 300px sphere around x = 500 */
+function frontLayout(): ImageLayout {
+  return { id: 0, x: 500, y: 400, z: 300, rotationX: 0, rotationY: 0, rotation: 0, scale: 1, baseSize: 100 };
+}
+
+describe('normalizeAngle', () => {
+
+  it('wraps angles to (-180, 180]', () => {
+    assert.equal(normalizeAngle(190), -170);
+    assert.equal(normalizeAngle(-190), 170);
+    assert.equal(normalizeAngle(180), 180);
+    assert.equal(normalizeAngle(-180), 180);
+    assert.equal(normalizeAngle(720), 0);
+  });
+
+});
+
+describe('outwardPose', () => {
+
+  it('faces images on a sphere away from its center', () => {
+    for (const point of fibonacciSphere(20)) {
+      const n = normal(outwardPose(point.x, point.y, point.z, true));
+      assert.ok(close(n.x, point.x) && close(n.y, point.y) && close(n.z, point.z));
+    }
+  });
+
+  it('keeps images on a cylinder upright', () => {
+    const pose = outwardPose(-200, 0, 0, false);
+    assert.equal(pose.rotationX, 0);
+    assert.equal(pose.rotationY, -90);
+  });
+
+});
+
+describe('spinPose', () => {
+
+  it('turns the front to the right for positive angles', () => {
+    const pose = spinPose(frontLayout(), 500, 90);
+    assert.ok(close(pose.x, 800));
+    assert.ok(close(pose.z, 0));
+    assert.equal(pose.rotationY, 90);
+    assert.equal(pose.y, 400);
+  });
+
+  it('keeps images facing outward while the scene turns', () => {
+    const layout: ImageLayout = { id: 0, x: 700, y: 300, z: 0, ...outwardPose(200, 0, 0, false), rotation: 0, scale: 1, baseSize: 100 };
+    for (const angle of [0, 45, 135, -100]) {
+      const pose = spinPose(layout, 500, angle);
+      const n = normal(pose);
+      const length = Math.hypot(pose.x - 500, pose.z);
+      assert.ok(close(n.x, (pose.x - 500) / length) && close(n.z, pose.z / length));
+    }
+  });
+
+  it('treats layouts without a depth as lying in the scene plane', () => {
+    const pose = spinPose({ id: 0, x: 600, y: 0, rotation: 0, scale: 1, baseSize: 100 }, 500, 180);
+    assert.ok(close(pose.x, 400));
+    assert.ok(close(pose.z, 0));
+  });
+
+});
+
+describe('poseFacing', () => {
+
+  it('is 1 facing the viewer, 0 edge-on and -1 facing away', () => {
+    assert.equal(poseFacing({ rotationX: 0, rotationY: 0 }), 1);
+    assert.ok(close(poseFacing({ rotationX: 0, rotationY: 90 }), 0));
+    assert.equal(poseFacing({ rotationX: 0, rotationY: 180 }), -1);
+    assert.ok(close(poseFacing({ rotationX: 90, rotationY: 0 }), 0));
+  });
+
+});
+
+describe('buildSceneTransform', () => {
+
+  it('centers the image and moves it from its layout slot to the pose', () => {
+    const layout = frontLayout();
+    assert.equal(
+      buildSceneTransform(spinPose(layout, 500, 0), layout, 200, 100),
+      'translate(-100px, -50px) translate3d(0px, 0px, 300px) rotateY(0deg) rotateX(0deg) rotate(0deg) scale(1)'
+    );
+  });
+
+  it('applies the layout rotation and scale after the 3D pose', () => {
+    const layout = { ...frontLayout(), rotation: 10, scale: 1.5 };
+    const transform = buildSceneTransform({ x: 500, y: 400, z: -300, rotationX: 20, rotationY: 180 }, layout, 200, 100);
+    assert.ok(transform.endsWith('translate3d(0px, 0px, -300px) rotateY(180deg) rotateX(20deg) rotate(10deg) scale(1.5)'));
+  });
+
+});
+
+describe('fibonacciSphere', () => {
+
+  it('places points on the unit sphere, from top to bottom', () => {
+    const points = fibonacciSphere(30);
+    assert.equal(points.length, 30);
+    for (const point of points) {
+      assert.ok(close(Math.hypot(point.x, point.y, point.z), 1));
+    }
+    assert.ok(points[0].y < 0);
+    assert.ok(points[29].y > 0);
+  });
+
+  it('spreads points evenly', () => {
+    const points = fibonacciSphere(50);
+    let closest = Infinity;
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        closest = Math.min(closest, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y, points[i].z - points[j].z));
+      }
+    }
+    // 50 evenly spread points are about 0.5 apart; a clumped spread would have near-duplicates
+    assert.ok(closest > 0.3);
+  });
+
+});
+
+describe('radiusForApparentSize', () => {
+
+  it('shrinks the radius so the outline, grown by perspective, has the given size', () => {
+    const radius = radiusForApparentSize(300, 1000);
+    assert.ok(radius < 300);
+    assert.ok(close(radius * 1000 / Math.sqrt(1000 * 1000 - radius * radius), 300));
+  });
+
+});
+
+describe('depthRanks', () => {
+
+  it('ranks the farthest 0 and the nearest highest', () => {
+    assert.deepEqual(depthRanks([10, -50, 200, 0]), [2, 0, 3, 1]);
+  });
+
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { polygonMask, pathBounds, pathMask, textMask } from '../../src/utils/shapeMask.ts';
+
+describe('polygonMask', () => {
+
+  it('fills a square completely', () => {
+    const mask = polygonMask([[0, 0], [10, 0], [10, 10], [0, 10]], 'nonzero', 20)!;
+    assert.equal(mask.columns, 20);
+    assert.equal(mask.rows, 20);
+    assert.equal(mask.filled, 400);
+  });
+
+  it('keeps the aspect ratio of the polygon', () => {
+    const mask = polygonMask([[0, 0], [40, 0], [40, 10], [0, 10]], 'nonzero', 40)!;
+    assert.equal(mask.columns, 40);
+    assert.equal(mask.rows, 10);
+  });
+
+  it('fills about half the bounding box for a triangle', () => {
+    const mask = polygonMask([[0, 0], [100, 0], [0, 100]], 'nonzero', 100)!;
+    assert.ok(Math.abs(mask.filled / (mask.columns * mask.rows) - 0.5) < 0.02);
+  });
+
+  it('leaves the overlap of a self-intersecting polygon empty with evenodd', () => {
+    // Pentagram: the center pentagon is wound twice
+    const star: Array<[number, number]> = [0, 1, 2, 3, 4].map(i => {
+      const angle = -Math.PI / 2 + i * (4 * Math.PI / 5);
+      return [Math.cos(angle) * 50, Math.sin(angle) * 50];
+    });
+    const nonzero = polygonMask(star, 'nonzero', 50)!;
+    const evenodd = polygonMask(star, 'evenodd', 50)!;
+    assert.ok(evenodd.filled < nonzero.filled);
+
+    const center = Math.floor(evenodd.rows / 2) * evenodd.columns + Math.floor(evenodd.columns / 2);
+    assert.equal(nonzero.cells[center], 1);
+    assert.equal(evenodd.cells[center], 0);
+  });
+
+  it('returns null for fewer than three points or no area', () => {
+    assert.equal(polygonMask([[0, 0], [10, 10]]), null);
+    assert.equal(polygonMask([[0, 0], [5, 5], [10, 10]]), null);
+  });
+
+});
+
+describe('pathBounds', () => {
+
+  it('measures absolute line commands', () => {
+    assert.deepEqual(pathBounds('M10 20 L110 20 L60 70 Z'), { x: 10, y: 20, width: 100, height: 50 });
+  });
+
+  it('follows relative, horizontal and vertical commands', () => {
+    assert.deepEqual(pathBounds('m10,10 h50 v30 h-50 z'), { x: 10, y: 10, width: 50, height: 30 });
+  });
+
+  it('treats extra pairs after a moveto as lines', () => {
+    assert.deepEqual(pathBounds('M0 0 100 0 100 40'), { x: 0, y: 0, width: 100, height: 40 });
+  });
+
+  it('includes curve control points', () => {
+    const bounds = pathBounds('M0 50 C0 -50 100 -50 100 50 Z')!;
+    assert.equal(bounds.y, -50);
+    assert.equal(bounds.height, 100);
+  });
+
+  it('returns null for empty or malformed data', () => {
+    assert.equal(pathBounds(''), null);
+    assert.equal(pathBounds('M0 0'), null);
+    assert.equal(pathBounds('10 10 L 20'), null);
+  });
+
+});
+
+describe('canvas masks', () => {
+
+  it('return null when no canvas is available', () => {
+    assert.equal(pathMask('M0 0 L10 0 L10 10 Z'), null);
+    assert.equal(textMask('Hi', 'bold 100px sans-serif'), null);
+  });
+
+});
@@ -374,4 +374,97 @@ test.describe('StaticImageLoader Unit Tests', () => {
 
   });
 
+  test.describe('Image Descriptors', () => {
+
+    test('accepts descriptor objects mixed with URL strings', async ({ page }) => {
+      const result = await page.evaluate(async () => {
+        // @ts-ignore
+        const loader = new window.StaticImageLoader({
+          sources: [{
+            urls: [
+              'https://example.com/a.jpg',
+              { url: 'https://example.com/b.jpg', alt: 'Bee', caption: 'A bee', tags: ['insect'], meta: { id: 7 } }
+            ]
+          }],
+          validateUrls: false
+        });
+        // @ts-ignore
+        const filter = new window.ImageFilter();
+        await loader.prepare(filter);
+        return { urls: loader.imageURLs(), descriptors: loader.imageDescriptors() };
+      });
+
+      expect(result.urls).toEqual(['https://example.com/a.jpg', 'https://example.com/b.jpg']);
+      expect(result.descriptors).toEqual([
+        { url: 'https://example.com/a.jpg' },
+        { url: 'https://example.com/b.jpg', alt: 'Bee', caption: 'A bee', tags: ['insect'], meta: { id: 7 } }
+      ]);
+    });
+
+    test('filters descriptors by URL extension', async ({ page }) => {
+      const urls = await page.evaluate(async () => {
+        // @ts-ignore
+        const loader = new window.StaticImageLoader({
+          sources: [{ urls: [{ url: 'https://example.com/doc.pdf' }, { url: 'https://example.com/ok.png' }] }],
+          validateUrls: false
+        });
+        // @ts-ignore
+        const filter = new window.ImageFilter();
+        await loader.prepare(filter);
+        return loader.imageURLs();
+      });
+
+      expect(urls).toEqual(['https://example.com/ok.png']);
+    });
+
+    test('loads descriptor objects from JSON endpoint', async ({ page }) => {
+      await page.route('/test/fixtures/descriptors.json', route => {
+        route.fulfill({
+          contentType: 'application/json',
+          body: JSON.stringify({
+            images: [
+              '/test/fixtures/images/image1.jpg',
+              { url: '/test/fixtures/images/image2.jpg', alt: 'Second', width: 800, height: 600 },
+              { alt: 'Missing url' }
+            ]
+          })
+        });
+      });
+
+      const descriptors = await page.evaluate(async () => {
+        // @ts-ignore
+        const loader = new window.StaticImageLoader({
+          sources: [{ json: '/test/fixtures/descriptors.json' }],
+          validateUrls: false
+        });
+        // @ts-ignore
+        const filter = new window.ImageFilter();
+        await loader.prepare(filter);
+        return loader.imageDescriptors();
+      });
+
+      expect(descriptors).toEqual([
+        { url: '/test/fixtures/images/image1.jpg' },
+        { url: '/test/fixtures/images/image2.jpg', alt: 'Second', width: 800, height: 600 }
+      ]);
+    });
+
+    test('imageDescriptors throws before prepare()', async ({ page }) => {
+      const error = await page.evaluate(() => {
+        // @ts-ignore
+        const loader = new window.StaticImageLoader({
+          sources: [{ urls: ['https://example.com/a.jpg'] }]
+        });
+        try {
+          loader.imageDescriptors();
+          return null;
+        } catch (e) {
+          return (e as Error).message;
+        }
+      });
+      expect(error).toContain('called before prepare()');
+    });
+
+  });
+
 });
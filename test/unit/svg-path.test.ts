@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenPath } from '../../src/utils/svgPath.ts';
+
+function assertClose(actual: [number, number], expected: [number, number]): void {
+  assert.ok(
+    Math.abs(actual[0] - expected[0]) < 1e-6 && Math.abs(actual[1] - expected[1]) < 1e-6,
+    `expected ${expected}, got ${actual}`
+  );
+}
+
+describe('flattenPath', () => {
+
+  it('keeps straight segments as they are', () => {
+    assert.deepEqual(flattenPath('M0 0 L10 0 L10 20'), [
+      { points: [[0, 0], [10, 0], [10, 20]], closed: false }
+    ]);
+  });
+
+  it('follows relative, horizontal and vertical commands', () => {
+    assert.deepEqual(flattenPath('m5,5 h10 v10 l-10,0'), [
+      { points: [[5, 5], [15, 5], [15, 15], [5, 15]], closed: false }
+    ]);
+  });
+
+  it('treats extra pairs after a moveto as lines', () => {
+    assert.deepEqual(flattenPath('M0 0 10 0 10 10')![0].points, [[0, 0], [10, 0], [10, 10]]);
+  });
+
+  it('closes subpaths and starts a new polyline at each moveto', () => {
+    const polylines = flattenPath('M0 0 H10 V10 Z M20 0 H30')!;
+    assert.equal(polylines.length, 2);
+    assert.equal(polylines[0].closed, true);
+    assert.deepEqual(polylines[0].points[polylines[0].points.length - 1], [0, 0]);
+    assert.deepEqual(polylines[1], { points: [[20, 0], [30, 0]], closed: false });
+  });
+
+  it('samples cubic curves through their midpoint', () => {
+    const points = flattenPath('M0 0 C0 100 100 100 100 0')![0].points;
+    assertClose(points[points.length - 1], [100, 0]);
+    // Midpoint of this symmetric curve is at (50, 75)
+    assertClose(points[(points.length - 1) / 2], [50, 75]);
+  });
+
+  it('reflects the previous control point for smooth curves', () => {
+    const smooth = flattenPath('M0 0 C0 50 50 50 50 0 S100 -50 100 0')!;
+    const explicit = flattenPath('M0 0 C0 50 50 50 50 0 C50 -50 100 -50 100 0')!;
+    assert.deepEqual(smooth, explicit);
+  });
+
+  it('samples quadratic curves', () => {
+    const points = flattenPath('M0 0 Q50 100 100 0')![0].points;
+    assertClose(points[(points.length - 1) / 2], [50, 50]);
+  });
+
+  it('keeps arc points on the circle', () => {
+    const points = flattenPath('M0 50 A50 50 0 0 1 100 50')![0].points;
+    assertClose(points[points.length - 1], [100, 50]);
+    for (const [x, y] of points) {
+      assert.ok(Math.abs(Math.hypot(x - 50, y - 50) - 50) < 1e-6);
+    }
+    // Sweep flag 1 runs clockwise on screen, through the top of the circle
+    assert.ok(Math.min(...points.map(p => p[1])) < 1);
+  });
+
+  it('scales up arc radii that cannot reach the endpoint', () => {
+    const points = flattenPath('M0 0 A1 1 0 0 1 100 0')![0].points;
+    for (const [x, y] of points) {
+      assert.ok(Math.abs(Math.hypot(x - 50, y) - 50) < 1e-6);
+    }
+  });
+
+  it('returns null for malformed data', () => {
+    assert.equal(flattenPath('10 10 L 20'), null);
+    assert.equal(flattenPath('M0 0 L10'), null);
+    assert.equal(flattenPath('M0 0 Z 5'), null);
+  });
+
+  it('drops subpaths without any segment', () => {
+    assert.deepEqual(flattenPath('M0 0'), []);
+    assert.deepEqual(flattenPath(''), []);
+  });
+
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveWeights, hasWeights, weightScale, orderByWeight } from '../../src/utils/weights.ts';
+
+describe('resolveWeights', () => {
+
+  it('defaults every image to 1', () => {
+    assert.deepEqual(resolveWeights(3), [1, 1, 1]);
+  });
+
+  it('reads descriptor weights', () => {
+    assert.deepEqual(resolveWeights(3, [{ url: 'a.jpg', weight: 4 }, { url: 'b.jpg' }, { url: 'c.jpg', weight: 0.5 }]), [4, 1, 0.5]);
+  });
+
+  it('prefers weightFor and falls back to the descriptor when it returns undefined', () => {
+    const images = [{ url: 'a.jpg', weight: 4 }, { url: 'b.jpg', weight: 2 }];
+    const weights = resolveWeights(2, images, (index, url) => (url === 'a.jpg' ? 9 : undefined));
+    assert.deepEqual(weights, [9, 2]);
+  });
+
+  it('passes the index and url to weightFor', () => {
+    const calls: Array<[number, string]> = [];
+    resolveWeights(2, [{ url: 'a.jpg' }, { url: 'b.jpg' }], (index, url) => {
+      calls.push([index, url]);
+      return undefined;
+    });
+    assert.deepEqual(calls, [[0, 'a.jpg'], [1, 'b.jpg']]);
+  });
+
+  it('treats zero, negative and non-finite weights as 1', () => {
+    const images = [{ url: 'a', weight: 0 }, { url: 'b', weight: -2 }, { url: 'c', weight: NaN }, { url: 'd', weight: Infinity }];
+    assert.deepEqual(resolveWeights(4, images), [1, 1, 1, 1]);
+  });
+
+});
+
+describe('hasWeights', () => {
+
+  it('is false when every weight is 1', () => {
+    assert.equal(hasWeights([1, 1, 1]), false);
+    assert.equal(hasWeights(), false);
+  });
+
+  it('is true when any weight differs from 1', () => {
+    assert.equal(hasWeights([1, 3, 1]), true);
+  });
+
+});
+
+describe('weightScale', () => {
+
+  it('grows the area in proportion to the weight', () => {
+    assert.equal(weightScale(4), 2);
+    assert.equal(weightScale(1), 1);
+    assert.equal(weightScale(0.25), 0.5);
+  });
+
+  it('is 1 for missing or invalid weights', () => {
+    assert.equal(weightScale(undefined), 1);
+    assert.equal(weightScale(0), 1);
+    assert.equal(weightScale(NaN), 1);
+  });
+
+});
+
+describe('orderByWeight', () => {
+
+  it('lists the heaviest images first', () => {
+    assert.deepEqual(orderByWeight(4, [1, 3, 2, 5]), [3, 1, 2, 0]);
+  });
+
+  it('keeps the image order for equal weights', () => {
+    assert.deepEqual(orderByWeight(5, [1, 2, 1, 2, 1]), [1, 3, 0, 2, 4]);
+  });
+
+  it('counts missing weights as 1', () => {
+    assert.deepEqual(orderByWeight(3, [0.5]), [1, 2, 0]);
+  });
+
+});